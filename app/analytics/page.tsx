@@ -35,6 +35,7 @@ import { LineChartComponent } from '@/components/charts/line-chart';
 interface AnalyticsSummary {
   totalEmails: number;
   totalSize: string;
+  totalSizeMargin: string | null;
   spaceSaved: string;
   timeSaved: number;
   unsubscribeSuccessRate: number;
@@ -214,6 +215,9 @@ export default function AnalyticsPage() {
                   <div>
                     <p className="text-sm font-medium text-gray-600">Storage Used</p>
                     <p className="text-3xl font-bold">{analytics.totalSize}</p>
+                    {analytics.totalSizeMargin && (
+                      <p className="text-xs text-gray-500">±{analytics.totalSizeMargin} (sampled estimate)</p>
+                    )}
                   </div>
                   <Database className="h-8 w-8 text-green-600" />
                 </div>
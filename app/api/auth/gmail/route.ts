@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { TokenBroker } from '@/lib/token-broker';
+
+/**
+ * Status of the user's offline Gmail grant (used by background jobs)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const grant = await new TokenBroker().getGrantInfo(user.id);
+
+    return NextResponse.json({
+      success: true,
+      grant,
+      needsReauth: grant.status !== 'active',
+    });
+  } catch (error) {
+    console.error('Error in GET /api/auth/gmail:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch Gmail connection status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { GmailService } from '@/lib/gmail/service';
+import { MailBackupError, MailBackupService } from '@/lib/mail-backup';
+
+// Messages re-imported per request
+const MAX_RESTORE_MESSAGES = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const backups = new MailBackupService({ supabase });
+
+    if (!id) {
+      const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200);
+      const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+      return NextResponse.json({ backups: await backups.listBackups(user.id, limit, offset) });
+    }
+
+    // A single message as an .eml file
+    const messageId = searchParams.get('message');
+    if (messageId) {
+      const { message, raw } = await backups.readMessage(user.id, id, messageId);
+      return new NextResponse(new Uint8Array(raw), {
+        headers: {
+          'Content-Type': 'message/rfc822',
+          'Content-Disposition': `attachment; filename="${fileName(message.subject || message.id)}.eml"`,
+        },
+      });
+    }
+
+    // The whole archive
+    if (searchParams.get('format') === 'mbox') {
+      const { backup, data } = await backups.readArchive(user.id, id);
+      const date = backup.created_at.slice(0, 10);
+      return new NextResponse(new Uint8Array(data), {
+        headers: {
+          'Content-Type': 'application/mbox',
+          'Content-Disposition': `attachment; filename="inboxgremlin-backup-${date}-${backup.id.slice(0, 8)}.mbox"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ backup: await backups.getBackup(user.id, id) });
+  } catch (error) {
+    if (error instanceof MailBackupError) {
+      return backupErrorResponse(error);
+    }
+    console.error('Error in GET /api/backups:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: session } = await supabase.auth.getSession();
+    const accessToken = session?.session?.provider_token;
+
+    if (!accessToken) {
+      return NextResponse.json({
+        error: 'Gmail access token not found. Please re-authenticate.'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { action, backupId, messageIds } = body;
+
+    switch (action) {
+      case 'restore': {
+        if (!backupId || !Array.isArray(messageIds) || messageIds.length === 0) {
+          return NextResponse.json({ error: 'backupId and a non-empty messageIds array are required' }, { status: 400 });
+        }
+        if (messageIds.length > MAX_RESTORE_MESSAGES) {
+          return NextResponse.json(
+            { error: `At most ${MAX_RESTORE_MESSAGES} messages can be restored at once` },
+            { status: 400 }
+          );
+        }
+
+        const result = await new MailBackupService({ supabase }).restoreMessages(
+          user.id,
+          backupId,
+          messageIds,
+          new GmailService(accessToken)
+        );
+
+        return NextResponse.json({
+          success: result.errors.length === 0,
+          restoredCount: result.restored.length,
+          ...result,
+        });
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error: any) {
+    if (error instanceof MailBackupError) {
+      return backupErrorResponse(error);
+    }
+
+    console.error('Error in POST /api/backups:', error);
+
+    if (error?.message?.includes('insufficient authentication scopes')) {
+      return NextResponse.json(
+        { error: 'Insufficient Gmail permissions. Please re-authenticate with Google.', needsReauth: true },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Backup ID is required' }, { status: 400 });
+    }
+
+    await new MailBackupService({ supabase }).deleteBackup(user.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof MailBackupError) {
+      return backupErrorResponse(error);
+    }
+    console.error('Error in DELETE /api/backups:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+function backupErrorResponse(error: MailBackupError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.code === 'NOT_FOUND' ? 404 : 400 }
+  );
+}
+
+/**
+ * Safe ASCII file name for Content-Disposition
+ */
+function fileName(value: string): string {
+  return value.replace(/[^\w .-]+/g, '_').trim().slice(0, 80) || 'message';
+}
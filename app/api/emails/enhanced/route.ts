@@ -5,9 +5,6 @@ import { GmailCacheService } from "@/lib/gmail/cache-service";
 import { gmailErrorHandler } from "@/lib/gmail/error-handler";
 import { NextRequest, NextResponse } from "next/server";
 
-// Global cache instance (in production, you'd use Redis or similar)
-const cacheService = new GmailCacheService();
-
 export async function GET(request: NextRequest) {
   try {
     const supabase = await createClient();
@@ -41,8 +38,9 @@ export async function GET(request: NextRequest) {
     }
 
     // Initialize services
+    const cacheService = new GmailCacheService(user.id);
     const gmailService = new GmailService(providerToken);
-    const enhancedService = new GmailEnhancedService(providerToken);
+    const enhancedService = new GmailEnhancedService(providerToken, { cache: cacheService });
 
     // Get query parameters
     const url = new URL(request.url);
@@ -53,10 +51,10 @@ export async function GET(request: NextRequest) {
 
     switch (action) {
       case "dashboard":
-        return await handleDashboard(gmailService, enhancedService, maxResults);
+        return await handleDashboard(gmailService, enhancedService, cacheService, maxResults);
 
       case "analytics":
-        return await handleAnalytics(enhancedService, days);
+        return await handleAnalytics(enhancedService, cacheService, days);
 
       case "insights":
         return await handleInsights(
@@ -70,7 +68,7 @@ export async function GET(request: NextRequest) {
         return await handleThreads(enhancedService, maxResults);
 
       case "cache-stats":
-        return await handleCacheStats();
+        return await handleCacheStats(cacheService);
 
       default:
         return NextResponse.json({ error: "Invalid action" }, { status: 400 });
@@ -131,8 +129,9 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { action, ...params } = body;
 
+    const cacheService = new GmailCacheService(user.id);
     const gmailService = new GmailService(providerToken);
-    const enhancedService = new GmailEnhancedService(providerToken);
+    const enhancedService = new GmailEnhancedService(providerToken, { cache: cacheService });
 
     switch (action) {
       case "analyze_batch":
@@ -149,7 +148,7 @@ export async function POST(request: NextRequest) {
         return await handleApplyFilter(gmailService, enhancedService, params);
 
       case "clear_cache":
-        return await handleClearCache(params);
+        return await handleClearCache(cacheService, params);
 
       default:
         return NextResponse.json({ error: "Invalid action" }, { status: 400 });
@@ -167,28 +166,29 @@ export async function POST(request: NextRequest) {
 async function handleDashboard(
   gmailService: GmailService,
   enhancedService: GmailEnhancedService,
+  cacheService: GmailCacheService,
   maxResults: number
 ) {
   const cacheKey = GmailCacheService.generateEmailKey("dashboard", maxResults);
-  let emails = cacheService.getCachedEmails(cacheKey);
+  let emails = await cacheService.getCachedEmails(cacheKey);
 
   if (!emails) {
     emails = await gmailErrorHandler.executeWithRetry(
       () => gmailService.getRecentEmails(maxResults),
       "dashboard_emails"
     );
-    cacheService.setCachedEmails(cacheKey, emails);
+    await cacheService.setCachedEmails(cacheKey, emails);
   }
 
   const countsKey = GmailCacheService.generateCountsKey();
-  let counts = cacheService.getCachedCounts(countsKey);
+  let counts = await cacheService.getCachedCounts(countsKey);
 
   if (!counts) {
     counts = await gmailErrorHandler.executeWithRetry(
       () => gmailService.getEmailCount(),
       "email_counts"
     );
-    cacheService.setCachedCounts(countsKey, counts);
+    await cacheService.setCachedCounts(countsKey, counts);
   }
 
   // Get quick insights for recent emails
@@ -204,24 +204,25 @@ async function handleDashboard(
       emails,
       counts,
       insights: Object.fromEntries(insights),
-      cacheStats: cacheService.getStats(),
+      cacheStats: await cacheService.getStats(),
     },
   });
 }
 
 async function handleAnalytics(
   enhancedService: GmailEnhancedService,
+  cacheService: GmailCacheService,
   days: number
 ) {
   const cacheKey = GmailCacheService.generateAnalyticsKey(days);
-  let analytics = cacheService.getCachedAnalytics(cacheKey);
+  let analytics = await cacheService.getCachedAnalytics(cacheKey);
 
   if (!analytics) {
     analytics = await gmailErrorHandler.executeWithRetry(
       () => enhancedService.getEmailAnalytics(days),
       "email_analytics"
     );
-    cacheService.setCachedAnalytics(cacheKey, analytics);
+    await cacheService.setCachedAnalytics(cacheKey, analytics);
   }
 
   return NextResponse.json({
@@ -281,10 +282,10 @@ async function handleThreads(
   });
 }
 
-async function handleCacheStats() {
+async function handleCacheStats(cacheService: GmailCacheService) {
   return NextResponse.json({
     success: true,
-    data: cacheService.getStats(),
+    data: await cacheService.getStats(),
   });
 }
 
@@ -316,7 +317,7 @@ async function handleSmartCategorization(
   enhancedService: GmailEnhancedService,
   params: any
 ) {
-  const { query, maxResults = 100 } = params;
+  const { query = "in:inbox", maxResults = 100 } = params;
 
   const emails = await gmailErrorHandler.executeWithRetry(
     () => gmailService.getEmailsByQuery(query, maxResults),
@@ -357,49 +358,63 @@ async function handleApplyFilter(
   enhancedService: GmailEnhancedService,
   params: any
 ) {
-  const { filter, emails: emailIds } = params;
+  const { filter, emails: emailIds, query = "in:inbox", maxResults = 100 } = params;
+
+  if (!filter || typeof filter !== "object") {
+    return NextResponse.json(
+      { error: "filter object is required for apply_filter action" },
+      { status: 400 }
+    );
+  }
 
   // Get full email data if only IDs provided
   let emails;
   if (emailIds && Array.isArray(emailIds)) {
-    // This is a simplified version - in reality you'd fetch these emails
-    emails = await Promise.all(
-      emailIds.map(async (id: string) => {
-        // Fetch individual email data
-        return null; // Placeholder
-      })
+    emails = await gmailErrorHandler.executeWithRetry(
+      () => enhancedService.getEmailsByIds(emailIds),
+      "filter_emails_by_id"
     );
   } else {
     emails = await gmailErrorHandler.executeWithRetry(
-      () => gmailService.getEmailsByQuery("in:inbox", 100),
+      () => gmailService.getEmailsByQuery(query, maxResults),
       "filter_emails"
     );
   }
 
-  const result = await enhancedService.applySmartFilter(filter, emails);
+  let result;
+  try {
+    result = await enhancedService.applySmartFilter(filter, emails);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid filter" },
+      { status: 400 }
+    );
+  }
 
   return NextResponse.json({
     success: true,
     data: {
+      totalEmails: emails.length,
       matchedCount: result.matchedEmails.length,
+      matchedEmails: result.matchedEmails,
       results: result.results,
     },
   });
 }
 
-async function handleClearCache(params: any) {
+async function handleClearCache(cacheService: GmailCacheService, params: any) {
   const { type = "all" } = params;
 
   switch (type) {
     case "emails":
-      cacheService.invalidateEmailsCache();
+      await cacheService.invalidateEmailsCache();
       break;
     case "analytics":
-      cacheService.invalidateAnalyticsCache();
+      await cacheService.invalidateAnalyticsCache();
       break;
     case "all":
     default:
-      cacheService.invalidateAll();
+      await cacheService.invalidateAll();
       break;
   }
 
@@ -1,8 +1,23 @@
 import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 import { GmailService } from "@/lib/gmail/service";
 import { GmailEnhancedService } from "@/lib/gmail/enhanced-service";
+import { TaskQueueService } from "@/lib/task-queue";
+import { GuardedOperation, SafetyGuard, SafetyReport } from "@/lib/safety-guard";
 import { NextRequest, NextResponse } from "next/server";
 
+// Bulk requests above this size run in the background worker
+const ASYNC_THRESHOLD = 500;
+const QUEUEABLE_ACTIONS = ["archive", "delete", "label", "markAsRead"];
+
+// Safety policy operation for each mutating action
+const GUARDED_ACTIONS: Record<string, GuardedOperation> = {
+  archive: "archive",
+  delete: "delete",
+  label: "label",
+  markAsRead: "mark_read",
+};
+
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
@@ -37,13 +52,62 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize Gmail service with the access token
-    const gmailService = new GmailService(providerToken);
-    const enhancedGmailService = new GmailEnhancedService(providerToken);
-
     // Parse request body
     const body = await request.json();
-    const { action, emailIds, labelIds, query, maxResults = 100, withHistory = false } = body;
+    const { action, emailIds, labelIds, query, maxResults = 100, async: runAsync = false, dryRun = false, confirmationToken } = body;
+
+    // Initialize Gmail services with the access token. Mutations always go
+    // through the enhanced service so the safety policy and history apply;
+    // a dry run plans the change instead of making it.
+    const gmailService = new GmailService(providerToken);
+    const enhancedGmailService = new GmailEnhancedService(providerToken, {
+      userId: user.id,
+      dryRun: Boolean(dryRun),
+      safety: { confirmationToken },
+    });
+
+    // Hand large bulk operations to the task queue and return immediately
+    if (
+      !dryRun &&
+      QUEUEABLE_ACTIONS.includes(action) &&
+      Array.isArray(emailIds) &&
+      (runAsync || emailIds.length > ASYNC_THRESHOLD)
+    ) {
+      if (action === "label" && (!labelIds || !Array.isArray(labelIds))) {
+        return NextResponse.json(
+          { error: "emailIds and labelIds arrays are required for label action" },
+          { status: 400 }
+        );
+      }
+
+      // The worker cannot ask for confirmation, so settle it before queueing
+      const guard = await SafetyGuard.forUser(user.id, { confirmationToken });
+      const { emailIds: allowedIds, report: safety } = guard.checkRequest(GUARDED_ACTIONS[action], emailIds);
+      if (safety.blocked) {
+        return confirmationRequired(safety);
+      }
+
+      // Users can only read task_queue; the worker trusts what the server wrote
+      const taskQueue = new TaskQueueService(createAdminClient());
+      const task = await taskQueue.enqueue("bulk_email_operation", user.id, {
+        action,
+        emailIds: allowedIds,
+        labelIds,
+        confirmation: SafetyGuard.sealQueuedConfirmation(user.id, GUARDED_ACTIONS[action], allowedIds),
+        access_token: providerToken,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          queued: true,
+          taskId: task.id,
+          totalCount: allowedIds.length,
+          safety,
+        },
+        { status: 202 }
+      );
+    }
 
     let result;
 
@@ -55,9 +119,7 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        result = withHistory 
-          ? await enhancedGmailService.archiveEmailsWithHistory(emailIds)
-          : await gmailService.archiveEmails(emailIds);
+        result = await enhancedGmailService.archiveEmailsWithHistory(emailIds);
         break;
 
       case "delete":
@@ -67,9 +129,7 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        result = withHistory
-          ? await enhancedGmailService.deleteEmailsWithHistory(emailIds)
-          : await gmailService.deleteEmails(emailIds);
+        result = await enhancedGmailService.deleteEmailsWithHistory(emailIds);
         break;
 
       case "label":
@@ -87,9 +147,7 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        result = withHistory
-          ? await enhancedGmailService.labelEmailsWithHistory(emailIds, labelIds)
-          : await gmailService.labelEmails(emailIds, labelIds);
+        result = await enhancedGmailService.labelEmailsWithHistory(emailIds, labelIds);
         break;
 
       case "markAsRead":
@@ -99,9 +157,7 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        result = withHistory
-          ? await enhancedGmailService.markAsReadWithHistory(emailIds)
-          : await gmailService.markAsRead(emailIds);
+        result = await enhancedGmailService.markAsReadWithHistory(emailIds);
         break;
 
       case "getByQuery":
@@ -147,12 +203,28 @@ export async function POST(request: NextRequest) {
         );
     }
 
+    if (result.safety?.blocked) {
+      return confirmationRequired(result.safety);
+    }
+
+    const plan = enhancedGmailService.getDryRunPlan();
+    if (plan) {
+      return NextResponse.json({
+        success: result.success,
+        dryRun: true,
+        plan,
+        errors: result.errors,
+        safety: result.safety,
+      });
+    }
+
     return NextResponse.json({
       success: result.success,
       processedCount: result.processedCount,
       errors: result.errors,
       operationId: result.operationId,
       canUndo: result.canUndo,
+      safety: result.safety,
     });
   } catch (error: any) {
     console.error("Error organizing emails:", error);
@@ -178,3 +250,18 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * 409 carrying the token the client sends back as confirmationToken
+ */
+function confirmationRequired(safety: SafetyReport) {
+  return NextResponse.json(
+    {
+      error: safety.confirmation?.message || "Confirmation required",
+      confirmationRequired: true,
+      confirmation: safety.confirmation,
+      safety,
+    },
+    { status: 409 }
+  );
+}
@@ -38,17 +38,40 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { operationId } = body;
+    const { operationId, restoreTo } = body;
 
-    if (!operationId) {
+    if (!operationId && !restoreTo) {
       return NextResponse.json(
-        { error: "operationId is required" },
+        { error: "operationId or restoreTo is required" },
         { status: 400 }
       );
     }
 
     // Initialize enhanced Gmail service
-    const enhancedGmailService = new GmailEnhancedService(providerToken);
+    const enhancedGmailService = new GmailEnhancedService(providerToken, { userId: user.id });
+
+    // Restore the mailbox to how it was at a point in time
+    if (restoreTo) {
+      const target = new Date(restoreTo);
+      if (isNaN(target.getTime())) {
+        return NextResponse.json(
+          { error: "restoreTo must be an ISO timestamp" },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const result = await enhancedGmailService.restoreToPointInTime(target);
+        return NextResponse.json({
+          ...result,
+          message: result.success
+            ? `Restored mailbox to ${result.restoreTarget} (${result.undoneOperations.length} operations undone)`
+            : `Restore finished with ${result.failedOperations.length} failed operations`,
+        });
+      } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
 
     // Perform the undo operation
     const success = await enhancedGmailService.undoOperation(operationId);
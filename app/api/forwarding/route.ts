@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { GmailEnhancedService } from '@/lib/gmail/enhanced-service';
+import { ForwardingError, ForwardingService } from '@/lib/forwarding';
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const destinations = await new ForwardingService().listDestinations(user.id);
+    return NextResponse.json({
+      success: true,
+      destinations,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/forwarding:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch forwarding destinations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { action } = body;
+
+    const forwarding = new ForwardingService();
+
+    if (action === 'remove') {
+      if (!body.id) {
+        return NextResponse.json({ error: 'Destination ID required' }, { status: 400 });
+      }
+      await forwarding.removeDestination(user.id, body.id);
+      return NextResponse.json({ success: true });
+    }
+
+    // Remaining actions send mail from the user's account
+    const { data: { session } } = await supabase.auth.getSession();
+    const providerToken = session?.provider_token;
+    if (!providerToken) {
+      return NextResponse.json(
+        { error: 'No Gmail access token found. Please re-authenticate with Google.' },
+        { status: 403 }
+      );
+    }
+
+    const gmailService = new GmailEnhancedService(providerToken, { userId: user.id });
+
+    switch (action) {
+      case 'add': {
+        if (!body.email) {
+          return NextResponse.json({ error: 'Email address required' }, { status: 400 });
+        }
+        const destination = await forwarding.addDestination(user.id, body.email, gmailService, request.nextUrl.origin);
+        return NextResponse.json({
+          success: true,
+          destination,
+          message: destination.status === 'verified'
+            ? 'Address is already verified'
+            : `Verification email sent to ${destination.email}`,
+        });
+      }
+
+      case 'forward': {
+        const { emailIds, destination, ruleId } = body;
+        if (!Array.isArray(emailIds) || emailIds.length === 0 || !destination || !ruleId) {
+          return NextResponse.json(
+            { error: 'emailIds, destination and ruleId are required' },
+            { status: 400 }
+          );
+        }
+        const summary = await forwarding.forwardEmails(gmailService, {
+          userId: user.id,
+          ruleId: String(ruleId),
+          destination,
+          emailIds,
+        });
+        return NextResponse.json({
+          success: summary.errors.length === 0,
+          summary,
+        });
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error: any) {
+    if (error instanceof ForwardingError) {
+      const status = error.code === 'RATE_LIMITED' ? 429 : error.code === 'DESTINATION_NOT_VERIFIED' ? 403 : 400;
+      return NextResponse.json({ error: error.message, code: error.code }, { status });
+    }
+
+    console.error('Error in POST /api/forwarding:', error);
+
+    if (error.message?.includes('insufficient authentication scopes')) {
+      return NextResponse.json(
+        {
+          error: 'Sending mail requires the Gmail send permission. Please re-authenticate with Google.',
+          needsReauth: true,
+        },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to process forwarding request' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ForwardingService } from '@/lib/forwarding';
+
+/**
+ * Confirmation link emailed to a new forwarding destination
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+  if (!token) {
+    return new NextResponse('Missing verification token.', { status: 400 });
+  }
+
+  try {
+    const destination = await new ForwardingService().verifyDestination(token);
+    if (!destination) {
+      return new NextResponse('This verification link is invalid or has expired.', { status: 410 });
+    }
+
+    return new NextResponse(
+      `${destination.email} is now verified. InboxGremlin rules may forward email to this address.`,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error in GET /api/forwarding/verify:', error);
+    return new NextResponse('Verification failed. Please try again later.', { status: 500 });
+  }
+}
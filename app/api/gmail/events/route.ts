@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { GmailWatchService } from '@/lib/gmail/push';
+import { subscribeToMailboxChanges, PushStreamMessage } from '@/lib/gmail/push-events';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+/**
+ * Server-Sent Events stream of mailbox changes delivered by Gmail push.
+ * Clients keep polling as a fallback while this stream is unavailable.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Without a live watch nothing would arrive; a non-200 tells EventSource to give up
+    const watch = await new GmailWatchService().getWatch(user.id);
+    if (!watch || watch.status !== 'active' || new Date(watch.expiration).getTime() <= Date.now()) {
+      return NextResponse.json({ error: 'Push notifications are not enabled' }, { status: 409 });
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            cleanup();
+          }
+        };
+
+        const unsubscribe = subscribeToMailboxChanges(user.id, (message: PushStreamMessage) => {
+          const data = message.type === 'change' ? message.event : { reason: message.reason };
+          send(`event: ${message.type}\ndata: ${JSON.stringify(data)}\n\n`);
+        });
+        const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        request.signal.addEventListener('abort', () => cleanup());
+        send(`retry: 10000\nevent: ready\ndata: {}\n\n`);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/gmail/events:', error);
+    return NextResponse.json(
+      { error: 'Failed to open event stream' },
+      { status: 500 }
+    );
+  }
+}
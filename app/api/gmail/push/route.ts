@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GmailPushError, GmailWatchService, parsePushMessage, verifyPubSubToken } from '@/lib/gmail/push';
+
+/**
+ * Pub/Sub push endpoint for Gmail watch notifications. Authenticated by the
+ * OIDC token on the push subscription, not a user session. Any non-2xx
+ * response makes Pub/Sub redeliver, so only transient failures return 500.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await verifyPubSubToken(request.headers.get('authorization'));
+  } catch (error) {
+    if (error instanceof GmailPushError && error.code === 'NOT_CONFIGURED') {
+      console.error('Gmail push received but not configured:', error.message);
+      return NextResponse.json({ error: 'Push notifications are not configured' }, { status: 503 });
+    }
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let notification;
+  try {
+    notification = parsePushMessage(await request.json());
+  } catch (error) {
+    // Acknowledge malformed messages so they are not redelivered forever
+    console.error('Ignoring malformed Gmail push message:', error);
+    return NextResponse.json({ success: false, status: 'ignored' });
+  }
+
+  try {
+    const result = await new GmailWatchService().handleNotification(notification);
+    return NextResponse.json({
+      success: true,
+      status: result.status,
+      eventCount: result.eventCount || 0,
+    });
+  } catch (error) {
+    console.error('Error in POST /api/gmail/push:', error);
+    return NextResponse.json(
+      { error: 'Failed to process push notification' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { GmailService } from '@/lib/gmail/service';
+import { GmailPushError, GmailWatchService, WATCH_RENEWAL_SCHEDULE } from '@/lib/gmail/push';
+import { SchedulerService } from '@/lib/scheduler';
+
+/**
+ * Status of the user's Gmail push registration
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const watch = await new GmailWatchService().getWatch(user.id);
+    return NextResponse.json({
+      success: true,
+      configured: Boolean(process.env.GMAIL_PUBSUB_TOPIC),
+      watch,
+      active: watch?.status === 'active' && new Date(watch.expiration).getTime() > Date.now(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/gmail/watch:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch push notification status' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    const providerToken = session?.provider_token;
+    if (!providerToken) {
+      return NextResponse.json(
+        { error: 'No Gmail access token found. Please re-authenticate with Google.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { action } = body;
+
+    const watchService = new GmailWatchService();
+    const gmailService = new GmailService(providerToken);
+
+    switch (action) {
+      case 'start': {
+        const watch = await watchService.startWatch(user.id, gmailService, body.labelIds);
+        await ensureRenewalJob(user.id);
+        return NextResponse.json({
+          success: true,
+          watch,
+          message: 'Push notifications enabled',
+        });
+      }
+
+      case 'stop':
+        await watchService.stopWatch(user.id, gmailService);
+        return NextResponse.json({
+          success: true,
+          message: 'Push notifications disabled',
+        });
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof GmailPushError && error.code === 'NOT_CONFIGURED') {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+
+    console.error('Error in POST /api/gmail/watch:', error);
+    return NextResponse.json(
+      { error: 'Failed to update push notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Every watched user gets one renewal job; it is a no-op while the watch is stopped
+ */
+async function ensureRenewalJob(userId: string): Promise<void> {
+  const scheduler = new SchedulerService();
+  const jobs = await scheduler.getUserJobs(userId);
+  if (jobs.some(job => job.job_type === 'watch_renewal')) return;
+
+  await scheduler.createScheduledJob(
+    userId,
+    'watch_renewal',
+    'Renew Gmail push notifications',
+    WATCH_RENEWAL_SCHEDULE,
+    {}
+  );
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { UserPreferencesService } from '@/lib/user-preferences';
+import { isValidTimeZone } from '@/lib/cron';
 
 export async function GET(request: NextRequest) {
   try {
@@ -100,6 +101,9 @@ async function handleUpdatePreferences(
           await preferencesService.updateAutomationSettings(userId, data);
           break;
         case 'ui_preferences':
+          if (data?.timezone !== undefined && !isValidTimeZone(data.timezone)) {
+            return NextResponse.json({ error: `Invalid time zone: ${data.timezone}` }, { status: 400 });
+          }
           await preferencesService.updateUIPreferences(userId, data);
           break;
         default:
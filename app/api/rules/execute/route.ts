@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { RulesEngine } from '@/lib/rules-engine';
+import { validateConditions } from '@/lib/rule-conditions';
 import { GmailEnhancedService } from '@/lib/gmail/enhanced-service';
+import { getBacktestRangeError } from '@/lib/rule-backtest';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,7 +25,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { ruleId, maxEmails = 100 } = body;
+    const { ruleId, maxEmails = 100, dryRun = false, confirmationToken, reprocessAll = false } = body;
 
     if (!ruleId) {
       return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 });
@@ -42,19 +44,47 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Rule not found or inactive' }, { status: 404 });
     }
 
-    // Initialize services
-    const gmailService = new GmailEnhancedService(accessToken);
+    // Initialize services; a dry run plans the actions without touching Gmail
+    const gmailService = new GmailEnhancedService(accessToken, {
+      userId: user.id,
+      dryRun: Boolean(dryRun),
+      safety: { confirmationToken },
+    });
     const rulesEngine = new RulesEngine(gmailService);
 
     try {
-      // Fetch emails for rule evaluation
-      const emails = await gmailService.listEmails({ maxResults: maxEmails });
-      
-      // Execute the rule
-      const execution = await rulesEngine.executeRule(rule, emails);
+      let execution;
+      if (reprocessAll) {
+        // Re-run over everything: all inbox mail, then restart the rule's watermark
+        const startedAt = new Date();
+        const { emails, scanned, truncated } = await rulesEngine.fetchMatchingEmails(rule);
+        execution = await rulesEngine.executeRule(rule, emails, { prefiltered: true, scanned });
+        if (execution.success && !truncated) {
+          await rulesEngine.advanceWatermarks([rule.id], startedAt);
+        }
+      } else {
+        // Fetch emails for rule evaluation
+        const emails = await rulesEngine.fetchEmailsForRule(rule, { maxResults: maxEmails });
+        
+        // Execute the rule
+        execution = await rulesEngine.executeRule(rule, emails);
+      }
+
+      // The rule's actions were held until the user confirms them
+      const held = execution.safety?.find(report => report.blocked);
+      if (held) {
+        return NextResponse.json({
+          error: held.confirmation?.message || 'Confirmation required',
+          confirmationRequired: true,
+          confirmation: held.confirmation,
+          execution,
+        }, { status: 409 });
+      }
 
       return NextResponse.json({ 
         execution,
+        dryRun: Boolean(dryRun),
+        plan: gmailService.getDryRunPlan(),
         summary: {
           ruleName: rule.name,
           emailsProcessed: execution.emails_processed,
@@ -76,7 +106,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Test rule without actually executing actions
+// Test rule without actually executing actions. With `backtest: { start, end,
+// pageToken? }` it evaluates one page of mail from that period instead.
 export async function PUT(request: NextRequest) {
   try {
     const supabase = createClient();
@@ -97,19 +128,43 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { conditions, maxEmails = 50 } = body;
+    const { conditions, maxEmails = 50, backtest } = body;
 
-    if (!conditions || !Array.isArray(conditions)) {
-      return NextResponse.json({ error: 'Conditions array is required' }, { status: 400 });
+    const conditionsError = validateConditions(conditions);
+    if (conditionsError) {
+      return NextResponse.json({ error: conditionsError }, { status: 400 });
     }
 
     // Initialize Gmail service
-    const gmailService = new GmailEnhancedService(accessToken);
+    const gmailService = new GmailEnhancedService(accessToken, { userId: user.id });
     const rulesEngine = new RulesEngine(gmailService);
 
+    if (backtest) {
+      const start = new Date(backtest.start);
+      const end = new Date(backtest.end);
+      const rangeError = getBacktestRangeError(start, end);
+      if (rangeError) {
+        return NextResponse.json({ error: rangeError }, { status: 400 });
+      }
+
+      try {
+        const report = await rulesEngine.backtestConditions(conditions, {
+          start,
+          end,
+          pageToken: backtest.pageToken || undefined,
+        });
+        return NextResponse.json({ report });
+      } catch (error) {
+        console.error('Error backtesting rule:', error);
+        return NextResponse.json({ 
+          error: `Rule backtest failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
+        }, { status: 500 });
+      }
+    }
+
     try {
       // Fetch emails for testing
-      const emails = await gmailService.listEmails({ maxResults: maxEmails });
+      const emails = await rulesEngine.fetchEmailsForRule({ conditions }, { maxResults: maxEmails });
       
       // Create a temporary rule for testing
       const testRule = {
@@ -125,7 +180,7 @@ export async function PUT(request: NextRequest) {
 
       // Test the conditions against emails
       const matchingEmails = emails.filter(email => 
-        (rulesEngine as any).evaluateConditions(email, conditions)
+        rulesEngine.evaluateConditions(email, conditions)
       );
 
       return NextResponse.json({
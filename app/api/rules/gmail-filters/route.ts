@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { GmailService } from '@/lib/gmail/service';
+import { GmailFilterSyncError, GmailFilterSyncService } from '@/lib/gmail/filters';
+
+/**
+ * Gmail filter sync status of every rule: whether it can be pushed, and for
+ * linked rules whether the rule or the Gmail filter changed since the last sync
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    const providerToken = session?.provider_token;
+    if (!providerToken) {
+      return NextResponse.json(
+        { error: 'No Gmail access token found. Please re-authenticate with Google.' },
+        { status: 403 }
+      );
+    }
+
+    const sync = new GmailFilterSyncService(new GmailService(providerToken), supabase);
+    return NextResponse.json({
+      success: true,
+      statuses: await sync.getSyncStatus(user.id),
+    });
+  } catch (error) {
+    return handleError(error, 'GET', 'Failed to fetch Gmail filter status');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    const providerToken = session?.provider_token;
+    if (!providerToken) {
+      return NextResponse.json(
+        { error: 'No Gmail access token found. Please re-authenticate with Google.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, ruleId } = body;
+
+    const sync = new GmailFilterSyncService(new GmailService(providerToken), supabase);
+
+    if (action !== 'import' && !ruleId) {
+      return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 });
+    }
+
+    switch (action) {
+      case 'push':
+        return NextResponse.json({
+          success: true,
+          status: await sync.pushRule(user.id, ruleId),
+          message: 'Rule pushed to Gmail',
+        });
+
+      case 'unlink':
+        return NextResponse.json({
+          success: true,
+          status: await sync.unlinkRule(user.id, ruleId, Boolean(body.deleteFilter)),
+          message: body.deleteFilter ? 'Gmail filter deleted' : 'Rule unlinked from Gmail',
+        });
+
+      case 'resolve': {
+        const { keep } = body;
+        if (keep !== 'rule' && keep !== 'gmail') {
+          return NextResponse.json({ error: 'keep must be "rule" or "gmail"' }, { status: 400 });
+        }
+        return NextResponse.json({
+          success: true,
+          status: await sync.resolveDrift(user.id, ruleId, keep),
+        });
+      }
+
+      case 'import': {
+        const result = await sync.importFilters(user.id);
+        return NextResponse.json({
+          success: true,
+          ...result,
+          message: `Imported ${result.imported.length} Gmail filter${result.imported.length !== 1 ? 's' : ''}`,
+        });
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    return handleError(error, 'POST', 'Failed to sync Gmail filters');
+  }
+}
+
+function handleError(error: any, method: string, fallback: string): NextResponse {
+  if (error instanceof GmailFilterSyncError) {
+    const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'NOT_EXPRESSIBLE' ? 422 : 400;
+    return NextResponse.json({ error: error.message, code: error.code }, { status });
+  }
+
+  console.error(`Error in ${method} /api/rules/gmail-filters:`, error);
+
+  if (error?.message?.includes('insufficient authentication scopes')) {
+    return NextResponse.json(
+      {
+        error: 'Managing Gmail filters requires the Gmail settings permission. Please re-authenticate with Google.',
+        needsReauth: true,
+      },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
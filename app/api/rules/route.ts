@@ -1,11 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { RulesEngine, UserRule, RuleCondition, RuleAction } from '@/lib/rules-engine';
+import { RulesEngine, UserRule, RuleAction } from '@/lib/rules-engine';
+import { normalizeConditions, validateConditions } from '@/lib/rule-conditions';
+import { analyzeRuleConflicts } from '@/lib/rule-conflicts';
+import { ForwardingService, isValidForwardingAddress } from '@/lib/forwarding';
 import { GmailEnhancedService } from '@/lib/gmail/enhanced-service';
+import { GmailService } from '@/lib/gmail/service';
+import { parseSieve, rulesToSieve } from '@/lib/sieve';
+import {
+  DuplicateStrategy,
+  PortableRule,
+  RULES_EXPORT_SCHEMA,
+  TransferIssue,
+  buildRulesExport,
+  collectRuleLabels,
+  mapRuleLabels,
+  parseRulesExport,
+  planRuleImport,
+  toPortableRule,
+} from '@/lib/rule-transfer';
 
+type ServerSupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+const MAX_IMPORT_SIZE = 1024 * 1024;
+
+/**
+ * List rules with their conflicts, or export them with ?format=json|sieve.
+ * ?format=schema returns the JSON Schema of the export format.
+ */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createClient();
+    const format = new URL(request.url).searchParams.get('format');
+    if (format === 'schema') {
+      return NextResponse.json(RULES_EXPORT_SCHEMA);
+    }
+    if (format && format !== 'json' && format !== 'sieve') {
+      return NextResponse.json({ error: 'format must be "json", "sieve" or "schema"' }, { status: 400 });
+    }
+
+    const supabase = await createClient();
     
     const { data: { user }, error: authError } = await supabase.auth.getUser();
     if (authError || !user) {
@@ -16,14 +49,22 @@ export async function GET(request: NextRequest) {
       .from('user_rules')
       .select('*')
       .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true });
 
     if (error) {
       console.error('Error fetching rules:', error);
       return NextResponse.json({ error: 'Failed to fetch rules' }, { status: 500 });
     }
 
-    return NextResponse.json({ rules: rules || [] });
+    if (format) {
+      return exportRules(supabase, rules || [], format as 'json' | 'sieve');
+    }
+
+    return NextResponse.json({
+      rules: rules || [],
+      conflicts: analyzeRuleConflicts(rules || []),
+    });
   } catch (error) {
     console.error('Error in GET /api/rules:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -32,7 +73,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createClient();
+    const supabase = await createClient();
     
     const { data: { user }, error: authError } = await supabase.auth.getUser();
     if (authError || !user) {
@@ -40,7 +81,12 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, conditions, actions, schedule } = body;
+
+    if (body.action === 'import') {
+      return importRules(supabase, user.id, body);
+    }
+
+    const { name, conditions, actions, schedule, priority = 0, stop_processing = false } = body;
 
     // Validate required fields
     if (!name || !conditions || !actions) {
@@ -49,11 +95,10 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Validate conditions structure
-    if (!Array.isArray(conditions) || conditions.length === 0) {
-      return NextResponse.json({ 
-        error: 'Conditions must be a non-empty array' 
-      }, { status: 400 });
+    // Validate conditions structure (a group tree, or a legacy flat array)
+    const conditionsError = validateConditions(conditions);
+    if (conditionsError) {
+      return NextResponse.json({ error: conditionsError }, { status: 400 });
     }
 
     // Validate actions structure
@@ -63,15 +108,6 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Validate condition structure
-    for (const condition of conditions) {
-      if (!condition.field || !condition.operator || condition.value === undefined) {
-        return NextResponse.json({ 
-          error: 'Each condition must have field, operator, and value' 
-        }, { status: 400 });
-      }
-    }
-
     // Validate action structure
     for (const action of actions) {
       if (!action.type) {
@@ -81,13 +117,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const orderingError = validateOrdering(priority, stop_processing);
+    if (orderingError) {
+      return NextResponse.json({ error: orderingError }, { status: 400 });
+    }
+
+    const forwardError = await validateForwardActions(user.id, actions);
+    if (forwardError) {
+      return NextResponse.json({ error: forwardError }, { status: 400 });
+    }
+
     const ruleData = {
       user_id: user.id,
       name,
-      conditions: conditions as RuleCondition[],
+      conditions: normalizeConditions(conditions),
       actions: actions as RuleAction[],
       is_active: true,
       schedule: schedule || null,
+      priority,
+      stop_processing,
     };
 
     const { data, error } = await supabase
@@ -118,19 +166,40 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { id, name, conditions, actions, schedule, is_active } = body;
+    const { id, name, conditions, actions, schedule, is_active, priority, stop_processing } = body;
 
     if (!id) {
       return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 });
     }
 
+    if (conditions !== undefined) {
+      const conditionsError = validateConditions(conditions);
+      if (conditionsError) {
+        return NextResponse.json({ error: conditionsError }, { status: 400 });
+      }
+    }
+
+    const orderingError = validateOrdering(priority, stop_processing);
+    if (orderingError) {
+      return NextResponse.json({ error: orderingError }, { status: 400 });
+    }
+
+    if (Array.isArray(actions)) {
+      const forwardError = await validateForwardActions(user.id, actions);
+      if (forwardError) {
+        return NextResponse.json({ error: forwardError }, { status: 400 });
+      }
+    }
+
     const updateData: any = { updated_at: new Date().toISOString() };
     
     if (name !== undefined) updateData.name = name;
-    if (conditions !== undefined) updateData.conditions = conditions;
+    if (conditions !== undefined) updateData.conditions = normalizeConditions(conditions);
     if (actions !== undefined) updateData.actions = actions;
     if (schedule !== undefined) updateData.schedule = schedule;
     if (is_active !== undefined) updateData.is_active = is_active;
+    if (priority !== undefined) updateData.priority = priority;
+    if (stop_processing !== undefined) updateData.stop_processing = stop_processing;
 
     const { data, error } = await supabase
       .from('user_rules')
@@ -158,7 +227,7 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    const supabase = createClient();
+    const supabase = await createClient();
     
     const { data: { user }, error: authError } = await supabase.auth.getUser();
     if (authError || !user) {
@@ -172,20 +241,255 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 });
     }
 
-    const { error } = await supabase
+    const { data: deleted, error } = await supabase
       .from('user_rules')
       .delete()
       .eq('id', id)
-      .eq('user_id', user.id);
+      .eq('user_id', user.id)
+      .select('gmail_filter_id')
+      .maybeSingle();
 
     if (error) {
       console.error('Error deleting rule:', error);
       return NextResponse.json({ error: 'Failed to delete rule' }, { status: 500 });
     }
 
+    // A rule pushed to Gmail takes its filter with it
+    if (deleted?.gmail_filter_id) {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session?.provider_token) {
+        await new GmailService(session.provider_token).deleteFilter(deleted.gmail_filter_id).catch(error => {
+          console.error('Error deleting Gmail filter for rule:', error);
+        });
+      }
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error in DELETE /api/rules:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Priority is an integer (higher runs first) and stop_processing a boolean
+ */
+function validateOrdering(priority: unknown, stopProcessing: unknown): string | null {
+  if (priority !== undefined && !Number.isInteger(priority)) {
+    return 'Priority must be an integer';
+  }
+  if (stopProcessing !== undefined && typeof stopProcessing !== 'boolean') {
+    return 'stop_processing must be true or false';
+  }
+  return null;
+}
+
+/**
+ * Forward actions may only target addresses the user has verified
+ */
+async function validateForwardActions(userId: string, actions: RuleAction[]): Promise<string | null> {
+  const forwards = actions.filter(action => action.type === 'forward');
+  if (forwards.length === 0) return null;
+
+  const forwarding = new ForwardingService();
+  for (const action of forwards) {
+    if (!action.value || !isValidForwardingAddress(action.value)) {
+      return 'Forward actions need a valid destination email address';
+    }
+    if (!(await forwarding.isVerified(userId, action.value))) {
+      return `${action.value} is not a verified forwarding address. Verify it in Settings first.`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Download rules as a JSON export or a Sieve script, with label ids replaced
+ * by label names so the file works in another account
+ */
+async function exportRules(
+  supabase: ServerSupabaseClient,
+  rules: UserRule[],
+  format: 'json' | 'sieve'
+): Promise<NextResponse> {
+  const labels = await loadLabels(supabase);
+  const names = new Map((labels || []).map(label => [label.id, label.name]));
+  const portable = rules.map(rule => mapRuleLabels(toPortableRule(rule), label => names.get(label) || label));
+  const date = new Date().toISOString().slice(0, 10);
+
+  if (format === 'sieve') {
+    const { script } = rulesToSieve(portable);
+    return new NextResponse(script, {
+      headers: {
+        'Content-Type': 'application/sieve; charset=utf-8',
+        'Content-Disposition': `attachment; filename="inboxgremlin-rules-${date}.sieve"`,
+      },
+    });
+  }
+
+  return new NextResponse(JSON.stringify(buildRulesExport(portable), null, 2), {
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="inboxgremlin-rules-${date}.json"`,
+    },
+  });
+}
+
+/**
+ * Import a JSON export or Sieve script. With preview (the default) nothing is
+ * written and the response describes what would be created, replaced or skipped.
+ */
+async function importRules(supabase: ServerSupabaseClient, userId: string, body: any): Promise<NextResponse> {
+  const { format = 'json', content, preview = true, onDuplicate = 'skip' } = body;
+
+  if (typeof content !== 'string' || !content.trim()) {
+    return NextResponse.json({ error: 'Import content is required' }, { status: 400 });
+  }
+  if (content.length > MAX_IMPORT_SIZE) {
+    return NextResponse.json({ error: 'Import files are limited to 1 MB' }, { status: 400 });
+  }
+  if (!['skip', 'replace', 'rename'].includes(onDuplicate)) {
+    return NextResponse.json({ error: 'onDuplicate must be "skip", "replace" or "rename"' }, { status: 400 });
+  }
+
+  let parsed: { rules: PortableRule[]; issues: TransferIssue[] };
+  if (format === 'sieve') {
+    parsed = parseSieve(content);
+  } else if (format === 'json') {
+    try {
+      parsed = parseRulesExport(JSON.parse(content));
+    } catch {
+      return NextResponse.json({ error: 'Import file is not valid JSON' }, { status: 400 });
+    }
+  } else {
+    return NextResponse.json({ error: 'format must be "json" or "sieve"' }, { status: 400 });
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('user_rules')
+    .select('id, name')
+    .eq('user_id', userId);
+
+  if (existingError) {
+    console.error('Error fetching rules for import:', existingError);
+    return NextResponse.json({ error: 'Failed to fetch rules' }, { status: 500 });
+  }
+
+  const plan = planRuleImport(existing || [], parsed.rules, parsed.issues, onDuplicate as DuplicateStrategy);
+
+  // Forward destinations must be verified in this account too
+  const rejected = new Map<PortableRule, string>();
+  for (const rule of [...plan.create, ...plan.replace.map(entry => entry.rule)]) {
+    const forwardError = await validateForwardActions(userId, rule.actions);
+    if (forwardError) rejected.set(rule, forwardError);
+  }
+
+  // Exports reference labels by name; map them to this account's label ids
+  const labels = await loadLabels(supabase);
+  const labelIds = new Map<string, string>();
+  (labels || []).forEach(label => {
+    labelIds.set(label.id, label.id);
+    labelIds.set(label.name.toLowerCase(), label.id);
+  });
+  const missingLabels = labels
+    ? Array.from(new Set(
+        [...plan.create, ...plan.replace.map(entry => entry.rule)]
+          .filter(rule => !rejected.has(rule))
+          .flatMap(collectRuleLabels)
+          .filter(label => !labelIds.has(label) && !labelIds.has(label.toLowerCase()))
+      ))
+    : [];
+
+  if (!preview && labels && missingLabels.length > 0) {
+    const gmailService = await getGmailService(supabase);
+    for (const name of missingLabels) {
+      try {
+        const created = await gmailService!.createLabel(name);
+        labelIds.set(name.toLowerCase(), created.id);
+      } catch (error) {
+        console.error(`Error creating label "${name}" for rule import:`, error);
+        for (const rule of [...plan.create, ...plan.replace.map(entry => entry.rule)]) {
+          if (!rejected.has(rule) && collectRuleLabels(rule).includes(name)) {
+            rejected.set(rule, `Could not create the label "${name}"`);
+          }
+        }
+      }
+    }
+  }
+
+  plan.create = plan.create.filter(rule => !rejected.has(rule));
+  plan.replace = plan.replace.filter(entry => !rejected.has(entry.rule));
+  rejected.forEach((reason, rule) => plan.skipped.push({ name: rule.name, reason }));
+
+  if (preview) {
+    return NextResponse.json({ success: true, preview: true, plan, missingLabels });
+  }
+
+  const toRow = (rule: PortableRule) => {
+    const mapped = labels
+      ? mapRuleLabels(rule, label => labelIds.get(label) || labelIds.get(label.toLowerCase()) || label)
+      : rule;
+    return {
+      name: mapped.name.trim(),
+      description: mapped.description ?? null,
+      conditions: normalizeConditions(mapped.conditions),
+      actions: mapped.actions,
+      is_active: mapped.is_active ?? true,
+      schedule: mapped.schedule ?? null,
+      priority: mapped.priority ?? 0,
+      stop_processing: mapped.stop_processing ?? false,
+    };
+  };
+
+  if (plan.create.length > 0) {
+    const { error } = await supabase
+      .from('user_rules')
+      .insert(plan.create.map(rule => ({ user_id: userId, ...toRow(rule) })));
+
+    if (error) {
+      console.error('Error importing rules:', error);
+      return NextResponse.json({ error: 'Failed to import rules' }, { status: 500 });
+    }
+  }
+
+  for (const { id, rule } of plan.replace) {
+    const { error } = await supabase
+      .from('user_rules')
+      .update({ ...toRow(rule), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error replacing rule during import:', error);
+      return NextResponse.json({ error: `Failed to replace rule "${rule.name}"` }, { status: 500 });
+    }
+  }
+
+  const imported = plan.create.length + plan.replace.length;
+  return NextResponse.json({
+    success: true,
+    plan,
+    message: `Imported ${imported} rule${imported !== 1 ? 's' : ''}`,
+  });
+}
+
+async function getGmailService(supabase: ServerSupabaseClient): Promise<GmailService | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.provider_token ? new GmailService(session.provider_token) : null;
+}
+
+/**
+ * The user's Gmail labels, or null without a Gmail token
+ */
+async function loadLabels(supabase: ServerSupabaseClient): Promise<{ id: string; name: string }[] | null> {
+  const gmailService = await getGmailService(supabase);
+  if (!gmailService) return null;
+
+  try {
+    return await gmailService.getLabels();
+  } catch (error) {
+    console.error('Error fetching Gmail labels for rule transfer:', error);
+    return null;
+  }
+}
@@ -77,7 +77,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { action, jobId, jobType, jobName, scheduleExpression, jobConfig, updates } = body;
+    const { action, jobId, jobType, jobName, scheduleExpression, jobConfig, updates, dryRun } = body;
 
     const schedulerService = new SchedulerService();
 
@@ -99,7 +99,7 @@ export async function POST(request: NextRequest) {
         return await handleDeleteJob(jobId, schedulerService);
 
       case 'execute':
-        return await handleExecuteJob(jobId, accessToken, schedulerService);
+        return await handleExecuteJob(jobId, accessToken, schedulerService, Boolean(dryRun));
 
       case 'toggle':
         return await handleToggleJob(jobId, schedulerService);
@@ -132,9 +132,13 @@ async function handleCreateJob(
       );
     }
 
-    if (!schedulerService.validateCronExpression(scheduleExpression)) {
+    const cronError = schedulerService.getCronValidationError(scheduleExpression);
+    if (cronError) {
       return NextResponse.json(
-        { error: 'Invalid schedule expression' },
+        {
+          error: `Invalid schedule expression: ${cronError.message}`,
+          field: cronError.field,
+        },
         { status: 400 }
       );
     }
@@ -171,11 +175,17 @@ async function handleUpdateJob(
       return NextResponse.json({ error: 'Job ID required' }, { status: 400 });
     }
 
-    if (updates.schedule_expression && !schedulerService.validateCronExpression(updates.schedule_expression)) {
-      return NextResponse.json(
-        { error: 'Invalid schedule expression' },
-        { status: 400 }
-      );
+    if (updates.schedule_expression) {
+      const cronError = schedulerService.getCronValidationError(updates.schedule_expression);
+      if (cronError) {
+        return NextResponse.json(
+          {
+            error: `Invalid schedule expression: ${cronError.message}`,
+            field: cronError.field,
+          },
+          { status: 400 }
+        );
+      }
     }
 
     const job = await schedulerService.updateScheduledJob(jobId, updates);
@@ -221,19 +231,21 @@ async function handleDeleteJob(
 async function handleExecuteJob(
   jobId: string,
   accessToken: string,
-  schedulerService: SchedulerService
+  schedulerService: SchedulerService,
+  dryRun: boolean
 ) {
   try {
     if (!jobId) {
       return NextResponse.json({ error: 'Job ID required' }, { status: 400 });
     }
 
-    const result = await schedulerService.executeJobManually(jobId, accessToken);
+    const result = await schedulerService.executeJobManually(jobId, accessToken, { dryRun });
 
     return NextResponse.json({
       success: true,
+      dryRun,
       result,
-      message: 'Job executed successfully',
+      message: dryRun ? 'Dry run completed; no emails were changed' : 'Job executed successfully',
     });
   } catch (error) {
     console.error('Error executing job:', error);
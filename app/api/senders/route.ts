@@ -0,0 +1,372 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { GmailService } from '@/lib/gmail/service';
+import { GmailEnhancedService } from '@/lib/gmail/enhanced-service';
+import { GmailCacheService } from '@/lib/gmail/cache-service';
+import { TaskQueueService } from '@/lib/task-queue';
+import { SafetyGuard, SafetyReport } from '@/lib/safety-guard';
+import { OperationHistoryService } from '@/lib/operation-history';
+import { SchedulerService } from '@/lib/scheduler';
+import { UnsubscribeDetector } from '@/lib/unsubscribe-detector';
+import { UnsubscribeExecutor } from '@/lib/unsubscribe-executor';
+import { LIST_UNSUBSCRIBE_HEADERS } from '@/lib/list-unsubscribe';
+import type { RuleAction } from '@/lib/rules-engine';
+import {
+  SENDER_SORT_FIELDS,
+  SenderActionCounter,
+  SenderAnalyticsService,
+  SenderSortField,
+  SenderTarget,
+  findSenderMessages,
+  matchesSender,
+} from '@/lib/sender-analytics';
+
+// Bulk actions above this size run in the background worker
+const ASYNC_THRESHOLD = 500;
+// Recent messages checked for the sender's unsubscribe headers
+const UNSUBSCRIBE_LOOKBACK = 10;
+const RULE_ACTIONS: RuleAction['type'][] = ['archive', 'delete', 'mark_read', 'label'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const groupBy = searchParams.get('groupBy') === 'domain' ? 'domain' : 'sender';
+    const sortParam = searchParams.get('sort') || 'total_emails';
+    if (!SENDER_SORT_FIELDS.includes(sortParam as SenderSortField)) {
+      return NextResponse.json({ error: `Invalid sort field: ${sortParam}` }, { status: 400 });
+    }
+
+    const result = await new SenderAnalyticsService(supabase).getSenders(user.id, {
+      groupBy,
+      sort: sortParam as SenderSortField,
+      order: searchParams.get('order') === 'asc' ? 'asc' : 'desc',
+      search: searchParams.get('search') || undefined,
+      limit: Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200),
+      offset: Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error in GET /api/senders:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: session } = await supabase.auth.getSession();
+    const accessToken = session?.session?.provider_token;
+
+    if (!accessToken) {
+      return NextResponse.json({
+        error: 'Gmail access token not found. Please re-authenticate.'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { action } = body;
+
+    if (action === 'collect') {
+      const result = await new SenderAnalyticsService(supabase).collect(
+        user.id,
+        new GmailService(accessToken),
+        { maxMessages: typeof body.maxMessages === 'number' ? body.maxMessages : undefined }
+      );
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    const target = parseTarget(body.target);
+    if (!target) {
+      return NextResponse.json(
+        { error: 'target must be { type: "sender" | "domain", value }' },
+        { status: 400 }
+      );
+    }
+
+    switch (action) {
+      case 'archive_all':
+        return await clearSender(user.id, target, 'archive', accessToken, body.confirmationToken);
+
+      case 'delete_all':
+        return await clearSender(user.id, target, 'delete', accessToken, body.confirmationToken);
+
+      case 'unsubscribe':
+        if (target.type !== 'sender') {
+          return NextResponse.json({ error: 'Unsubscribe needs a sender address, not a domain' }, { status: 400 });
+        }
+        return await unsubscribeSender(user.id, target, accessToken);
+
+      case 'create_rule':
+        return await createSenderRule(user.id, target, body.ruleAction, body.name);
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error: any) {
+    console.error('Error in POST /api/senders:', error);
+
+    if (error?.message?.includes('insufficient authentication scopes')) {
+      return NextResponse.json(
+        { error: 'Insufficient Gmail permissions. Please re-authenticate with Google.', needsReauth: true },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Archive every inbox message, or delete every message, from a sender or domain
+ */
+async function clearSender(
+  userId: string,
+  target: SenderTarget,
+  action: 'archive' | 'delete',
+  accessToken: string,
+  confirmationToken?: string
+) {
+  const supabase = await createClient();
+  const { emails, truncated } = await findSenderMessages(
+    new GmailService(accessToken),
+    target,
+    action === 'archive' ? 'inbox' : 'all'
+  );
+
+  if (emails.length === 0) {
+    return NextResponse.json({ success: true, processedCount: 0, truncated: false });
+  }
+
+  const emailIds = emails.map(email => email.id);
+  const counter = action === 'archive' ? 'emails_archived' : 'emails_deleted';
+
+  if (emailIds.length > ASYNC_THRESHOLD) {
+    // The worker cannot ask for confirmation, so settle it before queueing
+    const guard = await SafetyGuard.forUser(userId, { confirmationToken });
+    const { emailIds: allowedIds, report: safety } = guard.checkRequest(action, emailIds);
+    if (safety.blocked) {
+      return confirmationRequired(safety);
+    }
+
+    const task = await new TaskQueueService(createAdminClient()).enqueue('bulk_email_operation', userId, {
+      action,
+      emailIds: allowedIds,
+      confirmation: SafetyGuard.sealQueuedConfirmation(userId, action, allowedIds),
+      access_token: accessToken,
+    });
+
+    const allowed = new Set(allowedIds);
+    await recordSenderAction(userId, counter, emails.filter(email => allowed.has(email.id)));
+
+    return NextResponse.json(
+      { success: true, queued: true, taskId: task.id, totalCount: allowedIds.length, truncated, safety },
+      { status: 202 }
+    );
+  }
+
+  // Recorded in the operation history, so it can be undone
+  const gmailService = new GmailEnhancedService(accessToken, {
+    supabase,
+    userId,
+    safety: { confirmationToken },
+  });
+  const result = action === 'archive'
+    ? await gmailService.archiveEmailsWithHistory(emailIds)
+    : await gmailService.deleteEmailsWithHistory(emailIds);
+
+  if (result.safety?.blocked) {
+    return confirmationRequired(result.safety);
+  }
+
+  const affected = new Set(result.affectedEmails?.map(email => email.id) || emailIds);
+  await recordSenderAction(userId, counter, emails.filter(email => affected.has(email.id)));
+
+  return NextResponse.json({
+    success: result.success,
+    processedCount: result.processedCount,
+    errors: result.errors,
+    operationId: result.operationId,
+    canUndo: result.canUndo,
+    truncated,
+    safety: result.safety,
+  });
+}
+
+/**
+ * Unsubscribe from a sender using its most recent message that carries
+ * unsubscribe headers, falling back to links in the newest message's body
+ */
+async function unsubscribeSender(userId: string, target: SenderTarget, accessToken: string) {
+  const gmailService = new GmailService(accessToken);
+  const page = await gmailService.listMessageIdsPage(`from:${target.value}`, UNSUBSCRIBE_LOOKBACK);
+  const recent = (await gmailService.getEmailsByIds(page.ids, LIST_UNSUBSCRIBE_HEADERS))
+    .filter(email => matchesSender(email, target));
+
+  if (recent.length === 0) {
+    return NextResponse.json({ error: 'No messages from this sender were found' }, { status: 404 });
+  }
+
+  const email = recent.find(message => message.headers?.['list-unsubscribe']) || recent[0];
+  let chosen: { url: string; type: string } | undefined;
+  if (!email.headers?.['list-unsubscribe']) {
+    const detector = new UnsubscribeDetector(new GmailCacheService(userId));
+    const candidate = await detector.detectForEmail(email, gmailService);
+    chosen = candidate?.unsubscribeLinks[0];
+  }
+
+  const outcome = await new UnsubscribeExecutor(gmailService).unsubscribeFromEmail(email, chosen?.url, chosen?.type);
+  const historyId = await new UnsubscribeDetector().recordUnsubscribeAttempt({
+    userId,
+    emailId: email.id,
+    senderEmail: email.from,
+    method: outcome.method,
+    url: outcome.url,
+    success: outcome.success,
+    responseStatus: outcome.responseStatus,
+    errorMessage: outcome.error,
+    details: outcome.details,
+  });
+
+  if (outcome.success) {
+    await new SchedulerService().ensureUnsubscribeFollowUpJob(userId);
+  }
+
+  const operationId = await new OperationHistoryService({ supabase: await createClient(), userId }).recordOperation({
+    operation_type: 'unsubscribe',
+    affected_emails: [{
+      id: email.id,
+      subject: email.subject,
+      from: email.from,
+      originalLabels: email.labels || [],
+      snippet: email.snippet,
+    }],
+    operation_details: { sender: target.value },
+  });
+  await recordSenderAction(userId, 'unsubscribe_attempts', [email]);
+
+  const requiresConfirmation = outcome.success === null;
+  return NextResponse.json({
+    success: outcome.success === true,
+    requiresConfirmation,
+    historyId,
+    operationId,
+    unsubscribeUrl: outcome.url,
+    method: outcome.method,
+    error: requiresConfirmation ? undefined : outcome.error,
+    message: requiresConfirmation
+      ? 'This sender only offers an unsubscribe page. Open the link to finish.'
+      : outcome.success
+        ? outcome.method === 'mailto'
+          ? 'Unsubscribe email sent.'
+          : 'Unsubscribed.'
+        : outcome.error,
+  });
+}
+
+/**
+ * Create a rule that applies one action to all future mail from the target
+ */
+async function createSenderRule(userId: string, target: SenderTarget, ruleAction: any, name?: string) {
+  if (!ruleAction || !RULE_ACTIONS.includes(ruleAction.type)) {
+    return NextResponse.json(
+      { error: `ruleAction.type must be one of: ${RULE_ACTIONS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  if (ruleAction.type === 'label' && !ruleAction.value) {
+    return NextResponse.json({ error: 'A label rule needs a label name' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const action: RuleAction = ruleAction.type === 'label'
+    ? { type: 'label', value: String(ruleAction.value) }
+    : { type: ruleAction.type };
+
+  const { data: rule, error } = await supabase
+    .from('user_rules')
+    .insert({
+      user_id: userId,
+      name: name || `${action.type.replace('_', ' ')}: ${target.value}`,
+      conditions: {
+        combinator: 'all',
+        conditions: [
+          target.type === 'sender'
+            ? { field: 'from', operator: 'contains', value: target.value }
+            : { field: 'sender_domain', operator: 'equals', value: target.value },
+        ],
+      },
+      actions: [action],
+      is_active: true,
+      schedule: null,
+      priority: 0,
+      stop_processing: false,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating sender rule:', error);
+    return NextResponse.json({ error: 'Failed to create rule' }, { status: 500 });
+  }
+
+  const operationId = await new OperationHistoryService({ supabase, userId }).recordOperation({
+    operation_type: 'create_rule',
+    affected_emails: [],
+    operation_details: { ruleId: rule.id, sender: target.value },
+  });
+
+  return NextResponse.json({ success: true, rule, operationId }, { status: 201 });
+}
+
+function parseTarget(target: any): SenderTarget | null {
+  if (!target || (target.type !== 'sender' && target.type !== 'domain')) return null;
+  const value = typeof target.value === 'string' ? target.value.trim().toLowerCase() : '';
+  // Goes into Gmail search queries, so only plain addresses and domains
+  if (!/^[a-z0-9._%+@-]+$/.test(value) || (target.type === 'sender') !== value.includes('@')) return null;
+  return { type: target.type, value };
+}
+
+/**
+ * Sender counters are bookkeeping; the action itself already went through
+ */
+async function recordSenderAction(
+  userId: string,
+  counter: SenderActionCounter,
+  emails: { from: string }[]
+): Promise<void> {
+  try {
+    await new SenderAnalyticsService(await createClient()).recordAction(userId, counter, emails);
+  } catch (error) {
+    console.error('Error updating sender counters:', error);
+  }
+}
+
+/**
+ * 409 carrying the token the client sends back as confirmationToken
+ */
+function confirmationRequired(safety: SafetyReport) {
+  return NextResponse.json(
+    {
+      error: safety.confirmation?.message || 'Confirmation required',
+      confirmationRequired: true,
+      confirmation: safety.confirmation,
+      safety,
+    },
+    { status: 409 }
+  );
+}
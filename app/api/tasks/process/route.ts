@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { SchedulerService } from '@/lib/scheduler';
+import { TaskWorker } from '@/lib/task-worker';
+
+// Leave headroom under the platform's function timeout
+const MAX_DRAIN_MS = 50000;
+
+/**
+ * Worker tick: queue due scheduled jobs, then drain the task queue.
+ * Intended to be called by a cron trigger with the shared worker secret.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.TASK_WORKER_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    const scheduler = new SchedulerService(supabase);
+    const jobsQueued = await scheduler.processScheduledJobs();
+
+    const worker = new TaskWorker(supabase);
+    const summary = await worker.drain(MAX_DRAIN_MS);
+
+    return NextResponse.json({
+      success: true,
+      workerId: worker.workerId,
+      jobsQueued,
+      ...summary,
+    });
+  } catch (error) {
+    console.error('Error in POST /api/tasks/process:', error);
+    return NextResponse.json(
+      { error: 'Failed to process task queue' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { TaskQueueService, TaskStatus } from '@/lib/task-queue';
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || 'list';
+    const taskId = searchParams.get('id');
+
+    const taskQueue = new TaskQueueService(supabase);
+
+    switch (action) {
+      case 'list': {
+        const status = searchParams.get('status');
+        const limit = parseInt(searchParams.get('limit') || '50');
+        const tasks = await taskQueue.getUserTasks(user.id, {
+          status: status ? (status.split(',') as TaskStatus[]) : undefined,
+          limit: Math.min(Math.max(limit, 1), 200),
+        });
+        return NextResponse.json({
+          success: true,
+          tasks,
+        });
+      }
+
+      case 'get': {
+        if (!taskId) {
+          return NextResponse.json({ error: 'Task ID required' }, { status: 400 });
+        }
+        const task = await taskQueue.getTask(taskId, user.id);
+        if (!task) {
+          return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+        }
+        return NextResponse.json({
+          success: true,
+          task,
+        });
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error in GET /api/tasks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tasks' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { action, taskId } = body;
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'Task ID required' }, { status: 400 });
+    }
+
+    // Users can only read task_queue; both actions are scoped to user.id
+    const taskQueue = new TaskQueueService(createAdminClient());
+
+    switch (action) {
+      case 'cancel': {
+        const cancelled = await taskQueue.cancelTask(taskId, user.id);
+        if (!cancelled) {
+          return NextResponse.json(
+            { error: 'Only pending tasks can be cancelled' },
+            { status: 409 }
+          );
+        }
+        return NextResponse.json({
+          success: true,
+          message: 'Task cancelled',
+        });
+      }
+
+      case 'retry': {
+        const retried = await taskQueue.retryTask(taskId, user.id);
+        if (!retried) {
+          return NextResponse.json(
+            { error: 'Only failed or dead-lettered tasks can be retried' },
+            { status: 409 }
+          );
+        }
+        return NextResponse.json({
+          success: true,
+          message: 'Task requeued',
+        });
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error in POST /api/tasks:', error);
+    return NextResponse.json(
+      { error: 'Failed to process task request' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { UnsubscribeDetector } from '@/lib/unsubscribe-detector';
 import { GmailEnhancedService } from '@/lib/gmail/enhanced-service';
+import { GmailService } from '@/lib/gmail/service';
+import { GmailCacheService } from '@/lib/gmail/cache-service';
+import { LIST_UNSUBSCRIBE_HEADERS } from '@/lib/list-unsubscribe';
+import { UnsubscribeExecutor } from '@/lib/unsubscribe-executor';
+import { UnsubscribeFollowUpError, UnsubscribeFollowUpService } from '@/lib/unsubscribe-followup';
+import { SchedulerService } from '@/lib/scheduler';
 
 export async function GET(request: NextRequest) {
   try {
@@ -81,8 +87,23 @@ export async function POST(request: NextRequest) {
         }
         
         const confirmed = await detector.confirmUnsubscribe(historyId);
+        if (confirmed) {
+          await new SchedulerService().ensureUnsubscribeFollowUpJob(user.id);
+        }
         return NextResponse.json({ success: confirmed });
 
+      case 'escalate': {
+        const { historyId: escalatedId, escalation } = body;
+        if (!escalatedId || (escalation !== 'trash_filter' && escalation !== 'spam')) {
+          return NextResponse.json(
+            { error: 'History ID and an escalation of "trash_filter" or "spam" are required' },
+            { status: 400 }
+          );
+        }
+
+        return await escalateUnsubscribe(user.id, escalatedId, escalation, accessToken);
+      }
+
       case 'bulk_unsubscribe':
         const { candidates } = body;
         if (!Array.isArray(candidates)) {
@@ -102,7 +123,7 @@ export async function POST(request: NextRequest) {
 
 async function scanForUnsubscribeOpportunities(userId: string) {
   try {
-    const supabase = createClient();
+    const supabase = await createClient();
     
     // Get the user's Gmail access token
     const { data: session } = await supabase.auth.getSession();
@@ -115,7 +136,9 @@ async function scanForUnsubscribeOpportunities(userId: string) {
     }
 
     const gmailService = new GmailEnhancedService(accessToken);
-    const detector = new UnsubscribeDetector();
+    // Detection is cached per sender domain, so only new senders are downloaded
+    const cache = new GmailCacheService(userId);
+    const detector = new UnsubscribeDetector(cache);
 
     // Search for promotional and newsletter emails
     const queries = [
@@ -136,16 +159,13 @@ async function scanForUnsubscribeOpportunities(userId: string) {
         });
 
         for (const email of emails) {
-          const candidate = await detector.detectUnsubscribeOpportunities(
-            email.id,
-            email.subject,
-            email.from,
-            email.date,
-            email.snippet
-          );
-
-          if (candidate) {
-            allCandidates.push(candidate);
+          try {
+            const candidate = await detector.detectForEmail(email, gmailService);
+            if (candidate) {
+              allCandidates.push(candidate);
+            }
+          } catch (emailError) {
+            console.error(`Error scanning email ${email.id} for unsubscribe options:`, emailError);
           }
         }
       } catch (queryError) {
@@ -168,6 +188,7 @@ async function scanForUnsubscribeOpportunities(userId: string) {
       candidates: uniqueCandidates,
       totalFound: uniqueCandidates.length,
       scanSummary: {
+        oneClick: uniqueCandidates.filter(c => c.unsubscribeLinks.some(link => link.oneClick)).length,
         highConfidence: uniqueCandidates.filter(c => c.confidence === 'high').length,
         mediumConfidence: uniqueCandidates.filter(c => c.confidence === 'medium').length,
         lowConfidence: uniqueCandidates.filter(c => c.confidence === 'low').length,
@@ -190,72 +211,54 @@ async function performUnsubscribe(
   accessToken: string
 ) {
   try {
-    const gmailService = new GmailEnhancedService(accessToken);
-    
-    // Get email details for sender information
-    const emails = await gmailService.listEmails({ maxResults: 1, query: `rfc822msgid:${emailId}` });
-    if (emails.length === 0) {
-      return NextResponse.json({ error: 'Email not found' }, { status: 404 });
+    if (!emailId) {
+      return NextResponse.json({ error: 'Email ID required' }, { status: 400 });
     }
 
-    const email = emails[0];
-    let success = false;
-    let errorMessage: string | undefined;
-    let historyId: string | null = null;
-
-    try {
-      if (method === 'mailto') {
-        // For mailto links, we can't automatically send emails
-        // Record as attempted but not successful
-        success = false;
-        errorMessage = 'Mailto unsubscribe requires manual action';
-      } else if (method === 'link') {
-        // For HTTP links, we would need to make a safe request
-        // For security, we'll mark as attempted and let user confirm
-        success = false;
-        errorMessage = 'HTTP unsubscribe requires user confirmation';
-      } else {
-        errorMessage = 'Unknown unsubscribe method';
-      }
+    const gmailService = new GmailService(accessToken);
 
-      // Record the unsubscribe attempt
-      historyId = await detector.recordUnsubscribeAttempt(
-        userId,
-        emailId,
-        email.from,
-        method,
-        success,
-        errorMessage
-      );
-
-      return NextResponse.json({
-        success: true,
-        attempted: true,
-        requiresConfirmation: true,
-        historyId,
-        unsubscribeUrl,
-        method,
-        message: 'Unsubscribe link prepared. Please click the link to complete unsubscription.',
-      });
+    // Sender details and the unsubscribe headers the sender actually published
+    const [email] = await gmailService.getEmailsByIds([emailId], LIST_UNSUBSCRIBE_HEADERS);
+    if (!email) {
+      return NextResponse.json({ error: 'Email not found' }, { status: 404 });
+    }
 
-    } catch (unsubscribeError) {
-      errorMessage = `Unsubscribe failed: ${unsubscribeError instanceof Error ? unsubscribeError.message : 'Unknown error'}`;
-      
-      historyId = await detector.recordUnsubscribeAttempt(
-        userId,
-        emailId,
-        email.from,
-        method,
-        false,
-        errorMessage
-      );
+    const outcome = await new UnsubscribeExecutor(gmailService).unsubscribeFromEmail(email, unsubscribeUrl, method);
+
+    const historyId = await detector.recordUnsubscribeAttempt({
+      userId,
+      emailId,
+      senderEmail: email.from,
+      method: outcome.method,
+      url: outcome.url,
+      success: outcome.success,
+      responseStatus: outcome.responseStatus,
+      errorMessage: outcome.error,
+      details: outcome.details,
+    });
 
-      return NextResponse.json({
-        success: false,
-        error: errorMessage,
-        historyId,
-      });
+    if (outcome.success) {
+      await new SchedulerService().ensureUnsubscribeFollowUpJob(userId);
     }
+
+    const requiresConfirmation = outcome.success === null;
+    return NextResponse.json({
+      success: outcome.success === true,
+      attempted: true,
+      requiresConfirmation,
+      historyId,
+      unsubscribeUrl: outcome.url,
+      method: outcome.method,
+      status: outcome.responseStatus,
+      error: requiresConfirmation ? undefined : outcome.error,
+      message: requiresConfirmation
+        ? 'This sender only offers an unsubscribe page. Open the link to finish, then confirm.'
+        : outcome.success
+          ? outcome.method === 'mailto'
+            ? 'Unsubscribe email sent.'
+            : 'Unsubscribed.'
+          : outcome.error,
+    });
   } catch (error) {
     console.error('Error performing unsubscribe:', error);
     return NextResponse.json({ 
@@ -300,6 +303,8 @@ async function performBulkUnsubscribe(
         success: resultData.success,
         error: resultData.error,
         historyId: resultData.historyId,
+        requiresConfirmation: resultData.requiresConfirmation,
+        unsubscribeUrl: resultData.unsubscribeUrl,
       });
     } catch (error) {
       results.push({
@@ -311,13 +316,59 @@ async function performBulkUnsubscribe(
   }
 
   const successCount = results.filter(r => r.success).length;
+  const confirmationCount = results.filter(r => 'requiresConfirmation' in r && r.requiresConfirmation).length;
   
   return NextResponse.json({
     results,
     summary: {
       total: results.length,
       successful: successCount,
-      failed: results.length - successCount,
+      needsConfirmation: confirmationCount,
+      failed: results.length - successCount - confirmationCount,
     },
   });
-}
\ No newline at end of file
+}
+
+async function escalateUnsubscribe(
+  userId: string,
+  historyId: string,
+  escalation: 'trash_filter' | 'spam',
+  accessToken: string
+) {
+  try {
+    const gmailService = new GmailEnhancedService(accessToken, {
+      supabase: await createClient(),
+      userId,
+    });
+    const result = await new UnsubscribeFollowUpService(gmailService).escalate(userId, historyId, escalation);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: escalation === 'trash_filter'
+        ? 'Future mail from this sender will go straight to the trash.'
+        : `Reported ${result.reportedCount} email(s) as spam.`,
+    });
+  } catch (error: any) {
+    if (error instanceof UnsubscribeFollowUpError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'NOT_FOUND' ? 404 : 409 }
+      );
+    }
+
+    console.error('Error escalating unsubscribe:', error);
+
+    if (error?.message?.includes('insufficient authentication scopes')) {
+      return NextResponse.json(
+        {
+          error: 'Creating Gmail filters requires the Gmail settings permission. Please re-authenticate with Google.',
+          needsReauth: true,
+        },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Failed to escalate unsubscribe' }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { createClient } from "@/lib/supabase/server";
+import { TokenBroker } from "@/lib/token-broker";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function GET(request: NextRequest) {
@@ -8,7 +9,21 @@ export async function GET(request: NextRequest) {
 
   if (code) {
     const supabase = await createClient();
-    await supabase.auth.exchangeCodeForSession(code);
+    const { data } = await supabase.auth.exchangeCodeForSession(code);
+    const session = data?.session;
+
+    // Keep the offline grant so scheduled jobs can run without a browser session
+    if (session?.provider_refresh_token) {
+      try {
+        await new TokenBroker().storeTokens(session.user.id, {
+          refreshToken: session.provider_refresh_token,
+          accessToken: session.provider_token,
+          expiresAt: new Date(Date.now() + 3600 * 1000),
+        });
+      } catch (error) {
+        console.error("Error storing Google refresh token:", error);
+      }
+    }
   }
 
   // URL to redirect to after sign in process completes
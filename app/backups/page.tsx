@@ -0,0 +1,16 @@
+"use client";
+
+import { BackupBrowser } from '@/components/backup-browser';
+
+export default function BackupsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Backups</h1>
+        <p className="text-muted-foreground">Everything your gremlin deleted, kept safe in case you want it back.</p>
+      </div>
+
+      <BackupBrowser />
+    </div>
+  );
+}
@@ -48,7 +48,12 @@ export default function DashboardPage() {
       options: {
         redirectTo: `${location.origin}/auth/callback`,
         scopes:
-          "openid email profile https://www.googleapis.com/auth/gmail.readonly https://www.googleapis.com/auth/gmail.modify",
+          "openid email profile https://www.googleapis.com/auth/gmail.readonly https://www.googleapis.com/auth/gmail.modify https://www.googleapis.com/auth/gmail.send https://www.googleapis.com/auth/gmail.settings.basic",
+        // Offline access returns a refresh token for background jobs
+        queryParams: {
+          access_type: "offline",
+          prompt: "consent",
+        },
       },
     });
 
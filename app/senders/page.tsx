@@ -0,0 +1,16 @@
+"use client";
+
+import { SenderExplorer } from '@/components/sender-explorer';
+
+export default function SendersPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Sender Explorer</h1>
+        <p className="text-muted-foreground">See who fills your inbox and clean up a whole sender at once.</p>
+      </div>
+
+      <SenderExplorer />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -10,11 +11,169 @@ import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { Save, Plus, Trash2, Shield, Zap } from "lucide-react"
+import { Save, Plus, Trash2, Shield, Zap, Mail, AlertTriangle, Forward } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+interface GmailGrant {
+  status: "active" | "revoked" | "missing"
+  scopes: string[]
+  lastError?: string | null
+  lastRefreshedAt?: string | null
+  jobsNeedingReauth: number
+}
+
+interface ForwardingDestination {
+  id: string
+  email: string
+  status: "pending" | "verified"
+  verification_sent_at: string | null
+  verified_at: string | null
+}
+
+interface PushStatus {
+  configured: boolean
+  active: boolean
+}
+
+const GMAIL_SEND_SCOPE = "https://www.googleapis.com/auth/gmail.send"
 
 export default function SettingsPage() {
   const [safeMode, setSafeMode] = useState(true)
   const [autoClean, setAutoClean] = useState(false)
+  const [gmailGrant, setGmailGrant] = useState<GmailGrant | null>(null)
+  const [destinations, setDestinations] = useState<ForwardingDestination[]>([])
+  const [newDestination, setNewDestination] = useState("")
+  const [addingDestination, setAddingDestination] = useState(false)
+  const [pushStatus, setPushStatus] = useState<PushStatus | null>(null)
+  const [updatingPush, setUpdatingPush] = useState(false)
+  const { toast } = useToast()
+
+  const loadDestinations = async () => {
+    try {
+      const response = await fetch("/api/forwarding")
+      if (response.ok) {
+        const data = await response.json()
+        setDestinations(data.destinations)
+      }
+    } catch (error) {
+      console.error("Failed to load forwarding destinations:", error)
+    }
+  }
+
+  const handleAddDestination = async (email: string = newDestination) => {
+    if (!email.trim()) return
+
+    setAddingDestination(true)
+    try {
+      const response = await fetch("/api/forwarding", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "add", email }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to add address")
+
+      toast({ title: "Check your inbox", description: data.message })
+      setNewDestination("")
+      loadDestinations()
+    } catch (error) {
+      toast({
+        title: "Could not add forwarding address",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setAddingDestination(false)
+    }
+  }
+
+  const handleRemoveDestination = async (id: string) => {
+    try {
+      const response = await fetch("/api/forwarding", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "remove", id }),
+      })
+      if (!response.ok) throw new Error("Failed to remove address")
+      setDestinations(destinations.filter((destination) => destination.id !== id))
+    } catch (error) {
+      console.error("Failed to remove forwarding destination:", error)
+    }
+  }
+
+  const handleTogglePush = async (enabled: boolean) => {
+    setUpdatingPush(true)
+    try {
+      const response = await fetch("/api/gmail/watch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: enabled ? "start" : "stop" }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to update push notifications")
+
+      setPushStatus((current) => (current ? { ...current, active: enabled } : current))
+      toast({ title: data.message })
+    } catch (error) {
+      toast({
+        title: "Could not update real-time updates",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setUpdatingPush(false)
+    }
+  }
+
+  useEffect(() => {
+    const loadGmailGrant = async () => {
+      try {
+        const response = await fetch("/api/auth/gmail")
+        if (response.ok) {
+          const data = await response.json()
+          setGmailGrant(data.grant)
+        }
+      } catch (error) {
+        console.error("Failed to load Gmail connection status:", error)
+      }
+    }
+
+    const loadPushStatus = async () => {
+      try {
+        const response = await fetch("/api/gmail/watch")
+        if (response.ok) {
+          const data = await response.json()
+          setPushStatus({ configured: data.configured, active: data.active })
+        }
+      } catch (error) {
+        console.error("Failed to load push notification status:", error)
+      }
+    }
+
+    loadGmailGrant()
+    loadDestinations()
+    loadPushStatus()
+  }, [])
+
+  const handleReconnectGmail = async () => {
+    const supabase = createClient()
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider: "google",
+      options: {
+        redirectTo: `${location.origin}/auth/callback`,
+        scopes:
+          "openid email profile https://www.googleapis.com/auth/gmail.readonly https://www.googleapis.com/auth/gmail.modify https://www.googleapis.com/auth/gmail.send https://www.googleapis.com/auth/gmail.settings.basic",
+        queryParams: {
+          access_type: "offline",
+          prompt: "consent",
+        },
+      },
+    })
+
+    if (error) {
+      console.error("Reconnect error:", error)
+    }
+  }
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
@@ -28,10 +187,56 @@ export default function SettingsPage() {
           <TabsTrigger value="general">General</TabsTrigger>
           <TabsTrigger value="filters">Filter Presets</TabsTrigger>
           <TabsTrigger value="whitelist">Whitelist</TabsTrigger>
+          <TabsTrigger value="forwarding">Forwarding</TabsTrigger>
           <TabsTrigger value="advanced">Advanced</TabsTrigger>
         </TabsList>
 
         <TabsContent value="general" className="space-y-6">
+          {gmailGrant && (
+            <Card className={gmailGrant.status !== "active" ? "border-red-500" : undefined}>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Mail className="w-5 h-5 mr-2 text-brand-600" />
+                  Gmail Connection
+                </CardTitle>
+                <CardDescription>Scheduled jobs use this connection to run while you are away.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Label>Background access</Label>
+                      {gmailGrant.status === "active" ? (
+                        <Badge className="bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400">Connected</Badge>
+                      ) : (
+                        <Badge variant="destructive">Needs re-authentication</Badge>
+                      )}
+                    </div>
+                    {gmailGrant.status === "missing" && (
+                      <p className="text-sm text-muted-foreground">Sign in with Google again to let scheduled jobs run offline.</p>
+                    )}
+                    {gmailGrant.status === "revoked" && (
+                      <p className="text-sm text-muted-foreground">
+                        Google rejected the saved grant{gmailGrant.lastError ? ` (${gmailGrant.lastError})` : ""}.
+                      </p>
+                    )}
+                    {gmailGrant.jobsNeedingReauth > 0 && (
+                      <p className="text-sm text-red-600 flex items-center">
+                        <AlertTriangle className="w-4 h-4 mr-1" />
+                        {gmailGrant.jobsNeedingReauth} scheduled job{gmailGrant.jobsNeedingReauth === 1 ? " is" : "s are"} paused until you reconnect.
+                      </p>
+                    )}
+                  </div>
+                  {gmailGrant.status !== "active" && (
+                    <Button onClick={handleReconnectGmail} className="bg-brand-600 hover:bg-brand-700">
+                      Reconnect Google
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center">
@@ -208,6 +413,83 @@ export default function SettingsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="forwarding" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Forward className="w-5 h-5 mr-2 text-brand-600" />
+                Forwarding Addresses
+              </CardTitle>
+              <CardDescription>
+                Rules can only forward to addresses confirmed through the link we email to them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {gmailGrant && gmailGrant.scopes.length > 0 && !gmailGrant.scopes.includes(GMAIL_SEND_SCOPE) && (
+                <div className="flex items-center justify-between p-3 rounded-lg border border-orange-500">
+                  <p className="text-sm text-muted-foreground flex items-center">
+                    <AlertTriangle className="w-4 h-4 mr-1 text-orange-500" />
+                    Reconnect Google to grant permission to send mail.
+                  </p>
+                  <Button variant="outline" size="sm" onClick={handleReconnectGmail}>
+                    Reconnect
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex space-x-2">
+                <Input
+                  type="email"
+                  placeholder="someone@example.com"
+                  value={newDestination}
+                  onChange={(e) => setNewDestination(e.target.value)}
+                />
+                <Button
+                  onClick={() => handleAddDestination()}
+                  disabled={addingDestination}
+                  className="bg-brand-600 hover:bg-brand-700"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  {addingDestination ? "Sending..." : "Add"}
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                {destinations.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No forwarding addresses yet.</p>
+                )}
+                {destinations.map((destination) => (
+                  <div key={destination.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                    <div className="flex items-center space-x-2">
+                      <span>{destination.email}</span>
+                      {destination.status === "verified" ? (
+                        <Badge className="bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400">Verified</Badge>
+                      ) : (
+                        <Badge variant="secondary">Awaiting confirmation</Badge>
+                      )}
+                    </div>
+                    <div className="flex space-x-2">
+                      {destination.status === "pending" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleAddDestination(destination.email)}
+                          disabled={addingDestination}
+                        >
+                          Resend
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleRemoveDestination(destination.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="advanced" className="space-y-6">
           <Card>
             <CardHeader>
@@ -218,6 +500,22 @@ export default function SettingsPage() {
               <CardDescription>Power user options for fine-tuning your gremlin.</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
+              {pushStatus?.configured && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label>Real-time updates</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Get changes from Gmail as they happen instead of checking every 30 seconds
+                      </p>
+                    </div>
+                    <Switch checked={pushStatus.active} disabled={updatingPush} onCheckedChange={handleTogglePush} />
+                  </div>
+
+                  <Separator />
+                </>
+              )}
+
               <div className="space-y-2">
                 <Label>Custom Gmail Query</Label>
                 <Textarea
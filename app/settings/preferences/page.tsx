@@ -37,6 +37,10 @@ import {
 
 import { UserPreferences, CleanupStrategy, CustomCategory, NotificationSettings, AutomationSettings, DEFAULT_PREFERENCES } from '@/lib/user-preferences';
 
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function'
+  ? ['UTC', ...Intl.supportedValuesOf('timeZone').filter((zone) => zone !== 'UTC')]
+  : ['UTC'];
+
 export default function PreferencesPage() {
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
   const [loading, setLoading] = useState(true);
@@ -432,6 +436,27 @@ export default function PreferencesPage() {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Time zone</Label>
+                  <Select
+                    value={preferences.ui_preferences.timezone || 'UTC'}
+                    onValueChange={(timezone) => setPreferences({
+                      ...preferences,
+                      ui_preferences: { ...preferences.ui_preferences, timezone },
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_ZONES.map((zone) => (
+                        <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-gray-600">Scheduled jobs run according to this time zone</p>
+                </div>
+
                 <div className="space-y-2">
                   <Label>Default view</Label>
                   <Select
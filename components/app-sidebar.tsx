@@ -1,6 +1,6 @@
 "use client"
 
-import { Home, Settings, BarChart3, Filter } from "lucide-react"
+import { Home, Settings, BarChart3, Filter, Users, ArchiveRestore } from "lucide-react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 
@@ -29,6 +29,16 @@ const navigationItems = [
     url: "/dashboard",
     icon: Home,
   },
+  {
+    title: "Senders",
+    url: "/senders",
+    icon: Users,
+  },
+  {
+    title: "Backups",
+    url: "/backups",
+    icon: ArchiveRestore,
+  },
   {
     title: "Settings",
     url: "/settings",
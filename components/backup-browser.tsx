@@ -0,0 +1,259 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Download, RotateCcw, Trash2, ChevronRight, ChevronDown, FileText, RefreshCw } from 'lucide-react';
+
+interface BackedUpMessage {
+  id: string;
+  subject: string;
+  from: string;
+  date: string;
+  labels: string[];
+  restoredMessageId?: string;
+}
+
+interface MailBackup {
+  id: string;
+  operation_id: string | null;
+  operation_type: string;
+  message_count: number;
+  size_bytes: number;
+  created_at: string;
+  messages?: BackedUpMessage[];
+}
+
+// Matches the API's per-request restore limit
+const MAX_RESTORE_MESSAGES = 100;
+
+export function BackupBrowser() {
+  const [backups, setBackups] = useState<MailBackup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [openBackup, setOpenBackup] = useState<MailBackup | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    fetchBackups();
+  }, []);
+
+  const fetchBackups = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/backups');
+      if (!response.ok) throw new Error('Failed to fetch backups');
+
+      const data = await response.json();
+      setBackups(data.backups);
+    } catch (error) {
+      console.error('Error fetching backups:', error);
+      toast.error('Failed to load backups');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleBackup = async (backup: MailBackup) => {
+    setSelected(new Set());
+    if (openBackup?.id === backup.id) {
+      setOpenBackup(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/backups?id=${backup.id}`);
+      if (!response.ok) throw new Error('Failed to load backup');
+
+      const data = await response.json();
+      setOpenBackup(data.backup);
+    } catch (error) {
+      console.error('Error loading backup:', error);
+      toast.error('Failed to load backup');
+    }
+  };
+
+  const toggleMessage = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+
+  const restoreSelected = async () => {
+    if (!openBackup || selected.size === 0) return;
+
+    setRestoring(true);
+    try {
+      const response = await fetch('/api/backups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'restore', backupId: openBackup.id, messageIds: Array.from(selected) }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to restore messages');
+
+      if (data.errors.length > 0) {
+        toast.error(`Restored ${data.restoredCount}, ${data.errors.length} failed: ${data.errors[0]}`);
+      } else {
+        toast.success(`Restored ${data.restoredCount} email(s) to Gmail`);
+      }
+
+      setSelected(new Set());
+      const refreshed = await fetch(`/api/backups?id=${openBackup.id}`);
+      if (refreshed.ok) setOpenBackup((await refreshed.json()).backup);
+    } catch (error) {
+      console.error('Error restoring messages:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore messages');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const deleteBackup = async (backup: MailBackup) => {
+    try {
+      const response = await fetch(`/api/backups?id=${backup.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete backup');
+
+      toast.success('Backup deleted');
+      if (openBackup?.id === backup.id) setOpenBackup(null);
+      await fetchBackups();
+    } catch (error) {
+      console.error('Error deleting backup:', error);
+      toast.error('Failed to delete backup');
+    }
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Deletion backups</CardTitle>
+            <CardDescription>
+              Raw copies of every email taken before it was deleted. Download them as mbox, or put selected emails back into Gmail.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={fetchBackups} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {backups.length === 0 && (
+          <p className="text-center text-muted-foreground py-8">
+            {loading ? 'Loading...' : 'No backups yet. They are created whenever emails are deleted.'}
+          </p>
+        )}
+
+        {backups.map(backup => (
+          <div key={backup.id} className="border rounded-lg">
+            <div className="flex items-center justify-between p-3">
+              <button className="flex items-center gap-2 text-left" onClick={() => toggleBackup(backup)}>
+                {openBackup?.id === backup.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                <div>
+                  <div className="font-medium">{new Date(backup.created_at).toLocaleString()}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {backup.message_count} email(s) · {formatSize(backup.size_bytes)}
+                  </div>
+                </div>
+                <Badge variant="outline" className="ml-2 capitalize">{backup.operation_type}</Badge>
+              </button>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/backups?id=${backup.id}&format=mbox`}>
+                    <Download className="h-4 w-4 mr-1" />
+                    mbox
+                  </a>
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete backup</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The archive of {backup.message_count} email(s) will be removed for good. Emails already restored stay in Gmail.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteBackup(backup)}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+
+            {openBackup?.id === backup.id && (
+              <div className="border-t p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">{selected.size} selected</span>
+                  <Button
+                    size="sm"
+                    onClick={restoreSelected}
+                    disabled={restoring || selected.size === 0 || selected.size > MAX_RESTORE_MESSAGES}
+                  >
+                    <RotateCcw className={`h-4 w-4 mr-1 ${restoring ? 'animate-spin' : ''}`} />
+                    Restore to Gmail
+                  </Button>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8"></TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>From</TableHead>
+                      <TableHead>Received</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(openBackup.messages || []).map(message => (
+                      <TableRow key={message.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.has(message.id)}
+                            onCheckedChange={(checked) => toggleMessage(message.id, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate">
+                          {message.subject}
+                          {message.restoredMessageId && <Badge variant="secondary" className="ml-2">Restored</Badge>}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate text-muted-foreground">{message.from}</TableCell>
+                        <TableCell className="text-muted-foreground">{new Date(message.date).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" asChild>
+                            <a href={`/api/backups?id=${backup.id}&message=${message.id}`} title="Download .eml">
+                              <FileText className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -43,6 +43,15 @@ interface EmailData {
   labels: string[];
 }
 import { createClient } from "@/lib/supabase/client";
+import type { DryRunPlan } from "@/lib/dry-run";
+
+// Organize route action for each previewable operation
+const PREVIEW_ACTIONS: Record<PreviewOperation["type"], string> = {
+  archive: "archive",
+  delete: "delete",
+  label: "label",
+  mark_read: "markAsRead",
+};
 
 interface InboxOrganizerProps {
   onRefresh?: () => void;
@@ -72,24 +81,43 @@ export function InboxOrganizer({ onRefresh }: InboxOrganizerProps) {
     onConfirm: () => {},
   });
 
-  const fetchPreviewEmails = async (operation: PreviewOperation): Promise<EmailData[]> => {
+  const fetchPreviewPlan = async (operation: PreviewOperation): Promise<DryRunPlan> => {
     try {
+      let emailIds = operation.emailIds;
+      if (!emailIds) {
+        const response = await fetch("/api/emails/organize", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action: "getByQuery",
+            query: operation.query,
+            maxResults: 100,
+          }),
+        });
+
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+        emailIds = ((result.emails || []) as EmailData[]).map((email) => email.id);
+      }
+
+      // Ask the server what the operation would change without running it
       const response = await fetch("/api/emails/organize", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          action: "getByQuery",
-          query: operation.query,
-          maxResults: 100,
+          action: PREVIEW_ACTIONS[operation.type],
+          emailIds,
+          labelIds: operation.labelIds,
+          dryRun: true,
         }),
       });
 
       const result = await response.json();
       if (!response.ok) throw new Error(result.error);
-      
-      return result.emails || [];
+
+      return result.plan;
     } catch (error) {
-      console.error("Error fetching preview emails:", error);
+      console.error("Error fetching preview plan:", error);
       throw error;
     }
   };
@@ -438,7 +466,7 @@ export function InboxOrganizer({ onRefresh }: InboxOrganizerProps) {
         onClose={() => setPreviewModal({ ...previewModal, isOpen: false })}
         operation={previewModal.operation}
         onConfirm={previewModal.onConfirm}
-        onFetchPreview={fetchPreviewEmails}
+        onFetchPlan={fetchPreviewPlan}
       />
     </div>
   );
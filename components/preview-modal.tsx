@@ -19,23 +19,13 @@ import {
   Trash2,
   Tag,
   Mail,
-  Clock,
   User,
+  Forward,
   AlertTriangle,
   CheckCircle,
   Loader2,
 } from "lucide-react";
-// Remove direct import to avoid bundling googleapis on client side
-// import { EmailData } from "@/lib/gmail/service";
-interface EmailData {
-  id: string;
-  subject: string;
-  from: string;
-  date: string;
-  snippet: string;
-  isRead: boolean;
-  labels: string[];
-}
+import type { DryRunPlan, PlannedActionType } from "@/lib/dry-run";
 
 export interface PreviewOperation {
   type: 'archive' | 'delete' | 'label' | 'mark_read';
@@ -50,37 +40,48 @@ interface PreviewModalProps {
   onClose: () => void;
   operation: PreviewOperation | null;
   onConfirm: () => void;
-  onFetchPreview?: (operation: PreviewOperation) => Promise<EmailData[]>;
+  onFetchPlan?: (operation: PreviewOperation) => Promise<DryRunPlan>;
 }
 
+const ACTION_LABELS: Record<PlannedActionType, string> = {
+  archive: "Archive",
+  trash: "Move to trash",
+  label: "Add label",
+  unlabel: "Remove label",
+  mark_read: "Mark read",
+  mark_unread: "Mark unread",
+  star: "Star",
+  unstar: "Unstar",
+  forward: "Forward",
+};
+
 export function PreviewModal({
   isOpen,
   onClose,
   operation,
   onConfirm,
-  onFetchPreview,
+  onFetchPlan,
 }: PreviewModalProps) {
-  const [emails, setEmails] = useState<EmailData[]>([]);
+  const [plan, setPlan] = useState<DryRunPlan | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (isOpen && operation && onFetchPreview) {
-      fetchPreviewEmails();
+    if (isOpen && operation && onFetchPlan) {
+      fetchPlan();
     }
   }, [isOpen, operation]);
 
-  const fetchPreviewEmails = async () => {
-    if (!operation || !onFetchPreview) return;
+  const fetchPlan = async () => {
+    if (!operation || !onFetchPlan) return;
 
     try {
       setLoading(true);
       setError(null);
-      const previewEmails = await onFetchPreview(operation);
-      setEmails(previewEmails);
+      setPlan(await onFetchPlan(operation));
     } catch (err: any) {
       setError(err.message || 'Failed to fetch preview');
-      setEmails([]);
+      setPlan(null);
     } finally {
       setLoading(false);
     }
@@ -138,6 +139,11 @@ export function PreviewModal({
 
   if (!operation) return null;
 
+  const messages = plan?.messages || [];
+  const totals = plan
+    ? (Object.keys(ACTION_LABELS) as PlannedActionType[]).filter(action => plan.totals[action] > 0)
+    : [];
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[80vh] flex flex-col">
@@ -157,7 +163,7 @@ export function PreviewModal({
           {loading ? (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="h-6 w-6 animate-spin mr-2" />
-              <span>Loading email preview...</span>
+              <span>Planning changes...</span>
             </div>
           ) : error ? (
             <Alert variant="destructive">
@@ -167,15 +173,15 @@ export function PreviewModal({
           ) : (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
+                <div className="flex items-center gap-2 flex-wrap">
                   <span className="text-sm font-medium">
-                    {emails.length} email{emails.length !== 1 ? 's' : ''} will be affected
+                    {messages.length} email{messages.length !== 1 ? 's' : ''} will change
                   </span>
-                  {emails.length > 0 && (
-                    <Badge variant="secondary" className="text-xs">
-                      {emails.filter(e => !e.isRead).length} unread
+                  {totals.map(action => (
+                    <Badge key={action} variant="secondary" className="text-xs">
+                      {ACTION_LABELS[action]}: {plan!.totals[action]}
                     </Badge>
-                  )}
+                  ))}
                 </div>
                 {operation.query && (
                   <Badge variant="outline" className="text-xs font-mono">
@@ -184,63 +190,57 @@ export function PreviewModal({
                 )}
               </div>
 
-              {emails.length === 0 ? (
+              {messages.length === 0 ? (
                 <Alert>
                   <CheckCircle className="h-4 w-4" />
                   <AlertDescription>
-                    No emails match the criteria. No action will be performed.
+                    No emails would change. No action will be performed.
                   </AlertDescription>
                 </Alert>
               ) : (
                 <ScrollArea className="h-96 border rounded-md">
                   <div className="p-4 space-y-3">
-                    {emails.map((email, index) => (
-                      <div key={email.id} className="space-y-2">
-                        <div className="flex items-start justify-between gap-3">
-                          <div className="flex-1 min-w-0 space-y-1">
-                            <div className="flex items-center gap-2">
-                              <span className={`text-sm font-medium truncate ${
-                                !email.isRead ? 'font-bold' : ''
-                              }`}>
-                                {email.subject || 'No Subject'}
-                              </span>
-                              {!email.isRead && (
-                                <Badge variant="default" className="text-xs">
-                                  Unread
-                                </Badge>
-                              )}
-                            </div>
-                            <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                              <User className="h-3 w-3" />
-                              <span className="truncate">{email.from}</span>
-                              <Clock className="h-3 w-3 ml-2" />
-                              <span>{email.date}</span>
-                            </div>
-                            {email.snippet && (
-                              <p className="text-xs text-muted-foreground line-clamp-2">
-                                {email.snippet}
-                              </p>
-                            )}
-                            {email.labels.length > 0 && (
-                              <div className="flex gap-1 flex-wrap">
-                                {email.labels
-                                  .filter(label => !['INBOX', 'UNREAD', 'IMPORTANT'].includes(label))
-                                  .slice(0, 3)
-                                  .map(label => (
-                                    <Badge key={label} variant="outline" className="text-xs">
-                                      {label}
-                                    </Badge>
-                                  ))}
-                                {email.labels.length > 6 && (
-                                  <Badge variant="outline" className="text-xs">
-                                    +{email.labels.length - 6} more
-                                  </Badge>
-                                )}
-                              </div>
+                    {messages.map((message, index) => (
+                      <div key={message.emailId} className="space-y-2">
+                        <div className="space-y-1">
+                          <span className="text-sm font-medium truncate block">
+                            {message.subject || 'No Subject'}
+                          </span>
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <User className="h-3 w-3" />
+                            <span className="truncate">{message.from}</span>
+                            {message.sources.length > 0 && (
+                              <span className="truncate">· via {message.sources.join(', ')}</span>
                             )}
                           </div>
+                          <div className="flex gap-1 flex-wrap font-mono">
+                            {message.addLabels.map(label => (
+                              <Badge
+                                key={`+${label}`}
+                                variant="outline"
+                                className="text-xs border-green-300 bg-green-50 text-green-700"
+                              >
+                                + {label}
+                              </Badge>
+                            ))}
+                            {message.removeLabels.map(label => (
+                              <Badge
+                                key={`-${label}`}
+                                variant="outline"
+                                className="text-xs border-red-300 bg-red-50 text-red-700 line-through"
+                              >
+                                − {label}
+                              </Badge>
+                            ))}
+                            {message.forwardTo.map(destination => (
+                              <Badge key={`>${destination}`} variant="outline" className="text-xs">
+                                <Forward className="h-3 w-3 mr-1" />
+                                {destination}
+                              </Badge>
+                            ))}
+                          </div>
                         </div>
-                        {index < emails.length - 1 && <Separator />}
+                        {index < messages.length - 1 && <Separator />}
                       </div>
                     ))}
                   </div>
@@ -256,14 +256,14 @@ export function PreviewModal({
           </Button>
           <Button
             onClick={handleConfirm}
-            disabled={loading || emails.length === 0}
+            disabled={loading || messages.length === 0}
             variant={getConfirmButtonVariant()}
           >
             {operation.type === 'delete' && (
               <AlertTriangle className="h-4 w-4 mr-2" />
             )}
             Confirm {operation.type === 'delete' ? 'Delete' : 'Action'}
-            {emails.length > 0 && ` (${emails.length})`}
+            {messages.length > 0 && ` (${messages.length})`}
           </Button>
         </DialogFooter>
       </DialogContent>
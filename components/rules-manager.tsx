@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -13,27 +13,37 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
-import { Plus, Play, Edit, Trash2, TestTube, Clock, CheckCircle, XCircle } from 'lucide-react';
-
-interface RuleCondition {
-  field: 'from' | 'to' | 'subject' | 'body' | 'has_attachment' | 'size' | 'age_days' | 'label' | 'is_unread';
-  operator: 'contains' | 'equals' | 'starts_with' | 'ends_with' | 'greater_than' | 'less_than' | 'has' | 'not_has';
-  value: string | number | boolean;
-  case_sensitive?: boolean;
-}
+import { Plus, Play, Edit, Trash2, TestTube, Clock, CheckCircle, XCircle, FolderPlus, AlertTriangle, Download, Upload, FileDown, FileUp, RotateCcw } from 'lucide-react';
+import {
+  ConditionCombinator,
+  MAX_CONDITION_DEPTH,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  StoredRuleConditions,
+  ConditionTrace,
+  isConditionGroup,
+  normalizeConditions,
+} from '@/lib/rule-conditions';
+import { BacktestReport, mergeBacktestReports } from '@/lib/rule-backtest';
+import type { RuleConflict } from '@/lib/rule-conflicts';
 
 interface RuleAction {
   type: 'archive' | 'delete' | 'label' | 'mark_read' | 'mark_unread' | 'forward' | 'star' | 'unstar';
   value?: string;
+  max_per_hour?: number;
 }
 
 interface UserRule {
   id: string;
   user_id: string;
   name: string;
-  conditions: RuleCondition[];
+  conditions: StoredRuleConditions;
   actions: RuleAction[];
   is_active: boolean;
+  priority: number;
+  stop_processing: boolean;
+  watermark_at?: string | null;
   schedule?: {
     enabled: boolean;
     frequency: 'hourly' | 'daily' | 'weekly';
@@ -44,6 +54,21 @@ interface UserRule {
   updated_at: string;
 }
 
+interface FilterSyncStatus {
+  ruleId: string;
+  filterId: string | null;
+  state: 'not_linked' | 'in_sync' | 'rule_changed' | 'gmail_changed' | 'both_changed' | 'gmail_deleted';
+  syncedAt: string | null;
+  unsupported: string[];
+}
+
+interface ImportPlan {
+  create: { name: string }[];
+  replace: { id: string; rule: { name: string } }[];
+  skipped: { name: string; reason: string }[];
+  issues: { line?: number; index?: number; rule?: string; message: string }[];
+}
+
 interface RuleExecution {
   id: string;
   rule_id: string;
@@ -59,14 +84,18 @@ interface RuleExecution {
 
 export function RulesManager() {
   const [rules, setRules] = useState<UserRule[]>([]);
+  const [conflicts, setConflicts] = useState<RuleConflict[]>([]);
+  const [filterStatuses, setFilterStatuses] = useState<Record<string, FilterSyncStatus>>({});
   const [loading, setLoading] = useState(true);
   const [selectedRule, setSelectedRule] = useState<UserRule | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [testResults, setTestResults] = useState<any>(null);
+  const [testConditions, setTestConditions] = useState<StoredRuleConditions | null>(null);
 
   useEffect(() => {
     fetchRules();
+    fetchFilterStatuses();
   }, []);
 
   const fetchRules = async () => {
@@ -75,6 +104,7 @@ export function RulesManager() {
       if (!response.ok) throw new Error('Failed to fetch rules');
       const data = await response.json();
       setRules(data.rules);
+      setConflicts(data.conflicts || []);
     } catch (error) {
       console.error('Error fetching rules:', error);
       toast.error('Failed to load rules');
@@ -83,16 +113,55 @@ export function RulesManager() {
     }
   };
 
-  const executeRule = async (rule: UserRule) => {
+  // Gmail filter sync is optional; without the settings permission the controls stay hidden
+  const fetchFilterStatuses = async () => {
+    try {
+      const response = await fetch('/api/rules/gmail-filters');
+      if (!response.ok) return;
+      const data = await response.json();
+      setFilterStatuses(Object.fromEntries(
+        (data.statuses as FilterSyncStatus[]).map(status => [status.ruleId, status])
+      ));
+    } catch (error) {
+      console.error('Error fetching Gmail filter status:', error);
+    }
+  };
+
+  const syncGmailFilter = async (request: Record<string, unknown>) => {
+    try {
+      const response = await fetch('/api/rules/gmail-filters', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to sync Gmail filter');
+
+      if (request.action === 'import' && data.skipped?.length > 0) {
+        toast.success(`${data.message}; ${data.skipped.length} could not be converted`);
+      } else {
+        toast.success(data.message || 'Gmail filter updated');
+      }
+
+      fetchRules();
+      fetchFilterStatuses();
+    } catch (error) {
+      console.error('Error syncing Gmail filter:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to sync Gmail filter');
+    }
+  };
+
+  const executeRule = async (rule: UserRule, reprocessAll = false) => {
     try {
       const response = await fetch('/api/rules/execute', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ruleId: rule.id, maxEmails: 500 }),
+        body: JSON.stringify({ ruleId: rule.id, maxEmails: 500, reprocessAll }),
       });
 
-      if (!response.ok) throw new Error('Failed to execute rule');
       const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to execute rule');
 
       toast.success(
         `Rule executed successfully! ${data.summary.emailsMatched} emails matched, ${data.summary.actionsPerformed} actions performed.`
@@ -102,11 +171,11 @@ export function RulesManager() {
       fetchRules();
     } catch (error) {
       console.error('Error executing rule:', error);
-      toast.error('Failed to execute rule');
+      toast.error(error instanceof Error ? error.message : 'Failed to execute rule');
     }
   };
 
-  const testRule = async (conditions: RuleCondition[]) => {
+  const testRule = async (conditions: StoredRuleConditions) => {
     try {
       const response = await fetch('/api/rules/execute', {
         method: 'PUT',
@@ -116,6 +185,7 @@ export function RulesManager() {
 
       if (!response.ok) throw new Error('Failed to test rule');
       const data = await response.json();
+      setTestConditions(conditions);
       setTestResults(data);
     } catch (error) {
       console.error('Error testing rule:', error);
@@ -141,6 +211,9 @@ export function RulesManager() {
       ));
       
       toast.success(`Rule ${rule.is_active ? 'deactivated' : 'activated'}`);
+
+      // Only active rules are checked for conflicts
+      fetchRules();
     } catch (error) {
       console.error('Error updating rule:', error);
       toast.error('Failed to update rule');
@@ -156,6 +229,7 @@ export function RulesManager() {
       if (!response.ok) throw new Error('Failed to delete rule');
       
       setRules(rules.filter(r => r.id !== rule.id));
+      setConflicts(conflicts.filter(conflict => !conflict.ruleIds.includes(rule.id)));
       toast.success('Rule deleted successfully');
     } catch (error) {
       console.error('Error deleting rule:', error);
@@ -182,26 +256,49 @@ export function RulesManager() {
           <p className="text-gray-600">Automate your email management with custom rules</p>
         </div>
         
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Create Rule
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Create New Rule</DialogTitle>
-              <DialogDescription>
-                Set up conditions and actions for automatically processing emails
-              </DialogDescription>
-            </DialogHeader>
-            <CreateRuleForm onSuccess={() => {
-              setIsCreateDialogOpen(false);
-              fetchRules();
-            }} />
-          </DialogContent>
-        </Dialog>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" asChild>
+            <a href="/api/rules?format=json" download>
+              <FileDown className="h-4 w-4 mr-2" />
+              Export JSON
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href="/api/rules?format=sieve" download>
+              <FileDown className="h-4 w-4 mr-2" />
+              Export Sieve
+            </a>
+          </Button>
+          <RuleImportDialog onImported={() => {
+            fetchRules();
+            fetchFilterStatuses();
+          }} />
+          <Button variant="outline" onClick={() => syncGmailFilter({ action: 'import' })}>
+            <Download className="h-4 w-4 mr-2" />
+            Import Gmail Filters
+          </Button>
+
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Rule
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Create New Rule</DialogTitle>
+                <DialogDescription>
+                  Set up conditions and actions for automatically processing emails
+                </DialogDescription>
+              </DialogHeader>
+              <CreateRuleForm onSuccess={() => {
+                setIsCreateDialogOpen(false);
+                fetchRules();
+              }} />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {rules.length === 0 ? (
@@ -230,6 +327,10 @@ export function RulesManager() {
                     <Badge variant={rule.is_active ? "default" : "secondary"}>
                       {rule.is_active ? "Active" : "Inactive"}
                     </Badge>
+                    <Badge variant="outline">Priority {rule.priority ?? 0}</Badge>
+                    {rule.stop_processing && (
+                      <Badge variant="outline">Stops processing</Badge>
+                    )}
                   </div>
                   
                   <div className="flex items-center space-x-2">
@@ -295,18 +396,18 @@ export function RulesManager() {
               
               <CardContent>
                 <div className="space-y-4">
+                  <RuleConflictList conflicts={conflicts.filter(conflict => conflict.ruleIds.includes(rule.id))} />
+
+                  {filterStatuses[rule.id] && (
+                    <GmailFilterControls
+                      status={filterStatuses[rule.id]}
+                      onSync={(request) => syncGmailFilter({ ruleId: rule.id, ...request })}
+                    />
+                  )}
+
                   <div>
                     <h4 className="font-medium mb-2">Conditions</h4>
-                    <div className="space-y-1">
-                      {rule.conditions.map((condition, index) => (
-                        <div key={index} className="text-sm text-gray-600">
-                          <Badge variant="outline" className="mr-2">
-                            {condition.field}
-                          </Badge>
-                          {condition.operator} "{condition.value}"
-                        </div>
-                      ))}
-                    </div>
+                    <ConditionSummary group={normalizeConditions(rule.conditions)} />
                   </div>
                   
                   <div>
@@ -321,6 +422,37 @@ export function RulesManager() {
                     </div>
                   </div>
                   
+                  <div className="flex items-center justify-between gap-2 text-sm text-gray-600">
+                    <span>
+                      {rule.watermark_at
+                        ? `Scheduled runs have evaluated mail received before ${new Date(rule.watermark_at).toLocaleString()}`
+                        : 'The next scheduled run evaluates all inbox mail'}
+                    </span>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={!rule.is_active}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Re-run over everything
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Re-run over everything</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Run "{rule.name}" over all mail in your inbox, not only mail that arrived since its
+                            last run. On a large inbox this can take a while.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => executeRule(rule, true)}>
+                            Re-run
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+
                   {rule.schedule?.enabled && (
                     <div>
                       <h4 className="font-medium mb-2 flex items-center">
@@ -359,6 +491,7 @@ export function RulesManager() {
                 setIsEditDialogOpen(false);
                 setSelectedRule(null);
                 fetchRules();
+                fetchFilterStatuses();
               }}
             />
           )}
@@ -368,7 +501,7 @@ export function RulesManager() {
       {/* Test Results Dialog */}
       {testResults && (
         <Dialog open={!!testResults} onOpenChange={() => setTestResults(null)}>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Rule Test Results</DialogTitle>
               <DialogDescription>
@@ -401,6 +534,13 @@ export function RulesManager() {
                   </div>
                 </div>
               )}
+
+              {testConditions && (
+                <>
+                  <Separator />
+                  <RuleBacktest conditions={testConditions} />
+                </>
+              )}
             </div>
           </DialogContent>
         </Dialog>
@@ -409,6 +549,427 @@ export function RulesManager() {
   );
 }
 
+const BACKTEST_PERIODS = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 91, label: 'Last 3 months' },
+  { days: 182, label: 'Last 6 months' },
+  { days: 365, label: 'Last 12 months' },
+];
+
+function formatTraceValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ') || '(none)';
+  if (value === undefined || value === null || value === '') return '(empty)';
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+function describeTrace(trace: ConditionTrace): string {
+  const field = trace.field === 'header' ? `header ${trace.header}` : trace.field.replace('_', ' ');
+  return `${field} ${trace.operator.replace(/_/g, ' ')} "${formatTraceValue(trace.expected)}"`;
+}
+
+// Backtest a rule against a past period, paging through every message in it
+function RuleBacktest({ conditions }: { conditions: StoredRuleConditions }) {
+  const [days, setDays] = useState('182');
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const stopped = useRef(false);
+
+  useEffect(() => () => {
+    stopped.current = true;
+  }, []);
+
+  const runBacktest = async () => {
+    const end = new Date();
+    const start = new Date(end.getTime() - Number(days) * 24 * 60 * 60 * 1000);
+    let merged: BacktestReport | null = null;
+    let pageToken: string | null = null;
+
+    stopped.current = false;
+    setRunning(true);
+    setReport(null);
+
+    try {
+      do {
+        const response = await fetch('/api/rules/execute', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            conditions,
+            backtest: { start: start.toISOString(), end: end.toISOString(), pageToken },
+          }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to backtest rule');
+
+        const page: BacktestReport = data.report;
+        merged = merged ? mergeBacktestReports(merged, page) : page;
+        setReport(merged);
+        pageToken = page.nextPageToken;
+      } while (pageToken && !stopped.current);
+    } catch (error) {
+      console.error('Error backtesting rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to backtest rule');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const busiestWeek = Math.max(1, ...(report?.weeks.map(week => week.matched) || []));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end justify-between gap-4">
+        <div className="space-y-1">
+          <h4 className="font-medium">Backtest</h4>
+          <p className="text-sm text-gray-600">Run the conditions against all mail from a past period</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={days} onValueChange={setDays} disabled={running}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BACKTEST_PERIODS.map(period => (
+                <SelectItem key={period.days} value={String(period.days)}>
+                  {period.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {running ? (
+            <Button variant="outline" size="sm" onClick={() => { stopped.current = true; }}>
+              Stop
+            </Button>
+          ) : (
+            <Button size="sm" onClick={runBacktest}>
+              <Play className="h-4 w-4 mr-1" />
+              Run
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {report && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="text-center p-3 bg-gray-50 rounded-lg">
+              <div className="text-xl font-bold">
+                {report.scanned}
+                {report.estimatedTotal ? <span className="text-sm font-normal text-gray-500"> / ~{report.estimatedTotal}</span> : null}
+              </div>
+              <div className="text-sm text-gray-600">{running ? 'Scanning…' : report.nextPageToken ? 'Scanned (stopped)' : 'Scanned'}</div>
+            </div>
+            <div className="text-center p-3 bg-blue-50 rounded-lg">
+              <div className="text-xl font-bold text-blue-600">{report.matched}</div>
+              <div className="text-sm text-gray-600">Matched</div>
+            </div>
+            <div className="text-center p-3 bg-gray-50 rounded-lg">
+              <div className="text-xl font-bold">
+                {report.scanned > 0 ? Math.round((report.matched / report.scanned) * 100) : 0}%
+              </div>
+              <div className="text-sm text-gray-600">Match rate</div>
+            </div>
+          </div>
+
+          {report.weeks.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">Matches by week</h4>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {report.weeks.map(week => (
+                  <div key={week.weekStart} className="flex items-center gap-2 text-xs">
+                    <span className="w-20 text-gray-600">{week.weekStart}</span>
+                    <div className="flex-1 h-3 bg-gray-100 rounded">
+                      <div
+                        className="h-3 bg-blue-500 rounded"
+                        style={{ width: `${(week.matched / busiestWeek) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-20 text-right text-gray-600">{week.matched} / {week.scanned}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {report.samples.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">Sample matches</h4>
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {report.samples.map(sample => (
+                  <div key={sample.id} className="p-3 border rounded-lg space-y-1">
+                    <div className="font-medium truncate">{sample.subject || '(no subject)'}</div>
+                    <div className="text-sm text-gray-600 truncate">{sample.from}</div>
+                    <div className="text-xs text-gray-500">{sample.date}</div>
+                    <ul className="text-xs space-y-0.5 pt-1">
+                      {sample.fired.map((trace, index) => (
+                        <li key={index} className="flex gap-1">
+                          {trace.matched
+                            ? <CheckCircle className="h-3 w-3 mt-0.5 text-green-600 shrink-0" />
+                            : <XCircle className="h-3 w-3 mt-0.5 text-gray-400 shrink-0" />}
+                          <span>
+                            {describeTrace(trace)}
+                            <span className="text-gray-500"> — was &quot;{formatTraceValue(trace.actual)}&quot;</span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RuleConflictList({ conflicts }: { conflicts: RuleConflict[] }) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {conflicts.map(conflict => (
+        <li
+          key={`${conflict.type}:${conflict.ruleIds.join(':')}`}
+          className={`flex gap-2 text-sm ${conflict.severity === 'warning' ? 'text-amber-700' : 'text-gray-600'}`}
+        >
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{conflict.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function describeIssue(issue: ImportPlan['issues'][number]): string {
+  const location = issue.line !== undefined
+    ? `Line ${issue.line}`
+    : issue.index !== undefined ? `Rule ${issue.index + 1}` : null;
+  const subject = issue.rule ? `"${issue.rule}"` : null;
+  return [location, subject].filter(Boolean).join(', ') + (location || subject ? ': ' : '') + issue.message;
+}
+
+function RuleImportDialog({ onImported }: { onImported: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<'json' | 'sieve'>('json');
+  const [onDuplicate, setOnDuplicate] = useState<'skip' | 'replace' | 'rename'>('skip');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [missingLabels, setMissingLabels] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reset = () => {
+    setFileName('');
+    setContent('');
+    setPlan(null);
+    setMissingLabels([]);
+  };
+
+  const selectFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setFormat(/\.(sieve|siv)$/i.test(file.name) ? 'sieve' : 'json');
+    setContent(await file.text());
+    setPlan(null);
+  };
+
+  const submit = async (preview: boolean) => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'import', format, content, preview, onDuplicate }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to import rules');
+        return;
+      }
+
+      if (preview) {
+        setPlan(data.plan);
+        setMissingLabels(data.missingLabels || []);
+      } else {
+        toast.success(data.message);
+        setOpen(false);
+        reset();
+        onImported();
+      }
+    } catch (error) {
+      console.error('Error importing rules:', error);
+      toast.error('Failed to import rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const writes = plan ? plan.create.length + plan.replace.length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => {
+      setOpen(value);
+      if (!value) reset();
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileUp className="h-4 w-4 mr-2" />
+          Import Rules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Rules</DialogTitle>
+          <DialogDescription>
+            Import a JSON rules export or a Sieve script. Nothing is saved until you confirm the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="rules-import-file">File</Label>
+            <Input
+              id="rules-import-file"
+              type="file"
+              accept=".json,.sieve,.siv,application/json,application/sieve"
+              onChange={(e) => selectFile(e.target.files?.[0])}
+            />
+            {fileName && (
+              <p className="text-xs text-gray-500 mt-1">
+                {fileName} read as {format === 'sieve' ? 'Sieve' : 'JSON'}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label>When a rule with the same name exists</Label>
+            <Select value={onDuplicate} onValueChange={(value: 'skip' | 'replace' | 'rename') => {
+              setOnDuplicate(value);
+              setPlan(null);
+            }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip">Skip the imported rule</SelectItem>
+                <SelectItem value="replace">Replace the existing rule</SelectItem>
+                <SelectItem value="rename">Import it under a new name</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {plan && (
+            <div className="space-y-3 rounded-md border p-3 text-sm">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{plan.create.length} new</Badge>
+                <Badge variant="secondary">{plan.replace.length} replaced</Badge>
+                <Badge variant="outline">{plan.skipped.length} skipped</Badge>
+                {plan.issues.length > 0 && (
+                  <Badge variant="destructive">{plan.issues.length} problem{plan.issues.length !== 1 ? 's' : ''}</Badge>
+                )}
+              </div>
+
+              {plan.issues.length > 0 && (
+                <ul className="space-y-1 text-red-700">
+                  {plan.issues.map((issue, index) => (
+                    <li key={index} className="flex gap-2">
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                      <span>{describeIssue(issue)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {plan.skipped.length > 0 && (
+                <ul className="space-y-1 text-gray-600">
+                  {plan.skipped.map((skipped, index) => (
+                    <li key={index}>Skipped "{skipped.name}": {skipped.reason}</li>
+                  ))}
+                </ul>
+              )}
+
+              {missingLabels.length > 0 && (
+                <p className="text-gray-600">Labels that will be created: {missingLabels.join(', ')}</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" disabled={!content || loading} onClick={() => submit(true)}>
+              Preview
+            </Button>
+            <Button disabled={!plan || writes === 0 || loading} onClick={() => submit(false)}>
+              {plan ? `Import ${writes} rule${writes !== 1 ? 's' : ''}` : 'Import'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const FILTER_STATE_LABELS: Record<FilterSyncStatus['state'], string> = {
+  not_linked: '',
+  in_sync: 'Synced to Gmail filter',
+  rule_changed: 'Rule changed since it was pushed to Gmail',
+  gmail_changed: 'Gmail filter was changed in Gmail',
+  both_changed: 'Rule and Gmail filter both changed',
+  gmail_deleted: 'Gmail filter was deleted in Gmail',
+};
+
+function GmailFilterControls({
+  status,
+  onSync,
+}: {
+  status: FilterSyncStatus;
+  onSync: (request: Record<string, unknown>) => void;
+}) {
+  if (status.state === 'not_linked') {
+    if (status.unsupported.length > 0) return null;
+    return (
+      <Button variant="outline" size="sm" onClick={() => onSync({ action: 'push' })}>
+        <Upload className="h-4 w-4 mr-1" />
+        Push to Gmail
+      </Button>
+    );
+  }
+
+  const canPush = status.unsupported.length === 0;
+  const drifted = status.state !== 'in_sync';
+
+  return (
+    <div className="space-y-2">
+      <div className={`flex items-center gap-2 text-sm ${drifted ? 'text-amber-700' : 'text-gray-600'}`}>
+        {drifted ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4 text-green-600" />}
+        <span>{FILTER_STATE_LABELS[status.state]}</span>
+      </div>
+      {drifted && !canPush && (
+        <p className="text-xs text-gray-500">Can no longer be a Gmail filter: {status.unsupported.join('; ')}</p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {drifted && canPush && (
+          <Button variant="outline" size="sm" onClick={() => onSync({ action: 'resolve', keep: 'rule' })}>
+            {status.state === 'gmail_deleted' ? 'Push again' : 'Overwrite Gmail filter'}
+          </Button>
+        )}
+        {(status.state === 'gmail_changed' || status.state === 'both_changed') && (
+          <Button variant="outline" size="sm" onClick={() => onSync({ action: 'resolve', keep: 'gmail' })}>
+            Use Gmail version
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => onSync({ action: 'unlink', deleteFilter: status.state !== 'gmail_deleted' })}>
+          {status.state === 'gmail_deleted' ? 'Unlink' : 'Remove from Gmail'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 // Create/Edit Rule Form Component
 function CreateRuleForm({ 
   existingRule, 
@@ -418,28 +979,18 @@ function CreateRuleForm({
   onSuccess: () => void;
 }) {
   const [name, setName] = useState(existingRule?.name || '');
-  const [conditions, setConditions] = useState<RuleCondition[]>(
-    existingRule?.conditions || [{ field: 'from', operator: 'contains', value: '' }]
+  const [conditions, setConditions] = useState<RuleConditionGroup>(
+    existingRule
+      ? normalizeConditions(existingRule.conditions)
+      : { combinator: 'all', conditions: [newCondition()] }
   );
   const [actions, setActions] = useState<RuleAction[]>(
     existingRule?.actions || [{ type: 'archive' }]
   );
+  const [priority, setPriority] = useState(existingRule?.priority ?? 0);
+  const [stopProcessing, setStopProcessing] = useState(existingRule?.stop_processing ?? false);
   const [loading, setLoading] = useState(false);
 
-  const addCondition = () => {
-    setConditions([...conditions, { field: 'from', operator: 'contains', value: '' }]);
-  };
-
-  const removeCondition = (index: number) => {
-    setConditions(conditions.filter((_, i) => i !== index));
-  };
-
-  const updateCondition = (index: number, updates: Partial<RuleCondition>) => {
-    setConditions(conditions.map((condition, i) => 
-      i === index ? { ...condition, ...updates } : condition
-    ));
-  };
-
   const addAction = () => {
     setActions([...actions, { type: 'archive' }]);
   };
@@ -464,9 +1015,10 @@ function CreateRuleForm({
     setLoading(true);
     try {
       const method = existingRule ? 'PUT' : 'POST';
+      const rule = { name, conditions, actions, priority, stop_processing: stopProcessing };
       const body = existingRule 
-        ? { id: existingRule.id, name, conditions, actions }
-        : { name, conditions, actions };
+        ? { id: existingRule.id, ...rule }
+        : rule;
 
       const response = await fetch('/api/rules', {
         method,
@@ -474,13 +1026,16 @@ function CreateRuleForm({
         body: JSON.stringify(body),
       });
 
-      if (!response.ok) throw new Error('Failed to save rule');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save rule');
+      }
       
       toast.success(`Rule ${existingRule ? 'updated' : 'created'} successfully`);
       onSuccess();
     } catch (error) {
       console.error('Error saving rule:', error);
-      toast.error('Failed to save rule');
+      toast.error(error instanceof Error ? error.message : 'Failed to save rule');
     } finally {
       setLoading(false);
     }
@@ -499,75 +1054,32 @@ function CreateRuleForm({
         />
       </div>
 
-      <div>
-        <div className="flex items-center justify-between mb-3">
-          <Label>Conditions</Label>
-          <Button type="button" variant="outline" size="sm" onClick={addCondition}>
-            <Plus className="h-4 w-4 mr-1" />
-            Add Condition
-          </Button>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="priority">Priority</Label>
+          <Input
+            id="priority"
+            type="number"
+            step={1}
+            value={priority}
+            onChange={(e) => setPriority(Math.trunc(Number(e.target.value) || 0))}
+          />
+          <p className="text-xs text-gray-500 mt-1">Higher priority rules run first</p>
         </div>
-        
-        <div className="space-y-3">
-          {conditions.map((condition, index) => (
-            <div key={index} className="flex items-center space-x-2 p-3 border rounded-lg">
-              <Select
-                value={condition.field}
-                onValueChange={(value) => updateCondition(index, { field: value as any })}
-              >
-                <SelectTrigger className="w-32">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="from">From</SelectItem>
-                  <SelectItem value="to">To</SelectItem>
-                  <SelectItem value="subject">Subject</SelectItem>
-                  <SelectItem value="body">Body</SelectItem>
-                  <SelectItem value="has_attachment">Has Attachment</SelectItem>
-                  <SelectItem value="size">Size</SelectItem>
-                  <SelectItem value="age_days">Age (Days)</SelectItem>
-                  <SelectItem value="is_unread">Is Unread</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Select
-                value={condition.operator}
-                onValueChange={(value) => updateCondition(index, { operator: value as any })}
-              >
-                <SelectTrigger className="w-32">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="contains">Contains</SelectItem>
-                  <SelectItem value="equals">Equals</SelectItem>
-                  <SelectItem value="starts_with">Starts With</SelectItem>
-                  <SelectItem value="ends_with">Ends With</SelectItem>
-                  <SelectItem value="greater_than">Greater Than</SelectItem>
-                  <SelectItem value="less_than">Less Than</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Input
-                value={condition.value?.toString() || ''}
-                onChange={(e) => updateCondition(index, { value: e.target.value })}
-                placeholder="Value"
-                className="flex-1"
-              />
-
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => removeCondition(index)}
-                disabled={conditions.length === 1}
-              >
-                <Trash2 className="h-4 w-4" />
-              </Button>
-            </div>
-          ))}
+        <div className="flex items-start space-x-2 pt-6">
+          <Switch id="stop_processing" checked={stopProcessing} onCheckedChange={setStopProcessing} />
+          <div>
+            <Label htmlFor="stop_processing">Stop processing</Label>
+            <p className="text-xs text-gray-500">Later rules skip messages this rule matches</p>
+          </div>
         </div>
       </div>
 
+      <div>
+        <Label className="block mb-3">Conditions</Label>
+        <ConditionGroupEditor group={conditions} onChange={setConditions} depth={1} />
+      </div>
+
       <div>
         <div className="flex items-center justify-between mb-3">
           <Label>Actions</Label>
@@ -595,6 +1107,7 @@ function CreateRuleForm({
                   <SelectItem value="mark_unread">Mark as Unread</SelectItem>
                   <SelectItem value="star">Star</SelectItem>
                   <SelectItem value="unstar">Unstar</SelectItem>
+                  <SelectItem value="forward">Forward To</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -607,6 +1120,16 @@ function CreateRuleForm({
                 />
               )}
 
+              {action.type === 'forward' && (
+                <Input
+                  type="email"
+                  value={action.value || ''}
+                  onChange={(e) => updateAction(index, { value: e.target.value })}
+                  placeholder="Verified address (see Settings → Forwarding)"
+                  className="flex-1"
+                />
+              )}
+
               <Button
                 type="button"
                 variant="outline"
@@ -628,4 +1151,232 @@ function CreateRuleForm({
       </div>
     </form>
   );
-}
\ No newline at end of file
+}
+
+const COMBINATOR_LABELS: Record<ConditionCombinator, string> = {
+  all: 'All of',
+  any: 'Any of',
+  none: 'None of',
+};
+
+function newCondition(): RuleCondition {
+  return { field: 'from', operator: 'contains', value: '' };
+}
+
+function valuePlaceholder(condition: RuleCondition): string {
+  if (condition.operator === 'in_list') return 'Comma-separated values';
+  if (condition.operator === 'matches_regex') return 'Regular expression, e.g. ^(digest|weekly)';
+  if (condition.field === 'category') return 'primary, social, promotions, updates or forums';
+  return 'Value';
+}
+
+// Read-only rendering of a condition tree for the rule list
+function ConditionSummary({ group }: { group: RuleConditionGroup }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium uppercase text-gray-500">
+        {COMBINATOR_LABELS[group.combinator]}
+      </div>
+      <div className="space-y-1 border-l pl-3">
+        {group.conditions.map((node, index) =>
+          isConditionGroup(node) ? (
+            <ConditionSummary key={index} group={node} />
+          ) : (
+            <div key={index} className="text-sm text-gray-600">
+              <Badge variant="outline" className="mr-2">
+                {node.field === 'header' ? node.header : node.field}
+              </Badge>
+              {node.operator} "{String(node.value)}"
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Editable condition group; nested groups render recursively
+function ConditionGroupEditor({
+  group,
+  onChange,
+  onRemove,
+  depth,
+}: {
+  group: RuleConditionGroup;
+  onChange: (group: RuleConditionGroup) => void;
+  onRemove?: () => void;
+  depth: number;
+}) {
+  const updateChild = (index: number, child: RuleConditionNode) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.map((node, i) => (i === index ? child : node)),
+    });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addCondition = () => {
+    onChange({ ...group, conditions: [...group.conditions, newCondition()] });
+  };
+
+  const addGroup = () => {
+    onChange({
+      ...group,
+      conditions: [...group.conditions, { combinator: 'any', conditions: [newCondition()] }],
+    });
+  };
+
+  return (
+    <div className={`space-y-3 rounded-lg border p-3 ${depth > 1 ? 'bg-gray-50' : ''}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Select
+            value={group.combinator}
+            onValueChange={(value) => onChange({ ...group, combinator: value as ConditionCombinator })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All of</SelectItem>
+              <SelectItem value="any">Any of</SelectItem>
+              <SelectItem value="none">None of</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-gray-600">the following</span>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button type="button" variant="outline" size="sm" onClick={addCondition}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Condition
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addGroup}
+            disabled={depth >= MAX_CONDITION_DEPTH}
+          >
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Add Group
+          </Button>
+          {onRemove && (
+            <Button type="button" variant="outline" size="sm" onClick={onRemove}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {group.conditions.map((node, index) =>
+        isConditionGroup(node) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={node}
+            depth={depth + 1}
+            onChange={(child) => updateChild(index, child)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={node}
+            onChange={(child) => updateChild(index, child)}
+            onRemove={() => removeChild(index)}
+            canRemove={group.conditions.length > 1}
+          />
+        )
+      )}
+    </div>
+  );
+}
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+  canRemove,
+}: {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+  canRemove: boolean;
+}) {
+  return (
+    <div className="flex items-center space-x-2 p-3 border rounded-lg bg-white">
+      <Select
+        value={condition.field}
+        onValueChange={(value) => onChange({ ...condition, field: value as any })}
+      >
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="from">From</SelectItem>
+          <SelectItem value="sender_domain">Sender Domain</SelectItem>
+          <SelectItem value="to">To</SelectItem>
+          <SelectItem value="cc">Cc</SelectItem>
+          <SelectItem value="subject">Subject</SelectItem>
+          <SelectItem value="body">Body</SelectItem>
+          <SelectItem value="list_id">List-Id</SelectItem>
+          <SelectItem value="category">Gmail Category</SelectItem>
+          <SelectItem value="header">Header</SelectItem>
+          <SelectItem value="has_attachment">Has Attachment</SelectItem>
+          <SelectItem value="size">Size</SelectItem>
+          <SelectItem value="age_days">Age (Days)</SelectItem>
+          <SelectItem value="is_unread">Is Unread</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={condition.operator}
+        onValueChange={(value) => onChange({ ...condition, operator: value as any })}
+      >
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="contains">Contains</SelectItem>
+          <SelectItem value="not_contains">Does Not Contain</SelectItem>
+          <SelectItem value="equals">Equals</SelectItem>
+          <SelectItem value="starts_with">Starts With</SelectItem>
+          <SelectItem value="ends_with">Ends With</SelectItem>
+          <SelectItem value="matches_regex">Matches Regex</SelectItem>
+          <SelectItem value="in_list">Is One Of</SelectItem>
+          <SelectItem value="greater_than">Greater Than</SelectItem>
+          <SelectItem value="less_than">Less Than</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {condition.field === 'header' && (
+        <Input
+          value={condition.header || ''}
+          onChange={(e) => onChange({ ...condition, header: e.target.value })}
+          placeholder="Header name, e.g. Reply-To"
+          className="w-44"
+        />
+      )}
+
+      <Input
+        value={condition.value?.toString() || ''}
+        onChange={(e) => onChange({ ...condition, value: e.target.value })}
+        placeholder={valuePlaceholder(condition)}
+        className="flex-1"
+      />
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={onRemove}
+        disabled={!canRemove}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Archive, Trash2, Unlink, Filter, RefreshCw, Search, ArrowUpDown, MoreHorizontal } from 'lucide-react';
+
+interface SenderSummary {
+  key: string;
+  domain: string;
+  sender_email?: string;
+  sender_name?: string | null;
+  sender_count: number;
+  total_emails: number;
+  unread_emails: number;
+  unread_ratio: number;
+  total_size: number;
+  average_size: number;
+  emails_archived: number;
+  emails_deleted: number;
+  unsubscribe_attempts: number;
+  first_email_date?: string;
+  last_email_date?: string;
+}
+
+type GroupBy = 'sender' | 'domain';
+type SortField = 'total_emails' | 'unread_ratio' | 'total_size' | 'last_email_date';
+type SenderAction = 'archive_all' | 'delete_all' | 'unsubscribe' | 'create_rule';
+type RuleActionType = 'archive' | 'delete' | 'mark_read';
+
+interface PendingAction {
+  action: SenderAction;
+  sender: SenderSummary;
+  ruleAction?: RuleActionType;
+  confirmationToken?: string;
+  message: string;
+}
+
+const PAGE_SIZE = 50;
+
+const SORT_COLUMNS: { field: SortField; label: string }[] = [
+  { field: 'total_emails', label: 'Emails' },
+  { field: 'unread_ratio', label: 'Unread' },
+  { field: 'total_size', label: 'Size' },
+  { field: 'last_email_date', label: 'Last seen' },
+];
+
+export function SenderExplorer() {
+  const [senders, setSenders] = useState<SenderSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [collectedAt, setCollectedAt] = useState<string | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>('sender');
+  const [sort, setSort] = useState<SortField>('total_emails');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [search, setSearch] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [collecting, setCollecting] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchSenders, 250);
+    return () => clearTimeout(timer);
+  }, [groupBy, sort, order, search, offset]);
+
+  const fetchSenders = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        groupBy,
+        sort,
+        order,
+        search,
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      const response = await fetch(`/api/senders?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch senders');
+
+      const data = await response.json();
+      setSenders(data.senders);
+      setTotal(data.total);
+      setCollectedAt(data.collectedAt);
+    } catch (error) {
+      console.error('Error fetching senders:', error);
+      toast.error('Failed to load senders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const collectSenders = async () => {
+    setCollecting(true);
+    try {
+      const response = await fetch('/api/senders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'collect' }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to collect senders');
+
+      toast.success(
+        `Scanned ${data.scannedMessages.toLocaleString()} emails from ${data.senders.toLocaleString()} senders` +
+        (data.truncated ? ' (most recent mail only)' : '')
+      );
+      await fetchSenders();
+    } catch (error) {
+      console.error('Error collecting senders:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to collect senders');
+    } finally {
+      setCollecting(false);
+    }
+  };
+
+  const runAction = async (next: PendingAction) => {
+    const { action, sender, ruleAction, confirmationToken } = next;
+    setPending(null);
+    setBusyKey(sender.key);
+    try {
+      const response = await fetch('/api/senders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          target: { type: groupBy, value: sender.key },
+          ruleAction: ruleAction ? { type: ruleAction } : undefined,
+          confirmationToken,
+        }),
+      });
+      const data = await response.json();
+
+      // The safety policy wants an explicit go-ahead for this many messages
+      if (response.status === 409 && data.confirmationRequired) {
+        setPending({ ...next, confirmationToken: data.confirmation?.token, message: data.error });
+        return;
+      }
+      if (!response.ok) throw new Error(data.error || 'Action failed');
+
+      switch (action) {
+        case 'archive_all':
+        case 'delete_all': {
+          const verb = action === 'archive_all' ? 'Archived' : 'Deleted';
+          const more = data.truncated ? ' Run it again for older mail.' : '';
+          toast.success(data.queued
+            ? `${data.totalCount.toLocaleString()} emails queued; this runs in the background.${more}`
+            : `${verb} ${data.processedCount.toLocaleString()} emails.${more}`);
+          break;
+        }
+        case 'unsubscribe':
+          if (data.requiresConfirmation && data.unsubscribeUrl) {
+            window.open(data.unsubscribeUrl, '_blank', 'noopener,noreferrer');
+            toast.info(data.message);
+          } else if (data.success) {
+            toast.success(data.message);
+          } else {
+            toast.error(data.error || 'Unsubscribe failed');
+          }
+          break;
+        case 'create_rule':
+          toast.success(`Rule "${data.rule.name}" created`);
+          break;
+      }
+
+      await fetchSenders();
+    } catch (error) {
+      console.error(`Error running ${action}:`, error);
+      toast.error(error instanceof Error ? error.message : 'Action failed');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const confirmAction = (action: SenderAction, sender: SenderSummary, ruleAction?: RuleActionType) => {
+    const count = sender.total_emails.toLocaleString();
+    const message = action === 'archive_all'
+      ? `Archive every inbox email from ${sender.key}?`
+      : action === 'delete_all'
+        ? `Move all ${count} emails from ${sender.key} to the trash?`
+        : '';
+
+    if (message) {
+      setPending({ action, sender, message });
+    } else {
+      runAction({ action, sender, ruleAction, message });
+    }
+  };
+
+  const toggleSort = (field: SortField) => {
+    if (sort === field) {
+      setOrder(order === 'desc' ? 'asc' : 'desc');
+    } else {
+      setSort(field);
+      setOrder('desc');
+    }
+    setOffset(0);
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const formatDate = (date?: string) => (date ? new Date(date).toLocaleDateString() : '—');
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Senders</CardTitle>
+              <CardDescription>
+                {collectedAt
+                  ? `${total.toLocaleString()} ${groupBy === 'domain' ? 'domains' : 'senders'} · updated ${new Date(collectedAt).toLocaleString()}`
+                  : 'Scan your mailbox to see who sends you the most mail'}
+              </CardDescription>
+            </div>
+            <Button onClick={collectSenders} disabled={collecting}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${collecting ? 'animate-spin' : ''}`} />
+              {collecting ? 'Scanning...' : 'Refresh'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by address, name or domain"
+                value={search}
+                onChange={(e) => { setSearch(e.target.value); setOffset(0); }}
+                className="pl-8"
+              />
+            </div>
+            <Select value={groupBy} onValueChange={(value) => { setGroupBy(value as GroupBy); setOffset(0); }}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sender">By sender</SelectItem>
+                <SelectItem value="domain">By domain</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{groupBy === 'domain' ? 'Domain' : 'Sender'}</TableHead>
+                {SORT_COLUMNS.map(column => (
+                  <TableHead key={column.field}>
+                    <Button variant="ghost" size="sm" onClick={() => toggleSort(column.field)}>
+                      {column.label}
+                      <ArrowUpDown className={`h-3 w-3 ml-1 ${sort === column.field ? '' : 'opacity-40'}`} />
+                    </Button>
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {senders.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={SORT_COLUMNS.length + 2} className="text-center text-muted-foreground py-8">
+                    {loading ? 'Loading...' : 'No senders found'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {senders.map(sender => (
+                <TableRow key={sender.key}>
+                  <TableCell>
+                    <div className="font-medium">{sender.sender_name || sender.key}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {groupBy === 'domain'
+                        ? `${sender.sender_count} sender${sender.sender_count === 1 ? '' : 's'}`
+                        : sender.sender_name ? sender.key : sender.domain}
+                      {sender.unsubscribe_attempts > 0 && (
+                        <Badge variant="outline" className="ml-2">Unsubscribed</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{sender.total_emails.toLocaleString()}</TableCell>
+                  <TableCell>{Math.round(sender.unread_ratio * 100)}%</TableCell>
+                  <TableCell>{formatSize(sender.total_size)}</TableCell>
+                  <TableCell>
+                    <div>{formatDate(sender.last_email_date)}</div>
+                    <div className="text-xs text-muted-foreground">since {formatDate(sender.first_email_date)}</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={busyKey === sender.key}>
+                          {busyKey === sender.key
+                            ? <RefreshCw className="h-4 w-4 animate-spin" />
+                            : <MoreHorizontal className="h-4 w-4" />}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => confirmAction('archive_all', sender)}>
+                          <Archive className="h-4 w-4 mr-2" />
+                          Archive all
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => confirmAction('delete_all', sender)}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete all
+                        </DropdownMenuItem>
+                        {groupBy === 'sender' && (
+                          <DropdownMenuItem onClick={() => confirmAction('unsubscribe', sender)}>
+                            <Unlink className="h-4 w-4 mr-2" />
+                            Unsubscribe
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuLabel>Create rule for new mail</DropdownMenuLabel>
+                        <DropdownMenuItem onClick={() => confirmAction('create_rule', sender, 'archive')}>
+                          <Filter className="h-4 w-4 mr-2" />
+                          Always archive
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => confirmAction('create_rule', sender, 'mark_read')}>
+                          <Filter className="h-4 w-4 mr-2" />
+                          Always mark read
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => confirmAction('create_rule', sender, 'delete')}>
+                          <Filter className="h-4 w-4 mr-2" />
+                          Always delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total.toLocaleString()}
+              </span>
+              <div className="space-x-2">
+                <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.action === 'delete_all' ? 'Delete all emails' : 'Archive all emails'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.message} This is recorded in your activity history and can be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pending && runAction(pending)}>
+              Continue
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -4,7 +4,6 @@ import { useState } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Undo2, Loader2, CheckCircle, AlertCircle } from "lucide-react";
-import { OperationHistoryService } from "@/lib/operation-history";
 
 interface UndoToastOptions {
   operationId: string;
@@ -21,8 +20,6 @@ export function showUndoToast({
   onUndo,
   accessToken,
 }: UndoToastOptions) {
-  const operationHistoryService = new OperationHistoryService();
-
   const handleUndo = async () => {
     const undoPromise = new Promise(async (resolve, reject) => {
       try {
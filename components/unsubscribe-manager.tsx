@@ -11,7 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { toast } from 'sonner';
-import { Search, Unlink, ExternalLink, Mail, TrendingUp, Clock, CheckCircle, XCircle, AlertTriangle, RefreshCw, Zap } from 'lucide-react';
+import { Search, Unlink, ExternalLink, Mail, TrendingUp, Clock, CheckCircle, XCircle, AlertTriangle, RefreshCw, Zap, Trash2, ShieldAlert } from 'lucide-react';
 
 interface UnsubscribeLink {
   type: 'link' | 'mailto' | 'list_unsubscribe';
@@ -19,6 +19,7 @@ interface UnsubscribeLink {
   text?: string;
   method?: 'GET' | 'POST';
   isListUnsubscribe?: boolean;
+  oneClick?: boolean;
 }
 
 interface UnsubscribeCandidate {
@@ -31,6 +32,7 @@ interface UnsubscribeCandidate {
   confidence: 'high' | 'medium' | 'low';
   category: 'newsletter' | 'promotional' | 'transactional' | 'social' | 'other';
   domain: string;
+  listId?: string;
 }
 
 interface UnsubscribeHistory {
@@ -39,17 +41,34 @@ interface UnsubscribeHistory {
   email_id: string;
   sender_domain: string;
   sender_email: string;
-  unsubscribe_method: string;
-  success: boolean;
+  unsubscribe_url: string;
+  method: string;
+  success: boolean | null;
+  response_status?: number | null;
   attempted_at: string;
-  confirmed_at?: string;
-  error_message?: string;
+  confirmed_at?: string | null;
+  error_message?: string | null;
+  verification_status?: 'pending' | 'verified' | 'failed' | null;
+  messages_after_unsubscribe?: number;
+  last_message_at?: string | null;
+  escalation?: 'trash_filter' | 'spam' | null;
 }
 
 interface UnsubscribeStats {
   totalAttempts: number;
   successfulUnsubscribes: number;
-  topDomains: Array<{ domain: string; count: number; successRate: number }>;
+  verifiedUnsubscribes: number;
+  failedVerifications: number;
+  pendingVerifications: number;
+  topDomains: Array<{
+    domain: string;
+    count: number;
+    successRate: number;
+    verified: number;
+    failed: number;
+    pending: number;
+    verifiedSuccessRate: number | null;
+  }>;
   recentActivity: UnsubscribeHistory[];
 }
 
@@ -130,13 +149,12 @@ export function UnsubscribeManager() {
         }),
       });
 
-      if (!response.ok) throw new Error('Failed to process unsubscribe');
-      
       const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to process unsubscribe');
       
       if (data.requiresConfirmation) {
-        // Open the unsubscribe link in a new tab
-        window.open(link.url, '_blank');
+        // Only senders without one-click or mailto support need the browser
+        window.open(data.unsubscribeUrl || link.url, '_blank');
         
         toast.success(
           'Unsubscribe link opened. Please complete the process in the new tab.',
@@ -147,8 +165,10 @@ export function UnsubscribeManager() {
             },
           }
         );
+      } else if (data.success) {
+        toast.success(data.message || 'Unsubscribed successfully!');
       } else {
-        toast.success('Unsubscribe processed successfully!');
+        toast.error(data.error || 'Unsubscribe failed');
       }
       
       // Refresh data
@@ -156,7 +176,7 @@ export function UnsubscribeManager() {
       fetchStats();
     } catch (error) {
       console.error('Error processing unsubscribe:', error);
-      toast.error('Failed to process unsubscribe');
+      toast.error(error instanceof Error ? error.message : 'Failed to process unsubscribe');
     } finally {
       setLoading(false);
     }
@@ -184,6 +204,32 @@ export function UnsubscribeManager() {
     }
   };
 
+  const escalateUnsubscribe = async (record: UnsubscribeHistory, escalation: 'trash_filter' | 'spam') => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'escalate',
+          historyId: record.id,
+          escalation,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to escalate');
+
+      toast.success(data.message);
+      fetchHistory();
+    } catch (error) {
+      console.error('Error escalating unsubscribe:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to escalate');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleBulkUnsubscribe = async () => {
     if (selectedCandidates.size === 0) {
       toast.error('Please select candidates to unsubscribe');
@@ -208,7 +254,10 @@ export function UnsubscribeManager() {
       const data = await response.json();
       
       toast.success(
-        `Bulk unsubscribe completed! ${data.summary.successful}/${data.summary.total} processed successfully.`
+        `Bulk unsubscribe completed! ${data.summary.successful}/${data.summary.total} unsubscribed` +
+          (data.summary.needsConfirmation > 0
+            ? `, ${data.summary.needsConfirmation} need the sender's unsubscribe page.`
+            : '.')
       );
       
       setSelectedCandidates(new Set());
@@ -416,7 +465,7 @@ export function UnsubscribeManager() {
                                       {link.text || link.type.toUpperCase()}
                                       {link.isListUnsubscribe && (
                                         <Badge variant="secondary" className="ml-2">
-                                          List-Unsubscribe
+                                          {link.oneClick ? 'One-click' : 'List-Unsubscribe'}
                                         </Badge>
                                       )}
                                     </div>
@@ -467,6 +516,8 @@ export function UnsubscribeManager() {
                         <div className="flex items-center space-x-3">
                           {record.success ? (
                             <CheckCircle className="h-5 w-5 text-green-600" />
+                          ) : record.success === null ? (
+                            <Clock className="h-5 w-5 text-gray-400" />
                           ) : (
                             <XCircle className="h-5 w-5 text-red-600" />
                           )}
@@ -474,20 +525,66 @@ export function UnsubscribeManager() {
                             <div className="font-medium">{record.sender_domain}</div>
                             <div className="text-sm text-gray-600">{record.sender_email}</div>
                             <div className="text-xs text-gray-500">
-                              {new Date(record.attempted_at).toLocaleDateString()} via {record.unsubscribe_method}
+                              {new Date(record.attempted_at).toLocaleDateString()} via {record.method.replace('_', '-')}
+                              {record.response_status ? ` (HTTP ${record.response_status})` : ''}
                             </div>
                           </div>
                         </div>
                         
                         <div className="text-right">
-                          <Badge variant={record.success ? "default" : "destructive"}>
-                            {record.success ? 'Success' : 'Failed'}
+                          <Badge variant={record.success ? "default" : record.success === null ? "secondary" : "destructive"}>
+                            {record.success ? 'Success' : record.success === null ? 'Pending' : 'Failed'}
                           </Badge>
+                          {record.verification_status && (
+                            <div className="mt-1">
+                              <Badge variant={record.verification_status === 'failed' ? "destructive" : "outline"}>
+                                {record.verification_status === 'verified'
+                                  ? 'Verified'
+                                  : record.verification_status === 'failed'
+                                    ? 'Still sending'
+                                    : 'Watching'}
+                              </Badge>
+                            </div>
+                          )}
                           {record.error_message && (
                             <div className="text-xs text-red-600 mt-1">
                               {record.error_message}
                             </div>
                           )}
+                          {record.verification_status === 'failed' && (
+                            <div className="text-xs text-gray-600 mt-1">
+                              {record.messages_after_unsubscribe} email(s) since unsubscribing
+                              {record.last_message_at ? `, last on ${new Date(record.last_message_at).toLocaleDateString()}` : ''}
+                            </div>
+                          )}
+                          {record.verification_status === 'failed' && (
+                            record.escalation ? (
+                              <div className="text-xs text-gray-500 mt-1">
+                                {record.escalation === 'trash_filter' ? 'Auto-trashed by a Gmail filter' : 'Reported as spam'}
+                              </div>
+                            ) : (
+                              <div className="flex justify-end gap-2 mt-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => escalateUnsubscribe(record, 'trash_filter')}
+                                  disabled={loading}
+                                >
+                                  <Trash2 className="h-4 w-4 mr-1" />
+                                  Auto-trash
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => escalateUnsubscribe(record, 'spam')}
+                                  disabled={loading}
+                                >
+                                  <ShieldAlert className="h-4 w-4 mr-1" />
+                                  Report spam
+                                </Button>
+                              </div>
+                            )
+                          )}
                         </div>
                       </div>
                     ))}
@@ -526,6 +623,23 @@ export function UnsubscribeManager() {
                 </Card>
               </div>
 
+              <Card>
+                <CardContent className="flex items-center justify-around py-6 text-center">
+                  <div>
+                    <div className="text-2xl font-bold text-green-600">{stats.verifiedUnsubscribes}</div>
+                    <div className="text-sm text-gray-600">Verified stopped</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-red-600">{stats.failedVerifications}</div>
+                    <div className="text-sm text-gray-600">Still sending</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-gray-600">{stats.pendingVerifications}</div>
+                    <div className="text-sm text-gray-600">Being watched</div>
+                  </div>
+                </CardContent>
+              </Card>
+
               <Card>
                 <CardHeader>
                   <CardTitle>Top Domains</CardTitle>
@@ -544,10 +658,13 @@ export function UnsubscribeManager() {
                               <div className="font-medium">{domain.domain}</div>
                               <div className="text-sm text-gray-600">
                                 {domain.count} attempts • {Math.round(domain.successRate)}% success rate
+                                {domain.verifiedSuccessRate !== null && (
+                                  <> • {Math.round(domain.verifiedSuccessRate)}% verified</>
+                                )}
                               </div>
                             </div>
                           </div>
-                          <Progress value={domain.successRate} className="w-20" />
+                          <Progress value={domain.verifiedSuccessRate ?? domain.successRate} className="w-20" />
                         </div>
                       ))}
                     </div>
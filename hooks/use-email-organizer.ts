@@ -24,6 +24,8 @@ interface OrganizeAction {
   query?: string;
   maxResults?: number;
   withHistory?: boolean;
+  dryRun?: boolean;
+  confirmationToken?: string; // From a 409 response once the user has confirmed
 }
 
 interface UseEmailOrganizerResult {
@@ -56,6 +58,14 @@ export function useEmailOrganizer(): UseEmailOrganizerResult {
 
       const result = await response.json();
 
+      // The safety policy held the operation: ask, then resend with the token
+      if (response.status === 409 && result.confirmationRequired && !actionParams.confirmationToken) {
+        if (window.confirm(result.error)) {
+          return await organizeEmails({ ...actionParams, confirmationToken: result.confirmation.token });
+        }
+        throw new Error("Operation cancelled");
+      }
+
       if (!response.ok) {
         throw new Error(result.error || "Failed to organize emails");
       }
@@ -1,5 +1,41 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
-import { GmailEnhancedService } from '@/lib/gmail/enhanced-service';
+import { EmailData, GmailService } from '@/lib/gmail/service';
+
+// Messages whose metadata is read for a sampled collection
+export const DEFAULT_STATS_SAMPLE_SIZE = 1000;
+// Newest messages listed as the sampling frame, so a request never lists the whole mailbox
+const STATS_SAMPLE_FRAME = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// z-score of a two-sided 95% confidence interval
+const Z_95 = 1.96;
+// Metadata fetched per batch during a full scan
+const SCAN_CHUNK_SIZE = 500;
+// Messages above the sample's largest size read per round when looking for the largest one
+const MAX_LARGE_MESSAGES = 1000;
+const MAX_LARGEST_SEARCH_ROUNDS = 5;
+// Rough size of a message without its attachments
+const BASE_EMAIL_SIZE = 5000;
+
+// Counts read from labels.get totals
+const COUNT_LABELS = {
+  unread_emails: 'UNREAD',
+  inbox_emails: 'INBOX',
+  sent_emails: 'SENT',
+  draft_emails: 'DRAFT',
+  spam_emails: 'SPAM',
+  promotional_emails: 'CATEGORY_PROMOTIONS',
+  social_emails: 'CATEGORY_SOCIAL',
+  updates_emails: 'CATEGORY_UPDATES',
+  forums_emails: 'CATEGORY_FORUMS',
+} as const;
+
+export type StatsMethod = 'sample' | 'full';
+
+export interface CollectStatsOptions {
+  method?: StatsMethod; // 'full' reads every message and belongs in a background job
+  sampleSize?: number;
+}
 
 export interface EmailStats {
   total_emails: number;
@@ -21,8 +57,31 @@ export interface EmailStats {
   total_attachment_size: number;
   total_threads: number;
   longest_thread_length: number;
+  stats_method?: StatsMethod;
+  sample_size?: number; // Messages whose metadata was read
+  total_size_margin?: number; // 95% margins of error; 0 when exact
+  average_email_size_margin?: number;
+  total_attachment_size_margin?: number;
 }
 
+type MessageMetrics = Pick<
+  EmailStats,
+  | 'total_emails'
+  | 'emails_with_attachments'
+  | 'total_threads'
+  | 'longest_thread_length'
+  | 'total_size'
+  | 'largest_email_size'
+  | 'average_email_size'
+  | 'oldest_email_age'
+  | 'newest_email_age'
+  | 'total_attachment_size'
+  | 'sample_size'
+  | 'total_size_margin'
+  | 'average_email_size_margin'
+  | 'total_attachment_size_margin'
+>;
+
 export interface CleanupMetrics {
   emails_archived: number;
   emails_deleted: number;
@@ -67,6 +126,7 @@ export interface ActivityPattern {
 export interface AnalyticsSummary {
   totalEmails: number;
   totalSize: string;
+  totalSizeMargin: string | null; // Set when the size was estimated from a sample
   spaceSaved: string;
   timeSaved: number;
   unsubscribeSuccessRate: number;
@@ -78,61 +138,55 @@ export interface AnalyticsSummary {
 }
 
 export class AnalyticsService {
-  private supabase = createClient();
+  private supabase: Promise<SupabaseClient>;
+
+  constructor(supabase?: SupabaseClient) {
+    // Background workers pass a service-role client; requests use the cookie-bound one
+    this.supabase = supabase ? Promise.resolve(supabase) : createClient();
+  }
 
   /**
-   * Collect current email statistics from Gmail
+   * Collect current email statistics from Gmail. Label counts are Gmail's
+   * exact totals. By default the other figures are estimated from a random
+   * sample (with 95% margins of error) without listing the whole mailbox;
+   * method 'full' lists every message and reads its metadata.
    */
-  async collectEmailStats(userId: string, accessToken: string): Promise<EmailStats> {
-    const gmailService = new GmailEnhancedService(accessToken);
-    
+  async collectEmailStats(
+    userId: string,
+    accessToken: string,
+    options: CollectStatsOptions = {}
+  ): Promise<EmailStats> {
+    const gmailService = new GmailService(accessToken);
+    const method = options.method || 'sample';
+
     try {
-      // Get basic email counts by category
-      const [
-        inboxEmails,
-        sentEmails,
-        draftEmails,
-        spamEmails,
-        promotionalEmails,
-        socialEmails,
-        updatesEmails,
-        forumsEmails,
-        unreadEmails,
-        allEmails
-      ] = await Promise.all([
-        gmailService.listEmails({ query: 'in:inbox', maxResults: 1000 }),
-        gmailService.listEmails({ query: 'in:sent', maxResults: 1000 }),
-        gmailService.listEmails({ query: 'in:drafts', maxResults: 1000 }),
-        gmailService.listEmails({ query: 'in:spam', maxResults: 1000 }),
-        gmailService.listEmails({ query: 'category:promotions', maxResults: 1000 }),
-        gmailService.listEmails({ query: 'category:social', maxResults: 1000 }),
-        gmailService.listEmails({ query: 'category:updates', maxResults: 1000 }),
-        gmailService.listEmails({ query: 'category:forums', maxResults: 1000 }),
-        gmailService.listEmails({ query: 'is:unread', maxResults: 1000 }),
-        gmailService.listEmails({ query: 'in:all', maxResults: 1000 })
+      const [labelCounts, totals] = await Promise.all([
+        gmailService.getLabelCounts([...Object.values(COUNT_LABELS), 'TRASH']),
+        gmailService.getMailboxTotals(),
       ]);
+      // Everything outside spam and trash, like the listings
+      const excluded = [labelCounts.SPAM, labelCounts.TRASH];
+      const mailboxTotals = {
+        emails: Math.max(0, totals.messagesTotal - excluded.reduce((sum, label) => sum + label.messagesTotal, 0)),
+        threads: Math.max(0, totals.threadsTotal - excluded.reduce((sum, label) => sum + label.threadsTotal, 0)),
+      };
 
-      // Calculate size and age metrics
-      const sizeCalculations = this.calculateSizeMetrics(allEmails);
-      const ageCalculations = this.calculateAgeMetrics(allEmails);
-      const attachmentCalculations = this.calculateAttachmentMetrics(allEmails);
+      const metrics = method === 'full'
+        ? await scanMailbox(gmailService)
+        : await sampleMailbox(gmailService, mailboxTotals, options.sampleSize || DEFAULT_STATS_SAMPLE_SIZE);
 
       const stats: EmailStats = {
-        total_emails: allEmails.length,
-        unread_emails: unreadEmails.length,
-        inbox_emails: inboxEmails.length,
-        sent_emails: sentEmails.length,
-        draft_emails: draftEmails.length,
-        spam_emails: spamEmails.length,
-        promotional_emails: promotionalEmails.length,
-        social_emails: socialEmails.length,
-        updates_emails: updatesEmails.length,
-        forums_emails: forumsEmails.length,
-        ...sizeCalculations,
-        ...ageCalculations,
-        ...attachmentCalculations,
-        total_threads: 0, // TODO: Implement thread counting
-        longest_thread_length: 0, // TODO: Implement thread analysis
+        unread_emails: labelCounts[COUNT_LABELS.unread_emails].messagesTotal,
+        inbox_emails: labelCounts[COUNT_LABELS.inbox_emails].messagesTotal,
+        sent_emails: labelCounts[COUNT_LABELS.sent_emails].messagesTotal,
+        draft_emails: labelCounts[COUNT_LABELS.draft_emails].messagesTotal,
+        spam_emails: labelCounts[COUNT_LABELS.spam_emails].messagesTotal,
+        promotional_emails: labelCounts[COUNT_LABELS.promotional_emails].messagesTotal,
+        social_emails: labelCounts[COUNT_LABELS.social_emails].messagesTotal,
+        updates_emails: labelCounts[COUNT_LABELS.updates_emails].messagesTotal,
+        forums_emails: labelCounts[COUNT_LABELS.forums_emails].messagesTotal,
+        ...metrics,
+        stats_method: method,
       };
 
       // Store in database
@@ -150,7 +204,8 @@ export class AnalyticsService {
    */
   async recordCleanupMetrics(userId: string, metrics: Partial<CleanupMetrics>): Promise<void> {
     try {
-      const { error } = await this.supabase
+      const supabase = await this.supabase;
+      const { error } = await supabase
         .from('cleanup_metrics')
         .insert({
           user_id: userId,
@@ -171,7 +226,8 @@ export class AnalyticsService {
     try {
       const domain = senderData.sender_email.split('@')[1] || 'unknown';
       
-      const { error } = await this.supabase
+      const supabase = await this.supabase;
+      const { error } = await supabase
         .from('sender_analytics')
         .upsert({
           user_id: userId,
@@ -196,7 +252,8 @@ export class AnalyticsService {
     try {
       const today = new Date().toISOString().split('T')[0];
       
-      const { error } = await this.supabase
+      const supabase = await this.supabase;
+      const { error } = await supabase
         .from('activity_patterns')
         .upsert({
           user_id: userId,
@@ -281,6 +338,9 @@ export class AnalyticsService {
       return {
         totalEmails: latestStats.total_emails || 0,
         totalSize: this.formatBytes(latestStats.total_size || 0),
+        totalSizeMargin: latestStats.stats_method === 'sample'
+          ? this.formatBytes(latestStats.total_size_margin || 0)
+          : null,
         spaceSaved: this.formatBytes(totalCleanup.space_freed),
         timeSaved: totalCleanup.estimated_time_saved,
         unsubscribeSuccessRate,
@@ -300,7 +360,8 @@ export class AnalyticsService {
    * Get email statistics history
    */
   private async getEmailStatsHistory(userId: string, days: number): Promise<EmailStats[]> {
-    const { data, error } = await this.supabase
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
       .from('email_stats')
       .select('*')
       .eq('user_id', userId)
@@ -315,7 +376,8 @@ export class AnalyticsService {
    * Get cleanup metrics history
    */
   private async getCleanupMetricsHistory(userId: string, days: number): Promise<CleanupMetrics[]> {
-    const { data, error } = await this.supabase
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
       .from('cleanup_metrics')
       .select('*')
       .eq('user_id', userId)
@@ -330,7 +392,8 @@ export class AnalyticsService {
    * Get top senders
    */
   private async getTopSenders(userId: string, limit: number): Promise<SenderAnalytics[]> {
-    const { data, error } = await this.supabase
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
       .from('sender_analytics')
       .select('*')
       .eq('user_id', userId)
@@ -345,7 +408,8 @@ export class AnalyticsService {
    * Get activity patterns
    */
   private async getActivityPatterns(userId: string, days: number): Promise<ActivityPattern[]> {
-    const { data, error } = await this.supabase
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
       .from('activity_patterns')
       .select('*')
       .eq('user_id', userId)
@@ -360,7 +424,8 @@ export class AnalyticsService {
    * Store email statistics
    */
   private async storeEmailStats(userId: string, stats: EmailStats): Promise<void> {
-    const { error } = await this.supabase
+    const supabase = await this.supabase;
+    const { error } = await supabase
       .from('email_stats')
       .insert({
         user_id: userId,
@@ -370,74 +435,6 @@ export class AnalyticsService {
     if (error) throw error;
   }
 
-  /**
-   * Calculate size metrics from emails
-   */
-  private calculateSizeMetrics(emails: any[]): Pick<EmailStats, 'total_size' | 'largest_email_size' | 'average_email_size'> {
-    if (emails.length === 0) {
-      return { total_size: 0, largest_email_size: 0, average_email_size: 0 };
-    }
-
-    const sizes = emails.map(email => email.sizeEstimate || 0);
-    const totalSize = sizes.reduce((sum, size) => sum + size, 0);
-    const largestSize = Math.max(...sizes);
-    const averageSize = Math.round(totalSize / emails.length);
-
-    return {
-      total_size: totalSize,
-      largest_email_size: largestSize,
-      average_email_size: averageSize,
-    };
-  }
-
-  /**
-   * Calculate age metrics from emails
-   */
-  private calculateAgeMetrics(emails: any[]): Pick<EmailStats, 'oldest_email_age' | 'newest_email_age'> {
-    if (emails.length === 0) {
-      return { oldest_email_age: 0, newest_email_age: 0 };
-    }
-
-    const now = new Date();
-    const ages = emails
-      .map(email => {
-        const emailDate = new Date(email.date);
-        return Math.floor((now.getTime() - emailDate.getTime()) / (1000 * 60 * 60 * 24));
-      })
-      .filter(age => !isNaN(age));
-
-    if (ages.length === 0) {
-      return { oldest_email_age: 0, newest_email_age: 0 };
-    }
-
-    return {
-      oldest_email_age: Math.max(...ages),
-      newest_email_age: Math.min(...ages),
-    };
-  }
-
-  /**
-   * Calculate attachment metrics from emails
-   */
-  private calculateAttachmentMetrics(emails: any[]): Pick<EmailStats, 'emails_with_attachments' | 'total_attachment_size'> {
-    const emailsWithAttachments = emails.filter(email => 
-      email.labels?.includes('has:attachment') || 
-      email.snippet?.includes('attachment')
-    );
-
-    // Rough estimate: emails with attachments are typically 2-5x larger
-    const estimatedAttachmentSize = emailsWithAttachments.reduce((sum, email) => {
-      const baseSize = email.sizeEstimate || 0;
-      const estimatedAttachmentSize = Math.max(0, baseSize - 5000); // Subtract base email size
-      return sum + estimatedAttachmentSize;
-    }, 0);
-
-    return {
-      emails_with_attachments: emailsWithAttachments.length,
-      total_attachment_size: estimatedAttachmentSize,
-    };
-  }
-
   /**
    * Calculate weekly trend data
    */
@@ -485,4 +482,254 @@ export class AnalyticsService {
     
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Message ids outside spam and trash, newest first, up to limit when given,
+ * with thread metrics counted from the thread each listed message belongs to
+ */
+async function listMailbox(
+  gmailService: GmailService,
+  limit?: number
+): Promise<{ ids: string[]; threadCount: number; longestThread: number; complete: boolean }> {
+  const ids: string[] = [];
+  const threadLengths = new Map<string, number>();
+  let pageToken: string | undefined;
+
+  do {
+    const page = await gmailService.listMessageRefsPage(
+      '',
+      limit ? limit - ids.length : undefined,
+      pageToken
+    );
+    for (const message of page.messages) {
+      ids.push(message.id);
+      threadLengths.set(message.threadId, (threadLengths.get(message.threadId) || 0) + 1);
+    }
+    pageToken = page.nextPageToken || undefined;
+  } while (pageToken && (!limit || ids.length < limit));
+
+  let longestThread = 0;
+  threadLengths.forEach(length => {
+    longestThread = Math.max(longestThread, length);
+  });
+
+  return { ids, threadCount: threadLengths.size, longestThread, complete: !pageToken };
+}
+
+async function listAllMessageIds(gmailService: GmailService, query: string): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let pageToken: string | undefined;
+
+  do {
+    const page = await gmailService.listMessageIdsPage(query, undefined, pageToken);
+    page.ids.forEach(id => ids.add(id));
+    pageToken = page.nextPageToken || undefined;
+  } while (pageToken);
+
+  return ids;
+}
+
+/**
+ * Exact figures from a listing of every message and the metadata of each
+ */
+async function scanMailbox(gmailService: GmailService): Promise<MessageMetrics> {
+  const [mailbox, attachmentIds] = await Promise.all([
+    listMailbox(gmailService),
+    listAllMessageIds(gmailService, 'has:attachment'),
+  ]);
+  const ids = mailbox.ids;
+
+  let scanned = 0;
+  let totalSize = 0;
+  let largestSize = 0;
+  let attachmentSize = 0;
+  const timestamps: number[] = [];
+
+  for (let i = 0; i < ids.length; i += SCAN_CHUNK_SIZE) {
+    const emails = await gmailService.getEmailsByIds(ids.slice(i, i + SCAN_CHUNK_SIZE));
+
+    for (const email of emails) {
+      const size = email.sizeEstimate || 0;
+      scanned++;
+      totalSize += size;
+      largestSize = Math.max(largestSize, size);
+      if (attachmentIds.has(email.id)) attachmentSize += estimateAttachmentSize(email);
+    }
+
+    // Oldest and newest only, to keep memory flat on large mailboxes
+    const chunkTimestamps = emails.map(receivedAt).filter(time => !isNaN(time));
+    if (chunkTimestamps.length > 0) {
+      timestamps.push(Math.min(...chunkTimestamps), Math.max(...chunkTimestamps));
+    }
+  }
+
+  return {
+    total_emails: ids.length,
+    emails_with_attachments: attachmentIds.size,
+    total_threads: mailbox.threadCount,
+    longest_thread_length: mailbox.longestThread,
+    total_size: totalSize,
+    largest_email_size: largestSize,
+    average_email_size: scanned > 0 ? Math.round(totalSize / scanned) : 0,
+    ...ageMetrics(timestamps),
+    total_attachment_size: attachmentSize,
+    sample_size: scanned,
+    total_size_margin: 0,
+    average_email_size_margin: 0,
+    total_attachment_size_margin: 0,
+  };
+}
+
+/**
+ * Estimates from simple random samples of the newest STATS_SAMPLE_FRAME
+ * messages (the whole mailbox when it is smaller) and of those among them
+ * with attachments, scaled to the mailbox totals. The largest message is
+ * found with a size search and the oldest with a date search. On larger
+ * mailboxes the longest thread is the longest among the frame.
+ */
+async function sampleMailbox(
+  gmailService: GmailService,
+  totals: { emails: number; threads: number },
+  sampleSize: number
+): Promise<MessageMetrics> {
+  const frame = await listMailbox(gmailService, STATS_SAMPLE_FRAME);
+  const ids = frame.ids;
+  const population = frame.complete ? ids.length : Math.max(totals.emails, ids.length);
+
+  const ends = ids.length > 0 ? await gmailService.getEmailsByIds([ids[0], ids[ids.length - 1]]) : [];
+  const endTimes = ends.map(receivedAt).filter(time => !isNaN(time));
+
+  // Everything in the frame arrived at or after its oldest message
+  const frameIds = new Set(ids);
+  const attachmentQuery = frame.complete || endTimes.length === 0
+    ? 'has:attachment'
+    : `has:attachment after:${Math.floor(Math.min(...endTimes) / 1000) - 1}`;
+  const attachmentIds = (await gmailService.listMessageIds(attachmentQuery, STATS_SAMPLE_FRAME))
+    .filter(id => frameIds.has(id));
+  const withAttachments = ids.length > 0 ? Math.round((attachmentIds.length / ids.length) * population) : 0;
+
+  const sampleIds = randomSample(ids, sampleSize);
+  const attachmentSampleIds = randomSample(attachmentIds, sampleSize);
+  const emails = new Map(
+    (await gmailService.getEmailsByIds(Array.from(new Set([...sampleIds, ...attachmentSampleIds]))))
+      .map(email => [email.id, email] as const)
+  );
+  const pick = (sample: string[]) =>
+    sample.map(id => emails.get(id)).filter((email): email is EmailData => email !== undefined);
+
+  const sample = pick(sampleIds);
+  const sizes = sample.map(email => email.sizeEstimate || 0);
+  const size = estimateMean(sizes, ids.length);
+  const attachment = estimateMean(pick(attachmentSampleIds).map(estimateAttachmentSize), attachmentIds.length);
+
+  const timestamps = [...endTimes];
+  if (!frame.complete) timestamps.push(await findOldestTime(gmailService, Math.min(...endTimes, Date.now())));
+
+  return {
+    total_emails: population,
+    emails_with_attachments: withAttachments,
+    total_threads: frame.complete ? frame.threadCount : totals.threads,
+    longest_thread_length: frame.longestThread,
+    total_size: Math.round(size.mean * population),
+    largest_email_size: await findLargestSize(gmailService, Math.max(0, ...sizes)),
+    average_email_size: Math.round(size.mean),
+    ...ageMetrics(timestamps),
+    total_attachment_size: Math.round(attachment.mean * withAttachments),
+    sample_size: sample.length,
+    total_size_margin: Math.round(size.margin * population),
+    average_email_size_margin: Math.round(size.margin),
+    total_attachment_size_margin: Math.round(attachment.margin * withAttachments),
+  };
+}
+
+/**
+ * Start of the day the oldest message arrived, by bisecting before: searches
+ * between the epoch and a time known to have older mail
+ */
+async function findOldestTime(gmailService: GmailService, knownTime: number): Promise<number> {
+  let low = 0; // No mail before this day
+  let high = Math.ceil(knownTime / DAY_MS) + 1; // Mail before this day
+
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    const ids = await gmailService.listMessageIds(`before:${(middle * DAY_MS) / 1000}`, 1);
+    if (ids.length > 0) high = middle;
+    else low = middle;
+  }
+
+  return low * DAY_MS;
+}
+
+/**
+ * Sample mean with the 95% margin of error of a simple random sample drawn
+ * without replacement from a population of the given size
+ */
+function estimateMean(values: number[], population: number): { mean: number; margin: number } {
+  const n = values.length;
+  if (n === 0) return { mean: 0, margin: 0 };
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  if (n < 2 || n >= population) return { mean, margin: 0 };
+
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1);
+  const finitePopulationCorrection = Math.sqrt((population - n) / (population - 1));
+  return { mean, margin: Z_95 * Math.sqrt(variance / n) * finitePopulationCorrection };
+}
+
+/**
+ * Uniform sample without replacement (partial Fisher-Yates shuffle)
+ */
+function randomSample<T>(items: T[], size: number): T[] {
+  const pool = items.slice();
+  const count = Math.min(size, pool.length);
+
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  return pool.slice(0, count);
+}
+
+/**
+ * Size of the largest message, starting from a size known to exist. Each
+ * round reads the messages above the current floor, which then rises to
+ * the largest of them, until a round returns every remaining message.
+ */
+async function findLargestSize(gmailService: GmailService, floor: number): Promise<number> {
+  let largest = floor;
+
+  for (let round = 0; round < MAX_LARGEST_SEARCH_ROUNDS; round++) {
+    const ids = await gmailService.listMessageIds(`larger:${largest}`, MAX_LARGE_MESSAGES);
+    if (ids.length === 0) break;
+
+    const sizes = (await gmailService.getEmailsByIds(ids)).map(email => email.sizeEstimate || 0);
+    const next = Math.max(largest, ...sizes);
+    if (ids.length < MAX_LARGE_MESSAGES || next === largest) return next;
+    largest = next;
+  }
+
+  return largest;
+}
+
+function estimateAttachmentSize(email: EmailData): number {
+  return Math.max(0, (email.sizeEstimate || 0) - BASE_EMAIL_SIZE);
+}
+
+function receivedAt(email: EmailData): number {
+  return email.timestamp ?? new Date(email.date).getTime();
+}
+
+function ageMetrics(timestamps: number[]): Pick<EmailStats, 'oldest_email_age' | 'newest_email_age'> {
+  if (timestamps.length === 0) {
+    return { oldest_email_age: 0, newest_email_age: 0 };
+  }
+
+  const day = 1000 * 60 * 60 * 24;
+  const now = Date.now();
+  return {
+    oldest_email_age: Math.floor((now - Math.min(...timestamps)) / day),
+    newest_email_age: Math.floor((now - Math.max(...timestamps)) / day),
+  };
+}
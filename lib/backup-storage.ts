@@ -0,0 +1,105 @@
+import { mkdir, open, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+export type BackupStorageBackend = 'local' | 'supabase';
+
+/**
+ * Where mail backup archives are kept. Keys are relative paths such as
+ * "<user id>/<backup id>.mbox".
+ */
+export interface BackupStorage {
+  readonly backend: BackupStorageBackend;
+  write(key: string, data: Buffer): Promise<void>;
+  read(key: string, range?: { offset: number; length: number }): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Files under a directory on the server. Only suitable where the filesystem
+ * persists between requests (a long-running server, not serverless functions).
+ */
+export class LocalBackupStorage implements BackupStorage {
+  readonly backend = 'local' as const;
+  private root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async write(key: string, data: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+    await writeFile(path, data, { mode: 0o600, flag: 'wx' });
+  }
+
+  async read(key: string, range?: { offset: number; length: number }): Promise<Buffer> {
+    const path = this.resolveKey(key);
+    if (!range) return readFile(path);
+
+    const file = await open(path, 'r');
+    try {
+      const buffer = Buffer.alloc(range.length);
+      const { bytesRead } = await file.read(buffer, 0, range.length, range.offset);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Backup key escapes the storage directory: ${key}`);
+    }
+    return path;
+  }
+}
+
+/**
+ * A private Supabase Storage bucket, accessed with the service role
+ */
+export class SupabaseBackupStorage implements BackupStorage {
+  readonly backend = 'supabase' as const;
+
+  constructor(private bucket: string) {}
+
+  async write(key: string, data: Buffer): Promise<void> {
+    const { error } = await createAdminClient().storage
+      .from(this.bucket)
+      .upload(key, data, { contentType: 'application/mbox', upsert: false });
+    if (error) throw error;
+  }
+
+  async read(key: string, range?: { offset: number; length: number }): Promise<Buffer> {
+    const { data, error } = await createAdminClient().storage.from(this.bucket).download(key);
+    if (error) throw error;
+
+    const buffer = Buffer.from(await data.arrayBuffer());
+    return range ? buffer.subarray(range.offset, range.offset + range.length) : buffer;
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await createAdminClient().storage.from(this.bucket).remove([key]);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Build the storage selected by MAIL_BACKUP_STORAGE (local | supabase)
+ */
+export function createBackupStorage(
+  backend: BackupStorageBackend = (process.env.MAIL_BACKUP_STORAGE as BackupStorageBackend) || 'local'
+): BackupStorage {
+  switch (backend) {
+    case 'supabase':
+      return new SupabaseBackupStorage(process.env.MAIL_BACKUP_BUCKET || 'mail-backups');
+    case 'local':
+    default:
+      return new LocalBackupStorage(process.env.MAIL_BACKUP_DIR || '.data/mail-backups');
+  }
+}
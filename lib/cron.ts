@@ -0,0 +1,487 @@
+export type CronFieldName = 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek';
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Per POSIX cron, when both day fields are restricted a day matches if EITHER matches
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+  fields: Record<CronFieldName, string>;
+}
+
+export class CronParseError extends Error {
+  constructor(
+    message: string,
+    public field?: CronFieldName,
+    public value?: string
+  ) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+interface FieldSpec {
+  name: CronFieldName;
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const MONTH_LABELS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', label: 'minute', min: 0, max: 59 },
+  { name: 'hour', label: 'hour', min: 0, max: 23 },
+  { name: 'dayOfMonth', label: 'day of month', min: 1, max: 31 },
+  { name: 'month', label: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as an alias for Sunday
+  { name: 'dayOfWeek', label: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Upper bound for the next-run search; covers leap-day schedules such as "0 0 29 2 *"
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Parse a standard 5-field cron expression (or @macro) into its expanded value sets
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = (expression || '').trim();
+  if (!trimmed) {
+    throw new CronParseError('Schedule expression is empty');
+  }
+
+  let source = trimmed;
+  if (trimmed.startsWith('@')) {
+    const macro = MACROS[trimmed.toLowerCase()];
+    if (!macro) {
+      throw new CronParseError(
+        `Unsupported schedule macro "${trimmed}". Use one of: ${Object.keys(MACROS).join(', ')}`
+      );
+    }
+    source = macro;
+  }
+
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError(
+      `Expected 5 fields (minute hour day-of-month month day-of-week) but got ${parts.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, rawDaysOfWeek] = FIELD_SPECS.map((spec, index) =>
+    parseField(parts[index], spec)
+  );
+
+  // Normalise Sunday (7 -> 0)
+  const daysOfWeek = new Set<number>();
+  rawDaysOfWeek.forEach(day => daysOfWeek.add(day === 7 ? 0 : day));
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !isUnrestricted(parts[2]),
+    dayOfWeekRestricted: !isUnrestricted(parts[4]),
+    fields: {
+      minute: parts[0],
+      hour: parts[1],
+      dayOfMonth: parts[2],
+      month: parts[3],
+      dayOfWeek: parts[4],
+    },
+  };
+}
+
+/**
+ * Returns the parse error for an expression, or null when it is valid.
+ * Expressions that parse but never fire (e.g. "0 0 31 2 *") are invalid too.
+ */
+export function getCronValidationError(expression: string): CronParseError | null {
+  try {
+    getNextRunTime(parseCronExpression(expression));
+    return null;
+  } catch (error) {
+    if (error instanceof CronParseError) return error;
+    return new CronParseError(error instanceof Error ? error.message : 'Invalid schedule expression');
+  }
+}
+
+/**
+ * Check whether a string is a valid IANA time zone identifier
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compute the first run strictly after `from`, evaluated in the given time zone.
+ *
+ * Wall-clock times skipped by a DST jump run at the equivalent time after the jump;
+ * wall-clock times repeated by a DST fallback run once, on the first occurrence.
+ */
+export function getNextRunTime(
+  schedule: CronSchedule | string,
+  from: Date = new Date(),
+  timeZone: string = 'UTC'
+): Date {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+
+  // Work on a "naive" wall-clock calendar stored in UTC fields
+  const startWall = toWallClock(from, zone);
+  const wall = new Date(startWall);
+  wall.setUTCSeconds(0, 0);
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+
+  const limit = Date.UTC(wall.getUTCFullYear() + MAX_SEARCH_YEARS, 0, 1);
+
+  while (wall.getTime() < limit) {
+    if (!cron.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const instant = wallClockToInstant(wall.getTime(), zone);
+    if (instant > from.getTime()) {
+      return new Date(instant);
+    }
+
+    // Second pass through a repeated (fallback) hour – already ran on the first pass
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  // Only a day of month that no selected month has can do this (e.g. 31 in February)
+  throw new CronParseError(
+    `Schedule "${cron.expression}" never matches a real date`,
+    'dayOfMonth',
+    cron.fields.dayOfMonth
+  );
+}
+
+/**
+ * Build an English description of a cron expression, e.g. "At 07:30, Monday through Friday"
+ */
+export function describeCronExpression(expression: string): string {
+  const cron = parseCronExpression(expression);
+  const { minute, hour, dayOfMonth, month, dayOfWeek } = cron.fields;
+
+  const segments: string[] = [describeTime(minute, hour)];
+
+  const dayOfMonthText = cron.dayOfMonthRestricted
+    ? `on ${describeList(dayOfMonth, FIELD_SPECS[2], value => `day ${value}`, 'every {n} days')} of the month`
+    : '';
+  const dayOfWeekText = cron.dayOfWeekRestricted
+    ? describeList(dayOfWeek, FIELD_SPECS[4], value => DAY_LABELS[value % 7], 'every {n} days of the week')
+    : '';
+
+  if (dayOfMonthText && dayOfWeekText) {
+    segments.push(`${dayOfMonthText} or on ${dayOfWeekText}`);
+  } else if (dayOfMonthText) {
+    segments.push(dayOfMonthText);
+  } else if (dayOfWeekText) {
+    segments.push(isSingleValue(dayOfWeek) ? `only on ${dayOfWeekText}` : dayOfWeekText);
+  }
+
+  if (!isUnrestricted(month)) {
+    segments.push(`in ${describeList(month, FIELD_SPECS[3], value => MONTH_LABELS[value - 1], 'every {n} months')}`);
+  }
+
+  return segments.join(', ');
+}
+
+// Parsing helpers
+
+function isUnrestricted(raw: string): boolean {
+  return raw === '*' || raw === '?';
+}
+
+function isSingleValue(raw: string): boolean {
+  return /^[A-Za-z0-9]+$/.test(raw);
+}
+
+function parseField(raw: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of raw.split(',')) {
+    if (!part) {
+      throw new CronParseError(`Empty list item in ${spec.label} field "${raw}"`, spec.name, raw);
+    }
+
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0) {
+      throw new CronParseError(`Too many "/" in ${spec.label} field "${part}"`, spec.name, raw);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new CronParseError(
+          `Invalid step "${stepPart}" in ${spec.label} field; must be a positive integer`,
+          spec.name,
+          raw
+        );
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*' || rangePart === '?') {
+      start = spec.min;
+      end = spec.name === 'dayOfWeek' ? 6 : spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to, ...extra] = rangePart.split('-');
+      if (extra.length > 0) {
+        throw new CronParseError(`Invalid range "${rangePart}" in ${spec.label} field`, spec.name, raw);
+      }
+      start = parseValue(from, spec, raw);
+      end = parseValue(to, spec, raw);
+      if (start > end) {
+        throw new CronParseError(
+          `Range "${rangePart}" in ${spec.label} field starts after it ends`,
+          spec.name,
+          raw
+        );
+      }
+    } else {
+      start = parseValue(rangePart, spec, raw);
+      // "5/15" means "every 15 starting at 5"
+      end = stepPart !== undefined ? (spec.name === 'dayOfWeek' ? 6 : spec.max) : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(token: string, spec: FieldSpec, raw: string): number {
+  if (!token) {
+    throw new CronParseError(`Missing value in ${spec.label} field "${raw}"`, spec.name, raw);
+  }
+
+  if (spec.names) {
+    const nameIndex = spec.names.indexOf(token.toUpperCase());
+    if (nameIndex !== -1) {
+      return spec.name === 'month' ? nameIndex + 1 : nameIndex;
+    }
+  }
+
+  if (!/^\d+$/.test(token)) {
+    throw new CronParseError(`Invalid value "${token}" in ${spec.label} field`, spec.name, raw);
+  }
+
+  const value = parseInt(token, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(
+      `Value ${value} out of range for ${spec.label} field (${spec.min}-${spec.max})`,
+      spec.name,
+      raw
+    );
+  }
+
+  return value;
+}
+
+// Time zone helpers
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Express an instant as wall-clock time in `timeZone`, stored in the UTC fields of a Date
+ */
+function toWallClock(instant: Date, timeZone: string): Date {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+
+  return new Date(Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour') % 24,
+    get('minute'),
+    get('second')
+  ));
+}
+
+function getOffset(instantMs: number, timeZone: string): number {
+  const wall = toWallClock(new Date(instantMs), timeZone).getTime();
+  const truncated = instantMs - (instantMs % 1000);
+  return wall - truncated;
+}
+
+function wallClockToInstant(wallMs: number, timeZone: string): number {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const offsetBefore = getOffset(wallMs - dayMs, timeZone);
+  const offsetAfter = getOffset(wallMs + dayMs, timeZone);
+
+  // Larger offset first so ambiguous times resolve to the earlier instant
+  const candidates = Array.from(new Set([offsetBefore, offsetAfter])).sort((a, b) => b - a);
+  for (const offset of candidates) {
+    const instant = wallMs - offset;
+    if (getOffset(instant, timeZone) === offset) {
+      return instant;
+    }
+  }
+
+  // Wall-clock time falls in a DST gap; shift forward by the size of the gap
+  return wallMs - offsetBefore;
+}
+
+function matchesDay(cron: CronSchedule, wall: Date): boolean {
+  const dayOfMonthMatch = cron.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeekMatch = cron.daysOfWeek.has(wall.getUTCDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+// Description helpers
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function describeTime(minute: string, hour: string): string {
+  const singleMinute = /^\d+$/.test(minute);
+  const singleHour = /^\d+$/.test(hour);
+
+  if (singleMinute && singleHour) {
+    return `At ${pad(parseInt(hour, 10))}:${pad(parseInt(minute, 10))}`;
+  }
+
+  if (singleMinute && /^\d+(,\d+)+$/.test(hour)) {
+    const times = hour.split(',').map(value => `${pad(parseInt(value, 10))}:${pad(parseInt(minute, 10))}`);
+    return `At ${joinWithAnd(times)}`;
+  }
+
+  const minuteText = isUnrestricted(minute)
+    ? 'Every minute'
+    : /^\*\/\d+$/.test(minute)
+      ? `Every ${minute.split('/')[1]} minutes`
+      : `At ${describeList(minute, FIELD_SPECS[0], value => `minute ${value}`, 'every {n} minutes')}`;
+
+  if (isUnrestricted(hour)) {
+    if (singleMinute) {
+      return `At ${parseInt(minute, 10)} minutes past every hour`;
+    }
+    return minuteText;
+  }
+
+  if (/^\*\/\d+$/.test(hour)) {
+    const interval = hour.split('/')[1];
+    if (singleMinute) {
+      return `At ${parseInt(minute, 10)} minutes past the hour, every ${interval} hours`;
+    }
+    return `${minuteText}, every ${interval} hours`;
+  }
+
+  const hourText = describeList(hour, FIELD_SPECS[1], value => `${pad(value)}:00`, 'every {n} hours');
+  if (singleMinute) {
+    return `At ${parseInt(minute, 10)} minutes past the hour, during ${hourText}`;
+  }
+  return `${minuteText}, during ${hourText}`;
+}
+
+function describeList(
+  raw: string,
+  spec: FieldSpec,
+  label: (value: number) => string,
+  stepTemplate: string
+): string {
+  const items = raw.split(',').map(part => {
+    const [rangePart, stepPart] = part.split('/');
+    const stepText = stepPart ? stepTemplate.replace('{n}', stepPart) : '';
+
+    if (rangePart === '*' || rangePart === '?') {
+      return stepText;
+    }
+
+    if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-').map(token => parseValue(token, spec, raw));
+      const rangeText = `${label(from)} through ${label(to)}`;
+      return stepText ? `${stepText}, ${rangeText}` : rangeText;
+    }
+
+    const value = parseValue(rangePart, spec, raw);
+    return stepText ? `${stepText}, starting ${label(value)}` : label(value);
+  });
+
+  return joinWithAnd(items);
+}
+
+function joinWithAnd(items: string[]): string {
+  if (items.length <= 1) return items[0] || '';
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
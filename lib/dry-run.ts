@@ -0,0 +1,161 @@
+// Dry-run plans: what a bulk operation, rule or scheduled job would change,
+// collected instead of touching the mailbox. Safe to import from client code.
+
+export type PlannedActionType =
+  | 'archive'
+  | 'trash'
+  | 'label'
+  | 'unlabel'
+  | 'mark_read'
+  | 'mark_unread'
+  | 'star'
+  | 'unstar'
+  | 'forward';
+
+export interface PlannedMessageChange {
+  emailId: string;
+  subject: string;
+  from: string;
+  addLabels: string[]; // Net labels added, excluding ones the message already has
+  removeLabels: string[]; // Net labels removed, excluding ones it does not have
+  actions: PlannedActionType[];
+  forwardTo: string[];
+  sources: string[]; // Rules or jobs that planned the change
+}
+
+export interface DryRunPlan {
+  dryRun: true;
+  messages: PlannedMessageChange[]; // Only messages that would actually change
+  totals: Record<PlannedActionType, number>; // Messages per action
+  totalMessages: number;
+  generatedAt: string;
+}
+
+interface PlannableEmail {
+  id: string;
+  subject: string;
+  from: string;
+  labels: string[];
+}
+
+interface TrackedMessage {
+  email: PlannableEmail;
+  initialLabels: string[];
+  labels: string[];
+  forwardTo: string[];
+  sources: Set<string>;
+}
+
+// System labels with a dedicated action; everything else counts as label/unlabel
+const LABEL_ACTIONS: Record<string, { added?: PlannedActionType; removed?: PlannedActionType }> = {
+  INBOX: { removed: 'archive' },
+  TRASH: { added: 'trash' },
+  UNREAD: { added: 'mark_unread', removed: 'mark_read' },
+  STARRED: { added: 'star', removed: 'unstar' },
+};
+
+export function emptyPlanTotals(): Record<PlannedActionType, number> {
+  return {
+    archive: 0,
+    trash: 0,
+    label: 0,
+    unlabel: 0,
+    mark_read: 0,
+    mark_unread: 0,
+    star: 0,
+    unstar: 0,
+    forward: 0,
+  };
+}
+
+/**
+ * Accumulates planned changes per message. Successive changes apply to the
+ * message's planned state, so e.g. a rule that labels and then archives
+ * shows both, and an add followed by a remove cancels out.
+ */
+export class DryRunPlanBuilder {
+  private messages = new Map<string, TrackedMessage>();
+
+  addLabelChange(
+    emails: PlannableEmail[],
+    changes: { addLabelIds?: string[]; removeLabelIds?: string[] },
+    source?: string
+  ): number {
+    let affected = 0;
+
+    for (const email of emails) {
+      const tracked = this.track(email, source);
+      const before = tracked.labels.join('\n');
+      const removed = new Set(changes.removeLabelIds || []);
+      tracked.labels = tracked.labels.filter(label => !removed.has(label));
+      for (const label of changes.addLabelIds || []) {
+        if (!tracked.labels.includes(label)) tracked.labels.push(label);
+      }
+      if (tracked.labels.join('\n') !== before) affected++;
+    }
+
+    return affected;
+  }
+
+  addForward(emails: PlannableEmail[], destination: string, source?: string): number {
+    for (const email of emails) {
+      const tracked = this.track(email, source);
+      if (!tracked.forwardTo.includes(destination)) {
+        tracked.forwardTo.push(destination);
+      }
+    }
+    return emails.length;
+  }
+
+  build(): DryRunPlan {
+    const totals = emptyPlanTotals();
+    const messages: PlannedMessageChange[] = [];
+
+    for (const tracked of this.messages.values()) {
+      const addLabels = tracked.labels.filter(label => !tracked.initialLabels.includes(label));
+      const removeLabels = tracked.initialLabels.filter(label => !tracked.labels.includes(label));
+      if (addLabels.length === 0 && removeLabels.length === 0 && tracked.forwardTo.length === 0) continue;
+
+      const actions = new Set<PlannedActionType>();
+      for (const label of addLabels) actions.add(LABEL_ACTIONS[label]?.added || 'label');
+      for (const label of removeLabels) {
+        const action = LABEL_ACTIONS[label]?.removed;
+        if (action) actions.add(action);
+        else if (!LABEL_ACTIONS[label]) actions.add('unlabel');
+      }
+      if (tracked.forwardTo.length > 0) actions.add('forward');
+
+      for (const action of actions) totals[action]++;
+
+      messages.push({
+        emailId: tracked.email.id,
+        subject: tracked.email.subject,
+        from: tracked.email.from,
+        addLabels,
+        removeLabels,
+        actions: Array.from(actions),
+        forwardTo: tracked.forwardTo,
+        sources: Array.from(tracked.sources),
+      });
+    }
+
+    return {
+      dryRun: true,
+      messages,
+      totals,
+      totalMessages: messages.length,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  private track(email: PlannableEmail, source?: string): TrackedMessage {
+    let tracked = this.messages.get(email.id);
+    if (!tracked) {
+      const labels = email.labels || [];
+      tracked = { email, initialLabels: [...labels], labels: [...labels], forwardTo: [], sources: new Set() };
+      this.messages.set(email.id, tracked);
+    }
+    if (source) tracked.sources.add(source);
+    return tracked;
+  }
+}
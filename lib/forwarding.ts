@@ -0,0 +1,301 @@
+import { createHash, randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { GmailService } from '@/lib/gmail/service';
+import type { GmailEnhancedService, ForwardOperationResult } from '@/lib/gmail/enhanced-service';
+import { buildMimeMessage, toBase64Url } from '@/lib/gmail/mime';
+
+// Defaults per rule; a rule may lower its hourly limit but not raise it
+export const FORWARD_LIMITS = {
+  perRulePerHour: 20,
+  perUserPerDay: 200,
+};
+
+const VERIFICATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/;
+
+export type ForwardingErrorCode = 'INVALID_DESTINATION' | 'DESTINATION_NOT_VERIFIED' | 'RATE_LIMITED';
+
+export class ForwardingError extends Error {
+  constructor(public code: ForwardingErrorCode, message: string) {
+    super(message);
+    this.name = 'ForwardingError';
+  }
+}
+
+export interface ForwardingDestination {
+  id: string;
+  email: string;
+  status: 'pending' | 'verified';
+  verification_sent_at: string | null;
+  verified_at: string | null;
+  created_at: string;
+}
+
+export interface ForwardRequest {
+  userId: string;
+  ruleId: string;
+  destination: string;
+  emailIds: string[];
+  maxPerHour?: number;
+}
+
+export interface ForwardSummary {
+  forwarded: number;
+  skippedDuplicates: number;
+  skippedRateLimited: number;
+  errors: string[];
+  operationId: string | null;
+}
+
+/**
+ * Outbound pipeline for the forward action: only verified destinations, per-rule
+ * and per-user rate limits, and no message forwarded twice to the same address.
+ */
+export class ForwardingService {
+  constructor(private supabase: SupabaseClient = createAdminClient()) {}
+
+  async listDestinations(userId: string): Promise<ForwardingDestination[]> {
+    const { data, error } = await this.supabase
+      .from('forwarding_destinations')
+      .select('id, email, status, verification_sent_at, verified_at, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load forwarding destinations: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Add a destination (or re-send its verification) and email a confirmation
+   * link to it from the user's own mailbox
+   */
+  async addDestination(
+    userId: string,
+    email: string,
+    sender: GmailService,
+    appUrl: string
+  ): Promise<ForwardingDestination> {
+    const address = normalizeAddress(email);
+    if (!EMAIL_PATTERN.test(address)) {
+      throw new ForwardingError('INVALID_DESTINATION', 'Enter a valid email address');
+    }
+
+    const { data: existing } = await this.supabase
+      .from('forwarding_destinations')
+      .select('id, email, status, verification_sent_at, verified_at, created_at')
+      .eq('user_id', userId)
+      .eq('email', address)
+      .maybeSingle();
+
+    if (existing?.status === 'verified') {
+      return existing;
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const { data, error } = await this.supabase
+      .from('forwarding_destinations')
+      .upsert({
+        user_id: userId,
+        email: address,
+        status: 'pending',
+        verification_token_hash: hashToken(token),
+        verification_sent_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,email' })
+      .select('id, email, status, verification_sent_at, verified_at, created_at')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save forwarding destination: ${error?.message}`);
+    }
+
+    const from = await sender.getProfileEmail();
+    const link = `${appUrl.replace(/\/$/, '')}/api/forwarding/verify?token=${token}`;
+    const message = buildMimeMessage({
+      from,
+      to: address,
+      subject: 'Confirm email forwarding from InboxGremlin',
+      text: [
+        `${from} wants InboxGremlin rules to forward email to this address.`,
+        '',
+        `Confirm: ${link}`,
+        '',
+        'If you did not expect this, ignore this message and nothing will be forwarded.',
+      ].join('\r\n'),
+    });
+    await sender.sendRawMessage(toBase64Url(message));
+
+    return data;
+  }
+
+  /**
+   * Confirm a destination from the emailed link. Returns null for unknown or expired tokens.
+   */
+  async verifyDestination(token: string): Promise<ForwardingDestination | null> {
+    const { data: row } = await this.supabase
+      .from('forwarding_destinations')
+      .select('id, verification_sent_at')
+      .eq('verification_token_hash', hashToken(token))
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (!row) return null;
+
+    const sentAt = row.verification_sent_at ? new Date(row.verification_sent_at).getTime() : 0;
+    if (Date.now() - sentAt > VERIFICATION_TTL_MS) return null;
+
+    const { data, error } = await this.supabase
+      .from('forwarding_destinations')
+      .update({
+        status: 'verified',
+        verified_at: new Date().toISOString(),
+        verification_token_hash: null,
+      })
+      .eq('id', row.id)
+      .select('id, email, status, verification_sent_at, verified_at, created_at')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to verify forwarding destination: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async removeDestination(userId: string, id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('forwarding_destinations')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to remove forwarding destination: ${error.message}`);
+    }
+  }
+
+  async isVerified(userId: string, email: string): Promise<boolean> {
+    const { data } = await this.supabase
+      .from('forwarding_destinations')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('email', normalizeAddress(email))
+      .eq('status', 'verified')
+      .maybeSingle();
+
+    return Boolean(data);
+  }
+
+  /**
+   * Forward messages after checking the allowlist, de-duplicating and applying rate limits
+   */
+  async forwardEmails(gmailService: GmailEnhancedService, request: ForwardRequest): Promise<ForwardSummary> {
+    const destination = normalizeAddress(request.destination);
+
+    if (!(await this.isVerified(request.userId, destination))) {
+      throw new ForwardingError(
+        'DESTINATION_NOT_VERIFIED',
+        `${destination} is not a verified forwarding address. Verify it in Settings first.`
+      );
+    }
+
+    const candidates = await this.excludeAlreadyForwarded(request.userId, destination, request.emailIds);
+    const skippedDuplicates = request.emailIds.length - candidates.length;
+
+    const allowance = await this.getRemainingAllowance(request.userId, request.ruleId, request.maxPerHour);
+    if (candidates.length > 0 && allowance === 0) {
+      throw new ForwardingError('RATE_LIMITED', 'Forwarding rate limit reached for this rule; try again later');
+    }
+
+    const toSend = candidates.slice(0, allowance);
+    if (toSend.length === 0) {
+      return { forwarded: 0, skippedDuplicates, skippedRateLimited: 0, errors: [], operationId: null };
+    }
+
+    const result: ForwardOperationResult = await gmailService.forwardEmailsWithHistory(toSend, destination, {
+      ruleId: request.ruleId,
+    });
+
+    if (result.sent.length > 0) {
+      const { error } = await this.supabase.from('forward_events').insert(
+        result.sent.map(item => ({
+          user_id: request.userId,
+          rule_id: request.ruleId,
+          message_id: item.emailId,
+          destination,
+          sent_message_id: item.sentMessageId,
+        }))
+      );
+
+      if (error) {
+        console.error('Error logging forward events:', error);
+      }
+    }
+
+    return {
+      forwarded: result.sent.length,
+      skippedDuplicates,
+      skippedRateLimited: candidates.length - toSend.length,
+      errors: result.errors,
+      operationId: result.operationId,
+    };
+  }
+
+  private async excludeAlreadyForwarded(userId: string, destination: string, emailIds: string[]): Promise<string[]> {
+    if (emailIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('forward_events')
+      .select('message_id')
+      .eq('user_id', userId)
+      .eq('destination', destination)
+      .in('message_id', emailIds);
+
+    if (error) {
+      throw new Error(`Failed to check forward history: ${error.message}`);
+    }
+
+    const forwarded = new Set((data || []).map(row => row.message_id));
+    return emailIds.filter(id => !forwarded.has(id));
+  }
+
+  private async getRemainingAllowance(userId: string, ruleId: string, maxPerHour?: number): Promise<number> {
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+    const [{ count: ruleCount }, { count: userCount }] = await Promise.all([
+      this.supabase
+        .from('forward_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('rule_id', ruleId)
+        .gte('created_at', hourAgo),
+      this.supabase
+        .from('forward_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('created_at', dayAgo),
+    ]);
+
+    const ruleLimit = Math.min(maxPerHour ?? FORWARD_LIMITS.perRulePerHour, FORWARD_LIMITS.perRulePerHour);
+    return Math.max(0, Math.min(
+      ruleLimit - (ruleCount || 0),
+      FORWARD_LIMITS.perUserPerDay - (userCount || 0)
+    ));
+  }
+}
+
+export function isValidForwardingAddress(email: string): boolean {
+  return EMAIL_PATTERN.test(normalizeAddress(email));
+}
+
+function normalizeAddress(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
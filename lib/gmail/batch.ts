@@ -0,0 +1,143 @@
+const GMAIL_BATCH_URL = "https://gmail.googleapis.com/batch/gmail/v1";
+
+// Google accepts 100 calls per batch, but Gmail throttles batches above ~50
+export const MAX_BATCH_SIZE = 50;
+
+const MAX_RETRY_ROUNDS = 2;
+
+export interface BatchRequest {
+  method: "GET" | "POST" | "DELETE";
+  path: string; // e.g. /gmail/v1/users/me/messages/{id}?format=metadata
+  body?: unknown;
+}
+
+export interface BatchResponse<T = any> {
+  status: number;
+  body: T | null;
+}
+
+/**
+ * Execute Gmail API calls as multipart/mixed HTTP batches. Results are returned
+ * in request order. Sub-requests that hit rate limits or server errors are
+ * retried with backoff before their failure is returned.
+ */
+export async function executeBatch<T = any>(
+  accessToken: string,
+  requests: BatchRequest[]
+): Promise<BatchResponse<T>[]> {
+  const results: BatchResponse<T>[] = new Array(requests.length);
+
+  for (let start = 0; start < requests.length; start += MAX_BATCH_SIZE) {
+    let pending = requests
+      .slice(start, start + MAX_BATCH_SIZE)
+      .map((request, offset) => ({ request, index: start + offset }));
+
+    for (let round = 0; pending.length > 0; round++) {
+      const responses = await sendBatch<T>(accessToken, pending.map((item) => item.request));
+      const retry: typeof pending = [];
+
+      pending.forEach((item, i) => {
+        const response = responses[i] || { status: 500, body: null };
+        const retryable = response.status === 429 || response.status >= 500;
+
+        if (retryable && round < MAX_RETRY_ROUNDS) {
+          retry.push(item);
+        } else {
+          results[item.index] = response;
+        }
+      });
+
+      if (retry.length > 0) {
+        const delay = 1000 * Math.pow(2, round) * (0.5 + Math.random() * 0.5);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      pending = retry;
+    }
+  }
+
+  return results;
+}
+
+async function sendBatch<T>(accessToken: string, requests: BatchRequest[]): Promise<BatchResponse<T>[]> {
+  const boundary = `batch_${Math.random().toString(36).slice(2)}`;
+
+  const parts = requests.map((request, index) => {
+    const lines = [
+      `--${boundary}`,
+      "Content-Type: application/http",
+      `Content-ID: <item${index}>`,
+      "",
+      `${request.method} ${request.path} HTTP/1.1`,
+    ];
+
+    if (request.body !== undefined) {
+      const json = JSON.stringify(request.body);
+      lines.push("Content-Type: application/json", `Content-Length: ${Buffer.byteLength(json)}`, "", json);
+    } else {
+      lines.push("");
+    }
+
+    return lines.join("\r\n");
+  });
+
+  const response = await fetch(GMAIL_BATCH_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": `multipart/mixed; boundary=${boundary}`,
+    },
+    body: `${parts.join("\r\n")}\r\n--${boundary}--\r\n`,
+  });
+
+  if (!response.ok) {
+    // Surface auth and quota errors in the same shape as googleapis errors
+    const error: any = new Error(`Gmail batch request failed with status ${response.status}`);
+    error.response = { status: response.status, data: await response.json().catch(() => ({})) };
+    throw error;
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  const responseBoundary = contentType.match(/boundary=("?)([^";]+)\1/)?.[2];
+  if (!responseBoundary) {
+    throw new Error("Gmail batch response is missing a multipart boundary");
+  }
+
+  return parseBatchResponse<T>(await response.text(), responseBoundary, requests.length);
+}
+
+function parseBatchResponse<T>(text: string, boundary: string, expected: number): BatchResponse<T>[] {
+  const results: BatchResponse<T>[] = new Array(expected).fill(null).map(() => ({ status: 500, body: null }));
+  const segments = text.split(`--${boundary}`);
+  let position = 0;
+
+  for (const segment of segments) {
+    const trimmed = segment.trim();
+    if (!trimmed || trimmed === "--") continue;
+
+    // Outer MIME headers, then the embedded HTTP response
+    const contentId = trimmed.match(/Content-ID:\s*<response-item(\d+)>/i)?.[1];
+    const statusMatch = trimmed.match(/HTTP\/1\.1 (\d{3})/);
+    if (!statusMatch) continue;
+
+    const index = contentId !== undefined ? Number(contentId) : position;
+    position++;
+    if (index >= expected) continue;
+
+    const httpPart = trimmed.slice(statusMatch.index!);
+    const bodyStart = httpPart.search(/\r?\n\r?\n/);
+    const rawBody = bodyStart === -1 ? "" : httpPart.slice(bodyStart).trim();
+
+    let body: T | null = null;
+    if (rawBody) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        body = null;
+      }
+    }
+
+    results[index] = { status: Number(statusMatch[1]), body };
+  }
+
+  return results;
+}
@@ -1,175 +1,132 @@
-import { EmailData, EmailAnalytics } from "./enhanced-service";
+import type { EmailData, EmailAnalytics } from "./enhanced-service";
+import type { SenderUnsubscribeDetection } from "../unsubscribe-detector";
+import { CacheStore, getDefaultCacheStore } from "./cache-store";
 
 export interface CacheConfig {
   emailTTL: number; // seconds
   analyticsTTL: number; // seconds
-  maxCacheSize: number; // number of items
-}
-
-export interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number;
+  unsubscribeTTL: number; // seconds
 }
 
 export interface CacheStats {
   hits: number;
   misses: number;
-  size: number;
+  size: number; // This user's entries
   hitRate: number;
 }
 
+// Hit/miss counters live for the process, so per-request instances still report useful stats
+const userStats = new Map<string, { hits: number; misses: number }>();
+
+/**
+ * Per-user view over a shared CacheStore. Every key is prefixed with
+ * `gmail:<userId>:`, so one user's entries can never be served to another.
+ */
 export class GmailCacheService {
-  private emailCache = new Map<string, CacheEntry<EmailData[]>>();
-  private analyticsCache = new Map<string, CacheEntry<EmailAnalytics>>();
-  private countsCache = new Map<
-    string,
-    CacheEntry<{ total: number; unread: number }>
-  >();
-  private labelsCache = new Map<string, CacheEntry<any[]>>();
-
-  private stats = {
-    hits: 0,
-    misses: 0,
-  };
+  private store: CacheStore;
+  private namespace: string;
+  private stats: { hits: number; misses: number };
 
   private config: CacheConfig = {
     emailTTL: 300, // 5 minutes
     analyticsTTL: 3600, // 1 hour
-    maxCacheSize: 1000,
+    unsubscribeTTL: 86400, // 1 day
   };
 
-  constructor(config?: Partial<CacheConfig>) {
+  constructor(userId: string, store?: CacheStore, config?: Partial<CacheConfig>) {
+    this.store = store || getDefaultCacheStore();
+    this.namespace = `gmail:${userId}:`;
     if (config) {
       this.config = { ...this.config, ...config };
     }
 
-    // Setup periodic cleanup
-    setInterval(() => this.cleanup(), 60000); // Clean up every minute
+    if (!userStats.has(userId)) {
+      userStats.set(userId, { hits: 0, misses: 0 });
+    }
+    this.stats = userStats.get(userId)!;
   }
 
   // Email caching methods
-  getCachedEmails(key: string): EmailData[] | null {
-    const entry = this.emailCache.get(key);
-    if (!entry) {
-      this.stats.misses++;
-      return null;
-    }
-
-    if (this.isExpired(entry)) {
-      this.emailCache.delete(key);
-      this.stats.misses++;
-      return null;
-    }
-
-    this.stats.hits++;
-    return entry.data;
+  async getCachedEmails(key: string): Promise<EmailData[] | null> {
+    return this.read<EmailData[]>(key);
   }
 
-  setCachedEmails(key: string, emails: EmailData[]): void {
-    this.ensureCacheSize(this.emailCache);
-    this.emailCache.set(key, {
-      data: emails,
-      timestamp: Date.now(),
-      ttl: this.config.emailTTL * 1000,
-    });
+  async setCachedEmails(key: string, emails: EmailData[]): Promise<void> {
+    await this.write(key, emails, this.config.emailTTL);
   }
 
   // Analytics caching methods
-  getCachedAnalytics(key: string): EmailAnalytics | null {
-    const entry = this.analyticsCache.get(key);
-    if (!entry || this.isExpired(entry)) {
-      this.stats.misses++;
-      if (entry) this.analyticsCache.delete(key);
-      return null;
-    }
-
-    this.stats.hits++;
-    return entry.data;
+  async getCachedAnalytics(key: string): Promise<EmailAnalytics | null> {
+    return this.read<EmailAnalytics>(key);
   }
 
-  setCachedAnalytics(key: string, analytics: EmailAnalytics): void {
-    this.ensureCacheSize(this.analyticsCache);
-    this.analyticsCache.set(key, {
-      data: analytics,
-      timestamp: Date.now(),
-      ttl: this.config.analyticsTTL * 1000,
-    });
+  async setCachedAnalytics(key: string, analytics: EmailAnalytics): Promise<void> {
+    await this.write(key, analytics, this.config.analyticsTTL);
   }
 
   // Email counts caching
-  getCachedCounts(key: string): { total: number; unread: number } | null {
-    const entry = this.countsCache.get(key);
-    if (!entry || this.isExpired(entry)) {
-      this.stats.misses++;
-      if (entry) this.countsCache.delete(key);
-      return null;
-    }
-
-    this.stats.hits++;
-    return entry.data;
+  async getCachedCounts(key: string): Promise<{ total: number; unread: number } | null> {
+    return this.read<{ total: number; unread: number }>(key);
   }
 
-  setCachedCounts(
+  async setCachedCounts(
     key: string,
     counts: { total: number; unread: number }
-  ): void {
-    this.ensureCacheSize(this.countsCache);
-    this.countsCache.set(key, {
-      data: counts,
-      timestamp: Date.now(),
-      ttl: this.config.emailTTL * 1000,
-    });
+  ): Promise<void> {
+    await this.write(key, counts, this.config.emailTTL);
   }
 
   // Labels caching
-  getCachedLabels(key: string): any[] | null {
-    const entry = this.labelsCache.get(key);
-    if (!entry || this.isExpired(entry)) {
-      this.stats.misses++;
-      if (entry) this.labelsCache.delete(key);
-      return null;
-    }
+  async getCachedLabels(key: string): Promise<any[] | null> {
+    return this.read<any[]>(key);
+  }
+
+  async setCachedLabels(key: string, labels: any[]): Promise<void> {
+    await this.write(key, labels, this.config.analyticsTTL); // Labels don't change often
+  }
 
-    this.stats.hits++;
-    return entry.data;
+  // Unsubscribe detection, per sender domain. Senders rarely change how they
+  // unsubscribe, so this outlives mailbox mutations.
+  async getCachedUnsubscribeDetection(domain: string): Promise<SenderUnsubscribeDetection | null> {
+    return this.read<SenderUnsubscribeDetection>(GmailCacheService.generateUnsubscribeKey(domain));
   }
 
-  setCachedLabels(key: string, labels: any[]): void {
-    this.ensureCacheSize(this.labelsCache);
-    this.labelsCache.set(key, {
-      data: labels,
-      timestamp: Date.now(),
-      ttl: this.config.analyticsTTL * 1000, // Labels don't change often
-    });
+  async setCachedUnsubscribeDetection(domain: string, detection: SenderUnsubscribeDetection): Promise<void> {
+    await this.write(GmailCacheService.generateUnsubscribeKey(domain), detection, this.config.unsubscribeTTL);
   }
 
   // Cache management
-  invalidateEmailsCache(): void {
-    this.emailCache.clear();
+  async invalidateEmailsCache(): Promise<void> {
+    await this.store.deleteByPrefix(this.namespace + "emails:");
   }
 
-  invalidateAnalyticsCache(): void {
-    this.analyticsCache.clear();
+  async invalidateAnalyticsCache(): Promise<void> {
+    await this.store.deleteByPrefix(this.namespace + "analytics:");
   }
 
-  invalidateAll(): void {
-    this.emailCache.clear();
-    this.analyticsCache.clear();
-    this.countsCache.clear();
-    this.labelsCache.clear();
+  /**
+   * Drop everything that reflects mailbox state after a mutation: message
+   * lists, counts, labels and analytics derived from them
+   */
+  async invalidateMailboxState(): Promise<void> {
+    await Promise.all([
+      this.store.deleteByPrefix(this.namespace + "emails:"),
+      this.store.deleteByPrefix(this.namespace + "counts:"),
+      this.store.deleteByPrefix(this.namespace + "labels:"),
+      this.store.deleteByPrefix(this.namespace + "analytics:"),
+    ]);
   }
 
-  getStats(): CacheStats {
+  async invalidateAll(): Promise<void> {
+    await this.store.deleteByPrefix(this.namespace);
+  }
+
+  async getStats(): Promise<CacheStats> {
     const totalRequests = this.stats.hits + this.stats.misses;
     return {
       hits: this.stats.hits,
       misses: this.stats.misses,
-      size:
-        this.emailCache.size +
-        this.analyticsCache.size +
-        this.countsCache.size +
-        this.labelsCache.size,
+      size: await this.store.size(this.namespace),
       hitRate: totalRequests > 0 ? this.stats.hits / totalRequests : 0,
     };
   }
@@ -191,38 +148,33 @@ export class GmailCacheService {
     return "labels:all";
   }
 
-  // Private helper methods
-  private isExpired<T>(entry: CacheEntry<T>): boolean {
-    return Date.now() - entry.timestamp > entry.ttl;
+  static generateUnsubscribeKey(domain: string): string {
+    return `unsubscribe:${domain.toLowerCase()}`;
   }
 
-  private ensureCacheSize<T>(cache: Map<string, CacheEntry<T>>): void {
-    if (cache.size >= this.config.maxCacheSize) {
-      // Remove oldest entries (simple LRU)
-      const sortedEntries = Array.from(cache.entries()).sort(
-        ([, a], [, b]) => a.timestamp - b.timestamp
-      );
-
-      const toRemove = Math.floor(this.config.maxCacheSize * 0.1); // Remove 10%
-      for (let i = 0; i < toRemove; i++) {
-        cache.delete(sortedEntries[i][0]);
+  // Private helper methods
+  private async read<T>(key: string): Promise<T | null> {
+    try {
+      const value = await this.store.get<T>(this.namespace + key);
+      if (value === null) {
+        this.stats.misses++;
+        return null;
       }
+      this.stats.hits++;
+      return value;
+    } catch (error) {
+      // A cache outage should degrade to a miss, not fail the request
+      console.error("Cache read failed:", error);
+      this.stats.misses++;
+      return null;
     }
   }
 
-  private cleanup(): void {
-    // Remove expired entries
-    [
-      this.emailCache,
-      this.analyticsCache,
-      this.countsCache,
-      this.labelsCache,
-    ].forEach((cache) => {
-      for (const [key, entry] of cache.entries()) {
-        if (this.isExpired(entry)) {
-          cache.delete(key);
-        }
-      }
-    });
+  private async write<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    try {
+      await this.store.set(this.namespace + key, value, ttlSeconds);
+    } catch (error) {
+      console.error("Cache write failed:", error);
+    }
   }
 }
@@ -0,0 +1,215 @@
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import type { DatabaseSync } from "node:sqlite";
+import { RedisCacheStore } from "./redis-cache-store";
+
+/**
+ * Key/value storage behind GmailCacheService. Values are JSON-serializable;
+ * implementations handle expiry themselves.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<number>;
+  size(prefix?: string): Promise<number>; // Live entries whose keys start with prefix
+}
+
+export type CacheBackend = "memory" | "sqlite" | "redis";
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Process-local store. Fast, but lost on every cold start and not shared
+ * between instances.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(private maxEntries: number = 1000) {
+    // Remove expired entries every minute without keeping the process alive
+    const timer = setInterval(() => this.cleanup(), 60000);
+    timer.unref?.();
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Re-insert so Map order tracks recency for eviction
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      // Evict the least recently used 10%
+      const toRemove = Math.max(1, Math.floor(this.maxEntries * 0.1));
+      const keys = this.entries.keys();
+      for (let i = 0; i < toRemove; i++) {
+        const oldest = keys.next();
+        if (oldest.done) break;
+        this.entries.delete(oldest.value);
+      }
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async size(prefix: string = ""): Promise<number> {
+    const now = Date.now();
+    let count = 0;
+    for (const [key, entry] of this.entries) {
+      if (key.startsWith(prefix) && entry.expiresAt > now) count++;
+    }
+    return count;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * File-backed store using the built-in node:sqlite module (Node 22.5+).
+ * Survives restarts of a single host; not shared across hosts.
+ */
+export class SqliteCacheStore implements CacheStore {
+  private db: Promise<DatabaseSync>;
+
+  constructor(filePath: string) {
+    this.db = this.open(filePath);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const db = await this.db;
+    const row = db
+      .prepare("SELECT value, expires_at FROM cache_entries WHERE key = ?")
+      .get(key) as { value: string; expires_at: number } | undefined;
+
+    if (!row) return null;
+
+    if (row.expires_at <= Date.now()) {
+      db.prepare("DELETE FROM cache_entries WHERE key = ?").run(key);
+      return null;
+    }
+
+    return JSON.parse(row.value) as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const db = await this.db;
+    db.prepare(
+      "INSERT INTO cache_entries (key, value, expires_at) VALUES (?, ?, ?) " +
+        "ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at"
+    ).run(key, JSON.stringify(value), Date.now() + ttlSeconds * 1000);
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.db;
+    db.prepare("DELETE FROM cache_entries WHERE key = ?").run(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const db = await this.db;
+    // Range scan on the primary key instead of LIKE, so '%' and '_' in keys are literal
+    const result = db
+      .prepare("DELETE FROM cache_entries WHERE key >= ? AND key < ?")
+      .run(prefix, `${prefix}\uffff`);
+    return Number(result.changes);
+  }
+
+  async size(prefix: string = ""): Promise<number> {
+    const db = await this.db;
+    const row = db
+      .prepare("SELECT COUNT(*) AS count FROM cache_entries WHERE key >= ? AND key < ? AND expires_at > ?")
+      .get(prefix, `${prefix}\uffff`, Date.now()) as { count: number };
+    return Number(row.count);
+  }
+
+  private async open(filePath: string): Promise<DatabaseSync> {
+    let sqlite: typeof import("node:sqlite");
+    try {
+      sqlite = await import("node:sqlite");
+    } catch {
+      throw new Error("The sqlite cache backend requires Node.js 22.5 or newer (node:sqlite)");
+    }
+
+    mkdirSync(dirname(filePath), { recursive: true });
+    const db = new sqlite.DatabaseSync(filePath);
+    db.exec(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_cache_entries_expires_at ON cache_entries(expires_at);
+    `);
+    db.prepare("DELETE FROM cache_entries WHERE expires_at <= ?").run(Date.now());
+
+    return db;
+  }
+}
+
+let defaultStore: CacheStore | null = null;
+
+/**
+ * Build the store selected by CACHE_BACKEND (memory | sqlite | redis)
+ */
+export function createCacheStore(backend: CacheBackend = (process.env.CACHE_BACKEND as CacheBackend) || "memory"): CacheStore {
+  switch (backend) {
+    case "sqlite":
+      return new SqliteCacheStore(process.env.CACHE_SQLITE_PATH || ".cache/gmail-cache.sqlite");
+    case "redis": {
+      const url = process.env.REDIS_URL;
+      if (!url) {
+        throw new Error("REDIS_URL must be set when CACHE_BACKEND=redis");
+      }
+      return new RedisCacheStore(url);
+    }
+    case "memory":
+    default:
+      return new MemoryCacheStore();
+  }
+}
+
+/**
+ * Process-wide store shared by all GmailCacheService instances
+ */
+export function getDefaultCacheStore(): CacheStore {
+  if (!defaultStore) {
+    defaultStore = createCacheStore();
+  }
+  return defaultStore;
+}
@@ -1,88 +1,318 @@
 import { GmailService, EmailData, BulkOperationResult } from "./service";
-import { OperationHistoryService, UndoableOperation } from "../operation-history";
-import { google } from "googleapis";
-
-export interface EnhancedBulkOperationResult extends BulkOperationResult {
+import {
+  OperationHistoryService,
+  OperationHistoryOptions,
+  PointInTimeRestoreResult,
+  snapshotLabelChange,
+} from "../operation-history";
+import { GmailCacheService } from "./cache-service";
+import { buildForwardMessage, toBase64Url } from "./mime";
+import { DryRunPlan, DryRunPlanBuilder } from "../dry-run";
+import { MailBackupService } from "../mail-backup";
+import { MAX_REGEX_INPUT_LENGTH, compileSafeRegex } from "../safe-regex";
+import {
+  GuardedOperation,
+  SafetyContext,
+  SafetyGuard,
+  SafetyReport,
+  isDestructiveOperation,
+} from "../safety-guard";
+
+export interface EnhancedBulkOperationResult extends Omit<BulkOperationResult, "operationId"> {
   operationId: string | null;
   canUndo: boolean;
+  safety?: SafetyReport; // What the safety policy dropped, capped or held for confirmation
+  backupId?: string; // Raw copies taken before a delete (mail_backups)
+}
+
+export type { EmailData };
+
+export type SmartCategory =
+  | "newsletter"
+  | "promotional"
+  | "social"
+  | "financial"
+  | "travel"
+  | "notification"
+  | "work"
+  | "personal";
+
+export interface SmartCategoryResult {
+  category: SmartCategory;
+  confidence: number; // 0-1
+  reasons: string[];
+}
+
+export interface EmailInsight {
+  priority: "high" | "medium" | "low";
+  actionRequired: boolean;
+  estimatedReadTime: number; // seconds
+  category: SmartCategoryResult;
+}
+
+export interface SmartFilterCondition {
+  field: "from" | "sender_domain" | "subject" | "snippet" | "label" | "category" | "is_read" | "age_days";
+  operator: "contains" | "not_contains" | "equals" | "starts_with" | "ends_with" | "matches" | "greater_than" | "less_than";
+  value: string | number | boolean;
+}
+
+export interface SmartFilter {
+  name?: string;
+  match?: "all" | "any";
+  conditions?: SmartFilterCondition[];
+  categories?: SmartCategory[]; // Restrict to these smart categories
+  minConfidence?: number; // Minimum categorizer confidence for the category restriction
+}
+
+export interface SmartFilterResult {
+  emailId: string;
+  matched: boolean;
+  category: SmartCategoryResult;
+  matchedConditions: number[]; // Indexes into filter.conditions
+}
+
+export interface EmailThread {
+  id: string;
+  subject: string;
+  snippet: string;
+  messageCount: number;
+  participants: string[];
+  isUnread: boolean;
+  labels: string[];
+  lastMessageAt: string | null; // ISO timestamp
+  messages: EmailData[];
+}
+
+export interface EmailAnalytics {
+  periodDays: number;
+  totalEmails: number;
+  unreadEmails: number;
+  readRate: number; // 0-1
+  averagePerDay: number;
+  topSenders: { sender: string; count: number }[];
+  topDomains: { domain: string; count: number }[];
+  categoryDistribution: Record<SmartCategory, number>;
+  dailyVolume: { date: string; count: number }[];
+  hourlyDistribution: number[]; // 24 buckets, UTC
+  sampled: boolean; // True when the period had more emails than were analyzed
+  generatedAt: string;
+}
+
+interface CategorySignal {
+  category: SmartCategory;
+  weight: number;
+  reason: string;
+  test: (email: { from: string; subject: string; snippet: string; labels: string[] }) => boolean;
+}
+
+const includesAny = (text: string, terms: string[]) => terms.some((term) => text.includes(term));
+
+// Weighted evidence for each category; the highest total wins
+const CATEGORY_SIGNALS: CategorySignal[] = [
+  { category: "promotional", weight: 3, reason: "Gmail filed it under Promotions", test: (e) => e.labels.includes("CATEGORY_PROMOTIONS") },
+  { category: "social", weight: 3, reason: "Gmail filed it under Social", test: (e) => e.labels.includes("CATEGORY_SOCIAL") },
+  { category: "notification", weight: 2, reason: "Gmail filed it under Updates", test: (e) => e.labels.includes("CATEGORY_UPDATES") },
+  { category: "newsletter", weight: 2, reason: "Gmail filed it under Forums", test: (e) => e.labels.includes("CATEGORY_FORUMS") },
+  { category: "personal", weight: 1, reason: "Gmail filed it under Primary", test: (e) => e.labels.includes("CATEGORY_PERSONAL") },
+
+  { category: "newsletter", weight: 2, reason: "Sender looks like a newsletter", test: (e) => includesAny(e.from, ["newsletter", "digest", "substack", "mailchimp", "news@"]) },
+  { category: "newsletter", weight: 2, reason: "Mentions unsubscribing", test: (e) => includesAny(e.snippet, ["unsubscribe", "manage your preferences", "email preferences"]) },
+  { category: "newsletter", weight: 1, reason: "Subject reads like an issue or digest", test: (e) => /\b(newsletter|digest|weekly|issue #?\d+|edition)\b/.test(e.subject) },
+
+  { category: "promotional", weight: 2, reason: "Subject contains sale language", test: (e) => /(\d+% off|\bsale\b|\bdeal|\bdiscount|\bcoupon|\bpromo|free shipping|limited time)/.test(e.subject) },
+  { category: "promotional", weight: 1, reason: "Body contains a call to buy", test: (e) => includesAny(e.snippet, ["shop now", "buy now", "limited time", "use code", "order now"]) },
+
+  { category: "social", weight: 2, reason: "Sent by a social network", test: (e) => /(facebook|facebookmail|twitter|x\.com|linkedin|instagram|tiktok|reddit|pinterest|discord)\./.test(e.from) },
+  { category: "social", weight: 1, reason: "Subject mentions social activity", test: (e) => /(commented|mentioned you|tagged you|friend request|new follower|connection request|liked your)/.test(e.subject) },
+
+  { category: "financial", weight: 2, reason: "Sent by a payment or banking service", test: (e) => /(bank|paypal|stripe|venmo|wise\.com|revolut|amex|visa|mastercard|invoice)/.test(e.from) },
+  { category: "financial", weight: 2, reason: "Subject mentions a payment", test: (e) => /(invoice|receipt|payment|statement|transaction|refund|billing)/.test(e.subject) },
+
+  { category: "travel", weight: 2, reason: "Sent by a travel provider", test: (e) => /(airbnb|booking\.com|expedia|airline|airways|uber|lyft|trainline|hotels?\.)/.test(e.from) },
+  { category: "travel", weight: 2, reason: "Subject mentions a trip", test: (e) => /(itinerary|boarding pass|flight|reservation|check-in|booking confirmation|your trip)/.test(e.subject) },
+
+  { category: "notification", weight: 1, reason: "Sent from a no-reply address", test: (e) => /(no-?reply|notifications?|alerts?|mailer-daemon)@/.test(e.from) },
+  { category: "notification", weight: 1, reason: "Subject reads like an automated alert", test: (e) => /(verify|verification code|password reset|security alert|sign-in|your account|order (has )?shipped|delivery)/.test(e.subject) },
+
+  { category: "work", weight: 2, reason: "Subject mentions meetings or projects", test: (e) => /(meeting|invitation:|agenda|project|deadline|standup|review|proposal|contract)/.test(e.subject) },
+  { category: "work", weight: 1, reason: "Sent from a collaboration tool", test: (e) => /(slack|atlassian|jira|github|gitlab|notion|asana|trello|zoom|calendar-notification)/.test(e.from) },
+];
+
+const ALL_CATEGORIES: SmartCategory[] = [
+  "newsletter",
+  "promotional",
+  "social",
+  "financial",
+  "travel",
+  "notification",
+  "work",
+  "personal",
+];
+
+// Headers rule conditions can match on without naming them explicitly
+const RULE_HEADERS = ["To", "Cc", "Reply-To", "List-Id", "List-Unsubscribe", "X-Mailer"];
+
+// Upper bound on messages fetched for a single analytics request
+const ANALYTICS_SAMPLE_LIMIT = 500;
+
+export interface ForwardOperationResult extends EnhancedBulkOperationResult {
+  sent: { emailId: string; sentMessageId: string }[];
+}
+
+export interface EnhancedServiceOptions extends OperationHistoryOptions {
+  cache?: GmailCacheService; // Defaults to the user's cache when userId is set
+  dryRun?: boolean; // Plan the *WithHistory operations instead of performing them
+  safety?: SafetyContext; // Confirmation token and run mode for the safety policy
 }
 
 export class GmailEnhancedService extends GmailService {
   private operationHistory: OperationHistoryService;
-  private gmail: any;
+  private cache?: GmailCacheService;
+  private dryRunPlan?: DryRunPlanBuilder;
+  private dryRunSource?: string;
+  private safetyGuard?: Promise<SafetyGuard>;
+  private mailBackup?: MailBackupService;
 
-  constructor(accessToken: string) {
+  constructor(accessToken: string, private options: EnhancedServiceOptions = {}) {
     super(accessToken);
-    this.operationHistory = new OperationHistoryService();
-    
-    // Initialize Gmail API client
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: accessToken });
-    this.gmail = google.gmail({ version: "v1", auth });
+    const { cache, dryRun, safety, ...historyOptions } = options;
+    this.operationHistory = new OperationHistoryService(historyOptions);
+    this.cache = cache || (options.userId ? new GmailCacheService(options.userId) : undefined);
+    this.dryRunPlan = dryRun ? new DryRunPlanBuilder() : undefined;
+  }
+
+  isDryRun(): boolean {
+    return Boolean(this.dryRunPlan);
+  }
+
+  /**
+   * Attribute subsequently planned changes to a rule or job in the dry-run plan
+   */
+  setDryRunSource(source?: string): void {
+    this.dryRunSource = source;
+  }
+
+  /**
+   * Check several operations on the same messages against the safety policy
+   * before running any of them. Returns a blocked report, or null to go ahead.
+   */
+  async checkConfirmation(operations: GuardedOperation[], emailIds: string[]): Promise<SafetyReport | null> {
+    return (await this.getSafetyGuard()).preflight(operations, emailIds);
+  }
+
+  /**
+   * Everything planned so far, or null when the service is not in dry-run mode
+   */
+  getDryRunPlan(): DryRunPlan | null {
+    return this.dryRunPlan ? this.dryRunPlan.build() : null;
   }
 
   /**
    * Delete emails with operation history tracking
    */
   async deleteEmailsWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
-    try {
-      const emailDetails = await this.getEmailDetailsByIds(emailIds);
-      const result = await this.deleteEmails(emailIds);
-      
-      if (result.success && result.processedCount > 0) {
-        const operationId = await this.operationHistory.recordOperation({
-          operation_type: 'delete',
-          affected_emails: emailDetails.map(email => ({
-            id: email.id,
-            subject: email.subject,
-            from: email.from,
-            originalLabels: email.labels,
-            snippet: email.snippet,
-          })),
-          operation_details: {
-            permanentDelete: true,
-          },
-        });
+    // Restorable from the trash until Gmail purges it
+    return this.runLabelOperation('delete', emailIds, { addLabelIds: ['TRASH'] }, ids => this.deleteEmails(ids));
+  }
 
-        return {
-          ...result,
-          operationId,
-          canUndo: false, // Delete operations cannot be undone
-          affectedEmails: emailDetails,
-        };
-      }
+  /**
+   * Label emails with operation history tracking
+   */
+  async labelEmailsWithHistory(emailIds: string[], labelIds: string[]): Promise<EnhancedBulkOperationResult> {
+    return this.runLabelOperation('label', emailIds, { addLabelIds: labelIds }, ids => this.labelEmails(ids, labelIds));
+  }
+
+  /**
+   * Mark emails as read with operation history tracking
+   */
+  async markAsReadWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
+    return this.runLabelOperation('mark_read', emailIds, { removeLabelIds: ['UNREAD'] }, ids => this.markAsRead(ids));
+  }
+
+  /**
+   * Mark emails as unread with operation history tracking
+   */
+  async markAsUnreadWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
+    return this.runLabelOperation('mark_unread', emailIds, { addLabelIds: ['UNREAD'] }, ids => this.markAsUnread(ids));
+  }
+
+  /**
+   * Star emails with operation history tracking
+   */
+  async starEmailsWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
+    return this.runLabelOperation('star', emailIds, { addLabelIds: ['STARRED'] }, ids => this.starEmails(ids));
+  }
+
+  /**
+   * Unstar emails with operation history tracking
+   */
+  async unstarEmailsWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
+    return this.runLabelOperation('unstar', emailIds, { removeLabelIds: ['STARRED'] }, ids => this.unstarEmails(ids));
+  }
+
+  /**
+   * Archive emails with operation history tracking
+   */
+  async archiveEmailsWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
+    return this.runLabelOperation('archive', emailIds, { removeLabelIds: ['INBOX'] }, ids => this.archiveEmails(ids));
+  }
 
+  /**
+   * Forward emails to a destination as Gmail-style inline forwards with the
+   * original attachments. Callers must check the destination allowlist and
+   * rate limits first (see ForwardingService).
+   */
+  async forwardEmailsWithHistory(
+    emailIds: string[],
+    destination: string,
+    details: { ruleId?: string } = {}
+  ): Promise<ForwardOperationResult> {
+    const sent: ForwardOperationResult['sent'] = [];
+    const errors: string[] = [];
+
+    const { emailIds: allowedIds, report: safety } = (await this.getSafetyGuard()).checkRequest('forward', emailIds);
+    if (safety.blocked) {
+      return { ...this.blockedResult(safety), sent };
+    }
+    emailIds = allowedIds;
+
+    if (this.dryRunPlan) {
+      const emailDetails = await this.getEmailDetailsByIds(emailIds);
       return {
-        ...result,
+        success: true,
+        processedCount: this.dryRunPlan.addForward(emailDetails, destination, this.dryRunSource),
+        errors,
         operationId: null,
         canUndo: false,
         affectedEmails: emailDetails,
-      };
-    } catch (error) {
-      console.error('Error in deleteEmailsWithHistory:', error);
-      return {
-        success: false,
-        processedCount: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error'],
-        operationId: null,
-        canUndo: false,
-        affectedEmails: [],
+        safety,
+        sent,
       };
     }
-  }
 
-  /**
-   * Label emails with operation history tracking
-   */
-  async labelEmailsWithHistory(emailIds: string[], labelIds: string[]): Promise<EnhancedBulkOperationResult> {
     try {
+      const from = await this.getProfileEmail();
       const emailDetails = await this.getEmailDetailsByIds(emailIds);
-      const result = await this.labelEmails(emailIds, labelIds);
-      
-      if (result.success && result.processedCount > 0) {
-        const operationId = await this.operationHistory.recordOperation({
-          operation_type: 'label',
-          affected_emails: emailDetails.map(email => ({
+
+      for (const emailId of emailIds) {
+        try {
+          const original = await this.getMessageContent(emailId);
+          const raw = buildForwardMessage(original, { from, to: destination });
+          const sentMessageId = await this.sendRawMessage(toBase64Url(raw));
+          sent.push({ emailId, sentMessageId });
+        } catch (error) {
+          errors.push(`Failed to forward ${emailId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      const forwardedIds = new Set(sent.map(item => item.emailId));
+      const forwardedEmails = emailDetails.filter(email => forwardedIds.has(email.id));
+
+      let operationId: string | null = null;
+      if (sent.length > 0) {
+        operationId = await this.operationHistory.recordOperation({
+          operation_type: 'forward',
+          affected_emails: forwardedEmails.map(email => ({
             id: email.id,
             subject: email.subject,
             from: email.from,
@@ -90,280 +320,541 @@ export class GmailEnhancedService extends GmailService {
             snippet: email.snippet,
           })),
           operation_details: {
-            addedLabels: labelIds,
+            forwardedTo: destination,
+            ruleId: details.ruleId,
+            sentMessageIds: sent.map(item => item.sentMessageId),
           },
         });
-
-        return {
-          ...result,
-          operationId,
-          canUndo: true,
-          affectedEmails: emailDetails,
-        };
       }
 
       return {
-        ...result,
-        operationId: null,
-        canUndo: false,
-        affectedEmails: emailDetails,
+        success: errors.length === 0,
+        processedCount: sent.length,
+        errors,
+        operationId,
+        canUndo: false, // Sent mail cannot be recalled
+        affectedEmails: forwardedEmails,
+        safety,
+        sent,
       };
     } catch (error) {
-      console.error('Error in labelEmailsWithHistory:', error);
+      console.error('Error in forwardEmailsWithHistory:', error);
       return {
         success: false,
-        processedCount: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        processedCount: sent.length,
+        errors: [...errors, error instanceof Error ? error.message : 'Unknown error'],
         operationId: null,
         canUndo: false,
         affectedEmails: [],
+        sent,
       };
     }
   }
 
   /**
-   * Mark emails as read with operation history tracking
+   * List emails with query and options
    */
-  async markAsReadWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
-    try {
-      const emailDetails = await this.getEmailDetailsByIds(emailIds);
-      const result = await this.markAsRead(emailIds);
-      
-      if (result.success && result.processedCount > 0) {
-        const operationId = await this.operationHistory.recordOperation({
-          operation_type: 'mark_read',
-          affected_emails: emailDetails.map(email => ({
-            id: email.id,
-            subject: email.subject,
-            from: email.from,
-            originalLabels: email.labels,
-            snippet: email.snippet,
-          })),
-          operation_details: {
-            removedLabels: ['UNREAD'],
-          },
-        });
+  async listEmails(options: { maxResults?: number; query?: string; headers?: string[] } = {}): Promise<EmailData[]> {
+    const { maxResults = 100, query = 'in:inbox', headers = [] } = options;
+    return this.getEmailsByQuery(query, maxResults, [...RULE_HEADERS, ...headers]);
+  }
 
-        return {
-          ...result,
-          operationId,
-          canUndo: true,
-          affectedEmails: emailDetails,
-        };
-      }
+  /**
+   * One page of emails with the headers rule conditions use; pass the
+   * returned token back to continue
+   */
+  async listEmailPage(options: {
+    query: string;
+    pageSize: number;
+    pageToken?: string;
+    headers?: string[];
+  }): Promise<{ emails: EmailData[]; nextPageToken: string | null; resultSizeEstimate: number }> {
+    const page = await this.listMessageIdsPage(options.query, options.pageSize, options.pageToken);
+    const emails = await this.getEmailsByIds(page.ids, [...RULE_HEADERS, ...(options.headers || [])]);
+    return { emails, nextPageToken: page.nextPageToken, resultSizeEstimate: page.resultSizeEstimate };
+  }
 
-      return {
-        ...result,
-        operationId: null,
-        canUndo: false,
-        affectedEmails: emailDetails,
-      };
+  /**
+   * Undo a previous operation
+   */
+  async undoOperation(operationId: string): Promise<boolean> {
+    try {
+      const success = await this.operationHistory.undoOperation(operationId, this);
+      if (success) {
+        await this.invalidateCache();
+      }
+      return success;
     } catch (error) {
-      console.error('Error in markAsReadWithHistory:', error);
-      return {
-        success: false,
-        processedCount: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error'],
-        operationId: null,
-        canUndo: false,
-        affectedEmails: [],
-      };
+      console.error('Error undoing operation:', error);
+      return false;
     }
   }
 
   /**
-   * Mark emails as unread with operation history tracking
+   * Undo every recorded operation after `target`, newest first
    */
-  async markAsUnreadWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
-    try {
-      const emailDetails = await this.getEmailDetailsByIds(emailIds);
-      const result = await this.markAsUnread(emailIds);
-      
-      if (result.success && result.processedCount > 0) {
-        const operationId = await this.operationHistory.recordOperation({
-          operation_type: 'mark_unread',
-          affected_emails: emailDetails.map(email => ({
-            id: email.id,
-            subject: email.subject,
-            from: email.from,
-            originalLabels: email.labels,
-            snippet: email.snippet,
-          })),
-          operation_details: {
-            addedLabels: ['UNREAD'],
-          },
-        });
+  async restoreToPointInTime(target: Date): Promise<PointInTimeRestoreResult> {
+    const result = await this.operationHistory.restoreToPointInTime(target, this);
+    if (result.undoneOperations.length > 0) {
+      await this.invalidateCache();
+    }
+    return result;
+  }
 
-        return {
-          ...result,
-          operationId,
-          canUndo: true,
-          affectedEmails: emailDetails,
-        };
-      }
+  /**
+   * Categorize an email from its sender, subject, snippet and Gmail labels
+   */
+  smartCategorizeEmail(email: EmailData): SmartCategoryResult {
+    const normalized = {
+      from: email.from.toLowerCase(),
+      subject: email.subject.toLowerCase(),
+      snippet: email.snippet.toLowerCase(),
+      labels: email.labels || [],
+    };
+
+    const scores = new Map<SmartCategory, number>();
+    const reasons = new Map<SmartCategory, string[]>();
+
+    for (const signal of CATEGORY_SIGNALS) {
+      if (!signal.test(normalized)) continue;
+      scores.set(signal.category, (scores.get(signal.category) || 0) + signal.weight);
+      reasons.set(signal.category, [...(reasons.get(signal.category) || []), signal.reason]);
+    }
 
+    const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+
+    if (ranked.length === 0) {
       return {
-        ...result,
-        operationId: null,
-        canUndo: false,
-        affectedEmails: emailDetails,
-      };
-    } catch (error) {
-      console.error('Error in markAsUnreadWithHistory:', error);
-      return {
-        success: false,
-        processedCount: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error'],
-        operationId: null,
-        canUndo: false,
-        affectedEmails: [],
+        category: "personal",
+        confidence: 0.4,
+        reasons: ["No automated or bulk-mail signals found"],
       };
     }
+
+    const [category, topScore] = ranked[0];
+    const runnerUp = ranked[1]?.[1] || 0;
+
+    // Margin over the runner-up, tempered by how much evidence there is
+    const margin = topScore / (topScore + runnerUp);
+    const strength = Math.min(1, topScore / 4);
+    const confidence = Math.round(Math.min(0.99, 0.35 + 0.65 * margin * strength) * 100) / 100;
+
+    return {
+      category,
+      confidence,
+      reasons: reasons.get(category) || [],
+    };
   }
 
   /**
-   * Star emails with operation history tracking
+   * Quick triage signals for a single email
    */
-  async starEmailsWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
-    try {
-      const emailDetails = await this.getEmailDetailsByIds(emailIds);
-      const result = await this.starEmails(emailIds);
-      
-      if (result.success && result.processedCount > 0) {
-        const operationId = await this.operationHistory.recordOperation({
-          operation_type: 'star',
-          affected_emails: emailDetails.map(email => ({
-            id: email.id,
-            subject: email.subject,
-            from: email.from,
-            originalLabels: email.labels,
-            snippet: email.snippet,
-          })),
-          operation_details: {
-            addedLabels: ['STARRED'],
-          },
-        });
+  async analyzeEmail(email: EmailData): Promise<EmailInsight> {
+    const category = this.smartCategorizeEmail(email);
+    const text = `${email.subject} ${email.snippet}`.toLowerCase();
+
+    const actionRequired =
+      /\?|(please|action required|respond|reply|confirm|approve|rsvp|due|deadline|asap|urgent)/.test(text) &&
+      !["newsletter", "promotional", "social"].includes(category.category);
+
+    let priority: EmailInsight["priority"] = "medium";
+    if (
+      email.labels.includes("IMPORTANT") ||
+      email.labels.includes("STARRED") ||
+      /(urgent|asap|action required|security alert)/.test(text)
+    ) {
+      priority = "high";
+    } else if (["newsletter", "promotional", "social"].includes(category.category)) {
+      priority = "low";
+    }
 
-        return {
-          ...result,
-          operationId,
-          canUndo: true,
-          affectedEmails: emailDetails,
-        };
+    // Snippets are ~200 chars; scale by category to approximate the full body at ~200 wpm
+    const words = email.snippet.split(/\s+/).filter(Boolean).length;
+    const bodyMultiplier = category.category === "newsletter" ? 8 : category.category === "personal" || category.category === "work" ? 3 : 2;
+    const estimatedReadTime = Math.max(5, Math.round(((words * bodyMultiplier) / 200) * 60));
+
+    return {
+      priority,
+      actionRequired,
+      estimatedReadTime,
+      category,
+    };
+  }
+
+  /**
+   * Analyze a batch of emails, keyed by email id
+   */
+  async batchAnalyzeEmails(emails: EmailData[]): Promise<Map<string, EmailInsight>> {
+    const insights = new Map<string, EmailInsight>();
+    for (const email of emails) {
+      insights.set(email.id, await this.analyzeEmail(email));
+    }
+    return insights;
+  }
+
+  /**
+   * Evaluate a smart filter against a set of emails
+   */
+  async applySmartFilter(
+    filter: SmartFilter,
+    emails: EmailData[]
+  ): Promise<{ matchedEmails: EmailData[]; results: SmartFilterResult[] }> {
+    const conditions = filter.conditions || [];
+    if (conditions.length === 0 && (!filter.categories || filter.categories.length === 0)) {
+      throw new Error("Smart filter needs at least one condition or category");
+    }
+
+    // Compile regexes once so invalid or unsafe patterns fail before any email is evaluated
+    const patterns = conditions.map((condition, index) => {
+      if (condition.operator !== "matches") return null;
+      try {
+        return compileSafeRegex(String(condition.value), "i");
+      } catch (error) {
+        throw new Error(`Condition ${index + 1}: ${error instanceof Error ? error.message : "Invalid regular expression"}`);
       }
+    });
+
+    const matchedEmails: EmailData[] = [];
+    const results: SmartFilterResult[] = [];
+
+    for (const email of emails) {
+      const category = this.smartCategorizeEmail(email);
+
+      const matchedConditions = conditions
+        .map((condition, index) =>
+          this.evaluateSmartCondition(email, category, condition, patterns[index]) ? index : -1
+        )
+        .filter((index) => index !== -1);
+
+      const conditionsMatch =
+        conditions.length === 0 ||
+        (filter.match === "any"
+          ? matchedConditions.length > 0
+          : matchedConditions.length === conditions.length);
+
+      const categoryMatch =
+        !filter.categories ||
+        filter.categories.length === 0 ||
+        (filter.categories.includes(category.category) &&
+          category.confidence >= (filter.minConfidence ?? 0));
+
+      const matched = conditionsMatch && categoryMatch;
+      if (matched) matchedEmails.push(email);
+
+      results.push({
+        emailId: email.id,
+        matched,
+        category,
+        matchedConditions,
+      });
+    }
 
-      return {
-        ...result,
-        operationId: null,
-        canUndo: false,
-        affectedEmails: emailDetails,
-      };
-    } catch (error) {
-      console.error('Error in starEmailsWithHistory:', error);
-      return {
-        success: false,
-        processedCount: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error'],
-        operationId: null,
-        canUndo: false,
-        affectedEmails: [],
-      };
+    return { matchedEmails, results };
+  }
+
+  /**
+   * Fetch recent inbox threads with message metadata
+   */
+  async getEmailThreads(maxResults: number = 20, query: string = "in:inbox"): Promise<EmailThread[]> {
+    const response = await this.gmail.users.threads.list({
+      userId: "me",
+      maxResults,
+      q: query,
+    });
+
+    const threadRefs = response.data.threads || [];
+    const threads: EmailThread[] = [];
+
+    const batchSize = 10;
+    for (let i = 0; i < threadRefs.length; i += batchSize) {
+      const batch = threadRefs.slice(i, i + batchSize);
+      const batchResults = await Promise.all(
+        batch.map(async (ref) => {
+          try {
+            const detail = await this.gmail.users.threads.get({
+              userId: "me",
+              id: ref.id!,
+              format: "metadata",
+              metadataHeaders: ["Subject", "From", "Date"],
+            });
+
+            const messages = (detail.data.messages || []).map((message) => this.toEmailData(message));
+
+            if (messages.length === 0) return null;
+
+            const last = messages[messages.length - 1];
+            const labels = Array.from(new Set(messages.flatMap((message) => message.labels)));
+
+            return {
+              id: detail.data.id!,
+              subject: messages[0].subject,
+              snippet: last.snippet,
+              messageCount: messages.length,
+              participants: Array.from(new Set(messages.map((message) => message.from))),
+              isUnread: messages.some((message) => !message.isRead),
+              labels,
+              lastMessageAt: last.timestamp ? new Date(last.timestamp).toISOString() : null,
+              messages,
+            };
+          } catch (error) {
+            console.error(`Error fetching thread ${ref.id}:`, error);
+            return null;
+          }
+        })
+      );
+
+      threads.push(...batchResults.filter((thread): thread is EmailThread => thread !== null));
     }
+
+    return threads;
   }
 
   /**
-   * Unstar emails with operation history tracking
+   * Aggregate volume, sender and category statistics for the last `days` days
    */
-  async unstarEmailsWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
-    try {
-      const emailDetails = await this.getEmailDetailsByIds(emailIds);
-      const result = await this.unstarEmails(emailIds);
-      
-      if (result.success && result.processedCount > 0) {
-        const operationId = await this.operationHistory.recordOperation({
-          operation_type: 'unstar',
-          affected_emails: emailDetails.map(email => ({
-            id: email.id,
-            subject: email.subject,
-            from: email.from,
-            originalLabels: email.labels,
-            snippet: email.snippet,
-          })),
-          operation_details: {
-            removedLabels: ['STARRED'],
-          },
-        });
+  async getEmailAnalytics(days: number = 30): Promise<EmailAnalytics> {
+    const periodDays = Math.max(1, Math.min(days, 365));
 
-        return {
-          ...result,
-          operationId,
-          canUndo: true,
-          affectedEmails: emailDetails,
-        };
+    // Ask for one extra id to learn whether the period exceeds the sample
+    const messageIds = await this.listMessageIds(`newer_than:${periodDays}d -in:chats`, ANALYTICS_SAMPLE_LIMIT + 1);
+    const sampled = messageIds.length > ANALYTICS_SAMPLE_LIMIT;
+
+    const emails = await this.getEmailDetailsByIds(messageIds.slice(0, ANALYTICS_SAMPLE_LIMIT));
+
+    const senderCounts = new Map<string, number>();
+    const domainCounts = new Map<string, number>();
+    const dailyCounts = new Map<string, number>();
+    const hourlyDistribution = new Array(24).fill(0);
+    const categoryDistribution = Object.fromEntries(
+      ALL_CATEGORIES.map((category) => [category, 0])
+    ) as Record<SmartCategory, number>;
+    let unreadEmails = 0;
+
+    for (const email of emails) {
+      if (!email.isRead) unreadEmails++;
+
+      const sender = email.from.toLowerCase();
+      senderCounts.set(sender, (senderCounts.get(sender) || 0) + 1);
+
+      const domain = sender.includes("@") ? sender.split("@").pop()! : sender;
+      domainCounts.set(domain, (domainCounts.get(domain) || 0) + 1);
+
+      categoryDistribution[this.smartCategorizeEmail(email).category]++;
+
+      if (email.timestamp) {
+        const sentAt = new Date(email.timestamp);
+        const day = sentAt.toISOString().slice(0, 10);
+        dailyCounts.set(day, (dailyCounts.get(day) || 0) + 1);
+        hourlyDistribution[sentAt.getUTCHours()]++;
       }
+    }
 
-      return {
-        ...result,
-        operationId: null,
-        canUndo: false,
-        affectedEmails: emailDetails,
-      };
-    } catch (error) {
-      console.error('Error in unstarEmailsWithHistory:', error);
-      return {
-        success: false,
-        processedCount: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error'],
-        operationId: null,
-        canUndo: false,
-        affectedEmails: [],
-      };
+    const topEntries = (counts: Map<string, number>, limit: number) =>
+      Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit);
+
+    return {
+      periodDays,
+      totalEmails: emails.length,
+      unreadEmails,
+      readRate: emails.length > 0 ? (emails.length - unreadEmails) / emails.length : 0,
+      averagePerDay: emails.length / periodDays,
+      topSenders: topEntries(senderCounts, 10).map(([sender, count]) => ({ sender, count })),
+      topDomains: topEntries(domainCounts, 10).map(([domain, count]) => ({ domain, count })),
+      categoryDistribution,
+      dailyVolume: Array.from(dailyCounts.entries())
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([date, count]) => ({ date, count })),
+      hourlyDistribution,
+      sampled,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  private evaluateSmartCondition(
+    email: EmailData,
+    category: SmartCategoryResult,
+    condition: SmartFilterCondition,
+    pattern: RegExp | null
+  ): boolean {
+    let fieldValue: string | number | boolean;
+
+    switch (condition.field) {
+      case "from":
+        fieldValue = email.from;
+        break;
+      case "sender_domain":
+        fieldValue = email.from.split("@").pop() || "";
+        break;
+      case "subject":
+        fieldValue = email.subject;
+        break;
+      case "snippet":
+        fieldValue = email.snippet;
+        break;
+      case "category":
+        fieldValue = category.category;
+        break;
+      case "label":
+        return condition.operator === "not_contains"
+          ? !email.labels.includes(String(condition.value))
+          : email.labels.includes(String(condition.value));
+      case "is_read":
+        return email.isRead === Boolean(condition.value);
+      case "age_days":
+        if (!email.timestamp) return false;
+        fieldValue = Math.floor((Date.now() - email.timestamp) / (1000 * 60 * 60 * 24));
+        break;
+      default:
+        return false;
+    }
+
+    if (typeof fieldValue === "number") {
+      const target = Number(condition.value);
+      switch (condition.operator) {
+        case "greater_than":
+          return fieldValue > target;
+        case "less_than":
+          return fieldValue < target;
+        case "equals":
+          return fieldValue === target;
+        default:
+          return false;
+      }
+    }
+
+    const text = String(fieldValue).toLowerCase();
+    const value = String(condition.value).toLowerCase();
+
+    switch (condition.operator) {
+      case "contains":
+        return text.includes(value);
+      case "not_contains":
+        return !text.includes(value);
+      case "equals":
+        return text === value;
+      case "starts_with":
+        return text.startsWith(value);
+      case "ends_with":
+        return text.endsWith(value);
+      case "matches":
+        return pattern ? pattern.test(String(fieldValue).slice(0, MAX_REGEX_INPUT_LENGTH)) : false;
+      default:
+        return false;
     }
   }
 
   /**
-   * Archive emails with operation history tracking
+   * Shared path for the label-based *WithHistory operations: apply the safety
+   * policy, then either plan the change (dry run) or make it and record it
    */
-  async archiveEmailsWithHistory(emailIds: string[]): Promise<EnhancedBulkOperationResult> {
+  private async runLabelOperation(
+    operationType: GuardedOperation,
+    emailIds: string[],
+    changes: { addLabelIds?: string[]; removeLabelIds?: string[] },
+    perform: (emailIds: string[]) => Promise<BulkOperationResult>
+  ): Promise<EnhancedBulkOperationResult> {
     try {
-      // First, get email details for history
-      const emailDetails = await this.getEmailDetailsByIds(emailIds);
-      
-      // Perform the operation
-      const result = await this.archiveEmails(emailIds);
-      
-      if (result.success && result.processedCount > 0) {
-        // Record in operation history
+      const guard = await this.getSafetyGuard();
+      const { emailIds: allowedIds, report: safety } = guard.checkRequest(operationType, emailIds);
+      if (safety.blocked) return this.blockedResult(safety);
+
+      const emailDetails = guard.filterProtected(operationType, await this.getEmailDetailsByIds(allowedIds), safety);
+      // Destructive operations only touch messages whose labels and dates were checked
+      const targetIds = isDestructiveOperation(operationType) ? emailDetails.map(email => email.id) : allowedIds;
+
+      if (this.dryRunPlan) {
+        return {
+          success: true,
+          processedCount: this.dryRunPlan.addLabelChange(emailDetails, changes, this.dryRunSource),
+          errors: [],
+          operationId: null,
+          canUndo: false,
+          affectedEmails: emailDetails,
+          safety,
+        };
+      }
+
+      if (targetIds.length === 0) {
+        return { success: true, processedCount: 0, errors: [], operationId: null, canUndo: false, affectedEmails: [], safety };
+      }
+
+      // Nothing is deleted unless its raw copy was stored first
+      let backupId: string | undefined;
+      if (operationType === "delete" && this.options.userId && guard.getPolicy().backupBeforeDeletion) {
+        try {
+          const targets = new Set(targetIds);
+          const backup = await this.getMailBackup().createBackup(
+            this.options.userId,
+            this,
+            emailDetails.filter(email => targets.has(email.id)),
+            operationType
+          );
+          backupId = backup.id;
+        } catch (error) {
+          console.error("Error backing up emails before deletion:", error);
+          return {
+            success: false,
+            processedCount: 0,
+            errors: [`Backup before deletion failed, nothing was deleted: ${error instanceof Error ? error.message : "Unknown error"}`],
+            operationId: null,
+            canUndo: false,
+            affectedEmails: [],
+            safety,
+          };
+        }
+      }
+
+      const result = await perform(targetIds);
+      await this.invalidateCache(result);
+
+      // Record whatever was applied, even when some chunks failed, so it can be undone
+      const failedIds = new Set(result.failedIds || []);
+      if (result.processedCount > 0 && (result.success || result.failedIds)) {
         const operationId = await this.operationHistory.recordOperation({
-          operation_type: 'archive',
-          affected_emails: emailDetails.map(email => ({
-            id: email.id,
-            subject: email.subject,
-            from: email.from,
-            originalLabels: email.labels,
-            snippet: email.snippet,
-          })),
+          operation_type: operationType,
+          affected_emails: snapshotLabelChange(emailDetails.filter(email => !failedIds.has(email.id)), changes),
           operation_details: {
-            removedLabels: ['INBOX'],
+            ...(changes.addLabelIds && { addedLabels: changes.addLabelIds }),
+            ...(changes.removeLabelIds && { removedLabels: changes.removeLabelIds }),
+            ...(backupId && { backupId }),
           },
         });
+        if (backupId && operationId) {
+          await this.getMailBackup().attachOperation(this.options.userId!, backupId, operationId).catch(error =>
+            console.error("Error linking backup to operation:", error)
+          );
+        }
 
         return {
           ...result,
           operationId,
-          canUndo: true,
+          canUndo: operationId !== null, // Nothing to undo from if recording failed
           affectedEmails: emailDetails,
+          safety,
+          backupId,
         };
       }
 
+      // A backup of a delete that never happened is not worth keeping
+      if (backupId && result.processedCount === 0) {
+        await this.getMailBackup().deleteBackup(this.options.userId!, backupId).catch(error =>
+          console.error("Error removing unused backup:", error)
+        );
+        backupId = undefined;
+      }
+
       return {
         ...result,
         operationId: null,
         canUndo: false,
         affectedEmails: emailDetails,
+        safety,
+        backupId,
       };
     } catch (error) {
-      console.error('Error in archiveEmailsWithHistory:', error);
+      console.error(`Error in ${operationType} operation:`, error);
       return {
         success: false,
         processedCount: 0,
@@ -376,23 +867,36 @@ export class GmailEnhancedService extends GmailService {
   }
 
   /**
-   * List emails with query and options
+   * The user's safety policy, loaded once per service. Without a userId the
+   * default policy applies.
    */
-  async listEmails(options: { maxResults?: number; query?: string } = {}): Promise<EmailData[]> {
-    const { maxResults = 100, query = 'in:inbox' } = options;
-    return this.getEmailsByQuery(query, maxResults);
+  private getSafetyGuard(): Promise<SafetyGuard> {
+    this.safetyGuard ??= SafetyGuard.forUser(
+      this.options.userId || '',
+      { ...this.options.safety, dryRun: this.isDryRun() },
+      this.options.supabase
+    );
+    return this.safetyGuard;
+  }
+
+  private getMailBackup(): MailBackupService {
+    this.mailBackup ??= new MailBackupService({ supabase: this.options.supabase });
+    return this.mailBackup;
   }
 
   /**
-   * Undo a previous operation
+   * Result for an operation held back until the user confirms it
    */
-  async undoOperation(operationId: string): Promise<boolean> {
-    try {
-      return await this.operationHistory.undoOperation(operationId);
-    } catch (error) {
-      console.error('Error undoing operation:', error);
-      return false;
-    }
+  private blockedResult(safety: SafetyReport): EnhancedBulkOperationResult {
+    return {
+      success: false,
+      processedCount: 0,
+      errors: [safety.confirmation?.message || 'Confirmation required'],
+      operationId: null,
+      canUndo: false,
+      affectedEmails: [],
+      safety,
+    };
   }
 
   /**
@@ -400,93 +904,23 @@ export class GmailEnhancedService extends GmailService {
    */
   private async getEmailDetailsByIds(emailIds: string[]): Promise<EmailData[]> {
     try {
-      const emails: EmailData[] = [];
-      
-      // Process in batches to avoid rate limits
-      const batchSize = 20;
-      for (let i = 0; i < emailIds.length; i += batchSize) {
-        const batch = emailIds.slice(i, i + batchSize);
-        const batchPromises = batch.map(async (emailId) => {
-          try {
-            const messageDetail = await this.gmail.users.messages.get({
-              userId: "me",
-              id: emailId,
-              format: "metadata",
-              metadataHeaders: ["Subject", "From", "Date"],
-            });
-
-            const data = messageDetail.data;
-            const headers = data.payload?.headers || [];
-
-            const getHeader = (name: string) =>
-              headers.find(
-                (header) => header.name?.toLowerCase() === name.toLowerCase()
-              )?.value || "";
-
-            const subject = getHeader("Subject");
-            const from = getHeader("From");
-            const date = getHeader("Date");
-            const isRead = !data.labelIds?.includes("UNREAD");
-
-            return {
-              id: data.id!,
-              subject: subject || "No Subject",
-              from: this.extractEmailAddress(from),
-              date: this.formatDate(date),
-              snippet: data.snippet || "",
-              isRead,
-              labels: data.labelIds || [],
-            };
-          } catch (error) {
-            console.error(`Error fetching email ${emailId}:`, error);
-            return null;
-          }
-        });
-
-        const batchResults = await Promise.all(batchPromises);
-        emails.push(...batchResults.filter((email): email is EmailData => email !== null));
-      }
-
-      return emails;
+      return await this.getEmailsByIds(emailIds);
     } catch (error) {
       console.error('Error getting email details:', error);
       return [];
     }
   }
 
-  // Helper methods
-  private extractEmailAddress(fromHeader: string): string {
-    const emailMatch = fromHeader.match(/<([^>]+)>/);
-    if (emailMatch) {
-      return emailMatch[1];
-    }
-    const directEmailMatch = fromHeader.match(/([^\s]+@[^\s]+)/);
-    if (directEmailMatch) {
-      return directEmailMatch[1];
-    }
-    return fromHeader;
-  }
-
-  private formatDate(dateString: string): string {
-    if (!dateString) return "Unknown";
+  /**
+   * Drop cached lists and counts after a mutation so the next read hits Gmail
+   */
+  private async invalidateCache(result?: BulkOperationResult): Promise<void> {
+    if (!this.cache || (result && result.processedCount === 0)) return;
 
     try {
-      const date = new Date(dateString);
-      const now = new Date();
-      const diffTime = Math.abs(now.getTime() - date.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-      if (diffDays === 1) {
-        return "Today";
-      } else if (diffDays === 2) {
-        return "Yesterday";
-      } else if (diffDays <= 7) {
-        return `${diffDays - 1} days ago`;
-      } else {
-        return date.toLocaleDateString();
-      }
+      await this.cache.invalidateMailboxState();
     } catch (error) {
-      return dateString;
+      console.error('Error invalidating mailbox cache:', error);
     }
   }
-}
\ No newline at end of file
+}
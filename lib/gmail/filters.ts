@@ -0,0 +1,669 @@
+import { createHash } from "crypto";
+import type { gmail_v1 } from "googleapis";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import type { RuleAction, UserRule } from "@/lib/rules-engine";
+import {
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  isConditionGroup,
+  normalizeConditions,
+  parseListValue,
+} from "@/lib/rule-conditions";
+import { GmailService } from "./service";
+
+export type GmailFilterSyncErrorCode = "NOT_EXPRESSIBLE" | "NOT_FOUND" | "NOT_LINKED";
+
+export class GmailFilterSyncError extends Error {
+  constructor(public code: GmailFilterSyncErrorCode, message: string) {
+    super(message);
+    this.name = "GmailFilterSyncError";
+  }
+}
+
+export interface GmailFilterDefinition {
+  criteria: gmail_v1.Schema$FilterCriteria;
+  action: gmail_v1.Schema$FilterAction;
+}
+
+export interface FilterCompileResult {
+  filter: GmailFilterDefinition | null; // Null when anything in the rule cannot be expressed
+  unsupported: string[];
+}
+
+export interface FilterImportCandidate {
+  rule: Pick<UserRule, "name" | "actions"> & { conditions: RuleConditionGroup } | null;
+  unsupported: string[];
+}
+
+export type FilterSyncState =
+  | "not_linked"
+  | "in_sync"
+  | "rule_changed" // Edited here since the last sync
+  | "gmail_changed" // Replaced in Gmail since the last sync
+  | "both_changed"
+  | "gmail_deleted";
+
+export interface FilterSyncStatus {
+  ruleId: string;
+  filterId: string | null;
+  state: FilterSyncState;
+  syncedAt: string | null;
+  unsupported: string[]; // Why the rule cannot be pushed as it is now; empty when it can
+}
+
+export interface FilterImportResult {
+  imported: UserRule[];
+  skipped: { filterId: string; reasons: string[] }[];
+}
+
+interface GmailLabel {
+  id: string;
+  name: string;
+}
+
+// Links between rules and Gmail filters live on user_rules
+interface FilterLink {
+  gmail_filter_id: string | null;
+  gmail_filter_hash: string | null; // Gmail's copy of the filter at the last sync
+  gmail_rule_hash: string | null; // The rule's compiled filter at the last sync
+  gmail_synced_at: string | null;
+}
+
+type LinkedRule = UserRule & FilterLink;
+
+// Gmail search keys a rule field compiles to (and imports from)
+const SEARCH_KEYS: Partial<Record<RuleCondition["field"], string>> = {
+  from: "from",
+  to: "to",
+  cc: "cc",
+  subject: "subject",
+  sender_domain: "from",
+  list_id: "list",
+};
+
+const IMPORT_FIELDS: Record<string, RuleCondition["field"]> = {
+  from: "from",
+  to: "to",
+  cc: "cc",
+  subject: "subject",
+  list: "list_id",
+};
+
+/**
+ * Compile a rule to a Gmail filter. Gmail search matches whole words and
+ * ignores case, so "contains" and "equals" both become a search for the
+ * value; anything Gmail cannot express is listed in `unsupported`.
+ */
+export function compileRuleToFilter(
+  rule: Pick<UserRule, "conditions" | "actions">,
+  labels: GmailLabel[]
+): FilterCompileResult {
+  const unsupported: string[] = [];
+  const criteria: gmail_v1.Schema$FilterCriteria = {};
+  const terms: string[] = [];
+  const negatedTerms: string[] = [];
+
+  const root = normalizeConditions(rule.conditions);
+  if (root.combinator !== "all") {
+    unsupported.push('Gmail filters need every condition to match; use "all" for the top-level group');
+  }
+
+  for (const node of root.conditions) {
+    if (!isConditionGroup(node)) {
+      compileCondition(node, labels, criteria, terms, negatedTerms, unsupported);
+    } else if (node.combinator === "none" && node.conditions.every(child => !isConditionGroup(child))) {
+      for (const child of node.conditions as RuleCondition[]) {
+        const term = searchTerm(child, labels, unsupported);
+        if (term) negatedTerms.push(term);
+      }
+    } else {
+      unsupported.push(`Nested "${node.combinator}" groups cannot be expressed as a Gmail filter`);
+    }
+  }
+
+  if (terms.length > 0) criteria.query = terms.join(" ");
+  if (negatedTerms.length > 0) {
+    criteria.negatedQuery = negatedTerms.length === 1 ? negatedTerms[0] : `{${negatedTerms.join(" ")}}`;
+  }
+
+  const action = compileActions(rule.actions, labels, unsupported);
+
+  return {
+    filter: unsupported.length === 0 ? { criteria, action } : null,
+    unsupported,
+  };
+}
+
+function compileCondition(
+  condition: RuleCondition,
+  labels: GmailLabel[],
+  criteria: gmail_v1.Schema$FilterCriteria,
+  terms: string[],
+  negatedTerms: string[],
+  unsupported: string[]
+): void {
+  const { field, operator, value } = condition;
+
+  if (field === "has_attachment") {
+    if (value === true && !criteria.hasAttachment) criteria.hasAttachment = true;
+    else (value === true ? terms : negatedTerms).push("has:attachment");
+    return;
+  }
+
+  if (field === "size" && (operator === "greater_than" || operator === "less_than")) {
+    if (criteria.size === undefined) {
+      criteria.size = Number(value);
+      criteria.sizeComparison = operator === "greater_than" ? "larger" : "smaller";
+    } else {
+      terms.push(`${operator === "greater_than" ? "larger" : "smaller"}:${Number(value)}`);
+    }
+    return;
+  }
+
+  if (operator === "not_contains" || (field === "label" && operator === "not_has")) {
+    const term = searchTerm({ ...condition, operator: field === "label" ? "has" : "contains" }, labels, unsupported);
+    if (term) negatedTerms.push(term);
+    return;
+  }
+
+  // The first from/to/subject condition fills Gmail's dedicated criteria field
+  const dedicated = field === "from" || field === "to" || field === "subject" ? field : null;
+  if (dedicated && !criteria[dedicated] && (operator === "contains" || operator === "equals") && !condition.case_sensitive) {
+    criteria[dedicated] = String(value);
+    return;
+  }
+
+  const term = searchTerm(condition, labels, unsupported);
+  if (term) terms.push(term);
+}
+
+/**
+ * Gmail search term matching the condition, or null (recorded in unsupported)
+ */
+function searchTerm(condition: RuleCondition, labels: GmailLabel[], unsupported: string[]): string | null {
+  const { field, operator, value } = condition;
+  const reject = (reason: string) => {
+    unsupported.push(reason);
+    return null;
+  };
+
+  if (condition.case_sensitive) return reject("Gmail search ignores case, so case-sensitive conditions cannot be filters");
+  if (operator === "matches_regex") return reject("Gmail filters do not support regular expressions");
+
+  switch (field) {
+    case "label": {
+      const label = labels.find(candidate => candidate.id === value || candidate.name === value);
+      if (!label) return reject(`Label "${value}" does not exist in Gmail`);
+      return `label:${label.name.replace(/[\s/]+/g, "-").toLowerCase()}`;
+    }
+    case "category":
+      return operator === "equals" ? `category:${String(value).toLowerCase()}` : reject("Categories can only be matched exactly");
+    case "body":
+      return operator === "contains" || operator === "equals" ? quoteSearchValue(String(value)) : reject(`Body conditions cannot use "${operator}"`);
+    case "has_attachment":
+      return "has:attachment";
+    case "size":
+      return operator === "greater_than" ? `larger:${Number(value)}` : operator === "less_than" ? `smaller:${Number(value)}` : reject("Size can only be compared as larger or smaller");
+  }
+
+  const key = SEARCH_KEYS[field];
+  if (!key) return reject(`The ${field.replace("_", " ")} field cannot be used in Gmail filters`);
+
+  switch (operator) {
+    case "contains":
+    case "equals":
+      return `${key}:${quoteSearchValue(String(value))}`;
+    case "ends_with":
+      return field === "sender_domain" ? `${key}:${quoteSearchValue(String(value))}` : reject(`Gmail filters cannot match "${operator}"`);
+    case "in_list":
+      return `${key}:(${parseListValue(value).map(quoteSearchValue).join(" OR ")})`;
+    default:
+      return reject(`Gmail filters cannot match "${operator.replace(/_/g, " ")}" on ${field.replace("_", " ")}`);
+  }
+}
+
+function quoteSearchValue(value: string): string {
+  return /[\s"(){}]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+}
+
+function compileActions(actions: RuleAction[], labels: GmailLabel[], unsupported: string[]): gmail_v1.Schema$FilterAction {
+  const addLabelIds = new Set<string>();
+  const removeLabelIds = new Set<string>();
+
+  for (const action of actions) {
+    switch (action.type) {
+      case "archive":
+        removeLabelIds.add("INBOX");
+        break;
+      case "delete":
+        addLabelIds.add("TRASH");
+        break;
+      case "mark_read":
+        removeLabelIds.add("UNREAD");
+        break;
+      case "star":
+        addLabelIds.add("STARRED");
+        break;
+      case "label": {
+        const label = labels.find(candidate => candidate.id === action.value || candidate.name === action.value);
+        if (label) addLabelIds.add(label.id);
+        else unsupported.push(`Label "${action.value}" does not exist in Gmail`);
+        break;
+      }
+      case "forward":
+        unsupported.push("Forwarding stays with the rules engine, which checks verified destinations and rate limits");
+        break;
+      default:
+        unsupported.push(`Gmail filters cannot ${action.type.replace("_", " ")} new mail`);
+    }
+  }
+
+  const action: gmail_v1.Schema$FilterAction = {};
+  if (addLabelIds.size > 0) action.addLabelIds = Array.from(addLabelIds);
+  if (removeLabelIds.size > 0) action.removeLabelIds = Array.from(removeLabelIds);
+  return action;
+}
+
+/**
+ * Turn a Gmail filter into an editable rule, the inverse of compileRuleToFilter
+ */
+export function filterToRule(filter: gmail_v1.Schema$Filter, labels: GmailLabel[]): FilterImportCandidate {
+  const unsupported: string[] = [];
+  const conditions: RuleConditionNode[] = [];
+  const excluded: RuleCondition[] = [];
+  const criteria = filter.criteria || {};
+
+  for (const field of ["from", "to", "subject"] as const) {
+    if (criteria[field]) conditions.push({ field, operator: "contains", value: criteria[field]! });
+  }
+  if (criteria.hasAttachment) {
+    conditions.push({ field: "has_attachment", operator: "equals", value: true });
+  }
+  if (criteria.size) {
+    conditions.push({
+      field: "size",
+      operator: criteria.sizeComparison === "smaller" ? "less_than" : "greater_than",
+      value: criteria.size,
+    });
+  }
+  if (criteria.query) {
+    for (const term of parseSearchTerms(criteria.query, labels, unsupported)) {
+      if (term.negated) excluded.push(term.condition);
+      else conditions.push(term.condition);
+    }
+  }
+  if (criteria.negatedQuery) {
+    const negated = criteria.negatedQuery.replace(/^\{(.*)\}$/, "$1");
+    for (const term of parseSearchTerms(negated, labels, unsupported)) {
+      if (term.negated) conditions.push(term.condition);
+      else excluded.push(term.condition);
+    }
+  }
+  if (excluded.length > 0) {
+    conditions.push({ combinator: "none", conditions: excluded });
+  }
+  if (conditions.length === 0) {
+    unsupported.push("The filter has no conditions the rules engine can match");
+  }
+
+  const actions = importActions(filter.action || {}, labels, unsupported);
+  if (actions.length === 0) {
+    unsupported.push("The filter has no actions the rules engine can perform");
+  }
+
+  if (unsupported.length > 0) return { rule: null, unsupported };
+
+  return {
+    rule: {
+      name: `Gmail filter: ${describeCriteria(criteria)}`,
+      conditions: { combinator: "all", conditions },
+      actions,
+    },
+    unsupported,
+  };
+}
+
+function parseSearchTerms(
+  query: string,
+  labels: GmailLabel[],
+  unsupported: string[]
+): { condition: RuleCondition; negated: boolean }[] {
+  const terms: { condition: RuleCondition; negated: boolean }[] = [];
+  const pattern = /(-)?(?:(\w+):(\([^)]*\)|"[^"]*"|\S+)|"([^"]*)"|(\S+))/g;
+
+  for (const match of query.matchAll(pattern)) {
+    const [raw, minus, key, keyValue, phrase, word] = match;
+    const negated = Boolean(minus);
+    const value = (keyValue || "").replace(/^"(.*)"$/, "$1");
+
+    if (phrase !== undefined || word !== undefined) {
+      const text = phrase ?? word!;
+      if (/^(OR|AND|\{.*|.*\})$/.test(text)) {
+        unsupported.push(`"${raw}" cannot be converted to a rule condition`);
+        continue;
+      }
+      terms.push({ condition: { field: "body", operator: "contains", value: text }, negated });
+      continue;
+    }
+
+    const lowerKey = key.toLowerCase();
+    if (IMPORT_FIELDS[lowerKey]) {
+      const list = value.match(/^\((.*)\)$/)?.[1];
+      terms.push({
+        condition: list !== undefined
+          ? { field: IMPORT_FIELDS[lowerKey], operator: "in_list", value: list.split(/\s+OR\s+/).map(item => item.replace(/^"(.*)"$/, "$1")) }
+          : { field: IMPORT_FIELDS[lowerKey], operator: "contains", value },
+        negated,
+      });
+    } else if (lowerKey === "category") {
+      terms.push({ condition: { field: "category", operator: "equals", value: value.toLowerCase() }, negated });
+    } else if (lowerKey === "has" && value.toLowerCase() === "attachment") {
+      terms.push({ condition: { field: "has_attachment", operator: "equals", value: true }, negated });
+    } else if ((lowerKey === "larger" || lowerKey === "smaller") && /^\d+$/.test(value)) {
+      terms.push({
+        condition: { field: "size", operator: lowerKey === "larger" ? "greater_than" : "less_than", value: Number(value) },
+        negated,
+      });
+    } else if (lowerKey === "label") {
+      const label = labels.find(candidate =>
+        candidate.name.replace(/[\s/]+/g, "-").toLowerCase() === value.toLowerCase()
+      );
+      if (label) terms.push({ condition: { field: "label", operator: "has", value: label.id }, negated });
+      else unsupported.push(`Label "${value}" does not exist in Gmail`);
+    } else {
+      unsupported.push(`"${raw}" cannot be converted to a rule condition`);
+    }
+  }
+
+  return terms;
+}
+
+function importActions(action: gmail_v1.Schema$FilterAction, labels: GmailLabel[], unsupported: string[]): RuleAction[] {
+  const actions: RuleAction[] = [];
+
+  for (const labelId of action.removeLabelIds || []) {
+    if (labelId === "INBOX") actions.push({ type: "archive" });
+    else if (labelId === "UNREAD") actions.push({ type: "mark_read" });
+    else unsupported.push(`Removing ${labelId} has no matching rule action`);
+  }
+  for (const labelId of action.addLabelIds || []) {
+    if (labelId === "TRASH") actions.push({ type: "delete" });
+    else if (labelId === "STARRED") actions.push({ type: "star" });
+    else if (labels.some(label => label.id === labelId) && !/^(CATEGORY_|IMPORTANT|SPAM)/.test(labelId)) {
+      actions.push({ type: "label", value: labelId });
+    } else {
+      unsupported.push(`Adding ${labelId} has no matching rule action`);
+    }
+  }
+  if (action.forward) {
+    unsupported.push("Forwarding filters are not imported; add the address under Settings → Forwarding and create a rule");
+  }
+
+  return actions;
+}
+
+function describeCriteria(criteria: gmail_v1.Schema$FilterCriteria): string {
+  const parts = [
+    criteria.from && `from ${criteria.from}`,
+    criteria.to && `to ${criteria.to}`,
+    criteria.subject && `subject ${criteria.subject}`,
+    criteria.query,
+  ].filter(Boolean);
+  return parts.join(", ").slice(0, 200) || "imported";
+}
+
+/**
+ * Fingerprint of a filter's criteria and actions; Gmail omits empty fields and
+ * may reorder label ids, so both are normalized away
+ */
+function fingerprint(filter: Pick<gmail_v1.Schema$Filter, "criteria" | "action">): string {
+  const criteria = Object.entries(filter.criteria || {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== "" && value !== false)
+    .sort(([a], [b]) => a.localeCompare(b));
+  const action = {
+    addLabelIds: [...(filter.action?.addLabelIds || [])].sort(),
+    removeLabelIds: [...(filter.action?.removeLabelIds || [])].sort(),
+    forward: filter.action?.forward || null,
+  };
+  return createHash("sha256").update(JSON.stringify({ criteria, action })).digest("base64url");
+}
+
+/**
+ * Keeps rules and native Gmail filters in step. Pushed rules are applied by
+ * Gmail as mail arrives; the stored fingerprints tell which side changed.
+ */
+export class GmailFilterSyncService {
+  private supabase: Promise<SupabaseClient>;
+  private labels?: Promise<GmailLabel[]>;
+
+  constructor(private gmailService: GmailService, supabase?: SupabaseClient) {
+    this.supabase = supabase ? Promise.resolve(supabase) : createClient();
+  }
+
+  /**
+   * Create (or replace) the Gmail filter for a rule
+   */
+  async pushRule(userId: string, ruleId: string): Promise<FilterSyncStatus> {
+    const rule = await this.getRule(userId, ruleId);
+    const { filter, unsupported } = compileRuleToFilter(rule, await this.getLabels());
+    if (!filter) {
+      throw new GmailFilterSyncError("NOT_EXPRESSIBLE", `This rule cannot be a Gmail filter: ${unsupported.join("; ")}`);
+    }
+
+    await this.deleteFilterIfPresent(rule.gmail_filter_id);
+    const created = await this.gmailService.createFilter(filter);
+
+    return this.saveLink(rule, {
+      gmail_filter_id: created.id!,
+      gmail_filter_hash: fingerprint(created),
+      gmail_rule_hash: fingerprint(filter),
+      gmail_synced_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Stop syncing a rule, optionally deleting its Gmail filter
+   */
+  async unlinkRule(userId: string, ruleId: string, deleteFilter: boolean): Promise<FilterSyncStatus> {
+    const rule = await this.getRule(userId, ruleId);
+    if (!rule.gmail_filter_id) {
+      throw new GmailFilterSyncError("NOT_LINKED", "This rule is not linked to a Gmail filter");
+    }
+
+    if (deleteFilter) await this.deleteFilterIfPresent(rule.gmail_filter_id);
+
+    return this.saveLink(rule, {
+      gmail_filter_id: null,
+      gmail_filter_hash: null,
+      gmail_rule_hash: null,
+      gmail_synced_at: null,
+    });
+  }
+
+  /**
+   * Settle drift by keeping one side: "rule" pushes the rule again, "gmail"
+   * rewrites the rule from the current Gmail filter
+   */
+  async resolveDrift(userId: string, ruleId: string, keep: "rule" | "gmail"): Promise<FilterSyncStatus> {
+    if (keep === "rule") return this.pushRule(userId, ruleId);
+
+    const rule = await this.getRule(userId, ruleId);
+    if (!rule.gmail_filter_id) {
+      throw new GmailFilterSyncError("NOT_LINKED", "This rule is not linked to a Gmail filter");
+    }
+
+    const labels = await this.getLabels();
+    const current = (await this.gmailService.listFilters()).find(filter => filter.id === rule.gmail_filter_id);
+    if (!current) {
+      throw new GmailFilterSyncError("NOT_FOUND", "The Gmail filter was deleted; push the rule again or unlink it");
+    }
+
+    const { rule: imported, unsupported } = filterToRule(current, labels);
+    if (!imported) {
+      throw new GmailFilterSyncError("NOT_EXPRESSIBLE", `The Gmail filter cannot be converted: ${unsupported.join("; ")}`);
+    }
+
+    const updated: LinkedRule = { ...rule, conditions: imported.conditions, actions: imported.actions };
+    const compiled = compileRuleToFilter(updated, labels).filter;
+
+    return this.saveLink(updated, {
+      gmail_filter_id: current.id!,
+      gmail_filter_hash: fingerprint(current),
+      gmail_rule_hash: compiled ? fingerprint(compiled) : null,
+      gmail_synced_at: new Date().toISOString(),
+    }, { conditions: imported.conditions, actions: imported.actions });
+  }
+
+  /**
+   * Create rules for Gmail filters that are not linked to one yet
+   */
+  async importFilters(userId: string): Promise<FilterImportResult> {
+    const supabase = await this.supabase;
+    const labels = await this.getLabels();
+    const rules = await this.getRules(userId);
+    const linked = new Set(rules.map(rule => rule.gmail_filter_id).filter(Boolean));
+
+    const result: FilterImportResult = { imported: [], skipped: [] };
+
+    for (const filter of await this.gmailService.listFilters()) {
+      if (!filter.id || linked.has(filter.id)) continue;
+
+      const { rule, unsupported } = filterToRule(filter, labels);
+      if (!rule) {
+        result.skipped.push({ filterId: filter.id, reasons: unsupported });
+        continue;
+      }
+
+      const compiled = compileRuleToFilter(rule, labels).filter;
+      const { data, error } = await supabase
+        .from("user_rules")
+        .insert({
+          user_id: userId,
+          name: rule.name,
+          conditions: rule.conditions,
+          actions: rule.actions,
+          is_active: true,
+          gmail_filter_id: filter.id,
+          gmail_filter_hash: fingerprint(filter),
+          gmail_rule_hash: compiled ? fingerprint(compiled) : null,
+          gmail_synced_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        result.skipped.push({ filterId: filter.id, reasons: [`Failed to save rule: ${error.message}`] });
+      } else {
+        result.imported.push(data);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether each rule can be pushed, and for linked rules which side changed
+   */
+  async getSyncStatus(userId: string): Promise<FilterSyncStatus[]> {
+    const rules = await this.getRules(userId);
+    const labels = await this.getLabels();
+    const filters = rules.some(rule => rule.gmail_filter_id) ? await this.gmailService.listFilters() : [];
+
+    return rules.map(rule => {
+      const compiled = compileRuleToFilter(rule, labels);
+      if (!rule.gmail_filter_id) {
+        return this.toStatus(rule, "not_linked", compiled.unsupported);
+      }
+
+      const current = filters.find(filter => filter.id === rule.gmail_filter_id);
+      if (!current) {
+        return this.toStatus(rule, "gmail_deleted", compiled.unsupported);
+      }
+
+      const ruleChanged = !compiled.filter || fingerprint(compiled.filter) !== rule.gmail_rule_hash;
+      const gmailChanged = fingerprint(current) !== rule.gmail_filter_hash;
+      const state: FilterSyncState = ruleChanged && gmailChanged
+        ? "both_changed"
+        : ruleChanged ? "rule_changed" : gmailChanged ? "gmail_changed" : "in_sync";
+
+      return this.toStatus(rule, state, compiled.unsupported);
+    });
+  }
+
+  private toStatus(rule: LinkedRule, state: FilterSyncState, unsupported: string[]): FilterSyncStatus {
+    return {
+      ruleId: rule.id,
+      filterId: rule.gmail_filter_id,
+      state,
+      syncedAt: rule.gmail_synced_at,
+      unsupported,
+    };
+  }
+
+  private async saveLink(
+    rule: LinkedRule,
+    link: FilterLink,
+    changes: Partial<Pick<UserRule, "conditions" | "actions">> = {}
+  ): Promise<FilterSyncStatus> {
+    const supabase = await this.supabase;
+    const { error } = await supabase
+      .from("user_rules")
+      .update({ ...link, ...changes, updated_at: new Date().toISOString() })
+      .eq("id", rule.id)
+      .eq("user_id", rule.user_id);
+
+    if (error) {
+      throw new Error(`Failed to save Gmail filter link: ${error.message}`);
+    }
+
+    const unsupported = compileRuleToFilter({ ...rule, ...changes }, await this.getLabels()).unsupported;
+    return this.toStatus({ ...rule, ...link }, link.gmail_filter_id ? "in_sync" : "not_linked", unsupported);
+  }
+
+  private async deleteFilterIfPresent(filterId: string | null): Promise<void> {
+    if (!filterId) return;
+    try {
+      await this.gmailService.deleteFilter(filterId);
+    } catch (error: any) {
+      // Already deleted in Gmail
+      if (error?.code !== 404 && error?.response?.status !== 404) throw error;
+    }
+  }
+
+  private async getRule(userId: string, ruleId: string): Promise<LinkedRule> {
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
+      .from("user_rules")
+      .select("*")
+      .eq("id", ruleId)
+      .eq("user_id", userId)
+      .single();
+
+    if (error || !data) {
+      throw new GmailFilterSyncError("NOT_FOUND", "Rule not found");
+    }
+    return data;
+  }
+
+  private async getRules(userId: string): Promise<LinkedRule[]> {
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
+      .from("user_rules")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch rules: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  private getLabels(): Promise<GmailLabel[]> {
+    this.labels ??= this.gmailService.getLabels().then(labels =>
+      labels.map(label => ({ id: label.id, name: label.name }))
+    );
+    return this.labels;
+  }
+}
@@ -0,0 +1,190 @@
+import { randomBytes } from "crypto";
+import type { MessageContent } from "./service";
+
+// Gmail rejects messages over 35 MB; leave room for base64 overhead
+export const MAX_FORWARD_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+  contentId?: string; // Inline images referenced from the HTML body as cid:
+}
+
+export interface MimeMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MimeAttachment[];
+  headers?: Record<string, string>;
+}
+
+/**
+ * Build an RFC 822 message: multipart/mixed with a text/html alternative and
+ * attachments, or a single text part when there is nothing else to send.
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+  const headers: Record<string, string> = {
+    From: sanitizeHeader(message.from),
+    To: sanitizeHeader(message.to),
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    "MIME-Version": "1.0",
+    ...Object.fromEntries(
+      Object.entries(message.headers || {}).map(([name, value]) => [name, sanitizeHeader(value)])
+    ),
+  };
+
+  const attachments = message.attachments || [];
+  const body = message.html
+    ? alternativePart(message.text, message.html)
+    : textPart("text/plain", message.text);
+
+  let root: MimePart = body;
+  if (attachments.length > 0) {
+    root = multipart("mixed", [body, ...attachments.map(attachmentPart)]);
+  }
+
+  const headerLines = Object.entries({ ...headers, ...root.headers }).map(([name, value]) => `${name}: ${value}`);
+  return `${headerLines.join("\r\n")}\r\n\r\n${root.body}`;
+}
+
+/**
+ * Compose a Gmail-style inline forward of an existing message, carrying over
+ * its attachments and inline images
+ */
+export function buildForwardMessage(original: MessageContent, options: { from: string; to: string }): string {
+  const attachmentBytes = original.attachments.reduce((total, attachment) => total + attachment.data.length, 0);
+  if (attachmentBytes > MAX_FORWARD_ATTACHMENT_BYTES) {
+    throw new Error(`Attachments are too large to forward (${Math.round(attachmentBytes / 1024 / 1024)} MB)`);
+  }
+
+  const subject = original.headers["subject"] || "(no subject)";
+  const summary: [string, string | undefined][] = [
+    ["From", original.headers["from"]],
+    ["Date", original.headers["date"]],
+    ["Subject", subject],
+    ["To", original.headers["to"]],
+    ["Cc", original.headers["cc"]],
+  ];
+  const lines = summary.filter(([, value]) => value);
+
+  const text = [
+    "---------- Forwarded message ---------",
+    ...lines.map(([name, value]) => `${name}: ${value}`),
+    "",
+    original.text || stripHtml(original.html || ""),
+  ].join("\r\n");
+
+  const html = original.html
+    ? `<div>---------- Forwarded message ---------<br>${lines
+        .map(([name, value]) => `${name}: ${escapeHtml(value!)}<br>`)
+        .join("")}</div><br>${original.html}`
+    : undefined;
+
+  return buildMimeMessage({
+    from: options.from,
+    to: options.to,
+    subject: /^fwd?:/i.test(subject) ? subject : `Fwd: ${subject}`,
+    text,
+    html,
+    attachments: original.attachments,
+  });
+}
+
+/**
+ * Gmail's messages.send expects the message base64url-encoded
+ */
+export function toBase64Url(message: string): string {
+  return Buffer.from(message, "utf8").toString("base64url");
+}
+
+/**
+ * RFC 2047 encoded-word for header values that are not plain ASCII
+ */
+export function encodeHeader(value: string): string {
+  const clean = sanitizeHeader(value);
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+  return `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .trim();
+}
+
+// CR/LF in header values would let message content inject extra headers
+function sanitizeHeader(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+function boundary(): string {
+  return `=_ig_${randomBytes(12).toString("hex")}`;
+}
+
+function multipart(subtype: "mixed" | "alternative", parts: MimePart[]): MimePart {
+  const marker = boundary();
+  const body = parts
+    .map((part) => {
+      const headers = Object.entries(part.headers).map(([name, value]) => `${name}: ${value}`).join("\r\n");
+      return `--${marker}\r\n${headers}\r\n\r\n${part.body}`;
+    })
+    .join("\r\n");
+
+  return {
+    headers: { "Content-Type": `multipart/${subtype}; boundary="${marker}"` },
+    body: `${body}\r\n--${marker}--`,
+  };
+}
+
+function alternativePart(text: string, html: string): MimePart {
+  return multipart("alternative", [textPart("text/plain", text), textPart("text/html", html)]);
+}
+
+function textPart(mimeType: string, content: string): MimePart {
+  return {
+    headers: {
+      "Content-Type": `${mimeType}; charset="UTF-8"`,
+      "Content-Transfer-Encoding": "base64",
+    },
+    body: wrapBase64(Buffer.from(content, "utf8").toString("base64")),
+  };
+}
+
+function attachmentPart(attachment: MimeAttachment): MimePart {
+  const filename = encodeHeader(attachment.filename || "attachment").replace(/"/g, "'");
+  const headers: Record<string, string> = {
+    "Content-Type": `${sanitizeHeader(attachment.mimeType || "application/octet-stream")}; name="${filename}"`,
+    "Content-Disposition": `${attachment.contentId ? "inline" : "attachment"}; filename="${filename}"`,
+    "Content-Transfer-Encoding": "base64",
+  };
+  if (attachment.contentId) {
+    headers["Content-ID"] = `<${sanitizeHeader(attachment.contentId).replace(/^<|>$/g, "")}>`;
+  }
+
+  return { headers, body: wrapBase64(attachment.data.toString("base64")) };
+}
+
+// RFC 2045 limits encoded lines to 76 characters
+function wrapBase64(encoded: string): string {
+  return encoded.replace(/.{1,76}/g, "$&\r\n").trimEnd();
+}
@@ -0,0 +1,52 @@
+import type { EmailChangeEvent } from "./realtime-service";
+
+/**
+ * Messages delivered to a user's open event streams. "resync" means the
+ * server could not compute a diff and clients should run their own sync.
+ */
+export type PushStreamMessage =
+  | { type: "change"; event: EmailChangeEvent }
+  | { type: "resync"; reason: string };
+
+export type PushStreamListener = (message: PushStreamMessage) => void;
+
+// Open SSE connections per user. Lives in the server process, so push
+// notifications only reach clients connected to the instance that received them.
+const subscribers = new Map<string, Set<PushStreamListener>>();
+
+export function subscribeToMailboxChanges(userId: string, listener: PushStreamListener): () => void {
+  let listeners = subscribers.get(userId);
+  if (!listeners) {
+    listeners = new Set();
+    subscribers.set(userId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners!.delete(listener);
+    if (listeners!.size === 0) {
+      subscribers.delete(userId);
+    }
+  };
+}
+
+export function publishMailboxChanges(userId: string, messages: PushStreamMessage[]): number {
+  const listeners = subscribers.get(userId);
+  if (!listeners || messages.length === 0) return 0;
+
+  for (const listener of listeners) {
+    for (const message of messages) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error("Error in mailbox change subscriber:", error);
+      }
+    }
+  }
+
+  return listeners.size;
+}
+
+export function getSubscriberCount(userId: string): number {
+  return subscribers.get(userId)?.size || 0;
+}
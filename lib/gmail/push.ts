@@ -0,0 +1,342 @@
+import { google } from "googleapis";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { TokenBroker, ReauthRequiredError } from "@/lib/token-broker";
+import { GmailService, HistoryExpiredError } from "./service";
+import { GmailCacheService } from "./cache-service";
+import { SupabaseSyncStateStore } from "./sync-state";
+import { buildChangeEvents } from "./realtime-service";
+import { publishMailboxChanges } from "./push-events";
+
+// Gmail watches expire after 7 days; renew once less than this remains
+export const WATCH_RENEWAL_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+export const WATCH_RENEWAL_SCHEDULE = "0 4 * * *";
+
+const GOOGLE_ISSUERS = ["https://accounts.google.com", "accounts.google.com"];
+
+export type GmailPushErrorCode = "NOT_CONFIGURED" | "INVALID_TOKEN" | "INVALID_MESSAGE";
+
+export class GmailPushError extends Error {
+  constructor(public code: GmailPushErrorCode, message: string) {
+    super(message);
+    this.name = "GmailPushError";
+  }
+}
+
+export interface GmailWatch {
+  user_id: string;
+  email_address: string;
+  topic_name: string;
+  label_ids: string[] | null;
+  expiration: string;
+  status: "active" | "stopped";
+  last_notification_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Payload Gmail publishes to the topic, base64-encoded in message.data
+ */
+export interface GmailPushNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+export interface PushHandleResult {
+  status: "processed" | "ignored" | "duplicate" | "resync";
+  userId?: string;
+  eventCount?: number;
+  deliveredTo?: number;
+}
+
+export interface WatchRenewalResult {
+  renewed: boolean;
+  expiration?: string;
+  reason?: string;
+}
+
+// Pub/Sub may deliver notifications for one mailbox concurrently; process them in order
+const userQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Verify the OIDC token Pub/Sub attaches to authenticated push requests
+ */
+export async function verifyPubSubToken(authorization: string | null): Promise<void> {
+  const audience = process.env.GMAIL_PUSH_AUDIENCE;
+  if (!audience) {
+    throw new GmailPushError("NOT_CONFIGURED", "GMAIL_PUSH_AUDIENCE is not set");
+  }
+
+  const idToken = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!idToken) {
+    throw new GmailPushError("INVALID_TOKEN", "Missing bearer token");
+  }
+
+  let payload;
+  try {
+    const ticket = await new google.auth.OAuth2().verifyIdToken({ idToken, audience });
+    payload = ticket.getPayload();
+  } catch (error) {
+    throw new GmailPushError(
+      "INVALID_TOKEN",
+      `Push token rejected: ${error instanceof Error ? error.message : "verification failed"}`
+    );
+  }
+
+  if (!payload || !GOOGLE_ISSUERS.includes(payload.iss)) {
+    throw new GmailPushError("INVALID_TOKEN", "Push token has an unexpected issuer");
+  }
+
+  const serviceAccount = process.env.GMAIL_PUSH_SERVICE_ACCOUNT;
+  if (serviceAccount && (payload.email !== serviceAccount || !payload.email_verified)) {
+    throw new GmailPushError("INVALID_TOKEN", "Push token was not issued for the configured service account");
+  }
+}
+
+/**
+ * Decode a Pub/Sub push envelope into the Gmail notification it carries
+ */
+export function parsePushMessage(body: any): GmailPushNotification {
+  const data = body?.message?.data;
+  if (typeof data !== "string") {
+    throw new GmailPushError("INVALID_MESSAGE", "Push message has no data");
+  }
+
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(data, "base64").toString("utf8"));
+  } catch {
+    throw new GmailPushError("INVALID_MESSAGE", "Push message data is not valid JSON");
+  }
+
+  if (typeof decoded?.emailAddress !== "string" || !decoded.historyId) {
+    throw new GmailPushError("INVALID_MESSAGE", "Push message is missing emailAddress or historyId");
+  }
+
+  return {
+    emailAddress: decoded.emailAddress.toLowerCase(),
+    historyId: String(decoded.historyId),
+  };
+}
+
+/**
+ * Server-side Gmail watch registrations and the handler that turns push
+ * notifications into EmailChangeEvents for connected clients.
+ */
+export class GmailWatchService {
+  constructor(private supabase: SupabaseClient = createAdminClient()) {}
+
+  async getWatch(userId: string): Promise<GmailWatch | null> {
+    const { data, error } = await this.supabase
+      .from("gmail_watches")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load Gmail watch: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Register (or refresh) the users.watch for this mailbox
+   */
+  async startWatch(userId: string, gmailService: GmailService, labelIds?: string[]): Promise<GmailWatch> {
+    const topicName = process.env.GMAIL_PUBSUB_TOPIC;
+    if (!topicName) {
+      throw new GmailPushError("NOT_CONFIGURED", "Push notifications are not configured (GMAIL_PUBSUB_TOPIC is not set)");
+    }
+
+    const [emailAddress, watch] = await Promise.all([
+      gmailService.getProfileEmail(),
+      gmailService.watchMailbox(topicName, labelIds),
+    ]);
+
+    // Keep an existing cursor so changes made while unwatched are still delivered
+    const syncState = new SupabaseSyncStateStore(this.supabase, userId);
+    if (!(await syncState.getHistoryId())) {
+      await syncState.setHistoryId(watch.historyId);
+    }
+
+    const { data, error } = await this.supabase
+      .from("gmail_watches")
+      .upsert({
+        user_id: userId,
+        email_address: emailAddress.toLowerCase(),
+        topic_name: topicName,
+        label_ids: labelIds || null,
+        expiration: watch.expiration.toISOString(),
+        status: "active",
+        last_error: null,
+      }, { onConflict: "user_id" })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save Gmail watch: ${error?.message}`);
+    }
+
+    return data;
+  }
+
+  async stopWatch(userId: string, gmailService: GmailService): Promise<void> {
+    try {
+      await gmailService.stopWatchingMailbox();
+    } catch (error) {
+      // The watch is dropped locally either way; Gmail lets it lapse on expiry
+      console.error("Error stopping Gmail watch:", error);
+    }
+
+    await this.setStatus(userId, "stopped");
+  }
+
+  /**
+   * Re-register the watch if it is close to expiring (or always, with force)
+   */
+  async renewWatch(
+    userId: string,
+    gmailService: GmailService,
+    options: { force?: boolean } = {}
+  ): Promise<WatchRenewalResult> {
+    const current = await this.getWatch(userId);
+    if (!current || current.status !== "active") {
+      return { renewed: false, reason: "Push notifications are not enabled" };
+    }
+
+    const remaining = new Date(current.expiration).getTime() - Date.now();
+    if (!options.force && remaining > WATCH_RENEWAL_WINDOW_MS) {
+      return { renewed: false, expiration: current.expiration, reason: "Watch is not due for renewal" };
+    }
+
+    const renewed = await this.startWatch(userId, gmailService, current.label_ids || undefined);
+    return { renewed: true, expiration: renewed.expiration };
+  }
+
+  /**
+   * Fetch the history behind a push notification and fan the resulting
+   * events out to the user's open streams
+   */
+  async handleNotification(
+    notification: GmailPushNotification,
+    tokenBroker: TokenBroker = new TokenBroker(this.supabase)
+  ): Promise<PushHandleResult> {
+    const { data: watch, error } = await this.supabase
+      .from("gmail_watches")
+      .select("user_id")
+      .eq("email_address", notification.emailAddress)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up Gmail watch: ${error.message}`);
+    }
+    if (!watch) {
+      return { status: "ignored" };
+    }
+
+    const userId: string = watch.user_id;
+    const previous = userQueues.get(userId) || Promise.resolve();
+    const run = previous
+      .catch(() => undefined)
+      .then(() => this.processNotification(userId, notification, tokenBroker));
+
+    userQueues.set(userId, run);
+    try {
+      return await run;
+    } finally {
+      if (userQueues.get(userId) === run) {
+        userQueues.delete(userId);
+      }
+    }
+  }
+
+  private async processNotification(
+    userId: string,
+    notification: GmailPushNotification,
+    tokenBroker: TokenBroker
+  ): Promise<PushHandleResult> {
+    const syncState = new SupabaseSyncStateStore(this.supabase, userId);
+    const startHistoryId = await syncState.getHistoryId();
+
+    // Redelivered or out-of-order notifications are already covered
+    if (startHistoryId && BigInt(notification.historyId) <= BigInt(startHistoryId)) {
+      return { status: "duplicate", userId };
+    }
+
+    let accessToken: string;
+    try {
+      accessToken = await tokenBroker.getAccessToken(userId);
+    } catch (error) {
+      if (error instanceof ReauthRequiredError) {
+        await this.setStatus(userId, "stopped", error.message);
+        return { status: "ignored", userId };
+      }
+      throw error;
+    }
+
+    const gmailService = new GmailService(accessToken);
+    const cache = new GmailCacheService(userId);
+    await this.touch(userId);
+
+    if (!startHistoryId) {
+      await syncState.setHistoryId(notification.historyId);
+      await cache.invalidateMailboxState();
+      const deliveredTo = publishMailboxChanges(userId, [{ type: "resync", reason: "No sync cursor" }]);
+      return { status: "resync", userId, deliveredTo };
+    }
+
+    let history;
+    try {
+      history = await gmailService.getHistorySince(startHistoryId);
+    } catch (error) {
+      if (error instanceof HistoryExpiredError) {
+        await syncState.setHistoryId(await gmailService.getCurrentHistoryId());
+        await cache.invalidateMailboxState();
+        const deliveredTo = publishMailboxChanges(userId, [{ type: "resync", reason: "History expired" }]);
+        return { status: "resync", userId, deliveredTo };
+      }
+      throw error;
+    }
+
+    const events = await buildChangeEvents(gmailService, history.changes);
+    if (history.changes.length > 0) {
+      await cache.invalidateMailboxState();
+    }
+    await syncState.setHistoryId(history.historyId);
+
+    // The cursor stops at the last change read; the next notification carries
+    // on from there, and clients reload now rather than miss the rest
+    const deliveredTo = publishMailboxChanges(userId, [
+      ...events.map((event) => ({ type: "change" as const, event })),
+      ...(history.truncated ? [{ type: "resync" as const, reason: "Too many changes" }] : []),
+    ]);
+
+    return { status: "processed", userId, eventCount: events.length, deliveredTo };
+  }
+
+  private async touch(userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("gmail_watches")
+      .update({ last_notification_at: new Date().toISOString() })
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error recording Gmail push notification:", error);
+    }
+  }
+
+  private async setStatus(userId: string, status: GmailWatch["status"], lastError: string | null = null): Promise<void> {
+    const { error } = await this.supabase
+      .from("gmail_watches")
+      .update({ status, last_error: lastError })
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error updating Gmail watch status:", error);
+    }
+  }
+}
@@ -1,6 +1,7 @@
-import { EmailData } from "./service";
+import { EmailData, GmailService, HistoryChange, HistoryExpiredError } from "./service";
 import { GmailCacheService } from "./cache-service";
 import { gmailErrorHandler } from "./error-handler";
+import { MemorySyncStateStore, SyncStateStore } from "./sync-state";
 
 export interface EmailChangeEvent {
   type:
@@ -46,6 +47,74 @@ export interface NotificationRule {
   enabled: boolean;
 }
 
+/**
+ * Collapse raw history records into one event per message and change kind.
+ * Shared by client polling and the server-side push handler.
+ */
+export async function buildChangeEvents(
+  gmailService: GmailService,
+  changes: HistoryChange[]
+): Promise<EmailChangeEvent[]> {
+  const now = Date.now();
+  const events: EmailChangeEvent[] = [];
+  const deleted = new Set(
+    changes.filter((change) => change.type === "deleted").map((change) => change.messageId)
+  );
+
+  const addedIds = Array.from(
+    new Set(
+      changes
+        .filter((change) => change.type === "added" && change.labelIds.includes("INBOX") && !deleted.has(change.messageId))
+        .map((change) => change.messageId)
+    )
+  );
+
+  const addedEmails = addedIds.length > 0
+    ? await gmailErrorHandler.executeWithRetry(
+        () => gmailService.getEmailsByIds(addedIds),
+        "sync_new_emails"
+      )
+    : [];
+
+  for (const email of addedEmails) {
+    events.push({ type: "new_email", emailId: email.id, email, timestamp: now });
+  }
+
+  for (const messageId of deleted) {
+    events.push({ type: "email_deleted", emailId: messageId, timestamp: now });
+  }
+
+  const seen = new Set<string>();
+  for (const change of changes) {
+    if (deleted.has(change.messageId)) continue;
+    if (change.type !== "labels_added" && change.type !== "labels_removed") continue;
+
+    let type: EmailChangeEvent["type"] = "labels_changed";
+    if (change.type === "labels_removed" && change.labelIds.includes("UNREAD")) {
+      type = "email_read";
+    } else if (change.type === "labels_removed" && change.labelIds.includes("INBOX")) {
+      type = "email_archived";
+    } else if (change.type === "labels_added" && change.labelIds.includes("TRASH")) {
+      type = "email_deleted";
+    }
+
+    const key = `${type}:${change.messageId}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    events.push({
+      type,
+      emailId: change.messageId,
+      timestamp: now,
+      metadata: {
+        [change.type === "labels_added" ? "addedLabels" : "removedLabels"]: change.labelIds,
+      },
+    });
+  }
+
+  return events;
+}
+
 export type EmailChangeListener = (event: EmailChangeEvent) => void;
 export type SyncProgressListener = (progress: SyncProgress) => void;
 
@@ -57,10 +126,13 @@ export class GmailRealtimeService {
   private lastSync = 0;
   private syncTimer: NodeJS.Timeout | null = null;
   private notificationRules: NotificationRule[] = [];
+  private eventSource: EventSource | null = null;
+  private pushConnected = false; // Polling pauses while the push stream is live
 
   constructor(
-    private gmailService: any, // Your existing GmailService
-    private cacheService?: GmailCacheService
+    private gmailService: GmailService,
+    private cacheService?: GmailCacheService,
+    private syncState: SyncStateStore = new MemorySyncStateStore()
   ) {
     // Bind methods to ensure proper context
     this.handleVisibilityChange = this.handleVisibilityChange.bind(this);
@@ -101,6 +173,7 @@ export class GmailRealtimeService {
     console.log("Starting real-time email monitoring...");
     this.isPolling = true;
     await this.performInitialSync();
+    this.connectPushStream();
     this.scheduleNextPoll();
   }
 
@@ -112,6 +185,49 @@ export class GmailRealtimeService {
       clearTimeout(this.syncTimer);
       this.syncTimer = null;
     }
+
+    this.disconnectPushStream();
+  }
+
+  /**
+   * Subscribe to server-pushed changes (Gmail watch + Pub/Sub). If the stream
+   * is unavailable or drops, polling carries on as before.
+   */
+  connectPushStream(url: string = "/api/gmail/events"): void {
+    if (this.eventSource || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(url);
+    this.eventSource = source;
+
+    source.addEventListener("ready", () => {
+      this.pushConnected = true;
+    });
+
+    source.addEventListener("change", (message) => {
+      this.handlePushedChange(JSON.parse((message as MessageEvent).data));
+    });
+
+    // The server could not diff the mailbox; fall back to our own sync
+    source.addEventListener("resync", () => {
+      this.performBackgroundSync();
+    });
+
+    source.onerror = () => {
+      this.pushConnected = false;
+      if (source.readyState === EventSource.CLOSED) {
+        this.eventSource = null;
+      }
+    };
+  }
+
+  disconnectPushStream(): void {
+    this.eventSource?.close();
+    this.eventSource = null;
+    this.pushConnected = false;
+  }
+
+  isPushConnected(): boolean {
+    return this.pushConnected;
   }
 
   // Background synchronization
@@ -125,40 +241,71 @@ export class GmailRealtimeService {
     });
 
     try {
-      // Get recent emails to check for changes
-      const recentEmails = await gmailErrorHandler.executeWithRetry(
-        () => this.gmailService.getRecentEmails(50),
-        "background_sync"
-      );
+      const startHistoryId = await this.syncState.getHistoryId();
 
-      // Check for new emails
-      const newEmails = await this.detectNewEmails(recentEmails);
+      if (!startHistoryId) {
+        await this.performFullSync();
+        return;
+      }
 
-      // Process new emails
-      for (const email of newEmails) {
-        this.notifyEmailChange({
-          type: "new_email",
-          emailId: email.id,
-          email,
-          timestamp: Date.now(),
-        });
+      this.notifySyncProgress({
+        phase: "fetching",
+        progress: 25,
+        message: "Fetching changes since last sync...",
+      });
 
-        // Check notification rules
-        await this.processNotificationRules(email);
+      let history;
+      try {
+        history = await gmailErrorHandler.executeWithRetry(
+          () => this.gmailService.getHistorySince(startHistoryId),
+          "background_sync"
+        );
+      } catch (error) {
+        if (error instanceof HistoryExpiredError) {
+          // Too far behind for incremental sync; start over from a fresh snapshot
+          await this.syncState.clear();
+          await this.performFullSync();
+          return;
+        }
+        throw error;
       }
 
-      // Update cache
-      if (this.cacheService) {
-        const cacheKey = GmailCacheService.generateEmailKey("in:inbox", 50);
-        this.cacheService.setCachedEmails(cacheKey, recentEmails);
+      this.notifySyncProgress({
+        phase: "processing",
+        progress: 60,
+        message: `Processing ${history.changes.length} changes...`,
+      });
+
+      const events = await buildChangeEvents(this.gmailService, history.changes);
+      let newEmailCount = 0;
+
+      for (const event of events) {
+        this.notifyEmailChange(event);
+
+        if (event.type === "new_email" && event.email) {
+          newEmailCount++;
+          await this.processNotificationRules(event.email);
+        }
+      }
+
+      // Cached listings and counts are stale once anything changed
+      if (this.cacheService && history.changes.length > 0) {
+        await this.cacheService.invalidateMailboxState();
       }
 
+      await this.syncState.setHistoryId(history.historyId);
       this.lastSync = Date.now();
 
+      // Large backlogs arrive in batches; carry on from the saved cursor
+      if (history.truncated) {
+        await this.performBackgroundSync();
+        return;
+      }
+
       this.notifySyncProgress({
         phase: "complete",
         progress: 100,
-        message: `Sync complete. Found ${newEmails.length} new emails.`,
+        message: `Sync complete. Found ${newEmailCount} new emails.`,
       });
     } catch (error) {
       console.error("Background sync failed:", error);
@@ -166,7 +313,7 @@ export class GmailRealtimeService {
         phase: "error",
         progress: 0,
         message: "Sync failed",
-        errors: [error.message],
+        errors: [error instanceof Error ? error.message : "Unknown error"],
       });
     }
   }
@@ -313,54 +460,80 @@ export class GmailRealtimeService {
     });
 
     try {
-      const emails = await gmailErrorHandler.executeWithRetry(
-        () => this.gmailService.getRecentEmails(20),
-        "initial_sync"
-      );
-
-      this.lastSync = Date.now();
+      // Resume incremental sync if a previous session left a historyId behind
+      if (await this.syncState.getHistoryId()) {
+        await this.performBackgroundSync();
+        return;
+      }
 
-      this.notifySyncProgress({
-        phase: "complete",
-        progress: 100,
-        message: `Initial sync complete. ${emails.length} emails loaded.`,
-      });
+      await this.performFullSync();
     } catch (error) {
       this.notifySyncProgress({
         phase: "error",
         progress: 0,
         message: "Initial sync failed",
-        errors: [error.message],
+        errors: [error instanceof Error ? error.message : "Unknown error"],
       });
     }
   }
 
+  /**
+   * Snapshot the inbox and record the historyId that incremental sync starts from
+   */
+  private async performFullSync(): Promise<void> {
+    // Read the historyId first so changes made while listing are not missed
+    const historyId = await gmailErrorHandler.executeWithRetry(
+      () => this.gmailService.getCurrentHistoryId(),
+      "full_sync_history"
+    );
+
+    const emails = await gmailErrorHandler.executeWithRetry(
+      () => this.gmailService.getRecentEmails(50),
+      "full_sync"
+    );
+
+    if (this.cacheService) {
+      const cacheKey = GmailCacheService.generateEmailKey("in:inbox", 50);
+      await this.cacheService.setCachedEmails(cacheKey, emails);
+    }
+
+    await this.syncState.setHistoryId(historyId);
+    this.lastSync = Date.now();
+
+    this.notifySyncProgress({
+      phase: "complete",
+      progress: 100,
+      message: `Full sync complete. ${emails.length} emails loaded.`,
+    });
+  }
+
   private scheduleNextPoll(): void {
     if (!this.isPolling) return;
 
     this.syncTimer = setTimeout(() => {
+      if (this.pushConnected) {
+        this.scheduleNextPoll();
+        return;
+      }
+
       this.performBackgroundSync().then(() => {
         this.scheduleNextPoll();
       });
     }, this.pollingInterval);
   }
 
-  private async detectNewEmails(
-    currentEmails: EmailData[]
-  ): Promise<EmailData[]> {
-    if (!this.cacheService) {
-      return currentEmails; // Without cache, assume all are new
-    }
-
-    const cacheKey = GmailCacheService.generateEmailKey("in:inbox", 50);
-    const cachedEmails = this.cacheService.getCachedEmails(cacheKey);
+  private async handlePushedChange(event: EmailChangeEvent): Promise<void> {
+    this.lastSync = Date.now();
+    this.notifyEmailChange(event);
 
-    if (!cachedEmails) {
-      return currentEmails; // No cached data, assume all are new
+    // The server already dropped its cache; this instance may hold its own
+    if (this.cacheService) {
+      await this.cacheService.invalidateMailboxState();
     }
 
-    const cachedIds = new Set(cachedEmails.map((e) => e.id));
-    return currentEmails.filter((email) => !cachedIds.has(email.id));
+    if (event.type === "new_email" && event.email) {
+      await this.processNotificationRules(event.email);
+    }
   }
 
   private async processNotificationRules(email: EmailData): Promise<void> {
@@ -413,7 +586,32 @@ export class GmailRealtimeService {
       this.playNotificationSound();
     }
 
-    // Additional actions would be implemented here
+    if (actions.forwardTo) {
+      await this.forwardEmail(email, rule);
+    }
+  }
+
+  // Forwarding goes through the server so the destination allowlist and rate limits apply
+  private async forwardEmail(email: EmailData, rule: NotificationRule): Promise<void> {
+    try {
+      const response = await fetch("/api/forwarding", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "forward",
+          emailIds: [email.id],
+          destination: rule.actions.forwardTo,
+          ruleId: `notification:${rule.id}`,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        console.error(`Failed to forward email for rule ${rule.name}:`, data.error || response.status);
+      }
+    } catch (error) {
+      console.error(`Failed to forward email for rule ${rule.name}:`, error);
+    }
   }
 
   private showBrowserNotification(email: EmailData, ruleName: string): void {
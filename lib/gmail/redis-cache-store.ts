@@ -0,0 +1,242 @@
+import net from "net";
+import tls from "tls";
+import type { CacheStore } from "./cache-store";
+
+type RespValue = string | number | null | RespValue[] | Error;
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+const SCAN_COUNT = 500;
+
+/**
+ * Minimal RESP2 client: one connection, pipelined commands, replies matched in order.
+ * Works with Redis and protocol-compatible servers (Valkey, KeyDB, Upstash TCP).
+ */
+class RespConnection {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer = Buffer.alloc(0);
+
+  constructor(private url: URL) {}
+
+  async command(...args: (string | number)[]): Promise<RespValue> {
+    const socket = await this.connect();
+
+    return new Promise<RespValue>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const port = Number(this.url.port) || 6379;
+      const host = this.url.hostname;
+      const socket = this.url.protocol === "rediss:"
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+
+      const timer = setTimeout(() => {
+        socket.destroy(new Error(`Timed out connecting to Redis at ${host}:${port}`));
+      }, CONNECT_TIMEOUT_MS);
+
+      socket.once(this.url.protocol === "rediss:" ? "secureConnect" : "connect", async () => {
+        clearTimeout(timer);
+        socket.setNoDelay(true);
+        socket.unref();
+        this.socket = socket;
+        this.connecting = null;
+
+        try {
+          await this.authenticate();
+          resolve(socket);
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+
+      socket.on("data", (chunk) => this.onData(chunk));
+      socket.on("error", (error) => {
+        clearTimeout(timer);
+        this.connecting = null;
+        this.failPending(error);
+        reject(error);
+      });
+      socket.on("close", () => {
+        this.socket = null;
+        this.buffer = Buffer.alloc(0);
+        this.failPending(new Error("Redis connection closed"));
+      });
+    });
+
+    return this.connecting;
+  }
+
+  private async authenticate(): Promise<void> {
+    const socket = this.socket!;
+    const send = (args: (string | number)[]) =>
+      new Promise<RespValue>((resolve, reject) => {
+        this.pending.push({ resolve, reject });
+        socket.write(encodeCommand(args));
+      });
+
+    const password = decodeURIComponent(this.url.password);
+    const username = decodeURIComponent(this.url.username);
+    if (password) {
+      const reply = await send(username ? ["AUTH", username, password] : ["AUTH", password]);
+      if (reply instanceof Error) throw reply;
+    }
+
+    const db = this.url.pathname.replace("/", "");
+    if (db) {
+      const reply = await send(["SELECT", db]);
+      if (reply instanceof Error) throw reply;
+    }
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.pending.length > 0) {
+      const parsed = parseReply(this.buffer, 0);
+      if (!parsed) break; // Incomplete reply; wait for more data
+
+      this.buffer = this.buffer.subarray(parsed.offset);
+      this.pending.shift()!.resolve(parsed.value);
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((command) => command.reject(error));
+  }
+}
+
+function encodeCommand(args: (string | number)[]): string {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return out;
+}
+
+function parseReply(buffer: Buffer, start: number): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", start);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[start]);
+  const line = buffer.toString("utf8", start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, offset: next };
+    case "-":
+      return { value: new Error(line), offset: next };
+    case ":":
+      return { value: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString("utf8", next, next + length), offset: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let offset = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, offset);
+        if (!item) return null;
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type: ${type}`);
+  }
+}
+
+/**
+ * Shared store for multi-instance and serverless deployments. Entries expire
+ * through Redis TTLs.
+ */
+export class RedisCacheStore implements CacheStore {
+  private connection: RespConnection;
+
+  constructor(url: string, private keyPrefix: string = "inboxgremlin:") {
+    this.connection = new RespConnection(new URL(url));
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const reply = await this.run("GET", this.keyPrefix + key);
+    return typeof reply === "string" ? (JSON.parse(reply) as T) : null;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    await this.run("SET", this.keyPrefix + key, JSON.stringify(value), "EX", Math.max(1, Math.ceil(ttlSeconds)));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run("DEL", this.keyPrefix + key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const pattern = `${escapeGlob(this.keyPrefix + prefix)}*`;
+    let cursor = "0";
+    let removed = 0;
+
+    do {
+      const reply = await this.run("SCAN", cursor, "MATCH", pattern, "COUNT", SCAN_COUNT);
+      const [nextCursor, keys] = reply as [string, string[]];
+      cursor = nextCursor;
+
+      if (keys.length > 0) {
+        removed += Number(await this.run("DEL", ...keys));
+      }
+    } while (cursor !== "0");
+
+    return removed;
+  }
+
+  async size(prefix: string = ""): Promise<number> {
+    const pattern = `${escapeGlob(this.keyPrefix + prefix)}*`;
+    // SCAN can return a key more than once
+    const keys = new Set<string>();
+    let cursor = "0";
+
+    do {
+      const reply = await this.run("SCAN", cursor, "MATCH", pattern, "COUNT", SCAN_COUNT);
+      const [nextCursor, batch] = reply as [string, string[]];
+      cursor = nextCursor;
+      batch.forEach((key) => keys.add(key));
+    } while (cursor !== "0");
+
+    return keys.size;
+  }
+
+  private async run(...args: (string | number)[]): Promise<RespValue> {
+    const reply = await this.connection.command(...args);
+    if (reply instanceof Error) {
+      throw new Error(`Redis ${args[0]} failed: ${reply.message}`);
+    }
+    return reply;
+  }
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, "\\$&");
+}
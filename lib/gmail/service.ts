@@ -1,4 +1,12 @@
-import { google } from "googleapis";
+import { Readable } from "stream";
+import { google, gmail_v1 } from "googleapis";
+import { executeBatch } from "./batch";
+import type { MimeAttachment } from "./mime";
+
+// users.messages.batchModify / batchDelete accept at most 1000 ids per call
+const MAX_BATCH_MODIFY_SIZE = 1000;
+const MAX_LIST_PAGE_SIZE = 500;
+const METADATA_HEADERS = ["Subject", "From", "Date"];
 
 export interface EmailData {
   id: string;
@@ -8,6 +16,11 @@ export interface EmailData {
   snippet: string;
   isRead: boolean;
   labels: string[];
+  timestamp?: number; // Gmail internalDate (ms since epoch)
+  to?: string;
+  cc?: string;
+  sizeEstimate?: number;
+  headers?: Record<string, string>; // Extra headers requested by the caller, keyed by lowercase name
 }
 
 export interface EmailCategory {
@@ -25,70 +38,70 @@ export interface BulkOperationResult {
   errors: string[];
   operationId?: string; // For undo functionality
   affectedEmails?: EmailData[]; // For operation history
+  failedIds?: string[]; // Ids that could not be processed, when the failures are known per id
 }
 
-export class GmailService {
-  private gmail;
-
-  constructor(accessToken: string) {
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: accessToken });
-
-    this.gmail = google.gmail({ version: "v1", auth });
-  }
+export interface MessageRef {
+  id: string;
+  threadId: string;
+}
 
-  async getRecentEmails(maxResults: number = 5): Promise<EmailData[]> {
-    try {
-      // First, get the list of messages
-      const messagesResponse = await this.gmail.users.messages.list({
-        userId: "me",
-        maxResults,
-        q: "in:inbox", // Only get emails from inbox
-      });
+export interface LabelCounts {
+  messagesTotal: number;
+  messagesUnread: number;
+  threadsTotal: number;
+}
 
-      const messages = messagesResponse.data.messages || [];
+export interface HistoryChange {
+  type: "added" | "deleted" | "labels_added" | "labels_removed";
+  messageId: string;
+  labelIds: string[];
+}
 
-      if (messages.length === 0) {
-        return [];
-      }
+export interface HistorySyncResult {
+  historyId: string; // Where the next sync starts; the last returned record when truncated
+  changes: HistoryChange[];
+  truncated: boolean; // More changes exist than were returned
+}
 
-      // Get details for each message
-      const emailPromises = messages.map(async (message) => {
-        const messageDetail = await this.gmail.users.messages.get({
-          userId: "me",
-          id: message.id!,
-          format: "full",
-        });
+export interface MessageContent {
+  id: string;
+  threadId?: string;
+  headers: Record<string, string>; // Keyed by lowercase name
+  text: string;
+  html?: string;
+  attachments: MimeAttachment[];
+}
 
-        const data = messageDetail.data;
-        const headers = data.payload?.headers || [];
+export interface RawMessage {
+  id: string;
+  threadId?: string;
+  labelIds: string[];
+  internalDate: number; // Epoch ms Gmail received the message
+  raw: Buffer; // RFC 822 source
+}
 
-        // Extract header information
-        const getHeader = (name: string) =>
-          headers.find(
-            (header) => header.name?.toLowerCase() === name.toLowerCase()
-          )?.value || "";
+export class HistoryExpiredError extends Error {
+  constructor(public startHistoryId: string) {
+    super(`Gmail history starting at ${startHistoryId} is no longer available`);
+    this.name = "HistoryExpiredError";
+  }
+}
 
-        const subject = getHeader("Subject");
-        const from = getHeader("From");
-        const date = getHeader("Date");
+export class GmailService {
+  protected gmail;
 
-        // Check if email is read (doesn't have UNREAD label)
-        const isRead = !data.labelIds?.includes("UNREAD");
+  constructor(protected accessToken: string) {
+    const auth = new google.auth.OAuth2();
+    auth.setCredentials({ access_token: accessToken });
 
-        return {
-          id: data.id!,
-          subject: subject || "No Subject",
-          from: this.extractEmailAddress(from),
-          date: this.formatDate(date),
-          snippet: data.snippet || "",
-          isRead,
-          labels: data.labelIds || [],
-        };
-      });
+    this.gmail = google.gmail({ version: "v1", auth });
+  }
 
-      const emails = await Promise.all(emailPromises);
-      return emails;
+  async getRecentEmails(maxResults: number = 5): Promise<EmailData[]> {
+    try {
+      const messageIds = await this.listMessageIds("in:inbox", maxResults); // Only get emails from inbox
+      return await this.getEmailsByIds(messageIds);
     } catch (error) {
       console.error("Error fetching emails:", error);
       throw new Error("Failed to fetch emails from Gmail");
@@ -163,139 +176,194 @@ export class GmailService {
    */
   async getEmailsByQuery(
     query: string,
-    maxResults: number = 100
+    maxResults: number = 100,
+    extraHeaders: string[] = []
   ): Promise<EmailData[]> {
     try {
-      const messagesResponse = await this.gmail.users.messages.list({
-        userId: "me",
-        maxResults,
-        q: query,
-      });
-
-      const messages = messagesResponse.data.messages || [];
-
-      if (messages.length === 0) {
-        return [];
-      }
+      const messageIds = await this.listMessageIds(query, maxResults);
+      return await this.getEmailsByIds(messageIds, extraHeaders);
+    } catch (error) {
+      console.error("Error fetching emails by query:", error);
+      throw new Error("Failed to fetch emails by query");
+    }
+  }
 
-      // Get details for each message (in batches to avoid rate limits)
-      const batchSize = 20;
-      const emails: EmailData[] = [];
+  /**
+   * List message ids matching a query, following pagination up to maxResults
+   */
+  async listMessageIds(query: string, maxResults: number = 100): Promise<string[]> {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.listMessageIdsPage(
+        query,
+        Math.min(MAX_LIST_PAGE_SIZE, maxResults - ids.length),
+        pageToken
+      );
+
+      ids.push(...page.ids);
+      pageToken = page.nextPageToken || undefined;
+    } while (pageToken && ids.length < maxResults);
+
+    return ids;
+  }
 
-      for (let i = 0; i < messages.length; i += batchSize) {
-        const batch = messages.slice(i, i + batchSize);
-        const batchPromises = batch.map(async (message) => {
-          const messageDetail = await this.gmail.users.messages.get({
-            userId: "me",
-            id: message.id!,
-            format: "metadata",
-            metadataHeaders: ["Subject", "From", "Date"],
-          });
+  /**
+   * List a single page of message ids, for callers that page through large result sets themselves
+   */
+  async listMessageIdsPage(
+    query: string,
+    pageSize: number = MAX_LIST_PAGE_SIZE,
+    pageToken?: string
+  ): Promise<{ ids: string[]; nextPageToken: string | null; resultSizeEstimate: number }> {
+    const page = await this.listMessageRefsPage(query, pageSize, pageToken);
+
+    return {
+      ids: page.messages.map((message) => message.id),
+      nextPageToken: page.nextPageToken,
+      resultSizeEstimate: page.resultSizeEstimate,
+    };
+  }
 
-          const data = messageDetail.data;
-          const headers = data.payload?.headers || [];
-
-          const getHeader = (name: string) =>
-            headers.find(
-              (header) => header.name?.toLowerCase() === name.toLowerCase()
-            )?.value || "";
-
-          const subject = getHeader("Subject");
-          const from = getHeader("From");
-          const date = getHeader("Date");
-          const isRead = !data.labelIds?.includes("UNREAD");
-
-          return {
-            id: data.id!,
-            subject: subject || "No Subject",
-            from: this.extractEmailAddress(from),
-            date: this.formatDate(date),
-            snippet: data.snippet || "",
-            isRead,
-            labels: data.labelIds || [],
-          };
-        });
+  /**
+   * Like listMessageIdsPage, keeping the thread each message belongs to.
+   * Gmail lists messages newest first.
+   */
+  async listMessageRefsPage(
+    query: string,
+    pageSize: number = MAX_LIST_PAGE_SIZE,
+    pageToken?: string
+  ): Promise<{ messages: MessageRef[]; nextPageToken: string | null; resultSizeEstimate: number }> {
+    const response = await this.gmail.users.messages.list({
+      userId: "me",
+      q: query,
+      maxResults: Math.min(MAX_LIST_PAGE_SIZE, pageSize),
+      pageToken,
+    });
+
+    return {
+      messages: (response.data.messages || []).map((message) => ({
+        id: message.id!,
+        threadId: message.threadId!,
+      })),
+      nextPageToken: response.data.nextPageToken || null,
+      resultSizeEstimate: response.data.resultSizeEstimate || 0,
+    };
+  }
 
-        const batchEmails = await Promise.all(batchPromises);
-        emails.push(...batchEmails);
+  /**
+   * Fetch metadata for messages using HTTP batch requests. Messages that no
+   * longer exist are skipped. Extra headers are returned in EmailData.headers.
+   */
+  async getEmailsByIds(emailIds: string[], extraHeaders: string[] = []): Promise<EmailData[]> {
+    if (emailIds.length === 0) return [];
+
+    const headerNames = Array.from(new Set([...METADATA_HEADERS, ...extraHeaders]));
+    const headerParams = headerNames
+      .map((header) => `metadataHeaders=${encodeURIComponent(header)}`)
+      .join("&");
+    const responses = await executeBatch<gmail_v1.Schema$Message>(
+      this.accessToken,
+      emailIds.map((id) => ({
+        method: "GET",
+        path: `/gmail/v1/users/me/messages/${encodeURIComponent(id)}?format=metadata&${headerParams}`,
+      }))
+    );
+
+    const emails: EmailData[] = [];
+    responses.forEach((response, index) => {
+      if (response.status === 200 && response.body) {
+        emails.push(this.toEmailData(response.body, extraHeaders.length > 0));
+      } else if (response.status !== 404) {
+        console.error(`Error fetching email ${emailIds[index]}: HTTP ${response.status}`);
       }
+    });
 
-      return emails;
-    } catch (error) {
-      console.error("Error fetching emails by query:", error);
-      throw new Error("Failed to fetch emails by query");
-    }
+    return emails;
   }
 
   /**
    * Archive emails by their IDs
    */
   async archiveEmails(emailIds: string[]): Promise<BulkOperationResult> {
+    return this.batchModifyLabels(emailIds, { removeLabelIds: ["INBOX"] }, "archive");
+  }
+
+  /**
+   * Move emails to the trash by their IDs (recoverable for 30 days)
+   */
+  async deleteEmails(emailIds: string[]): Promise<BulkOperationResult> {
+    return this.batchModifyLabels(emailIds, { addLabelIds: ["TRASH"] }, "delete");
+  }
+
+  /**
+   * Move emails out of the trash. There is no batch untrash endpoint, so the
+   * calls go out as HTTP batches. Messages Gmail has already purged report 404.
+   */
+  async untrashEmails(emailIds: string[]): Promise<BulkOperationResult> {
     const errors: string[] = [];
+    const failedIds: string[] = [];
     let processedCount = 0;
 
-    try {
-      for (const emailId of emailIds) {
-        try {
-          await this.gmail.users.messages.modify({
-            userId: "me",
-            id: emailId,
-            requestBody: {
-              removeLabelIds: ["INBOX"],
-            },
-          });
-          processedCount++;
-        } catch (error: any) {
-          errors.push(`Failed to archive email ${emailId}: ${error.message}`);
-        }
+    const responses = await executeBatch(
+      this.accessToken,
+      emailIds.map((id) => ({
+        method: "POST",
+        path: `/gmail/v1/users/me/messages/${encodeURIComponent(id)}/untrash`,
+      }))
+    );
+
+    responses.forEach((response, index) => {
+      if (response.status === 200) {
+        processedCount++;
+        return;
       }
 
-      return {
-        success: errors.length === 0,
-        processedCount,
-        errors,
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        processedCount,
-        errors: [`Bulk archive operation failed: ${error.message}`],
-      };
-    }
+      failedIds.push(emailIds[index]);
+      errors.push(
+        response.status === 404
+          ? `Email ${emailIds[index]} is no longer in the trash`
+          : `Failed to restore ${emailIds[index]} from trash: HTTP ${response.status}`
+      );
+    });
+
+    return {
+      success: errors.length === 0,
+      processedCount,
+      errors,
+      failedIds,
+    };
   }
 
   /**
-   * Delete emails by their IDs
+   * Permanently delete emails, bypassing the trash. Requires the
+   * https://mail.google.com/ scope.
    */
-  async deleteEmails(emailIds: string[]): Promise<BulkOperationResult> {
+  async permanentlyDeleteEmails(emailIds: string[]): Promise<BulkOperationResult> {
     const errors: string[] = [];
     let processedCount = 0;
 
-    try {
-      for (const emailId of emailIds) {
-        try {
-          await this.gmail.users.messages.trash({
-            userId: "me",
-            id: emailId,
-          });
-          processedCount++;
-        } catch (error: any) {
-          errors.push(`Failed to delete email ${emailId}: ${error.message}`);
-        }
+    for (let i = 0; i < emailIds.length; i += MAX_BATCH_MODIFY_SIZE) {
+      const chunk = emailIds.slice(i, i + MAX_BATCH_MODIFY_SIZE);
+      try {
+        await this.gmail.users.messages.batchDelete({
+          userId: "me",
+          requestBody: { ids: chunk },
+        });
+        processedCount += chunk.length;
+      } catch (error: any) {
+        errors.push(
+          `Failed to permanently delete ${chunk.length} emails (${i + 1}-${i + chunk.length}): ${error.message}`
+        );
       }
-
-      return {
-        success: errors.length === 0,
-        processedCount,
-        errors,
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        processedCount,
-        errors: [`Bulk delete operation failed: ${error.message}`],
-      };
     }
+
+    return {
+      success: errors.length === 0,
+      processedCount,
+      errors,
+    };
   }
 
   /**
@@ -305,193 +373,209 @@ export class GmailService {
     emailIds: string[],
     labelIds: string[]
   ): Promise<BulkOperationResult> {
-    const errors: string[] = [];
-    let processedCount = 0;
-
-    try {
-      for (const emailId of emailIds) {
-        try {
-          await this.gmail.users.messages.modify({
-            userId: "me",
-            id: emailId,
-            requestBody: {
-              addLabelIds: labelIds,
-            },
-          });
-          processedCount++;
-        } catch (error: any) {
-          errors.push(`Failed to label email ${emailId}: ${error.message}`);
-        }
-      }
-
-      return {
-        success: errors.length === 0,
-        processedCount,
-        errors,
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        processedCount,
-        errors: [`Bulk label operation failed: ${error.message}`],
-      };
-    }
+    return this.batchModifyLabels(emailIds, { addLabelIds: labelIds }, "label");
   }
 
   /**
    * Mark emails as read
    */
   async markAsRead(emailIds: string[]): Promise<BulkOperationResult> {
-    const errors: string[] = [];
-    let processedCount = 0;
-
-    try {
-      for (const emailId of emailIds) {
-        try {
-          await this.gmail.users.messages.modify({
-            userId: "me",
-            id: emailId,
-            requestBody: {
-              removeLabelIds: ["UNREAD"],
-            },
-          });
-          processedCount++;
-        } catch (error: any) {
-          errors.push(
-            `Failed to mark email as read ${emailId}: ${error.message}`
-          );
-        }
-      }
-
-      return {
-        success: errors.length === 0,
-        processedCount,
-        errors,
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        processedCount,
-        errors: [`Bulk mark as read operation failed: ${error.message}`],
-      };
-    }
+    return this.batchModifyLabels(emailIds, { removeLabelIds: ["UNREAD"] }, "mark as read");
   }
 
   /**
    * Mark emails as unread
    */
   async markAsUnread(emailIds: string[]): Promise<BulkOperationResult> {
+    return this.batchModifyLabels(emailIds, { addLabelIds: ["UNREAD"] }, "mark as unread");
+  }
+
+  /**
+   * Star emails
+   */
+  async starEmails(emailIds: string[]): Promise<BulkOperationResult> {
+    return this.batchModifyLabels(emailIds, { addLabelIds: ["STARRED"] }, "star");
+  }
+
+  /**
+   * Unstar emails
+   */
+  async unstarEmails(emailIds: string[]): Promise<BulkOperationResult> {
+    return this.batchModifyLabels(emailIds, { removeLabelIds: ["STARRED"] }, "unstar");
+  }
+
+  /**
+   * Apply label changes with users.messages.batchModify, 1000 ids per call.
+   * A failed chunk is reported and the remaining chunks still run.
+   */
+  async batchModifyLabels(
+    emailIds: string[],
+    changes: { addLabelIds?: string[]; removeLabelIds?: string[] },
+    operationName: string = "modify"
+  ): Promise<BulkOperationResult> {
     const errors: string[] = [];
+    const failedIds: string[] = [];
     let processedCount = 0;
 
-    try {
-      for (const emailId of emailIds) {
-        try {
-          await this.gmail.users.messages.modify({
-            userId: "me",
-            id: emailId,
-            requestBody: {
-              addLabelIds: ["UNREAD"],
-            },
-          });
-          processedCount++;
-        } catch (error: any) {
-          errors.push(
-            `Failed to mark email as unread ${emailId}: ${error.message}`
-          );
-        }
+    for (let i = 0; i < emailIds.length; i += MAX_BATCH_MODIFY_SIZE) {
+      const chunk = emailIds.slice(i, i + MAX_BATCH_MODIFY_SIZE);
+      try {
+        await this.gmail.users.messages.batchModify({
+          userId: "me",
+          requestBody: {
+            ids: chunk,
+            addLabelIds: changes.addLabelIds,
+            removeLabelIds: changes.removeLabelIds,
+          },
+        });
+        processedCount += chunk.length;
+      } catch (error: any) {
+        failedIds.push(...chunk);
+        errors.push(
+          `Failed to ${operationName} ${chunk.length} emails (${i + 1}-${i + chunk.length}): ${error.message}`
+        );
       }
-
-      return {
-        success: errors.length === 0,
-        processedCount,
-        errors,
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        processedCount,
-        errors: [`Bulk mark as unread operation failed: ${error.message}`],
-      };
     }
+
+    return {
+      success: errors.length === 0,
+      processedCount,
+      errors,
+      failedIds,
+    };
   }
 
+  // Incremental sync
+
   /**
-   * Star emails
+   * Current mailbox historyId, the starting point for incremental sync
    */
-  async starEmails(emailIds: string[]): Promise<BulkOperationResult> {
-    const errors: string[] = [];
-    let processedCount = 0;
+  async getCurrentHistoryId(): Promise<string> {
+    const profile = await this.gmail.users.getProfile({ userId: "me" });
+    return profile.data.historyId!;
+  }
+
+  /**
+   * List mailbox changes since startHistoryId. Throws HistoryExpiredError when
+   * Gmail no longer has history that far back; callers must then do a full sync.
+   * When maxChanges stops the listing early, historyId is the last record
+   * returned, so saving it resumes from the first change left out.
+   */
+  async getHistorySince(
+    startHistoryId: string,
+    options: { labelId?: string; maxChanges?: number } = {}
+  ): Promise<HistorySyncResult> {
+    const { labelId, maxChanges = 5000 } = options;
+    const changes: HistoryChange[] = [];
+    let latestHistoryId = startHistoryId;
+    let lastRecordId = startHistoryId;
+    let pageToken: string | undefined;
 
     try {
-      for (const emailId of emailIds) {
-        try {
-          await this.gmail.users.messages.modify({
-            userId: "me",
-            id: emailId,
-            requestBody: {
-              addLabelIds: ["STARRED"],
-            },
-          });
-          processedCount++;
-        } catch (error: any) {
-          errors.push(
-            `Failed to star email ${emailId}: ${error.message}`
-          );
+      do {
+        const response = await this.gmail.users.history.list({
+          userId: "me",
+          startHistoryId,
+          labelId,
+          historyTypes: ["messageAdded", "messageDeleted", "labelAdded", "labelRemoved"],
+          maxResults: MAX_LIST_PAGE_SIZE,
+          pageToken,
+        });
+
+        for (const record of response.data.history || []) {
+          for (const added of record.messagesAdded || []) {
+            changes.push({ type: "added", messageId: added.message!.id!, labelIds: added.message?.labelIds || [] });
+          }
+          for (const deleted of record.messagesDeleted || []) {
+            changes.push({ type: "deleted", messageId: deleted.message!.id!, labelIds: [] });
+          }
+          for (const labeled of record.labelsAdded || []) {
+            changes.push({ type: "labels_added", messageId: labeled.message!.id!, labelIds: labeled.labelIds || [] });
+          }
+          for (const unlabeled of record.labelsRemoved || []) {
+            changes.push({ type: "labels_removed", messageId: unlabeled.message!.id!, labelIds: unlabeled.labelIds || [] });
+          }
+          lastRecordId = record.id || lastRecordId;
         }
-      }
 
-      return {
-        success: errors.length === 0,
-        processedCount,
-        errors,
-      };
+        latestHistoryId = response.data.historyId || latestHistoryId;
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken && changes.length < maxChanges);
     } catch (error: any) {
-      return {
-        success: false,
-        processedCount,
-        errors: [`Bulk star operation failed: ${error.message}`],
-      };
+      if (error.code === 404 || error.response?.status === 404) {
+        throw new HistoryExpiredError(startHistoryId);
+      }
+      throw error;
     }
+
+    const truncated = Boolean(pageToken);
+    return {
+      // The mailbox's current id would skip every change after the last page read
+      historyId: truncated ? lastRecordId : latestHistoryId,
+      changes,
+      truncated,
+    };
   }
 
+  // Push notifications
+
   /**
-   * Unstar emails
+   * Ask Gmail to publish mailbox changes to a Pub/Sub topic. The watch lapses
+   * after seven days unless it is renewed.
    */
-  async unstarEmails(emailIds: string[]): Promise<BulkOperationResult> {
-    const errors: string[] = [];
-    let processedCount = 0;
+  async watchMailbox(topicName: string, labelIds?: string[]): Promise<{ historyId: string; expiration: Date }> {
+    const response = await this.gmail.users.watch({
+      userId: "me",
+      requestBody: {
+        topicName,
+        labelIds,
+        labelFilterBehavior: labelIds?.length ? "include" : undefined,
+      },
+    });
+
+    return {
+      historyId: response.data.historyId!,
+      expiration: new Date(Number(response.data.expiration)),
+    };
+  }
 
-    try {
-      for (const emailId of emailIds) {
-        try {
-          await this.gmail.users.messages.modify({
-            userId: "me",
-            id: emailId,
-            requestBody: {
-              removeLabelIds: ["STARRED"],
-            },
-          });
-          processedCount++;
-        } catch (error: any) {
-          errors.push(
-            `Failed to unstar email ${emailId}: ${error.message}`
-          );
-        }
-      }
+  async stopWatchingMailbox(): Promise<void> {
+    await this.gmail.users.stop({ userId: "me" });
+  }
 
-      return {
-        success: errors.length === 0,
-        processedCount,
-        errors,
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        processedCount,
-        errors: [`Bulk unstar operation failed: ${error.message}`],
-      };
+  protected toEmailData(message: gmail_v1.Schema$Message, includeHeaders: boolean = false): EmailData {
+    const headers = message.payload?.headers || [];
+    const getHeader = (name: string) =>
+      headers.find((header) => header.name?.toLowerCase() === name.toLowerCase())
+        ?.value || "";
+
+    const email: EmailData = {
+      id: message.id!,
+      subject: getHeader("Subject") || "No Subject",
+      from: this.extractEmailAddress(getHeader("From")),
+      date: this.formatDate(getHeader("Date")),
+      snippet: message.snippet || "",
+      isRead: !message.labelIds?.includes("UNREAD"),
+      labels: message.labelIds || [],
+      timestamp: message.internalDate ? Number(message.internalDate) : undefined,
+      sizeEstimate: message.sizeEstimate ?? undefined,
+    };
+
+    if (includeHeaders) {
+      email.to = getHeader("To");
+      email.cc = getHeader("Cc");
+      email.headers = {};
+      for (const header of headers) {
+        if (!header.name) continue;
+        const name = header.name.toLowerCase();
+        // Repeated headers (e.g. Received) are joined like a folded header
+        email.headers[name] = email.headers[name]
+          ? `${email.headers[name]}, ${header.value || ""}`
+          : header.value || "";
+      }
     }
+
+    return email;
   }
 
   /**
@@ -509,6 +593,27 @@ export class GmailService {
     }
   }
 
+  /**
+   * Exact message and thread totals of labels, from labels.get. Unlike
+   * resultSizeEstimate these are kept up to date by Gmail for any mailbox size.
+   */
+  async getLabelCounts(labelIds: string[]): Promise<Record<string, LabelCounts>> {
+    const labels = await Promise.all(
+      labelIds.map((id) => this.gmail.users.labels.get({ userId: "me", id }))
+    );
+
+    return Object.fromEntries(
+      labels.map((response, index) => [
+        labelIds[index],
+        {
+          messagesTotal: response.data.messagesTotal || 0,
+          messagesUnread: response.data.messagesUnread || 0,
+          threadsTotal: response.data.threadsTotal || 0,
+        },
+      ])
+    );
+  }
+
   /**
    * Create a new label
    */
@@ -535,6 +640,162 @@ export class GmailService {
     }
   }
 
+  /**
+   * Email address of the authenticated mailbox
+   */
+  async getProfileEmail(): Promise<string> {
+    const response = await this.gmail.users.getProfile({ userId: "me" });
+    return response.data.emailAddress || "";
+  }
+
+  /**
+   * Message and thread totals of the whole mailbox, spam and trash included
+   */
+  async getMailboxTotals(): Promise<{ messagesTotal: number; threadsTotal: number }> {
+    const response = await this.gmail.users.getProfile({ userId: "me" });
+    return {
+      messagesTotal: response.data.messagesTotal || 0,
+      threadsTotal: response.data.threadsTotal || 0,
+    };
+  }
+
+  /**
+   * Server-side filters of the mailbox. Filter methods require the gmail.settings.basic scope.
+   */
+  async listFilters(): Promise<gmail_v1.Schema$Filter[]> {
+    const response = await this.gmail.users.settings.filters.list({ userId: "me" });
+    return response.data.filter || [];
+  }
+
+  /**
+   * Gmail filters cannot be edited; changing one means deleting and recreating it
+   */
+  async createFilter(filter: Pick<gmail_v1.Schema$Filter, "criteria" | "action">): Promise<gmail_v1.Schema$Filter> {
+    const response = await this.gmail.users.settings.filters.create({
+      userId: "me",
+      requestBody: filter,
+    });
+    return response.data;
+  }
+
+  async deleteFilter(filterId: string): Promise<void> {
+    await this.gmail.users.settings.filters.delete({ userId: "me", id: filterId });
+  }
+
+  /**
+   * Load a message's headers, text/HTML bodies and attachments for re-sending.
+   * Pass attachments: false to read only the bodies.
+   */
+  async getMessageContent(messageId: string, options: { attachments?: boolean } = {}): Promise<MessageContent> {
+    const { attachments = true } = options;
+    const response = await this.gmail.users.messages.get({
+      userId: "me",
+      id: messageId,
+      format: "full",
+    });
+
+    const content: MessageContent = {
+      id: messageId,
+      threadId: response.data.threadId || undefined,
+      headers: {},
+      text: "",
+      html: undefined,
+      attachments: [],
+    };
+
+    for (const header of response.data.payload?.headers || []) {
+      if (header.name) content.headers[header.name.toLowerCase()] = header.value || "";
+    }
+
+    const visit = async (part: gmail_v1.Schema$MessagePart) => {
+      const mimeType = part.mimeType || "";
+      const partHeaders = part.headers || [];
+      const contentId = partHeaders.find((h) => h.name?.toLowerCase() === "content-id")?.value || undefined;
+
+      if (part.filename || part.body?.attachmentId) {
+        if (!attachments) return;
+        let data = part.body?.data ? Buffer.from(part.body.data, "base64url") : null;
+        if (!data && part.body?.attachmentId) {
+          const attachment = await this.gmail.users.messages.attachments.get({
+            userId: "me",
+            messageId,
+            id: part.body.attachmentId,
+          });
+          data = Buffer.from(attachment.data.data || "", "base64url");
+        }
+        content.attachments.push({
+          filename: part.filename || "attachment",
+          mimeType: mimeType || "application/octet-stream",
+          data: data || Buffer.alloc(0),
+          contentId,
+        });
+        return;
+      }
+
+      if (mimeType === "text/plain" && !content.text && part.body?.data) {
+        content.text = Buffer.from(part.body.data, "base64url").toString("utf8");
+      } else if (mimeType === "text/html" && !content.html && part.body?.data) {
+        content.html = Buffer.from(part.body.data, "base64url").toString("utf8");
+      }
+
+      for (const child of part.parts || []) {
+        await visit(child);
+      }
+    };
+
+    if (response.data.payload) {
+      await visit(response.data.payload);
+    }
+
+    return content;
+  }
+
+  /**
+   * Send an RFC 822 message given as a base64url string. Requires the gmail.send scope.
+   */
+  async sendRawMessage(raw: string, threadId?: string): Promise<string> {
+    const response = await this.gmail.users.messages.send({
+      userId: "me",
+      requestBody: { raw, threadId },
+    });
+    return response.data.id!;
+  }
+
+  /**
+   * The RFC 822 source of a message, as Gmail stores it
+   */
+  async getRawMessage(messageId: string): Promise<RawMessage> {
+    const response = await this.gmail.users.messages.get({
+      userId: "me",
+      id: messageId,
+      format: "raw",
+    });
+
+    return {
+      id: messageId,
+      threadId: response.data.threadId || undefined,
+      labelIds: response.data.labelIds || [],
+      internalDate: Number(response.data.internalDate) || 0,
+      raw: Buffer.from(response.data.raw || "", "base64url"),
+    };
+  }
+
+  /**
+   * Put an RFC 822 message back into the mailbox as if it had been received
+   * (users.messages.import), dated by its Date header. Uploaded as media, so
+   * messages up to Gmail's 50 MB limit work.
+   */
+  async importMessage(raw: Buffer, labelIds: string[] = []): Promise<string> {
+    const response = await this.gmail.users.messages.import({
+      userId: "me",
+      internalDateSource: "dateHeader",
+      neverMarkSpam: true,
+      requestBody: { labelIds },
+      media: { mimeType: "message/rfc822", body: Readable.from([raw]) },
+    });
+    return response.data.id!;
+  }
+
   /**
    * Categorize email based on content and sender
    */
@@ -606,7 +867,7 @@ export class GmailService {
     return "personal";
   }
 
-  private extractEmailAddress(fromHeader: string): string {
+  protected extractEmailAddress(fromHeader: string): string {
     // Extract email from "Name <email@domain.com>" format
     const emailMatch = fromHeader.match(/<([^>]+)>/);
     if (emailMatch) {
@@ -622,7 +883,7 @@ export class GmailService {
     return fromHeader;
   }
 
-  private formatDate(dateString: string): string {
+  protected formatDate(dateString: string): string {
     if (!dateString) return "Unknown";
 
     try {
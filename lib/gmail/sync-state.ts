@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Where incremental sync keeps the last Gmail historyId it processed
+ */
+export interface SyncStateStore {
+  getHistoryId(): Promise<string | null>;
+  setHistoryId(historyId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemorySyncStateStore implements SyncStateStore {
+  private historyId: string | null = null;
+
+  async getHistoryId(): Promise<string | null> {
+    return this.historyId;
+  }
+
+  async setHistoryId(historyId: string): Promise<void> {
+    this.historyId = historyId;
+  }
+
+  async clear(): Promise<void> {
+    this.historyId = null;
+  }
+}
+
+/**
+ * Persists the historyId per user so sync survives restarts
+ */
+export class SupabaseSyncStateStore implements SyncStateStore {
+  constructor(private supabase: SupabaseClient, private userId: string) {}
+
+  async getHistoryId(): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from("gmail_sync_state")
+      .select("history_id")
+      .eq("user_id", this.userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading Gmail sync state:", error);
+      return null;
+    }
+
+    return data?.history_id || null;
+  }
+
+  async setHistoryId(historyId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("gmail_sync_state")
+      .upsert(
+        {
+          user_id: this.userId,
+          history_id: historyId,
+          last_synced_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      );
+
+    if (error) {
+      console.error("Error saving Gmail sync state:", error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const { error } = await this.supabase
+      .from("gmail_sync_state")
+      .delete()
+      .eq("user_id", this.userId);
+
+    if (error) {
+      console.error("Error clearing Gmail sync state:", error);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+// List-Unsubscribe (RFC 2369) and List-Unsubscribe-Post (RFC 8058) headers
+
+export const LIST_UNSUBSCRIBE_HEADERS = ['List-Unsubscribe', 'List-Unsubscribe-Post', 'List-Id'];
+
+export interface ListUnsubscribeTargets {
+  https: string[];
+  http: string[];
+  mailto: string[];
+  oneClick: boolean; // The sender accepts an RFC 8058 POST to the first HTTPS URI
+}
+
+export interface MailtoTarget {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/;
+
+/**
+ * Split a List-Unsubscribe header into its URIs, in the sender's order of
+ * preference. Folding whitespace inside the angle brackets is removed.
+ */
+export function parseListUnsubscribe(header?: string | null, postHeader?: string | null): ListUnsubscribeTargets {
+  const targets: ListUnsubscribeTargets = { https: [], http: [], mailto: [], oneClick: false };
+
+  for (const match of (header || '').matchAll(/<([^>]*)>/g)) {
+    const uri = match[1].replace(/\s+/g, '');
+    const scheme = uri.slice(0, uri.indexOf(':') + 1).toLowerCase();
+    if (scheme === 'https:') targets.https.push(uri);
+    else if (scheme === 'http:') targets.http.push(uri);
+    else if (scheme === 'mailto:') targets.mailto.push(uri);
+  }
+
+  targets.oneClick = targets.https.length > 0 && /List-Unsubscribe\s*=\s*One-Click/i.test(postHeader || '');
+  return targets;
+}
+
+/**
+ * Read a mailto: URI (RFC 6068). Returns null unless it names exactly one
+ * valid address.
+ */
+export function parseMailto(uri: string): MailtoTarget | null {
+  if (!/^mailto:/i.test(uri)) return null;
+
+  const [addressPart, query = ''] = uri.slice('mailto:'.length).split('?', 2);
+  const params = new URLSearchParams(query);
+  let to: string;
+  try {
+    to = decodeURIComponent(addressPart || params.get('to') || '').trim();
+  } catch {
+    return null;
+  }
+
+  if (!EMAIL_PATTERN.test(to)) return null;
+
+  return {
+    to,
+    subject: params.get('subject') || 'unsubscribe',
+    body: params.get('body') || 'unsubscribe',
+  };
+}
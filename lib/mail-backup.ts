@@ -0,0 +1,307 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { EmailData, GmailService, RawMessage } from '@/lib/gmail/service';
+import { BackupStorage, BackupStorageBackend, createBackupStorage } from '@/lib/backup-storage';
+import { formatMboxEntry, parseMboxEntry } from '@/lib/mbox';
+
+// Raw messages fetched in parallel while building an archive
+const FETCH_CONCURRENCY = 5;
+// System labels a restored message must not get back
+const RESTORE_EXCLUDED_LABELS = new Set(['TRASH', 'SPAM', 'DRAFT', 'CHAT']);
+
+export type MailBackupErrorCode = 'NOT_FOUND' | 'INVALID_MESSAGE' | 'FETCH_FAILED';
+
+export class MailBackupError extends Error {
+  constructor(public code: MailBackupErrorCode, message: string) {
+    super(message);
+    this.name = 'MailBackupError';
+  }
+}
+
+export interface BackedUpMessage {
+  id: string; // Gmail id at backup time
+  threadId?: string;
+  subject: string;
+  from: string;
+  date: string; // ISO time Gmail received it
+  labels: string[];
+  offset: number; // Byte range of the entry in the archive
+  length: number;
+  restoredMessageId?: string; // Gmail id of the re-imported copy
+}
+
+export interface MailBackup {
+  id: string;
+  user_id: string;
+  operation_id: string | null;
+  operation_type: string;
+  storage_backend: BackupStorageBackend;
+  storage_key: string;
+  message_count: number;
+  size_bytes: number;
+  messages?: BackedUpMessage[]; // Left out of listings
+  created_at: string;
+}
+
+export interface RestoreResult {
+  restored: { id: string; restoredMessageId: string }[];
+  errors: string[];
+}
+
+/**
+ * Keeps raw RFC 822 copies of messages before they are deleted, one mbox
+ * archive per operation, and puts selected messages back into Gmail. Users
+ * can only read and delete mail_backups rows, so writes use the service role.
+ */
+export class MailBackupService {
+  private supabase: Promise<SupabaseClient>;
+  private storage: BackupStorage;
+
+  constructor(options: { supabase?: SupabaseClient; storage?: BackupStorage } = {}) {
+    this.supabase = options.supabase ? Promise.resolve(options.supabase) : createClient();
+    this.storage = options.storage || createBackupStorage();
+  }
+
+  /**
+   * Fetch every message in raw format and store them as one archive.
+   * Messages that no longer exist are skipped; any other failure throws, so
+   * callers can refuse to delete what was not backed up.
+   */
+  async createBackup(
+    userId: string,
+    gmailService: GmailService,
+    emails: Pick<EmailData, 'id' | 'subject' | 'from'>[],
+    operationType: string
+  ): Promise<MailBackup> {
+    const rawMessages = await fetchRawMessages(gmailService, emails.map(email => email.id));
+    const details = new Map(emails.map(email => [email.id, email]));
+    const id = randomUUID();
+    const storageKey = `${userId}/${id}.mbox`;
+
+    const chunks: Buffer[] = [];
+    const messages: BackedUpMessage[] = [];
+    let offset = 0;
+
+    for (const message of rawMessages) {
+      // Decoded by Gmail; the raw headers may be RFC 2047 encoded
+      const { subject = '', from = '' } = details.get(message.id) || {};
+      const entry = formatMboxEntry(message.raw, {
+        sender: from.match(/<([^>]+)>/)?.[1] || from.trim(),
+        date: new Date(message.internalDate),
+      });
+
+      chunks.push(entry);
+      messages.push({
+        id: message.id,
+        threadId: message.threadId,
+        subject: subject || '(no subject)',
+        from,
+        date: new Date(message.internalDate).toISOString(),
+        labels: message.labelIds,
+        offset,
+        length: entry.length,
+      });
+      offset += entry.length;
+    }
+
+    await this.storage.write(storageKey, Buffer.concat(chunks));
+
+    const { data, error } = await createAdminClient()
+      .from('mail_backups')
+      .insert({
+        id,
+        user_id: userId,
+        operation_type: operationType,
+        storage_backend: this.storage.backend,
+        storage_key: storageKey,
+        message_count: messages.length,
+        size_bytes: offset,
+        messages,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      await this.storage.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Link a backup to the operation history entry it was taken for
+   */
+  async attachOperation(userId: string, backupId: string, operationId: string): Promise<void> {
+    const { error } = await createAdminClient()
+      .from('mail_backups')
+      .update({ operation_id: operationId })
+      .eq('id', backupId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async listBackups(userId: string, limit: number = 50, offset: number = 0): Promise<MailBackup[]> {
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
+      .from('mail_backups')
+      .select('id, user_id, operation_id, operation_type, storage_backend, storage_key, message_count, size_bytes, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * A backup with its message index
+   */
+  async getBackup(userId: string, backupId: string): Promise<MailBackup> {
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
+      .from('mail_backups')
+      .select('*')
+      .eq('id', backupId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new MailBackupError('NOT_FOUND', 'Backup not found');
+    return data;
+  }
+
+  /**
+   * The whole mbox archive
+   */
+  async readArchive(userId: string, backupId: string): Promise<{ backup: MailBackup; data: Buffer }> {
+    const backup = await this.getBackup(userId, backupId);
+    const data = await archiveStorage(userId, backup).read(backup.storage_key);
+    return { backup, data };
+  }
+
+  /**
+   * One backed-up message as an RFC 822 (.eml) file
+   */
+  async readMessage(
+    userId: string,
+    backupId: string,
+    messageId: string
+  ): Promise<{ message: BackedUpMessage; raw: Buffer }> {
+    const backup = await this.getBackup(userId, backupId);
+    const message = backup.messages?.find(entry => entry.id === messageId);
+    if (!message) {
+      throw new MailBackupError('INVALID_MESSAGE', `Message ${messageId} is not in this backup`);
+    }
+
+    const entry = await archiveStorage(userId, backup).read(backup.storage_key, {
+      offset: message.offset,
+      length: message.length,
+    });
+    return { message, raw: parseMboxEntry(entry) };
+  }
+
+  /**
+   * Re-import messages into Gmail with the labels they had when backed up.
+   * Labels that have since been deleted are left off. Re-imported messages
+   * get new Gmail ids, which are recorded in the backup.
+   */
+  async restoreMessages(
+    userId: string,
+    backupId: string,
+    messageIds: string[],
+    gmailService: GmailService
+  ): Promise<RestoreResult> {
+    const backup = await this.getBackup(userId, backupId);
+    const storage = archiveStorage(userId, backup);
+    const messages = backup.messages || [];
+    const result: RestoreResult = { restored: [], errors: [] };
+
+    const unknown = messageIds.filter(id => !messages.some(message => message.id === id));
+    if (unknown.length > 0) {
+      throw new MailBackupError('INVALID_MESSAGE', `Not in this backup: ${unknown.join(', ')}`);
+    }
+
+    const existingLabels = new Set((await gmailService.getLabels()).map(label => label.id));
+
+    for (const message of messages) {
+      if (!messageIds.includes(message.id)) continue;
+
+      try {
+        const entry = await storage.read(backup.storage_key, { offset: message.offset, length: message.length });
+        const labels = message.labels.filter(label => !RESTORE_EXCLUDED_LABELS.has(label) && existingLabels.has(label));
+        const restoredMessageId = await gmailService.importMessage(parseMboxEntry(entry), labels);
+
+        message.restoredMessageId = restoredMessageId;
+        result.restored.push({ id: message.id, restoredMessageId });
+      } catch (error) {
+        result.errors.push(`${message.subject}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (result.restored.length > 0) {
+      const { error } = await createAdminClient()
+        .from('mail_backups')
+        .update({ messages })
+        .eq('id', backupId)
+        .eq('user_id', userId);
+      if (error) throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove a backup and its archive
+   */
+  async deleteBackup(userId: string, backupId: string): Promise<void> {
+    const backup = await this.getBackup(userId, backupId);
+    await archiveStorage(userId, backup).delete(backup.storage_key);
+
+    const supabase = await this.supabase;
+    const { error } = await supabase
+      .from('mail_backups')
+      .delete()
+      .eq('id', backupId)
+      .eq('user_id', userId);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Storage holding a backup's archive. Keys must stay inside the user's own
+ * directory, whatever the row says.
+ */
+function archiveStorage(userId: string, backup: MailBackup): BackupStorage {
+  const parts = backup.storage_key.split('/');
+  if (parts[0] !== userId || parts.length < 2 || parts.some(part => part === '' || part === '.' || part === '..')) {
+    throw new MailBackupError('NOT_FOUND', 'Backup archive not found');
+  }
+  return createBackupStorage(backup.storage_backend);
+}
+
+async function fetchRawMessages(gmailService: GmailService, emailIds: string[]): Promise<RawMessage[]> {
+  const results: (RawMessage | null)[] = new Array(emailIds.length).fill(null);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < emailIds.length) {
+      const index = next++;
+      try {
+        results[index] = await gmailService.getRawMessage(emailIds[index]);
+      } catch (error: any) {
+        // Already gone, so there is nothing left to delete either
+        if (error?.code === 404 || error?.status === 404) continue;
+        throw new MailBackupError(
+          'FETCH_FAILED',
+          `Could not back up message ${emailIds[index]}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, emailIds.length) }, worker));
+  return results.filter((message): message is RawMessage => message !== null);
+}
@@ -0,0 +1,48 @@
+// mbox archives in the mboxrd variant: each message starts with a "From "
+// separator line, any body line matching /^>*From / gets one more ">", and
+// messages are separated by a blank line. Line endings are stored as LF.
+// Work is done on latin1 strings so every byte round-trips unchanged.
+
+export interface MboxEnvelope {
+  sender?: string; // Envelope sender; MAILER-DAEMON when unknown
+  date: Date;
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * One message as an mbox entry, ready to be concatenated with others
+ */
+export function formatMboxEntry(raw: Buffer, envelope: MboxEnvelope): Buffer {
+  const sender = envelope.sender && /^[^\s@]+@[^\s@]+$/.test(envelope.sender) ? envelope.sender : 'MAILER-DAEMON';
+  let body = raw.toString('latin1').replace(/\r\n/g, '\n').replace(/^(>*From )/gm, '>$1');
+  if (!body.endsWith('\n')) body += '\n';
+
+  return Buffer.from(`From ${sender} ${asctime(envelope.date)}\n${body}\n`, 'latin1');
+}
+
+/**
+ * The original message from an entry written by formatMboxEntry
+ */
+export function parseMboxEntry(entry: Buffer): Buffer {
+  const text = entry.toString('latin1');
+  const start = text.startsWith('From ') ? text.indexOf('\n') + 1 : 0;
+  const body = text
+    .slice(start)
+    .replace(/\n\n$/, '\n')
+    .replace(/^>(>*From )/gm, '$1');
+
+  return Buffer.from(body, 'latin1');
+}
+
+/**
+ * ctime-style date used on "From " lines, always in UTC
+ */
+function asctime(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, ' ');
+  const time = [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':');
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${day} ${time} ${date.getUTCFullYear()}`;
+}
@@ -1,22 +1,48 @@
-import { createClient } from "@/lib/supabase/client";
-import { GmailService } from "@/lib/gmail/service";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import type { GmailService } from "@/lib/gmail/service";
+
+export type OperationType =
+  | 'archive'
+  | 'delete'
+  | 'label'
+  | 'mark_read'
+  | 'mark_unread'
+  | 'star'
+  | 'unstar'
+  | 'unsubscribe'
+  | 'forward'
+  | 'create_rule'
+  | 'undo';
+
+export interface AffectedEmailSnapshot {
+  id: string;
+  subject: string;
+  from: string;
+  originalLabels: string[]; // Labels before the operation
+  resultLabels?: string[]; // Labels after it; older entries derive this from operation_details
+  snippet: string;
+}
 
 export interface OperationHistoryEntry {
   id: string;
   user_id: string;
-  operation_type: 'archive' | 'delete' | 'label' | 'mark_read' | 'unsubscribe';
-  affected_emails: {
-    id: string;
-    subject: string;
-    from: string;
-    originalLabels: string[];
-    snippet: string;
-  }[];
+  operation_type: OperationType;
+  affected_emails: AffectedEmailSnapshot[];
   operation_details: {
     addedLabels?: string[];
     removedLabels?: string[];
     targetLabel?: string;
     query?: string;
+    forwardedTo?: string;
+    ruleId?: string;
+    sender?: string; // Sender address or domain acted on from the sender explorer
+    sentMessageIds?: string[];
+    permanentDelete?: boolean;
+    backupId?: string; // mail_backups archive taken before a delete
+    undoing_operation_id?: string;
+    undoneType?: OperationType;
+    restoreTarget?: string; // Set when the undo was part of a point-in-time restore
   };
   timestamp: string;
   can_undo: boolean;
@@ -30,21 +56,99 @@ export interface UndoableOperation {
   operation_details: OperationHistoryEntry['operation_details'];
 }
 
+export interface OperationHistoryOptions {
+  supabase?: SupabaseClient;
+  userId?: string; // Required when running without a user session (background worker)
+  retentionDays?: number; // How long entries are kept and can be undone
+}
+
+export interface UndoResult {
+  success: boolean;
+  processedCount: number;
+  errors: string[];
+  undoOperationId: string | null;
+}
+
+export interface PointInTimeRestoreResult {
+  success: boolean;
+  restoreTarget: string;
+  undoneOperations: string[];
+  skippedOperations: { id: string; operation_type: OperationType; reason: string }[];
+  failedOperations: { id: string; operation_type: OperationType; errors: string[] }[];
+}
+
+// Gmail purges the trash after 30 days, so deletes cannot be undone beyond that anyway
+export const DEFAULT_HISTORY_RETENTION_DAYS = 30;
+
+export const UNDOABLE_OPERATIONS: OperationType[] = [
+  'archive',
+  'delete',
+  'label',
+  'mark_read',
+  'mark_unread',
+  'star',
+  'unstar',
+  'undo',
+];
+
+// Upper bound on operations reversed by a single point-in-time restore
+const MAX_RESTORE_OPERATIONS = 500;
+
+/**
+ * Before/after label snapshots for emails about to be changed by a label operation
+ */
+export function snapshotLabelChange(
+  emails: { id: string; subject: string; from: string; labels: string[]; snippet: string }[],
+  changes: { addLabelIds?: string[]; removeLabelIds?: string[] }
+): AffectedEmailSnapshot[] {
+  return emails.map(email => ({
+    id: email.id,
+    subject: email.subject,
+    from: email.from,
+    originalLabels: email.labels || [],
+    resultLabels: applyLabelChanges(email.labels || [], changes),
+    snippet: email.snippet,
+  }));
+}
+
+export function applyLabelChanges(
+  labels: string[],
+  changes: { addLabelIds?: string[]; removeLabelIds?: string[] }
+): string[] {
+  const removed = new Set(changes.removeLabelIds || []);
+  const result = labels.filter(label => !removed.has(label));
+  for (const label of changes.addLabelIds || []) {
+    if (!result.includes(label)) result.push(label);
+  }
+  return result;
+}
+
 export class OperationHistoryService {
-  private supabase = createClient();
+  private supabase: Promise<SupabaseClient>;
+  private userId?: string;
+  private retentionDays: number;
+
+  constructor(options: OperationHistoryOptions = {}) {
+    // Runs on the server; without a client of its own it uses the request's session
+    this.supabase = options.supabase ? Promise.resolve(options.supabase) : createClient();
+    this.userId = options.userId;
+    this.retentionDays = options.retentionDays
+      ?? (Number(process.env.OPERATION_HISTORY_RETENTION_DAYS) || DEFAULT_HISTORY_RETENTION_DAYS);
+  }
 
   /**
    * Record a new operation in history for potential undo
    */
   async recordOperation(operation: UndoableOperation): Promise<string | null> {
     try {
-      const { data: { user } } = await this.supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      const userId = await this.getCurrentUserId();
+      if (!userId) throw new Error('User not authenticated');
 
-      const { data, error } = await this.supabase
+      const supabase = await this.supabase;
+      const { data, error } = await supabase
         .from('operation_history')
         .insert({
-          user_id: user.id,
+          user_id: userId,
           operation_type: operation.operation_type,
           affected_emails: operation.affected_emails,
           operation_details: operation.operation_details,
@@ -55,7 +159,7 @@ export class OperationHistoryService {
 
       if (error) throw error;
       
-      // Clean up old entries (keep only last 50 per user)
+      // Drop entries that have aged out of the retention window
       await this.cleanupOldEntries();
       
       return data.id;
@@ -70,16 +174,17 @@ export class OperationHistoryService {
    */
   async getUndoableOperations(limit: number = 10): Promise<OperationHistoryEntry[]> {
     try {
-      const { data: { user } } = await this.supabase.auth.getUser();
-      if (!user) return [];
+      const userId = await this.getCurrentUserId();
+      if (!userId) return [];
 
-      const { data, error } = await this.supabase
+      const supabase = await this.supabase;
+      const { data, error } = await supabase
         .from('operation_history')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('user_id', userId)
         .eq('can_undo', true)
         .is('undone_at', null)
-        .gte('timestamp', new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString()) // Last 48 hours
+        .gte('timestamp', this.getRetentionCutoff().toISOString())
         .order('timestamp', { ascending: false })
         .limit(limit);
 
@@ -96,15 +201,16 @@ export class OperationHistoryService {
    */
   async undoOperation(operationId: string, gmailService: GmailService): Promise<boolean> {
     try {
-      const { data: { user } } = await this.supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      const userId = await this.getCurrentUserId();
+      if (!userId) throw new Error('User not authenticated');
 
       // Get the operation details
-      const { data: operation, error: fetchError } = await this.supabase
+      const supabase = await this.supabase;
+      const { data: operation, error: fetchError } = await supabase
         .from('operation_history')
         .select('*')
         .eq('id', operationId)
-        .eq('user_id', user.id)
+        .eq('user_id', userId)
         .eq('can_undo', true)
         .is('undone_at', null)
         .single();
@@ -113,61 +219,116 @@ export class OperationHistoryService {
         throw new Error('Operation not found or cannot be undone');
       }
 
-      // Check if operation is still within undo window (48 hours)
-      const operationTime = new Date(operation.timestamp);
-      const now = new Date();
-      const hoursDiff = (now.getTime() - operationTime.getTime()) / (1000 * 60 * 60);
-      
-      if (hoursDiff > 48) {
-        throw new Error('Operation is too old to undo (48 hour limit)');
+      if (new Date(operation.timestamp) < this.getRetentionCutoff()) {
+        throw new Error(`Operation is too old to undo (${this.retentionDays} day limit)`);
       }
 
-      // Perform the undo operation
-      const undoSuccess = await this.performUndo(operation, gmailService);
-      
-      if (undoSuccess) {
-        // Record the undo operation
-        const undoOperationId = await this.recordOperation({
-          operation_type: this.getUndoOperationType(operation.operation_type),
-          affected_emails: operation.affected_emails,
-          operation_details: {
-            ...operation.operation_details,
-            undoing_operation_id: operationId,
-          },
-        });
-
-        // Mark original operation as undone
-        const { error: updateError } = await this.supabase
-          .from('operation_history')
-          .update({
-            undone_at: new Date().toISOString(),
-            undo_operation_id: undoOperationId,
-          })
-          .eq('id', operationId);
-
-        if (updateError) throw updateError;
-        return true;
+      const result = await this.undoEntry(operation, gmailService);
+      if (result.errors.length > 0) {
+        console.error(`Undo of ${operationId} reported errors:`, result.errors);
       }
-
-      return false;
+      return result.success;
     } catch (error) {
       console.error('Error undoing operation:', error);
       return false;
     }
   }
 
+  /**
+   * Put the mailbox back the way it was at `target` by undoing every later
+   * operation, newest first. An operation and its later undos and redos form
+   * a chain whose net effect is that of its last entry, so only that one is
+   * undone, and only when the chain has an odd number of entries. Operations
+   * that cannot be reversed (sent mail, unsubscribes) are reported as skipped.
+   */
+  async restoreToPointInTime(target: Date, gmailService: GmailService): Promise<PointInTimeRestoreResult> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+
+    if (target < this.getRetentionCutoff()) {
+      throw new Error(`History only goes back ${this.retentionDays} days`);
+    }
+    if (target > new Date()) {
+      throw new Error('Restore point is in the future');
+    }
+
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
+      .from('operation_history')
+      .select('*')
+      .eq('user_id', userId)
+      .gt('timestamp', target.toISOString())
+      .order('timestamp', { ascending: false })
+      .limit(MAX_RESTORE_OPERATIONS + 1);
+
+    if (error) throw error;
+
+    const entries: OperationHistoryEntry[] = data || [];
+    if (entries.length > MAX_RESTORE_OPERATIONS) {
+      throw new Error(`More than ${MAX_RESTORE_OPERATIONS} operations since then; choose a later restore point`);
+    }
+
+    const laterEntries = new Map(entries.map(entry => [entry.id, entry]));
+    const chainEnds: OperationHistoryEntry[] = [];
+    for (const entry of entries) {
+      // Chains are followed from their first entry after the target
+      const undoing = entry.operation_details.undoing_operation_id;
+      if (entry.operation_type === 'undo' && undoing && laterEntries.has(undoing)) continue;
+
+      let last = entry;
+      let length = 1;
+      while (last.undo_operation_id && laterEntries.has(last.undo_operation_id)) {
+        last = laterEntries.get(last.undo_operation_id)!;
+        length++;
+      }
+      // An even number of entries cancels out
+      if (length % 2 === 1) chainEnds.push(last);
+    }
+    chainEnds.sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+
+    const result: PointInTimeRestoreResult = {
+      success: true,
+      restoreTarget: target.toISOString(),
+      undoneOperations: [],
+      skippedOperations: [],
+      failedOperations: [],
+    };
+
+    for (const entry of chainEnds) {
+      if (!entry.can_undo || entry.undone_at) {
+        result.skippedOperations.push({
+          id: entry.id,
+          operation_type: entry.operation_type,
+          reason: entry.undone_at ? 'Already undone' : 'This operation cannot be reversed',
+        });
+        continue;
+      }
+
+      const undo = await this.undoEntry(entry, gmailService, { restoreTarget: result.restoreTarget });
+      if (undo.success) {
+        result.undoneOperations.push(entry.id);
+      } else {
+        result.success = false;
+        result.failedOperations.push({ id: entry.id, operation_type: entry.operation_type, errors: undo.errors });
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Get operation history for display
    */
   async getOperationHistory(limit: number = 50): Promise<OperationHistoryEntry[]> {
     try {
-      const { data: { user } } = await this.supabase.auth.getUser();
-      if (!user) return [];
+      const userId = await this.getCurrentUserId();
+      if (!userId) return [];
 
-      const { data, error } = await this.supabase
+      const supabase = await this.supabase;
+      const { data, error } = await supabase
         .from('operation_history')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('user_id', userId)
         .order('timestamp', { ascending: false })
         .limit(limit);
 
@@ -180,124 +341,159 @@ export class OperationHistoryService {
   }
 
   /**
-   * Perform the actual undo operation
+   * Revert one entry, record the inverse as an "undo" entry (itself undoable,
+   * which makes it a redo) and mark the original as undone
    */
-  private async performUndo(operation: OperationHistoryEntry, gmailService: GmailService): Promise<boolean> {
-    try {
-      const emailIds = operation.affected_emails.map(email => email.id);
-
-      switch (operation.operation_type) {
-        case 'archive':
-          // Restore emails to inbox
-          return await this.restoreToInbox(emailIds, gmailService);
-
-        case 'delete':
-          // Restore from trash (if still in trash)
-          return await this.restoreFromTrash(emailIds, gmailService);
-
-        case 'label':
-          // Remove added labels and restore original labels
-          return await this.undoLabelOperation(operation, gmailService);
-
-        case 'mark_read':
-          // Mark emails as unread
-          return await this.markAsUnread(emailIds, gmailService);
-
-        default:
-          console.warn(`Undo not implemented for operation type: ${operation.operation_type}`);
-          return false;
-      }
-    } catch (error) {
-      console.error('Error performing undo:', error);
-      return false;
+  private async undoEntry(
+    operation: OperationHistoryEntry,
+    gmailService: GmailService,
+    details: { restoreTarget?: string } = {}
+  ): Promise<UndoResult> {
+    const { processedCount, errors, failedIds } = await this.revertLabelSnapshots(operation, gmailService);
+
+    // Nothing could be restored (e.g. every message was purged from the trash)
+    if (processedCount === 0 && errors.length > 0) {
+      return { success: false, processedCount, errors, undoOperationId: null };
     }
-  }
 
-  private async restoreToInbox(emailIds: string[], gmailService: GmailService): Promise<boolean> {
-    try {
-      const result = await gmailService.labelEmails(emailIds, ['INBOX']);
-      return result.success;
-    } catch (error) {
-      console.error('Error restoring to inbox:', error);
-      return false;
+    const undoOperationId = await this.recordOperation({
+      operation_type: 'undo',
+      affected_emails: operation.affected_emails
+        .filter(email => !failedIds.has(email.id))
+        .map(email => ({
+          ...email,
+          originalLabels: this.getResultLabels(operation, email),
+          resultLabels: email.originalLabels,
+        })),
+      operation_details: {
+        undoing_operation_id: operation.id,
+        undoneType: operation.operation_type,
+        restoreTarget: details.restoreTarget,
+      },
+    });
+
+    const supabase = await this.supabase;
+    const { error: updateError } = await supabase
+      .from('operation_history')
+      .update({
+        undone_at: new Date().toISOString(),
+        undo_operation_id: undoOperationId,
+      })
+      .eq('id', operation.id);
+
+    if (updateError) {
+      errors.push(`Failed to mark operation as undone: ${updateError.message}`);
     }
-  }
 
-  private async restoreFromTrash(emailIds: string[], gmailService: GmailService): Promise<boolean> {
-    // Note: Gmail API doesn't support untrashing emails directly
-    // This would require more complex implementation
-    console.warn('Restore from trash not yet implemented');
-    return false;
+    return { success: errors.length === 0, processedCount, errors, undoOperationId };
   }
 
-  private async undoLabelOperation(operation: OperationHistoryEntry, gmailService: GmailService): Promise<boolean> {
-    try {
-      const emailIds = operation.affected_emails.map(email => email.id);
-      const { addedLabels = [], removedLabels = [] } = operation.operation_details;
+  /**
+   * Move each email's labels from its "after" snapshot back to its "before"
+   * snapshot. Only labels the operation changed are touched, so later edits
+   * to other labels survive. Emails needing the same change are batched.
+   */
+  private async revertLabelSnapshots(
+    operation: OperationHistoryEntry,
+    gmailService: GmailService
+  ): Promise<{ processedCount: number; errors: string[]; failedIds: Set<string> }> {
+    const groups = new Map<string, { add: string[]; remove: string[]; ids: string[] }>();
+
+    for (const email of operation.affected_emails) {
+      const before = email.originalLabels || [];
+      const after = this.getResultLabels(operation, email);
+      const add = before.filter(label => !after.includes(label)).sort();
+      const remove = after.filter(label => !before.includes(label)).sort();
+      if (add.length === 0 && remove.length === 0) continue;
+
+      const key = JSON.stringify([add, remove]);
+      const group = groups.get(key) || { add, remove, ids: [] };
+      group.ids.push(email.id);
+      groups.set(key, group);
+    }
 
-      // Remove labels that were added
-      if (addedLabels.length > 0) {
-        await gmailService.labelEmails(emailIds, [], addedLabels);
+    const errors: string[] = [];
+    const failedIds = new Set<string>();
+    let processedCount = 0;
+
+    for (const group of groups.values()) {
+      let ids = group.ids;
+      let remove = group.remove;
+
+      // Trashed messages must be untrashed; TRASH cannot simply be removed as a label
+      if (remove.includes('TRASH')) {
+        const untrash = await gmailService.untrashEmails(ids);
+        errors.push(...untrash.errors);
+        if (untrash.failedIds?.length) {
+          untrash.failedIds.forEach(id => failedIds.add(id));
+          ids = ids.filter(id => !failedIds.has(id));
+        }
+        remove = remove.filter(label => label !== 'TRASH');
       }
 
-      // Restore labels that were removed
-      if (removedLabels.length > 0) {
-        await gmailService.labelEmails(emailIds, removedLabels);
+      if (ids.length === 0) continue;
+
+      if (group.add.length > 0 || remove.length > 0) {
+        const result = await gmailService.batchModifyLabels(
+          ids,
+          { addLabelIds: group.add, removeLabelIds: remove },
+          'undo'
+        );
+        errors.push(...result.errors);
+        processedCount += result.processedCount;
+      } else {
+        processedCount += ids.length;
       }
-
-      return true;
-    } catch (error) {
-      console.error('Error undoing label operation:', error);
-      return false;
     }
+
+    return { processedCount, errors, failedIds };
   }
 
-  private async markAsUnread(emailIds: string[], gmailService: GmailService): Promise<boolean> {
-    try {
-      const result = await gmailService.labelEmails(emailIds, ['UNREAD']);
-      return result.success;
-    } catch (error) {
-      console.error('Error marking as unread:', error);
-      return false;
-    }
+  /**
+   * Labels right after the operation. Entries recorded before snapshots were
+   * kept only list the label delta in operation_details.
+   */
+  private getResultLabels(operation: OperationHistoryEntry, email: AffectedEmailSnapshot): string[] {
+    if (email.resultLabels) return email.resultLabels;
+
+    const { addedLabels, removedLabels } = operation.operation_details;
+    return applyLabelChanges(email.originalLabels || [], {
+      addLabelIds: addedLabels || (operation.operation_type === 'delete' ? ['TRASH'] : []),
+      removeLabelIds: removedLabels,
+    });
   }
 
-  private isUndoable(operationType: string): boolean {
-    const undoableOperations = ['archive', 'label', 'mark_read'];
-    return undoableOperations.includes(operationType);
+  private isUndoable(operationType: OperationType): boolean {
+    return UNDOABLE_OPERATIONS.includes(operationType);
   }
 
-  private getUndoOperationType(originalType: OperationHistoryEntry['operation_type']): OperationHistoryEntry['operation_type'] {
-    const undoMap: Record<string, OperationHistoryEntry['operation_type']> = {
-      'archive': 'label', // Restore to inbox
-      'label': 'label', // Modify labels
-      'mark_read': 'label', // Mark as unread
-    };
-    return undoMap[originalType] || originalType;
+  private getRetentionCutoff(): Date {
+    return new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  private async getCurrentUserId(): Promise<string | null> {
+    if (this.userId) return this.userId;
+
+    const supabase = await this.supabase;
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id || null;
   }
 
   private async cleanupOldEntries(): Promise<void> {
     try {
-      const { data: { user } } = await this.supabase.auth.getUser();
-      if (!user) return;
+      const userId = await this.getCurrentUserId();
+      if (!userId) return;
 
-      // Keep only the most recent 50 entries per user
-      const { data: oldEntries } = await this.supabase
+      const supabase = await this.supabase;
+      const { error } = await supabase
         .from('operation_history')
-        .select('id')
-        .eq('user_id', user.id)
-        .order('timestamp', { ascending: false })
-        .range(50, 1000); // Get entries beyond the first 50
-
-      if (oldEntries && oldEntries.length > 0) {
-        const idsToDelete = oldEntries.map(entry => entry.id);
-        await this.supabase
-          .from('operation_history')
-          .delete()
-          .in('id', idsToDelete);
-      }
+        .delete()
+        .eq('user_id', userId)
+        .lt('timestamp', this.getRetentionCutoff().toISOString());
+
+      if (error) throw error;
     } catch (error) {
       console.error('Error cleaning up old entries:', error);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+// Rule backtest reports. The API returns one page of results per request and
+// the rule editor merges them, so this module must stay free of server-only imports.
+
+import type { ConditionTrace } from './rule-conditions';
+
+export const BACKTEST_PAGE_SIZE = 250;
+export const BACKTEST_SAMPLE_SIZE = 25;
+export const MAX_BACKTEST_DAYS = 366;
+
+export interface BacktestMatch {
+  id: string;
+  subject: string;
+  from: string;
+  date: string;
+  fired: ConditionTrace[]; // Conditions that decided the match, with the compared values
+}
+
+export interface BacktestWeek {
+  weekStart: string; // Monday of the week, YYYY-MM-DD (UTC)
+  scanned: number;
+  matched: number;
+}
+
+export interface BacktestReport {
+  range: { start: string; end: string }; // ISO timestamps
+  scanned: number;
+  matched: number;
+  weeks: BacktestWeek[]; // Oldest first; weeks without mail are omitted
+  samples: BacktestMatch[]; // Newest first, at most BACKTEST_SAMPLE_SIZE
+  nextPageToken: string | null; // Null once the whole range has been scanned
+  estimatedTotal?: number; // Gmail's estimate of messages in the range
+}
+
+/**
+ * Gmail search for all mail (except spam and trash) received in the range
+ */
+export function buildBacktestQuery(start: Date, end: Date): string {
+  return `after:${Math.floor(start.getTime() / 1000)} before:${Math.ceil(end.getTime() / 1000)}`;
+}
+
+/**
+ * Validate a requested range. Returns an error message, or null when it is usable.
+ */
+export function getBacktestRangeError(start: Date, end: Date): string | null {
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return 'Backtest start and end must be valid dates';
+  }
+  if (start >= end) {
+    return 'Backtest start must be before its end';
+  }
+  if (end.getTime() - start.getTime() > MAX_BACKTEST_DAYS * 24 * 60 * 60 * 1000) {
+    return `Backtests can cover at most ${MAX_BACKTEST_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * Monday (UTC) of the week containing the timestamp, as YYYY-MM-DD
+ */
+export function getWeekStart(timestamp: number): string {
+  const date = new Date(timestamp);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Fold the next page into the running report
+ */
+export function mergeBacktestReports(report: BacktestReport, page: BacktestReport): BacktestReport {
+  const weeks = new Map(report.weeks.map((week) => [week.weekStart, { ...week }]));
+  for (const week of page.weeks) {
+    const existing = weeks.get(week.weekStart);
+    if (existing) {
+      existing.scanned += week.scanned;
+      existing.matched += week.matched;
+    } else {
+      weeks.set(week.weekStart, { ...week });
+    }
+  }
+
+  return {
+    range: report.range,
+    scanned: report.scanned + page.scanned,
+    matched: report.matched + page.matched,
+    weeks: Array.from(weeks.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+    samples: [...report.samples, ...page.samples].slice(0, BACKTEST_SAMPLE_SIZE),
+    nextPageToken: page.nextPageToken,
+    estimatedTotal: report.estimatedTotal ?? page.estimatedTotal,
+  };
+}
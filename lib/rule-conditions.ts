@@ -0,0 +1,251 @@
+// Rule condition trees. Shared by the rules engine, the rules API and the rule
+// editor, so this module must stay free of server-only imports.
+
+import { getRegexValidationError } from './safe-regex';
+
+export interface RuleCondition {
+  field:
+    | 'from' | 'to' | 'cc' | 'subject' | 'body' | 'has_attachment' | 'size' | 'age_days' | 'label' | 'is_unread'
+    | 'sender_domain' | 'list_id' | 'category' | 'header';
+  operator:
+    | 'contains' | 'not_contains' | 'equals' | 'starts_with' | 'ends_with' | 'greater_than' | 'less_than'
+    | 'has' | 'not_has' | 'matches_regex' | 'in_list';
+  value: string | number | boolean | string[]; // in_list accepts an array or a comma/newline separated string
+  header?: string; // Raw header name for field 'header', e.g. 'Reply-To' or 'X-Mailer'
+  case_sensitive?: boolean;
+}
+
+// Gmail inbox tabs, matched through the CATEGORY_* system labels
+export const GMAIL_CATEGORIES = ['primary', 'social', 'promotions', 'updates', 'forums'] as const;
+
+export type ConditionCombinator = 'all' | 'any' | 'none';
+
+export interface RuleConditionGroup {
+  combinator: ConditionCombinator;
+  conditions: RuleConditionNode[];
+}
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+// Rules saved before condition groups existed store a flat array, which meant "all"
+export type StoredRuleConditions = RuleConditionGroup | RuleCondition[];
+
+export const CONDITION_COMBINATORS: ConditionCombinator[] = ['all', 'any', 'none'];
+
+export const CONDITION_FIELDS: RuleCondition['field'][] = [
+  'from', 'to', 'cc', 'subject', 'body', 'has_attachment', 'size', 'age_days', 'label', 'is_unread',
+  'sender_domain', 'list_id', 'category', 'header',
+];
+
+export const CONDITION_OPERATORS: RuleCondition['operator'][] = [
+  'contains', 'not_contains', 'equals', 'starts_with', 'ends_with', 'greater_than', 'less_than',
+  'has', 'not_has', 'matches_regex', 'in_list',
+];
+
+// Header names are RFC 5322 field names: printable ASCII except colon
+const HEADER_NAME_PATTERN = /^[!-9;-~]{1,76}$/;
+
+export const MAX_CONDITION_DEPTH = 5;
+export const MAX_CONDITIONS = 50;
+
+export function isConditionGroup(node: unknown): node is RuleConditionGroup {
+  return typeof node === 'object' && node !== null && 'combinator' in node;
+}
+
+/**
+ * Convert stored conditions (legacy flat array or group tree) to a group tree
+ */
+export function normalizeConditions(conditions: StoredRuleConditions): RuleConditionGroup {
+  if (Array.isArray(conditions)) {
+    return { combinator: 'all', conditions };
+  }
+  return conditions;
+}
+
+/**
+ * Split an in_list value into trimmed, non-empty entries
+ */
+export function parseListValue(value: RuleCondition['value']): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(/[,\n]/);
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Raw header names referenced by 'header' conditions, so callers can ask Gmail for them
+ */
+export function collectConditionHeaders(conditions: StoredRuleConditions): string[] {
+  const headers = new Set<string>();
+  const visit = (node: RuleConditionNode) => {
+    if (isConditionGroup(node)) {
+      node.conditions.forEach(visit);
+    } else if (node.field === 'header' && node.header) {
+      headers.add(node.header);
+    }
+  };
+  normalizeConditions(conditions).conditions.forEach(visit);
+  return Array.from(headers);
+}
+
+/**
+ * Evaluate a condition tree, delegating leaf conditions to evaluateLeaf.
+ * An empty group matches for "all" and "none" and never for "any".
+ */
+export function evaluateConditionTree(
+  node: RuleConditionNode,
+  evaluateLeaf: (condition: RuleCondition) => boolean
+): boolean {
+  if (!isConditionGroup(node)) {
+    return evaluateLeaf(node);
+  }
+
+  const matches = (child: RuleConditionNode) => evaluateConditionTree(child, evaluateLeaf);
+
+  switch (node.combinator) {
+    case 'all':
+      return node.conditions.every(matches);
+    case 'any':
+      return node.conditions.some(matches);
+    case 'none':
+      return !node.conditions.some(matches);
+    default:
+      return false;
+  }
+}
+
+/**
+ * One leaf condition tested against a message, with the values compared
+ */
+export interface ConditionTrace {
+  field: RuleCondition['field'];
+  operator: RuleCondition['operator'];
+  header?: string;
+  expected: RuleCondition['value'];
+  actual: unknown;
+  matched: boolean;
+}
+
+/**
+ * Evaluate a condition tree like evaluateConditionTree and also return the
+ * leaf conditions that decided the result: the matching leaves of "all" and
+ * "any" groups, and the non-matching leaves that satisfied a "none" group.
+ */
+export function explainConditionTree(
+  node: RuleConditionNode,
+  traceLeaf: (condition: RuleCondition) => ConditionTrace
+): { matched: boolean; fired: ConditionTrace[] } {
+  if (!isConditionGroup(node)) {
+    const trace = traceLeaf(node);
+    return { matched: trace.matched, fired: [trace] };
+  }
+
+  const fired: ConditionTrace[] = [];
+
+  switch (node.combinator) {
+    case 'all':
+      for (const child of node.conditions) {
+        const result = explainConditionTree(child, traceLeaf);
+        if (!result.matched) return { matched: false, fired: [] };
+        fired.push(...result.fired);
+      }
+      return { matched: true, fired };
+    case 'any': {
+      let matched = false;
+      for (const child of node.conditions) {
+        const result = explainConditionTree(child, traceLeaf);
+        if (result.matched) {
+          matched = true;
+          fired.push(...result.fired);
+        }
+      }
+      return { matched, fired };
+    }
+    case 'none':
+      for (const child of node.conditions) {
+        const result = explainConditionTree(child, traceLeaf);
+        if (result.matched) return { matched: false, fired: [] };
+        fired.push(...result.fired);
+      }
+      return { matched: true, fired };
+    default:
+      return { matched: false, fired: [] };
+  }
+}
+
+/**
+ * Check that a request body holds a well-formed condition tree (or legacy flat
+ * array). Returns an error message, or null when the conditions are valid.
+ */
+export function validateConditions(conditions: unknown): string | null {
+  if (Array.isArray(conditions)) {
+    if (conditions.length === 0) return 'Conditions must be a non-empty array';
+
+    const totals = { count: 0 };
+    for (let i = 0; i < conditions.length; i++) {
+      const error = validateNode(conditions[i], `conditions[${i}]`, 2, totals);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if (!isConditionGroup(conditions)) {
+    return 'Conditions must be a condition group or a non-empty array';
+  }
+
+  return validateNode(conditions, 'conditions', 1, { count: 0 });
+}
+
+function validateNode(node: unknown, path: string, depth: number, totals: { count: number }): string | null {
+  if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+    return `${path} must be a condition or a condition group`;
+  }
+
+  if (isConditionGroup(node)) {
+    if (depth > MAX_CONDITION_DEPTH) {
+      return `Condition groups cannot be nested more than ${MAX_CONDITION_DEPTH} levels deep`;
+    }
+    if (!CONDITION_COMBINATORS.includes(node.combinator)) {
+      return `${path}.combinator must be one of: ${CONDITION_COMBINATORS.join(', ')}`;
+    }
+    if (!Array.isArray(node.conditions) || node.conditions.length === 0) {
+      return `${path}.conditions must be a non-empty array`;
+    }
+
+    for (let i = 0; i < node.conditions.length; i++) {
+      const error = validateNode(node.conditions[i], `${path}.conditions[${i}]`, depth + 1, totals);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  const condition = node as Partial<RuleCondition>;
+  if (!condition.field || !condition.operator || condition.value === undefined) {
+    return `${path}: each condition must have field, operator, and value`;
+  }
+  if (!CONDITION_FIELDS.includes(condition.field)) {
+    return `${path}: unknown field "${condition.field}"`;
+  }
+  if (!CONDITION_OPERATORS.includes(condition.operator)) {
+    return `${path}: unknown operator "${condition.operator}"`;
+  }
+  if (condition.field === 'header' && (!condition.header || !HEADER_NAME_PATTERN.test(condition.header))) {
+    return `${path}: header conditions need a valid header name`;
+  }
+  if (condition.operator === 'matches_regex') {
+    const regexError = getRegexValidationError(String(condition.value));
+    if (regexError) return `${path}: ${regexError}`;
+  }
+  if (condition.operator === 'in_list' && parseListValue(condition.value).length === 0) {
+    return `${path}: in_list needs at least one value`;
+  }
+  if (condition.field === 'category' && condition.operator === 'equals'
+    && !(GMAIL_CATEGORIES as readonly string[]).includes(String(condition.value).toLowerCase())) {
+    return `${path}: category must be one of: ${GMAIL_CATEGORIES.join(', ')}`;
+  }
+
+  totals.count++;
+  if (totals.count > MAX_CONDITIONS) {
+    return `Rules cannot have more than ${MAX_CONDITIONS} conditions`;
+  }
+
+  return null;
+}
@@ -0,0 +1,336 @@
+// Static analysis of a user's rule set: which rules can match the same
+// message and whether their actions fight. Shared by the rules API and the
+// rule editor, so this module must stay free of server-only imports.
+
+import {
+  RuleCondition,
+  RuleConditionNode,
+  StoredRuleConditions,
+  isConditionGroup,
+  normalizeConditions,
+  parseListValue,
+} from './rule-conditions';
+
+export type RuleConflictType =
+  | 'contradictory_actions' // Both rules can match a message and their actions undo or discard each other
+  | 'duplicate_conditions' // Same conditions; usually one rule should absorb the other's actions
+  | 'shadowed' // A stop_processing rule runs first and matches everything the later rule does
+  | 'stops_processing'; // A stop_processing rule runs first and takes some of the later rule's messages
+
+export interface RuleConflict {
+  type: RuleConflictType;
+  severity: 'warning' | 'info';
+  ruleIds: [string, string]; // The rule that runs first, then the later one
+  message: string;
+}
+
+export interface AnalyzableRule {
+  id: string;
+  name: string;
+  conditions: StoredRuleConditions;
+  actions: { type: string; value?: string }[];
+  is_active: boolean;
+  priority?: number;
+  stop_processing?: boolean;
+  created_at: string;
+}
+
+// Action pairs that cannot both take effect on the same message
+const CONTRADICTORY_ACTIONS: [string, string][] = [
+  ['star', 'unstar'],
+  ['mark_read', 'mark_unread'],
+  ['delete', 'star'],
+  ['delete', 'label'],
+  ['delete', 'mark_unread'],
+];
+
+const ACTION_VERBS: Record<string, string> = {
+  archive: 'archives',
+  delete: 'deletes',
+  label: 'labels',
+  mark_read: 'marks as read',
+  mark_unread: 'marks as unread',
+  star: 'stars',
+  unstar: 'unstars',
+  forward: 'forwards',
+};
+
+// Fields holding one value per message, so two different "equals" can't both hold
+const SINGLE_VALUE_FIELDS: RuleCondition['field'][] = [
+  'from', 'subject', 'sender_domain', 'list_id', 'category', 'header', 'has_attachment', 'is_unread', 'size', 'age_days',
+];
+
+/**
+ * Rules run highest priority first; equal priorities run oldest first
+ */
+export function sortRulesByPriority<T extends Pick<AnalyzableRule, 'priority' | 'created_at'>>(rules: T[]): T[] {
+  return [...rules].sort((a, b) =>
+    (b.priority ?? 0) - (a.priority ?? 0) || a.created_at.localeCompare(b.created_at)
+  );
+}
+
+/**
+ * Compare every pair of active rules in execution order. Two rules overlap
+ * when one of them requires something the other implies (e.g. from equals
+ * "deals@shop.com" and from contains "shop.com") and nothing in their
+ * conditions excludes the other.
+ */
+export function analyzeRuleConflicts(rules: AnalyzableRule[]): RuleConflict[] {
+  const ordered = sortRulesByPriority(rules.filter(rule => rule.is_active));
+  const conflicts: RuleConflict[] = [];
+
+  for (let i = 0; i < ordered.length; i++) {
+    for (let j = i + 1; j < ordered.length; j++) {
+      const conflict = analyzePair(ordered[i], ordered[j]);
+      if (conflict) conflicts.push(conflict);
+    }
+  }
+
+  return conflicts;
+}
+
+function analyzePair(first: AnalyzableRule, second: AnalyzableRule): RuleConflict | null {
+  const ruleIds: [string, string] = [first.id, second.id];
+  const firstTree = normalizeConditions(first.conditions);
+  const secondTree = normalizeConditions(second.conditions);
+
+  if (!overlaps(firstTree, secondTree)) return null;
+
+  if (first.stop_processing) {
+    if (subsumes(firstTree, secondTree)) {
+      return {
+        type: 'shadowed',
+        severity: 'warning',
+        ruleIds,
+        message: `"${second.name}" never runs: "${first.name}" runs first, matches every message it would, and stops processing`,
+      };
+    }
+    return {
+      type: 'stops_processing',
+      severity: 'info',
+      ruleIds,
+      message: `"${first.name}" stops processing, so "${second.name}" skips messages both rules match`,
+    };
+  }
+
+  const contradiction = findContradiction(first, second);
+  if (contradiction) {
+    const [firstAction, secondAction] = contradiction;
+    return {
+      type: 'contradictory_actions',
+      severity: 'warning',
+      ruleIds,
+      message: firstAction === 'delete' || secondAction === 'delete'
+        ? `"${first.name}" ${ACTION_VERBS[firstAction]} and "${second.name}" ${ACTION_VERBS[secondAction]} the same messages`
+        : `"${first.name}" ${ACTION_VERBS[firstAction]} messages that "${second.name}" then ${ACTION_VERBS[secondAction]}`,
+    };
+  }
+
+  if (stableStringify(firstTree) === stableStringify(secondTree)) {
+    return {
+      type: 'duplicate_conditions',
+      severity: 'info',
+      ruleIds,
+      message: `"${first.name}" and "${second.name}" have the same conditions; consider merging their actions`,
+    };
+  }
+
+  return null;
+}
+
+function findContradiction(first: AnalyzableRule, second: AnalyzableRule): [string, string] | null {
+  const firstTypes = first.actions.map(action => action.type);
+  const secondTypes = second.actions.map(action => action.type);
+
+  for (const [a, b] of CONTRADICTORY_ACTIONS) {
+    if (firstTypes.includes(a) && secondTypes.includes(b)) return [a, b];
+    if (firstTypes.includes(b) && secondTypes.includes(a)) return [b, a];
+  }
+  return null;
+}
+
+/**
+ * Leaf conditions every matching message satisfies (from nested "all" groups
+ * and single-child "any" groups), and leaves of "none" groups it never satisfies
+ */
+function collectConstraints(node: RuleConditionNode): { required: RuleCondition[]; excluded: RuleCondition[] } {
+  const required: RuleCondition[] = [];
+  const excluded: RuleCondition[] = [];
+
+  const visit = (current: RuleConditionNode) => {
+    if (!isConditionGroup(current)) {
+      required.push(current);
+      return;
+    }
+    if (current.combinator === 'all' || (current.combinator === 'any' && current.conditions.length === 1)) {
+      current.conditions.forEach(visit);
+    } else if (current.combinator === 'none') {
+      excluded.push(...current.conditions.filter((child): child is RuleCondition => !isConditionGroup(child)));
+    }
+  };
+
+  visit(node);
+  return { required, excluded };
+}
+
+function overlaps(a: RuleConditionNode, b: RuleConditionNode): boolean {
+  const first = collectConstraints(a);
+  const second = collectConstraints(b);
+
+  for (const condition of first.required) {
+    if (second.required.some(other => excludes(condition, other))) return false;
+    if (second.excluded.some(other => sameCondition(condition, other))) return false;
+  }
+  for (const condition of second.required) {
+    if (first.excluded.some(other => sameCondition(condition, other))) return false;
+  }
+
+  return first.required.some(condition =>
+    second.required.some(other => implies(condition, other) || implies(other, condition))
+  );
+}
+
+/**
+ * True when every message `narrow` matches is also matched by `broad`: `broad`
+ * is a plain "all" of leaves, each implied by something `narrow` requires
+ */
+function subsumes(broad: RuleConditionNode, narrow: RuleConditionNode): boolean {
+  if (!isConditionGroup(broad) || broad.combinator !== 'all') return false;
+  if (broad.conditions.some(isConditionGroup)) return false;
+
+  const { required } = collectConstraints(narrow);
+  return (broad.conditions as RuleCondition[]).every(condition =>
+    required.some(other => implies(other, condition))
+  );
+}
+
+/**
+ * Whether every message satisfying `a` also satisfies `b`
+ */
+function implies(a: RuleCondition, b: RuleCondition): boolean {
+  if (sameCondition(a, b)) return true;
+  if (!sameSubject(a, b) || a.field === 'label' || a.field === 'has_attachment' || a.field === 'is_unread') return false;
+
+  if (a.operator === 'greater_than' && b.operator === 'greater_than') return Number(a.value) >= Number(b.value);
+  if (a.operator === 'less_than' && b.operator === 'less_than') return Number(a.value) <= Number(b.value);
+  if (a.operator === 'matches_regex' || b.operator === 'matches_regex') return false;
+
+  const fold = caseFolder(a, b);
+  const left = fold(String(a.value));
+  const right = fold(String(b.value));
+
+  switch (a.operator) {
+    case 'equals':
+      switch (b.operator) {
+        case 'equals':
+          return left === right;
+        case 'contains':
+          return left.includes(right);
+        case 'starts_with':
+          return left.startsWith(right);
+        case 'ends_with':
+          return left.endsWith(right);
+        case 'in_list':
+          return parseListValue(b.value).some(item => fold(item) === left);
+        default:
+          return false;
+      }
+    case 'contains':
+      return b.operator === 'contains' && left.includes(right);
+    case 'starts_with':
+      if (b.operator === 'starts_with') return left.startsWith(right);
+      return b.operator === 'contains' && left.includes(right);
+    case 'ends_with':
+      if (b.operator === 'ends_with') return left.endsWith(right);
+      return b.operator === 'contains' && left.includes(right);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether no message can satisfy both conditions
+ */
+function excludes(a: RuleCondition, b: RuleCondition): boolean {
+  if (!sameSubject(a, b)) return false;
+
+  if (a.field === 'label') {
+    return a.value === b.value && a.operator !== b.operator;
+  }
+  if (a.field === 'has_attachment' || a.field === 'is_unread') {
+    return a.value !== b.value;
+  }
+
+  return excludesOneWay(a, b) || excludesOneWay(b, a);
+}
+
+function excludesOneWay(a: RuleCondition, b: RuleCondition): boolean {
+  if (a.operator === 'greater_than' && b.operator === 'less_than') {
+    return Number(b.value) <= Number(a.value);
+  }
+
+  if (a.operator === 'matches_regex' || b.operator === 'matches_regex') return false;
+
+  const fold = caseFolder(a, b);
+  const left = fold(String(a.value));
+  const right = fold(String(b.value));
+
+  switch (a.operator) {
+    case 'equals':
+      if (!SINGLE_VALUE_FIELDS.includes(a.field)) return false;
+      switch (b.operator) {
+        case 'equals':
+          return left !== right;
+        case 'contains':
+          return !left.includes(right);
+        case 'not_contains':
+          return left.includes(right);
+        case 'starts_with':
+          return !left.startsWith(right);
+        case 'ends_with':
+          return !left.endsWith(right);
+        case 'in_list':
+          return !parseListValue(b.value).some(item => fold(item) === left);
+        default:
+          return false;
+      }
+    case 'contains':
+    case 'starts_with':
+    case 'ends_with':
+      // A value containing "abc" also contains "b"
+      return b.operator === 'not_contains' && left.includes(right);
+    case 'in_list':
+      if (b.operator !== 'in_list' || !SINGLE_VALUE_FIELDS.includes(a.field)) return false;
+      return !parseListValue(a.value).some(item =>
+        parseListValue(b.value).some(other => fold(item) === fold(other))
+      );
+    default:
+      return false;
+  }
+}
+
+function sameSubject(a: RuleCondition, b: RuleCondition): boolean {
+  if (a.field !== b.field) return false;
+  return a.field !== 'header' || (a.header || '').toLowerCase() === (b.header || '').toLowerCase();
+}
+
+// Text comparisons ignore case unless both conditions are case sensitive
+function caseFolder(a: RuleCondition, b: RuleCondition): (value: string) => string {
+  const caseSensitive = Boolean(a.case_sensitive && b.case_sensitive);
+  return (value: string) => (caseSensitive ? value : value.toLowerCase());
+}
+
+function sameCondition(a: RuleCondition, b: RuleCondition): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,266 @@
+// Compiles rule condition trees into Gmail search queries so scheduled rules
+// let Gmail do the filtering and only check what search can't express.
+
+import { SearchBuilder, SearchCondition } from './search-builder';
+import {
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  StoredRuleConditions,
+  isConditionGroup,
+  normalizeConditions,
+  parseListValue,
+} from './rule-conditions';
+
+export interface CompiledRuleQuery {
+  query: string; // Gmail search terms; empty when nothing could be expressed
+  residual: RuleConditionGroup | null; // Conditions still checked per message; null when Gmail's results are exact
+}
+
+interface CompiledNode {
+  query: string | null; // Null when Gmail search can't narrow the node
+  exact: boolean; // Gmail returns exactly the messages the node matches
+}
+
+/**
+ * Compile conditions into the tightest Gmail query that returns every
+ * matching message. Gmail matches whole words where rules match substrings,
+ * so substring conditions (contains, starts with, ends with) are left out of
+ * the query and only checked locally; a search term would drop mail such as
+ * "Newsletter" for contains "news". Whole-value conditions narrow the search
+ * and are still checked locally.
+ * labelNames maps user label ids to names, since search only knows names.
+ */
+export function compileRuleQuery(
+  conditions: StoredRuleConditions,
+  labelNames: Map<string, string> = new Map()
+): CompiledRuleQuery {
+  const tree = normalizeConditions(conditions);
+  const compiled = compileNode(tree, labelNames);
+
+  return {
+    query: compiled.query || '',
+    residual: compiled.exact ? null : residualOf(tree, labelNames),
+  };
+}
+
+/**
+ * Restrict a search scope (e.g. "in:inbox") to a compiled rule query
+ */
+export function buildRuleSearch(scope: string, compiled: CompiledRuleQuery): string {
+  return [scope.trim(), compiled.query].filter(Boolean).join(' ');
+}
+
+/**
+ * Whether compiling needs the user's label names
+ */
+export function usesLabelConditions(conditions: StoredRuleConditions): boolean {
+  const visit = (node: RuleConditionNode): boolean =>
+    isConditionGroup(node) ? node.conditions.some(visit) : node.field === 'label';
+  return visit(normalizeConditions(conditions));
+}
+
+function compileNode(node: RuleConditionNode, labelNames: Map<string, string>): CompiledNode {
+  if (!isConditionGroup(node)) return compileCondition(node, labelNames);
+
+  const children = node.conditions.map(child => compileNode(child, labelNames));
+  const exact = children.every(child => child.exact);
+
+  switch (node.combinator) {
+    case 'all': {
+      const terms = children.map(child => child.query).filter((query): query is string => Boolean(query));
+      return { query: terms.length > 0 ? terms.join(' ') : null, exact };
+    }
+    case 'any':
+      // One branch Gmail can't narrow means any message might match
+      if (children.some(child => !child.query)) return { query: null, exact: false };
+      return { query: anyOf(children.map(child => child.query!)), exact };
+    case 'none': {
+      // Negating an approximate query would drop real matches, so only exact branches are excluded
+      const terms = children.filter(child => child.exact && child.query).map(child => negate(child.query!));
+      return { query: terms.length > 0 ? terms.join(' ') : null, exact };
+    }
+  }
+}
+
+/**
+ * The part of an all-group Gmail can't answer exactly; other groups stay whole
+ */
+function residualOf(group: RuleConditionGroup, labelNames: Map<string, string>): RuleConditionGroup {
+  if (group.combinator !== 'all') return group;
+
+  return {
+    combinator: 'all',
+    conditions: group.conditions
+      .filter(child => !compileNode(child, labelNames).exact)
+      .map(child => (isConditionGroup(child) ? residualOf(child, labelNames) : child)),
+  };
+}
+
+function compileCondition(condition: RuleCondition, labelNames: Map<string, string>): CompiledNode {
+  const { field, operator, value } = condition;
+  const approximate = (query: string | null): CompiledNode => ({ query, exact: false });
+  const exact = (query: string | null): CompiledNode => ({ query, exact: query !== null });
+
+  if (operator === 'matches_regex') return approximate(null);
+
+  switch (field) {
+    case 'from':
+    case 'to':
+    case 'cc':
+    case 'subject':
+    case 'body':
+      return approximate(textQuery(field, operator, value, Boolean(condition.case_sensitive)));
+
+    case 'sender_domain': {
+      const domains = listValues(operator, value, ['equals'])
+        .map(domain => domain.replace(/^[@.]+/, ''));
+      return approximate(domains.length > 0 && domains.every(isSearchable) ? anyOf(domains.map(domain => `from:${domain}`)) : null);
+    }
+
+    case 'list_id': {
+      const lists = listValues(operator, value, ['equals'])
+        .map(list => list.replace(/^<|>$/g, ''));
+      return approximate(lists.length > 0 && lists.every(isSearchable) ? anyOf(lists.map(list => `list:${list}`)) : null);
+    }
+
+    case 'category': {
+      const categories = listValues(operator, value, ['equals']);
+      if (categories.length === 0) return approximate(null);
+      const query = anyOf(categories.map(category => `category:${category.toLowerCase()}`));
+      return condition.case_sensitive ? approximate(query) : exact(query);
+    }
+
+    case 'label': {
+      const term = labelTerm(String(value), labelNames);
+      if (!term || (operator !== 'has' && operator !== 'not_has')) return approximate(null);
+      if (isSystemLabel(String(value)) || String(value).startsWith('CATEGORY_')) return exact(operator === 'has' ? term : `-${term}`);
+      // Different user label names can share a search term ("a b" and "a-b"),
+      // so the term may return extra mail and can't safely exclude any
+      return approximate(operator === 'has' ? term : null);
+    }
+
+    case 'is_unread':
+      if (typeof value !== 'boolean') return approximate(null);
+      return exact(build({ field: 'read_status', operator: 'equals', value: !value }));
+
+    case 'has_attachment':
+      if (typeof value !== 'boolean') return approximate(null);
+      return exact(build({ field: 'attachment', operator: 'equals', value }));
+
+    case 'size': {
+      const bytes = Number(value);
+      if (!Number.isFinite(bytes)) return approximate(null);
+      if (operator === 'greater_than') return approximate(`larger:${Math.max(0, Math.floor(bytes))}`);
+      if (operator === 'less_than') return approximate(`smaller:${Math.ceil(bytes)}`);
+      return approximate(null);
+    }
+
+    case 'age_days': {
+      // Rules compare whole days, so these bounds are slightly wider than the rule
+      const days = Number(value);
+      if (!Number.isFinite(days) || days < 0) return approximate(null);
+      if (operator === 'greater_than') return approximate(`older_than:${Math.floor(days)}d`);
+      if (operator === 'less_than' && days >= 1) return approximate(`newer_than:${Math.ceil(days)}d`);
+      return approximate(null);
+    }
+
+    default:
+      return approximate(null);
+  }
+}
+
+function textQuery(
+  field: 'from' | 'to' | 'cc' | 'subject' | 'body',
+  operator: RuleCondition['operator'],
+  value: RuleCondition['value'],
+  caseSensitive: boolean
+): string | null {
+  if (operator === 'not_contains') {
+    // Safe only for a single word, in a header Gmail searches exactly as the rule reads it
+    // (rules read the body from the snippet, and Gmail's to: also covers Cc). Search
+    // ignores case, so a case-sensitive condition would exclude mail it matches.
+    const word = String(value);
+    if (caseSensitive) return null;
+    return (field === 'from' || field === 'subject') && /^\w+$/.test(word) ? negate(textTerm(field, word)) : null;
+  }
+
+  // A whole field made of the value's words always matches a word search; a substring may not
+  const values = listValues(operator, value, ['equals']);
+  if (values.length === 0 || !values.every(isSearchable)) return null;
+  return anyOf(values.map(text => textTerm(field, text)));
+}
+
+function textTerm(field: 'from' | 'to' | 'cc' | 'subject' | 'body', text: string): string {
+  if (field === 'cc') return `cc:${/[\s(){}[\]]/.test(text) ? `"${text}"` : text}`;
+  return build({ field: field === 'body' ? 'content' : field, operator: 'contains', value: text });
+}
+
+/**
+ * Values for operators that match one string, or each item of an in_list
+ */
+function listValues(
+  operator: RuleCondition['operator'],
+  value: RuleCondition['value'],
+  single: RuleCondition['operator'][]
+): string[] {
+  if (operator === 'in_list') return parseListValue(value);
+  return single.includes(operator) ? [String(value)] : [];
+}
+
+// Empty values and quotes can't be searched reliably; a leading dash would negate
+function isSearchable(text: string): boolean {
+  return text.trim().length > 0 && !text.includes('"') && !text.startsWith('-');
+}
+
+function labelTerm(labelId: string, labelNames: Map<string, string>): string | null {
+  // Primary also holds mail with no tab label, so CATEGORY_PERSONAL has no exact search
+  if (labelId === 'CATEGORY_PERSONAL') return null;
+  if (labelId.startsWith('CATEGORY_')) return `category:${labelId.slice('CATEGORY_'.length).toLowerCase()}`;
+  if (isSystemLabel(labelId)) return `label:${labelId.toLowerCase()}`;
+
+  const name = labelNames.get(labelId);
+  return name ? `label:${name.replace(/[\s/]+/g, '-').toLowerCase()}` : null;
+}
+
+// System labels (INBOX, STARRED, IMPORTANT, ...) are searchable by id
+function isSystemLabel(labelId: string): boolean {
+  return /^[A-Z]+$/.test(labelId);
+}
+
+function build(condition: Omit<SearchCondition, 'id'>): string {
+  return new SearchBuilder().addCondition(condition).buildQuery();
+}
+
+function anyOf(terms: string[]): string {
+  if (terms.length === 1) return terms[0];
+  // Nested OR groups are flattened into one
+  return `{${terms.map(term => (isOrGroup(term) ? term.slice(1, -1) : parenthesize(term))).join(' ')}}`;
+}
+
+function negate(query: string): string {
+  if (query.startsWith('-') && !/\s/.test(query)) return query.slice(1);
+  return `-${parenthesize(query)}`;
+}
+
+function parenthesize(query: string): string {
+  return /\s/.test(query) && !isOrGroup(query) ? `(${query})` : query;
+}
+
+/**
+ * Whether the whole query is one {...} group, ignoring braces inside quotes
+ */
+function isOrGroup(query: string): boolean {
+  if (!query.startsWith('{')) return false;
+
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (char === '"') quoted = !quoted;
+    if (quoted) continue;
+    if (char === '{') depth++;
+    if (char === '}' && --depth === 0) return i === query.length - 1;
+  }
+  return false;
+}
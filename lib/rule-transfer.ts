@@ -0,0 +1,317 @@
+// Moving rules between accounts: the portable JSON export format and the
+// import planner shared by the JSON and Sieve importers.
+
+import type { RuleAction, UserRule } from './rules-engine';
+import {
+  RuleConditionNode,
+  StoredRuleConditions,
+  isConditionGroup,
+  normalizeConditions,
+  validateConditions,
+} from './rule-conditions';
+
+export const RULES_EXPORT_VERSION = 1;
+
+const RULE_ACTION_TYPES: RuleAction['type'][] = [
+  'archive', 'delete', 'label', 'mark_read', 'mark_unread', 'forward', 'star', 'unstar',
+];
+
+const MAX_RULE_NAME_LENGTH = 255;
+export const MAX_IMPORTED_RULES = 200;
+
+/**
+ * A rule without ids, timestamps or Gmail filter links
+ */
+export interface PortableRule {
+  name: string;
+  description?: string;
+  conditions: StoredRuleConditions;
+  actions: RuleAction[];
+  is_active?: boolean; // Default true
+  priority?: number; // Default 0; higher runs first
+  stop_processing?: boolean; // Default false
+  schedule?: UserRule['schedule'] | null;
+}
+
+export interface RulesExport {
+  $schema?: string;
+  version: typeof RULES_EXPORT_VERSION;
+  exported_at: string;
+  rules: PortableRule[];
+}
+
+/**
+ * One problem found while reading an import, located by line (Sieve) or by
+ * rule position (JSON)
+ */
+export interface TransferIssue {
+  line?: number;
+  index?: number;
+  rule?: string;
+  message: string;
+}
+
+export type DuplicateStrategy = 'skip' | 'replace' | 'rename';
+
+export interface ImportPlan {
+  create: PortableRule[];
+  replace: { id: string; rule: PortableRule }[];
+  skipped: { name: string; reason: string }[];
+  issues: TransferIssue[];
+}
+
+/**
+ * JSON Schema (draft 2020-12) of the export format, served at
+ * GET /api/rules?format=schema
+ */
+export const RULES_EXPORT_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://inboxgremlin.app/schemas/rules-export.v1.json',
+  title: 'InboxGremlin rules export',
+  type: 'object',
+  required: ['version', 'rules'],
+  properties: {
+    version: { const: RULES_EXPORT_VERSION },
+    exported_at: { type: 'string', format: 'date-time' },
+    rules: {
+      type: 'array',
+      maxItems: MAX_IMPORTED_RULES,
+      items: {
+        type: 'object',
+        required: ['name', 'conditions', 'actions'],
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: MAX_RULE_NAME_LENGTH },
+          description: { type: 'string' },
+          conditions: {
+            description: 'A condition group ({ combinator: "all" | "any" | "none", conditions: [...] }) or a flat array of conditions meaning "all"',
+            oneOf: [{ $ref: '#/$defs/group' }, { type: 'array', items: { $ref: '#/$defs/condition' }, minItems: 1 }],
+          },
+          actions: { type: 'array', minItems: 1, items: { $ref: '#/$defs/action' } },
+          is_active: { type: 'boolean', default: true },
+          priority: { type: 'integer', default: 0, description: 'Higher runs first' },
+          stop_processing: { type: 'boolean', default: false },
+          schedule: {
+            type: ['object', 'null'],
+            properties: {
+              enabled: { type: 'boolean' },
+              frequency: { enum: ['hourly', 'daily', 'weekly'] },
+              time: { type: 'string', pattern: '^\\d{2}:\\d{2}$' },
+              days: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 } },
+            },
+          },
+        },
+      },
+    },
+  },
+  $defs: {
+    group: {
+      type: 'object',
+      required: ['combinator', 'conditions'],
+      properties: {
+        combinator: { enum: ['all', 'any', 'none'] },
+        conditions: {
+          type: 'array',
+          minItems: 1,
+          items: { oneOf: [{ $ref: '#/$defs/group' }, { $ref: '#/$defs/condition' }] },
+        },
+      },
+    },
+    condition: {
+      type: 'object',
+      required: ['field', 'operator', 'value'],
+      properties: {
+        field: {
+          enum: ['from', 'to', 'cc', 'subject', 'body', 'has_attachment', 'size', 'age_days', 'label', 'is_unread',
+            'sender_domain', 'list_id', 'category', 'header'],
+        },
+        operator: {
+          enum: ['contains', 'not_contains', 'equals', 'starts_with', 'ends_with', 'greater_than', 'less_than',
+            'has', 'not_has', 'matches_regex', 'in_list'],
+        },
+        value: { type: ['string', 'number', 'boolean', 'array'] },
+        header: { type: 'string', description: 'Raw header name for field "header"' },
+        case_sensitive: { type: 'boolean' },
+      },
+    },
+    action: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { enum: RULE_ACTION_TYPES },
+        value: { type: 'string', description: 'Label for "label", destination address for "forward"' },
+        max_per_hour: { type: 'integer', minimum: 1 },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Strip a stored rule down to its portable fields
+ */
+export function toPortableRule(rule: UserRule & { description?: string | null }): PortableRule {
+  return {
+    name: rule.name,
+    ...(rule.description ? { description: rule.description } : {}),
+    conditions: normalizeConditions(rule.conditions),
+    actions: rule.actions,
+    is_active: rule.is_active,
+    priority: rule.priority ?? 0,
+    stop_processing: rule.stop_processing ?? false,
+    schedule: rule.schedule ?? null,
+  };
+}
+
+export function buildRulesExport(rules: PortableRule[]): RulesExport {
+  return {
+    $schema: RULES_EXPORT_SCHEMA.$id,
+    version: RULES_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    rules,
+  };
+}
+
+/**
+ * Rewrite every label reference (label actions and label conditions). Label ids
+ * differ between accounts, so exports carry label names and imports map them back.
+ */
+export function mapRuleLabels(rule: PortableRule, map: (label: string) => string): PortableRule {
+  const visit = (node: RuleConditionNode): RuleConditionNode => {
+    if (isConditionGroup(node)) return { ...node, conditions: node.conditions.map(visit) };
+    return node.field === 'label' && typeof node.value === 'string' ? { ...node, value: map(node.value) } : node;
+  };
+
+  return {
+    ...rule,
+    conditions: visit(normalizeConditions(rule.conditions)) as PortableRule['conditions'],
+    actions: rule.actions.map(action =>
+      action.type === 'label' && action.value ? { ...action, value: map(action.value) } : action
+    ),
+  };
+}
+
+/**
+ * Every label referenced by a rule
+ */
+export function collectRuleLabels(rule: PortableRule): string[] {
+  const labels = new Set<string>();
+  mapRuleLabels(rule, label => {
+    labels.add(label);
+    return label;
+  });
+  return Array.from(labels);
+}
+
+/**
+ * Read a JSON export. Rules that fail validation are reported and left out.
+ */
+export function parseRulesExport(document: unknown): { rules: PortableRule[]; issues: TransferIssue[] } {
+  const issues: TransferIssue[] = [];
+
+  if (typeof document !== 'object' || document === null || !Array.isArray((document as RulesExport).rules)) {
+    return { rules: [], issues: [{ message: 'Expected an object with a "rules" array' }] };
+  }
+
+  const { version, rules } = document as RulesExport;
+  if (version !== RULES_EXPORT_VERSION) {
+    return { rules: [], issues: [{ message: `Unsupported export version ${version}; expected ${RULES_EXPORT_VERSION}` }] };
+  }
+
+  const valid: PortableRule[] = [];
+  rules.forEach((rule, index) => {
+    const error = validatePortableRule(rule);
+    if (error) {
+      issues.push({ index, rule: typeof rule?.name === 'string' ? rule.name : undefined, message: error });
+    } else {
+      valid.push(rule);
+    }
+  });
+
+  return { rules: valid, issues };
+}
+
+/**
+ * Check one imported rule. Returns an error message, or null when it can be saved.
+ */
+export function validatePortableRule(rule: unknown): string | null {
+  if (typeof rule !== 'object' || rule === null) return 'Each rule must be an object';
+  const candidate = rule as Partial<PortableRule>;
+
+  if (typeof candidate.name !== 'string' || !candidate.name.trim()) return 'Rule name is required';
+  if (candidate.name.length > MAX_RULE_NAME_LENGTH) return `Rule names are at most ${MAX_RULE_NAME_LENGTH} characters`;
+
+  const conditionsError = validateConditions(candidate.conditions);
+  if (conditionsError) return conditionsError;
+
+  if (!Array.isArray(candidate.actions) || candidate.actions.length === 0) return 'Actions must be a non-empty array';
+  for (const action of candidate.actions) {
+    if (!action || !RULE_ACTION_TYPES.includes(action.type)) {
+      return `Unknown action type "${action?.type}"`;
+    }
+    if ((action.type === 'label' || action.type === 'forward') && !action.value) {
+      return `The ${action.type} action needs a value`;
+    }
+  }
+
+  if (candidate.priority !== undefined && !Number.isInteger(candidate.priority)) return 'Priority must be an integer';
+  if (candidate.stop_processing !== undefined && typeof candidate.stop_processing !== 'boolean') {
+    return 'stop_processing must be true or false';
+  }
+  if (candidate.is_active !== undefined && typeof candidate.is_active !== 'boolean') return 'is_active must be true or false';
+
+  return null;
+}
+
+/**
+ * Decide what an import would write. Names are compared case-insensitively;
+ * a name repeated within the import keeps its first occurrence.
+ */
+export function planRuleImport(
+  existing: Pick<UserRule, 'id' | 'name'>[],
+  incoming: PortableRule[],
+  issues: TransferIssue[],
+  onDuplicate: DuplicateStrategy = 'skip'
+): ImportPlan {
+  const plan: ImportPlan = { create: [], replace: [], skipped: [], issues };
+  const existingByName = new Map(existing.map(rule => [rule.name.trim().toLowerCase(), rule]));
+  const taken = new Set(existingByName.keys());
+  const seen = new Set<string>();
+
+  for (const rule of incoming) {
+    const key = rule.name.trim().toLowerCase();
+
+    if (plan.create.length + plan.replace.length >= MAX_IMPORTED_RULES) {
+      plan.skipped.push({ name: rule.name, reason: `Only ${MAX_IMPORTED_RULES} rules can be imported at once` });
+      continue;
+    }
+    if (seen.has(key)) {
+      plan.skipped.push({ name: rule.name, reason: 'Appears more than once in the import' });
+      continue;
+    }
+    seen.add(key);
+
+    const match = existingByName.get(key);
+    if (!match) {
+      plan.create.push(rule);
+      taken.add(key);
+      continue;
+    }
+
+    switch (onDuplicate) {
+      case 'replace':
+        plan.replace.push({ id: match.id, rule });
+        break;
+      case 'rename': {
+        let suffix = 2;
+        while (taken.has(`${key} (${suffix})`)) suffix++;
+        const name = `${rule.name.trim()} (${suffix})`;
+        taken.add(name.toLowerCase());
+        plan.create.push({ ...rule, name });
+        break;
+      }
+      default:
+        plan.skipped.push({ name: rule.name, reason: 'A rule with this name already exists' });
+    }
+  }
+
+  return plan;
+}
@@ -1,25 +1,48 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
-import { GmailEnhancedService } from './gmail/enhanced-service';
+import { EnhancedBulkOperationResult, GmailEnhancedService } from './gmail/enhanced-service';
+import {
+  ConditionTrace,
+  RuleCondition,
+  StoredRuleConditions,
+  collectConditionHeaders,
+  evaluateConditionTree,
+  explainConditionTree,
+  normalizeConditions,
+  parseListValue,
+} from './rule-conditions';
+import {
+  BACKTEST_PAGE_SIZE,
+  BACKTEST_SAMPLE_SIZE,
+  BacktestReport,
+  BacktestWeek,
+  buildBacktestQuery,
+  getWeekStart,
+} from './rule-backtest';
+import { sortRulesByPriority } from './rule-conflicts';
+import { buildRuleSearch, compileRuleQuery, usesLabelConditions } from './rule-query';
+import { safeRegexTest } from './safe-regex';
+import { ForwardingService } from './forwarding';
+import type { SafetyDecisionReason, SafetyReport } from './safety-guard';
 
-export interface RuleCondition {
-  field: 'from' | 'to' | 'subject' | 'body' | 'has_attachment' | 'size' | 'age_days' | 'label' | 'is_unread';
-  operator: 'contains' | 'equals' | 'starts_with' | 'ends_with' | 'greater_than' | 'less_than' | 'has' | 'not_has';
-  value: string | number | boolean;
-  case_sensitive?: boolean;
-}
+export type { RuleCondition, RuleConditionGroup, RuleConditionNode, StoredRuleConditions } from './rule-conditions';
 
 export interface RuleAction {
   type: 'archive' | 'delete' | 'label' | 'mark_read' | 'mark_unread' | 'forward' | 'star' | 'unstar';
   value?: string; // For label name, forward email, etc.
+  max_per_hour?: number; // Forward only; capped by FORWARD_LIMITS
 }
 
 export interface UserRule {
   id: string;
   user_id: string;
   name: string;
-  conditions: RuleCondition[];
+  conditions: StoredRuleConditions;
   actions: RuleAction[];
   is_active: boolean;
+  priority: number; // Higher runs first; equal priorities run oldest first
+  stop_processing: boolean; // Messages this rule matches are skipped by every later rule
+  watermark_at?: string | null; // Scheduled runs only evaluate mail received after this; null means everything
   schedule?: {
     enabled: boolean;
     frequency: 'hourly' | 'daily' | 'weekly';
@@ -41,20 +64,53 @@ export interface RuleExecution {
   error_message?: string;
   execution_time_ms: number;
   executed_at: string;
+  safety?: SafetyReport[]; // Safety policy decisions per action; not stored
+  matched_email_ids?: string[]; // Not stored
+}
+
+export interface MatchedEmails {
+  emails: any[]; // Messages that match the whole rule
+  scanned: number; // Messages Gmail returned for the compiled query
+  truncated: boolean; // maxResults stopped the scan before the last page
+}
+
+export interface OrderedRuleResult {
+  rule: UserRule;
+  execution?: RuleExecution;
+  error?: string;
+}
+
+const MATCH_PAGE_SIZE = 250;
+// Watermarks trail the run start so mail Gmail hadn't indexed yet is searched again
+const WATERMARK_LAG_MS = 5 * 60 * 1000;
+// Safety decisions that skip messages the rule still has to act on in a later run
+const UNFINISHED_REASONS: SafetyDecisionReason[] = ['deferred', 'over_limit', 'safe_mode'];
+
+interface ActionOutcome {
+  safety?: SafetyReport;
+  errors: string[]; // Failures and messages left undone
 }
 
 export class RulesEngine {
-  constructor(private gmailService: GmailEnhancedService) {}
+  private supabase: Promise<SupabaseClient>;
+  private forwardingService?: ForwardingService;
+  private labelNames?: Promise<Map<string, string>>;
+
+  constructor(private gmailService: GmailEnhancedService, supabase?: SupabaseClient) {
+    // Background workers pass a service-role client; requests use the cookie-bound one
+    this.supabase = supabase ? Promise.resolve(supabase) : createClient();
+  }
 
   async getUserRules(userId: string): Promise<UserRule[]> {
-    const supabase = createClient();
+    const supabase = await this.supabase;
     
     const { data, error } = await supabase
       .from('user_rules')
       .select('*')
       .eq('user_id', userId)
       .eq('is_active', true)
-      .order('created_at', { ascending: false });
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true });
 
     if (error) {
       throw new Error(`Failed to fetch user rules: ${error.message}`);
@@ -63,32 +119,249 @@ export class RulesEngine {
     return data || [];
   }
 
-  async executeRule(rule: UserRule, emails: any[]): Promise<RuleExecution> {
+  /**
+   * Load one of the user's active rules
+   */
+  async getRuleById(ruleId: string, userId: string): Promise<UserRule> {
+    const supabase = await this.supabase;
+
+    const { data: rule, error } = await supabase
+      .from('user_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .single();
+
+    if (error || !rule) {
+      throw new Error(`Rule ${ruleId} not found or inactive`);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Load one of the user's active rules and run it against the given emails
+   */
+  async executeRuleById(ruleId: string, userId: string, emails: any[]): Promise<RuleExecution> {
+    const rule = await this.getRuleById(ruleId, userId);
+    return this.executeRule(rule, emails);
+  }
+
+  /**
+   * Fetch emails along with any raw headers the rule's conditions reference
+   */
+  async fetchEmailsForRule(
+    rule: Pick<UserRule, 'conditions'>,
+    options: { query?: string; maxResults?: number } = {}
+  ): Promise<any[]> {
+    return this.gmailService.listEmails({
+      ...options,
+      headers: collectConditionHeaders(rule.conditions),
+    });
+  }
+
+  /**
+   * Every message in scope that matches the rule. Gmail search applies the
+   * compiled query and every page of results is read (up to maxResults when
+   * given); only the residual conditions are evaluated here. With `since`,
+   * only mail received at or after that time is considered.
+   */
+  async fetchMatchingEmails(
+    rule: Pick<UserRule, 'conditions'>,
+    options: { scope?: string; maxResults?: number; since?: Date } = {}
+  ): Promise<MatchedEmails> {
+    const { scope = 'in:inbox', maxResults, since } = options;
+    const labelNames = usesLabelConditions(rule.conditions) ? await this.getLabelNames() : undefined;
+    const compiled = compileRuleQuery(rule.conditions, labelNames);
+    // after: works in whole seconds, so the exact cutoff is applied per message
+    const query = since
+      ? `${buildRuleSearch(scope, compiled)} after:${Math.floor(since.getTime() / 1000) - 1}`
+      : buildRuleSearch(scope, compiled);
+    const headers = compiled.residual ? collectConditionHeaders(compiled.residual) : [];
+    const matched: MatchedEmails = { emails: [], scanned: 0, truncated: false };
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.gmailService.listEmailPage({
+        query,
+        pageSize: maxResults ? Math.min(MATCH_PAGE_SIZE, maxResults - matched.scanned) : MATCH_PAGE_SIZE,
+        pageToken,
+        headers,
+      });
+
+      matched.scanned += page.emails.length;
+      for (const email of page.emails) {
+        if (since && (email.timestamp ?? Date.parse(email.date)) < since.getTime()) continue;
+        const residualMatch = !compiled.residual || evaluateConditionTree(
+          compiled.residual,
+          condition => this.evaluateCondition(email, condition)
+        );
+        if (residualMatch) matched.emails.push(email);
+      }
+
+      pageToken = page.nextPageToken || undefined;
+    } while (pageToken && (!maxResults || matched.scanned < maxResults));
+
+    matched.truncated = Boolean(pageToken);
+    return matched;
+  }
+
+  /**
+   * Run rules in priority order over the mail each rule hasn't seen yet, then
+   * move the watermark of every rule that acted on all of it to shortly
+   * before the start of this run. Rules with failed or skipped actions keep
+   * their watermark, so that mail is evaluated again next time.
+   */
+  async executeRulesIncrementally(
+    rules: UserRule[],
+    options: { scope?: string; maxResults?: number } = {}
+  ): Promise<OrderedRuleResult[]> {
+    const startedAt = new Date();
+    const truncated = new Set<string>();
+    const results = await this.executeRulesInOrder(rules, async rule => {
+      const matched = await this.fetchMatchingEmails(rule, {
+        ...options,
+        since: rule.watermark_at ? new Date(rule.watermark_at) : undefined,
+      });
+      if (matched.truncated) truncated.add(rule.id);
+      return matched;
+    });
+
+    const succeeded = results
+      .filter(result => result.execution?.success && !truncated.has(result.rule.id))
+      .map(result => result.rule.id);
+    await this.advanceWatermarks(succeeded, new Date(startedAt.getTime() - WATERMARK_LAG_MS));
+    return results;
+  }
+
+  /**
+   * Record that the rules have evaluated all mail received before `to`.
+   * Dry runs leave watermarks alone.
+   */
+  async advanceWatermarks(ruleIds: string[], to: Date): Promise<void> {
+    if (ruleIds.length === 0 || this.gmailService.isDryRun()) return;
+
+    const supabase = await this.supabase;
+    const { error } = await supabase
+      .from('user_rules')
+      .update({ watermark_at: to.toISOString() })
+      .in('id', ruleIds);
+
+    if (error) {
+      throw new Error(`Failed to update rule watermarks: ${error.message}`);
+    }
+  }
+
+  /**
+   * Forget a rule's watermark so its next scheduled run evaluates all mail in scope
+   */
+  async resetWatermark(ruleId: string, userId: string): Promise<void> {
+    const supabase = await this.supabase;
+    const { error } = await supabase
+      .from('user_rules')
+      .update({ watermark_at: null })
+      .eq('id', ruleId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to reset rule watermark: ${error.message}`);
+    }
+  }
+
+  /**
+   * Run rules in priority order. Messages matched by a rule with
+   * stop_processing are left out of every later rule, whether or not its
+   * actions succeeded.
+   */
+  async executeRulesInOrder(
+    rules: UserRule[],
+    fetchEmails: (rule: UserRule) => Promise<MatchedEmails>
+  ): Promise<OrderedRuleResult[]> {
+    const stopped = new Set<string>();
+    const results: OrderedRuleResult[] = [];
+
+    for (const rule of sortRulesByPriority(rules)) {
+      try {
+        const { emails, scanned } = await fetchEmails(rule);
+        const execution = await this.executeRule(rule, emails.filter(email => !stopped.has(email.id)), {
+          prefiltered: true,
+          scanned,
+        });
+        if (rule.stop_processing) {
+          execution.matched_email_ids?.forEach(id => stopped.add(id));
+        }
+        results.push({ rule, execution });
+      } catch (error) {
+        results.push({ rule, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a rule's actions on the emails that match it. Prefiltered emails come
+   * from fetchMatchingEmails and already match; scanned is then the number
+   * of messages examined, recorded as emails_processed.
+   */
+  async executeRule(
+    rule: UserRule,
+    emails: any[],
+    options: { prefiltered?: boolean; scanned?: number } = {}
+  ): Promise<RuleExecution> {
     const startTime = Date.now();
     let emailsMatched = 0;
+    let matchedEmailIds: string[] = [];
     let actionsPerformed = 0;
     let success = true;
     let errorMessage: string | undefined;
+    const actionErrors: string[] = [];
+    let heldForConfirmation = false;
+    const safety: SafetyReport[] = [];
 
     try {
-      // Filter emails that match all conditions
-      const matchingEmails = emails.filter(email => 
+      // Filter emails that match the rule's condition tree
+      const matchingEmails = options.prefiltered ? emails : emails.filter(email => 
         this.evaluateConditions(email, rule.conditions)
       );
       
       emailsMatched = matchingEmails.length;
+      matchedEmailIds = matchingEmails.map(email => email.id);
+
+      // Confirm every action up front so a rule never runs halfway
+      const held = matchingEmails.length > 0
+        ? await this.gmailService.checkConfirmation(
+            rule.actions.map(action => action.type),
+            matchingEmails.map(email => email.id)
+          )
+        : null;
 
-      if (matchingEmails.length > 0) {
+      if (held) {
+        heldForConfirmation = true;
+        success = false;
+        errorMessage = held.confirmation?.message;
+        safety.push(held);
+      } else if (matchingEmails.length > 0) {
         // Execute actions on matching emails
+        this.gmailService.setDryRunSource(rule.name);
         for (const action of rule.actions) {
-          await this.executeAction(action, matchingEmails);
+          const outcome = await this.executeAction(action, matchingEmails, rule);
+          if (outcome.safety) safety.push(outcome.safety);
+          actionErrors.push(...outcome.errors);
           actionsPerformed++;
         }
+        if (actionErrors.length > 0) {
+          success = false;
+          errorMessage = actionErrors.join('; ');
+        }
       }
 
     } catch (error) {
       success = false;
       errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      this.gmailService.setDryRunSource(undefined);
     }
 
     const executionTime = Date.now() - startTime;
@@ -97,7 +370,7 @@ export class RulesEngine {
     const execution: Omit<RuleExecution, 'id'> = {
       rule_id: rule.id,
       user_id: rule.user_id,
-      emails_processed: emails.length,
+      emails_processed: options.scanned ?? emails.length,
       emails_matched: emailsMatched,
       actions_performed: actionsPerformed,
       success,
@@ -106,55 +379,176 @@ export class RulesEngine {
       executed_at: new Date().toISOString()
     };
 
-    const supabase = createClient();
+    // A dry run leaves no trace; the plan lives on the Gmail service
+    if (this.gmailService.isDryRun()) {
+      return { id: 'dry-run', ...execution, safety, matched_email_ids: matchedEmailIds };
+    }
+
+    // Nothing ran, so there is nothing to record until the user confirms
+    if (heldForConfirmation) {
+      return { id: 'pending-confirmation', ...execution, safety, matched_email_ids: matchedEmailIds };
+    }
+
+    const supabase = await this.supabase;
     const { data } = await supabase
       .from('rule_executions')
       .insert(execution)
       .select()
       .single();
 
-    return data;
+    return { ...data, safety, matched_email_ids: matchedEmailIds };
+  }
+
+  /**
+   * Backtest conditions against one page of mail received in the range.
+   * Callers pass nextPageToken back until it is null and merge the pages
+   * with mergeBacktestReports.
+   */
+  async backtestConditions(
+    conditions: StoredRuleConditions,
+    range: { start: Date; end: Date; pageToken?: string }
+  ): Promise<BacktestReport> {
+    const page = await this.gmailService.listEmailPage({
+      query: buildBacktestQuery(range.start, range.end),
+      pageSize: BACKTEST_PAGE_SIZE,
+      pageToken: range.pageToken,
+      headers: collectConditionHeaders(conditions),
+    });
+
+    const tree = normalizeConditions(conditions);
+    const weeks = new Map<string, BacktestWeek>();
+    const report: BacktestReport = {
+      range: { start: range.start.toISOString(), end: range.end.toISOString() },
+      scanned: page.emails.length,
+      matched: 0,
+      weeks: [],
+      samples: [],
+      nextPageToken: page.nextPageToken,
+      estimatedTotal: range.pageToken ? undefined : page.resultSizeEstimate,
+    };
+
+    for (const email of page.emails) {
+      const weekStart = getWeekStart(email.timestamp ?? (Date.parse(email.date) || Date.now()));
+      const week = weeks.get(weekStart) || { weekStart, scanned: 0, matched: 0 };
+      weeks.set(weekStart, week);
+      week.scanned++;
+
+      const { matched, fired } = explainConditionTree(tree, condition => this.explainCondition(email, condition));
+      if (!matched) continue;
+
+      week.matched++;
+      report.matched++;
+      if (report.samples.length < BACKTEST_SAMPLE_SIZE) {
+        report.samples.push({
+          id: email.id,
+          subject: email.subject,
+          from: email.from,
+          date: email.date,
+          fired,
+        });
+      }
+    }
+
+    report.weeks = Array.from(weeks.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+    return report;
   }
 
-  private evaluateConditions(email: any, conditions: RuleCondition[]): boolean {
-    return conditions.every(condition => this.evaluateCondition(email, condition));
+  /**
+   * Test an email against a condition tree or a legacy flat (all-of) condition array
+   */
+  evaluateConditions(email: any, conditions: StoredRuleConditions): boolean {
+    return evaluateConditionTree(
+      normalizeConditions(conditions),
+      condition => this.evaluateCondition(email, condition)
+    );
+  }
+
+  /**
+   * Test one condition and report the value it was compared against
+   */
+  explainCondition(email: any, condition: RuleCondition): ConditionTrace {
+    const actual = this.getConditionValue(email, condition);
+    return {
+      field: condition.field,
+      operator: condition.operator,
+      ...(condition.header && { header: condition.header }),
+      expected: condition.value,
+      actual,
+      matched: this.compareConditionValue(condition, actual),
+    };
   }
 
   private evaluateCondition(email: any, condition: RuleCondition): boolean {
-    const { field, operator, value, case_sensitive = false } = condition;
-    
-    let emailValue: any;
-    
-    switch (field) {
+    return this.compareConditionValue(condition, this.getConditionValue(email, condition));
+  }
+
+  /**
+   * The message's value for a condition's field
+   */
+  private getConditionValue(email: any, condition: RuleCondition): unknown {
+    const labels: string[] = email.labels || email.labelIds || [];
+    const headers: Record<string, string> = email.headers || {};
+
+    switch (condition.field) {
       case 'from':
-        emailValue = email.from || '';
-        break;
+        return email.from || '';
       case 'to':
-        emailValue = email.to || '';
-        break;
+        return email.to || headers['to'] || '';
+      case 'cc':
+        return email.cc || headers['cc'] || '';
       case 'subject':
-        emailValue = email.subject || '';
-        break;
+        return email.subject || '';
       case 'body':
-        emailValue = email.snippet || email.body || '';
-        break;
+        return email.snippet || email.body || '';
+      case 'sender_domain':
+        return getSenderDomain(email.from || '');
+      case 'list_id':
+        return headers['list-id'] || '';
+      case 'header':
+        return headers[(condition.header || '').toLowerCase()] || '';
+      case 'category':
+        return getGmailCategory(labels);
       case 'has_attachment':
-        return email.hasAttachment === value;
+        return email.hasAttachment;
       case 'size':
-        emailValue = email.sizeEstimate || 0;
-        break;
-      case 'age_days':
-        const emailDate = new Date(email.date);
-        const ageDays = (Date.now() - emailDate.getTime()) / (1000 * 60 * 60 * 24);
-        emailValue = Math.floor(ageDays);
-        break;
+        return email.sizeEstimate || 0;
+      case 'age_days': {
+        const emailTime = email.timestamp ?? new Date(email.date).getTime();
+        return Math.floor((Date.now() - emailTime) / (1000 * 60 * 60 * 24));
+      }
       case 'label':
-        const labels = email.labelIds || [];
-        return operator === 'has' ? labels.includes(value) : !labels.includes(value);
+        return labels;
       case 'is_unread':
-        return email.isUnread === value;
+        return email.isUnread ?? email.isRead === false;
       default:
+        return undefined;
+    }
+  }
+
+  private compareConditionValue(condition: RuleCondition, actual: unknown): boolean {
+    const { field, operator, value, case_sensitive = false } = condition;
+
+    switch (field) {
+      case 'has_attachment':
+      case 'is_unread':
+        return actual === value;
+      case 'label': {
+        const labels = actual as string[];
+        return operator === 'has' ? labels.includes(value as string) : !labels.includes(value as string);
+      }
+    }
+
+    if (actual === undefined) return false;
+    let emailValue: any = actual;
+
+    if (operator === 'matches_regex') {
+      // Validated on save; a pattern that is now rejected simply doesn't match
+      try {
+        return safeRegexTest(String(value), String(emailValue), case_sensitive ? '' : 'i');
+      } catch (error) {
+        console.error('Skipping unsafe rule regex:', error);
         return false;
+      }
     }
 
     // Convert to string for text operations
@@ -168,6 +562,8 @@ export class RulesEngine {
     switch (operator) {
       case 'contains':
         return typeof emailValue === 'string' && emailValue.includes(compareValue as string);
+      case 'not_contains':
+        return typeof emailValue === 'string' && !emailValue.includes(compareValue as string);
       case 'equals':
         return emailValue === compareValue;
       case 'starts_with':
@@ -175,45 +571,65 @@ export class RulesEngine {
       case 'ends_with':
         return typeof emailValue === 'string' && emailValue.endsWith(compareValue as string);
       case 'greater_than':
-        return typeof emailValue === 'number' && emailValue > (compareValue as number);
+        return typeof emailValue === 'number' && emailValue > Number(compareValue);
       case 'less_than':
-        return typeof emailValue === 'number' && emailValue < (compareValue as number);
+        return typeof emailValue === 'number' && emailValue < Number(compareValue);
+      case 'in_list':
+        return parseListValue(value).some(item =>
+          case_sensitive ? item === String(emailValue) : item.toLowerCase() === String(emailValue)
+        );
       default:
         return false;
     }
   }
 
-  private async executeAction(action: RuleAction, emails: any[]): Promise<void> {
+  /**
+   * Run one action; returns what the safety policy decided about it and
+   * anything that failed or was left for a later run
+   */
+  private async executeAction(action: RuleAction, emails: any[], rule: UserRule): Promise<ActionOutcome> {
     const emailIds = emails.map(email => email.id);
 
     switch (action.type) {
       case 'archive':
-        await this.gmailService.archiveEmailsWithHistory(emailIds);
-        break;
+        return toActionOutcome(await this.gmailService.archiveEmailsWithHistory(emailIds));
       case 'delete':
-        await this.gmailService.deleteEmailsWithHistory(emailIds);
-        break;
+        return toActionOutcome(await this.gmailService.deleteEmailsWithHistory(emailIds));
       case 'label':
         if (action.value) {
-          await this.gmailService.labelEmailsWithHistory(emailIds, [action.value]);
+          return toActionOutcome(await this.gmailService.labelEmailsWithHistory(emailIds, [action.value]));
         }
-        break;
+        return { errors: [] };
       case 'mark_read':
-        await this.gmailService.markAsReadWithHistory(emailIds);
-        break;
+        return toActionOutcome(await this.gmailService.markAsReadWithHistory(emailIds));
       case 'mark_unread':
-        await this.gmailService.markAsUnreadWithHistory(emailIds);
-        break;
+        return toActionOutcome(await this.gmailService.markAsUnreadWithHistory(emailIds));
       case 'star':
-        await this.gmailService.starEmailsWithHistory(emailIds);
-        break;
+        return toActionOutcome(await this.gmailService.starEmailsWithHistory(emailIds));
       case 'unstar':
-        await this.gmailService.unstarEmailsWithHistory(emailIds);
-        break;
-      case 'forward':
-        // Forward action would require additional implementation
-        console.log(`Forward action not yet implemented for ${emailIds.length} emails`);
-        break;
+        return toActionOutcome(await this.gmailService.unstarEmailsWithHistory(emailIds));
+      case 'forward': {
+        if (!action.value) {
+          throw new Error('Forward action requires a destination address');
+        }
+        // Allowlist and rate-limit tables are service-role only
+        this.forwardingService ??= new ForwardingService();
+        const summary = await this.forwardingService.forwardEmails(this.gmailService, {
+          userId: rule.user_id,
+          ruleId: rule.id,
+          destination: action.value,
+          emailIds,
+          maxPerHour: action.max_per_hour,
+        });
+        if (summary.errors.length > 0) {
+          throw new Error(summary.errors.join('; '));
+        }
+        return {
+          errors: summary.skippedRateLimited > 0
+            ? [`${summary.skippedRateLimited} messages not forwarded: rate limit reached`]
+            : [],
+        };
+      }
       default:
         throw new Error(`Unknown action type: ${action.type}`);
     }
@@ -225,20 +641,31 @@ export class RulesEngine {
       rule.schedule?.enabled && this.shouldRunRule(rule)
     );
 
-    const results: RuleExecution[] = [];
-    
-    for (const rule of scheduledRules) {
-      try {
-        // Fetch emails for rule evaluation
-        const emails = await this.gmailService.listEmails({ maxResults: 500 });
-        const execution = await this.executeRule(rule, emails);
-        results.push(execution);
-      } catch (error) {
+    const results = await this.executeRulesIncrementally(scheduledRules);
+
+    const executions: RuleExecution[] = [];
+    for (const { rule, execution, error } of results) {
+      if (execution) {
+        executions.push(execution);
+      } else {
         console.error(`Failed to execute rule ${rule.id}:`, error);
       }
     }
 
-    return results;
+    return executions;
+  }
+
+  /**
+   * Label names by id, loaded once; label conditions stay local without them
+   */
+  private getLabelNames(): Promise<Map<string, string>> {
+    this.labelNames ??= this.gmailService.getLabels()
+      .then(labels => new Map(labels.map(label => [label.id, label.name] as [string, string])))
+      .catch(error => {
+        console.error('Error fetching labels for rule queries:', error);
+        return new Map<string, string>();
+      });
+    return this.labelNames;
   }
 
   private shouldRunRule(rule: UserRule): boolean {
@@ -266,4 +693,23 @@ export class RulesEngine {
         return false;
     }
   }
-}
\ No newline at end of file
+}
+
+function getSenderDomain(from: string): string {
+  const address = from.match(/<([^>]+)>/)?.[1] || from;
+  const at = address.lastIndexOf('@');
+  return at === -1 ? '' : address.slice(at + 1).trim().toLowerCase();
+}
+
+// Gmail puts mail without a CATEGORY_* tab label (or with CATEGORY_PERSONAL) in Primary
+function getGmailCategory(labels: string[]): string {
+  const tab = labels.find(label => label.startsWith('CATEGORY_') && label !== 'CATEGORY_PERSONAL');
+  return tab ? tab.replace('CATEGORY_', '').toLowerCase() : 'primary';
+}
+
+function toActionOutcome(result: EnhancedBulkOperationResult): ActionOutcome {
+  const unfinished = (result.safety?.decisions || [])
+    .filter(decision => UNFINISHED_REASONS.includes(decision.reason))
+    .map(decision => decision.detail);
+  return { safety: result.safety, errors: [...(result.success ? [] : result.errors), ...unfinished] };
+}
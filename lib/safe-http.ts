@@ -0,0 +1,243 @@
+// Outbound HTTP for URLs that come from email (unsubscribe endpoints). Only
+// public addresses are reachable: every hostname is resolved and checked, the
+// connection is pinned to the checked address, and every redirect hop is
+// checked again. Requests are bounded in time and response size.
+
+import { BlockList, LookupFunction, isIP } from 'net';
+import { lookup as dnsLookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+
+export type SafeHttpErrorCode = 'INVALID_URL' | 'BLOCKED_ADDRESS' | 'TOO_MANY_REDIRECTS' | 'TIMEOUT' | 'NETWORK_ERROR';
+
+export class SafeHttpError extends Error {
+  constructor(public code: SafeHttpErrorCode, message: string) {
+    super(message);
+    this.name = 'SafeHttpError';
+  }
+}
+
+export interface SafeRequestOptions {
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+  maxRedirects?: number; // Default 3
+  timeoutMs?: number; // For the whole request including redirects; default 10 s
+  maxResponseBytes?: number; // Default 64 KB; anything beyond is discarded unread
+  allowHttp?: boolean; // Default false: HTTPS only
+}
+
+export interface SafeResponse {
+  status: number;
+  url: string; // Final URL after redirects
+  redirects: string[];
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+  truncated: boolean; // The body hit maxResponseBytes
+}
+
+const DEFAULT_MAX_REDIRECTS = 3;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RESPONSE_BYTES = 64 * 1024;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const ALLOWED_PORTS = new Set(['', '80', '443']);
+const USER_AGENT = 'InboxGremlin/1.0 (+unsubscribe)';
+
+// Loopback, private, link-local, CGNAT, multicast, documentation and other
+// special-purpose ranges. IPv4-mapped IPv6 addresses are checked as IPv4.
+const NON_PUBLIC_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 32], ['2001:db8::', 32],
+  ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Make a request to an untrusted URL. Redirects are followed manually (301,
+ * 302 and 303 turn a POST into a GET) and each hop is validated. Throws
+ * SafeHttpError when the URL or any hop is not allowed, or on timeout.
+ */
+export async function safeRequest(rawUrl: string, options: SafeRequestOptions = {}): Promise<SafeResponse> {
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const maxResponseBytes = options.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES;
+  const redirects: string[] = [];
+
+  let url = parseTarget(rawUrl, options.allowHttp);
+  let method = options.method || 'GET';
+  let body = options.body;
+  let headers = options.headers || {};
+
+  while (true) {
+    const response = await requestOnce(url, { method, headers, body, deadline, maxResponseBytes });
+    const location = response.headers.location;
+
+    if (!REDIRECT_STATUSES.has(response.status) || typeof location !== 'string') {
+      return { ...response, url: url.toString(), redirects };
+    }
+    if (redirects.length >= maxRedirects) {
+      throw new SafeHttpError('TOO_MANY_REDIRECTS', `Stopped after ${maxRedirects} redirects`);
+    }
+
+    url = parseTarget(new URL(location, url).toString(), options.allowHttp);
+    redirects.push(url.toString());
+
+    if (response.status === 303 || (method === 'POST' && response.status !== 307 && response.status !== 308)) {
+      method = 'GET';
+      body = undefined;
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([name]) => !/^content-/i.test(name))
+      );
+    }
+  }
+}
+
+function parseTarget(rawUrl: string, allowHttp = false): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new SafeHttpError('INVALID_URL', 'Not a valid URL');
+  }
+
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    throw new SafeHttpError('INVALID_URL', `${url.protocol} URLs are not allowed`);
+  }
+  if (url.username || url.password) {
+    throw new SafeHttpError('INVALID_URL', 'URLs with credentials are not allowed');
+  }
+  if (!ALLOWED_PORTS.has(url.port)) {
+    throw new SafeHttpError('INVALID_URL', `Port ${url.port} is not allowed`);
+  }
+
+  // IP literals never reach the DNS lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new SafeHttpError('BLOCKED_ADDRESS', `${host} is not a public address`);
+  }
+
+  return url;
+}
+
+/**
+ * DNS lookup that refuses hostnames with any non-public address. Returning
+ * the checked addresses pins the connection to them, so a second lookup
+ * can't be rebound to an internal host.
+ */
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { all: true, verbatim: true })
+    .then(addresses => {
+      if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+        throw new SafeHttpError('BLOCKED_ADDRESS', `${hostname} resolves to a non-public address`);
+      }
+
+      const usable = options.family ? addresses.filter(entry => entry.family === options.family) : addresses;
+      if (usable.length === 0) {
+        throw new SafeHttpError('NETWORK_ERROR', `${hostname} has no IPv${options.family} address`);
+      }
+
+      if (options.all) {
+        callback(null, usable);
+      } else {
+        callback(null, usable[0].address, usable[0].family);
+      }
+    })
+    .catch(error => callback(error, '', 0));
+};
+
+function requestOnce(
+  url: URL,
+  request: {
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+    deadline: number;
+    maxResponseBytes: number;
+  }
+): Promise<Omit<SafeResponse, 'url' | 'redirects'>> {
+  return new Promise((resolve, reject) => {
+    const remaining = request.deadline - Date.now();
+    if (remaining <= 0) {
+      reject(new SafeHttpError('TIMEOUT', 'Request timed out'));
+      return;
+    }
+
+    let settled = false;
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      outcome();
+    };
+    const fail = (error: Error) => settle(() => reject(
+      error instanceof SafeHttpError ? error : new SafeHttpError('NETWORK_ERROR', error.message)
+    ));
+
+    const payload = request.body !== undefined ? Buffer.from(request.body) : undefined;
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+    const req = send(url, {
+      method: request.method,
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: '*/*',
+        ...request.headers,
+        ...(payload ? { 'Content-Length': String(payload.length) } : {}),
+      },
+      lookup: safeLookup,
+    }, res => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let truncated = false;
+
+      const finish = () => settle(() => resolve({
+        status: res.statusCode || 0,
+        headers: res.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+        truncated,
+      }));
+
+      res.on('data', (chunk: Buffer) => {
+        if (truncated) return;
+        const room = request.maxResponseBytes - size;
+        if (chunk.length > room) {
+          chunks.push(chunk.subarray(0, room));
+          size += room;
+          truncated = true;
+          finish();
+          res.destroy();
+          return;
+        }
+        chunks.push(chunk);
+        size += chunk.length;
+      });
+      res.on('end', finish);
+      res.on('error', fail);
+    });
+
+    const timer = setTimeout(() => {
+      fail(new SafeHttpError('TIMEOUT', `Request timed out after ${Math.round(remaining / 1000)} s`));
+      req.destroy();
+    }, remaining);
+
+    req.on('error', fail);
+    req.end(payload);
+  });
+}
@@ -0,0 +1,297 @@
+// Guarded regular expressions for user-supplied rule patterns. JavaScript's
+// backtracking engine has no timeout, so patterns that can backtrack
+// catastrophically are rejected up front and inputs are length-capped.
+
+export const MAX_REGEX_LENGTH = 256;
+export const MAX_REGEX_INPUT_LENGTH = 10000;
+
+const CACHE_LIMIT = 500;
+const compiled = new Map<string, RegExp>();
+
+export class UnsafeRegexError extends Error {
+  constructor(public pattern: string, message: string) {
+    super(message);
+    this.name = 'UnsafeRegexError';
+  }
+}
+
+/**
+ * Compile a user pattern, throwing UnsafeRegexError if it is invalid, too
+ * long, or prone to exponential backtracking. Results are cached.
+ */
+export function compileSafeRegex(pattern: string, flags: string = ''): RegExp {
+  const cacheKey = `${flags}/${pattern}`;
+  const cached = compiled.get(cacheKey);
+  if (cached) return cached;
+
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    throw new UnsafeRegexError(pattern, `Regular expressions are limited to ${MAX_REGEX_LENGTH} characters`);
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, flags.replace(/[gy]/g, ''));
+  } catch (error) {
+    throw new UnsafeRegexError(pattern, `Invalid regular expression: ${error instanceof Error ? error.message : pattern}`);
+  }
+
+  const problem = findBacktrackingRisk(pattern, flags);
+  if (problem) {
+    throw new UnsafeRegexError(pattern, `Regular expression rejected: ${problem}`);
+  }
+
+  if (compiled.size >= CACHE_LIMIT) {
+    compiled.delete(compiled.keys().next().value!);
+  }
+  compiled.set(cacheKey, regex);
+  return regex;
+}
+
+/**
+ * Test input against a guarded pattern. Input beyond MAX_REGEX_INPUT_LENGTH is ignored.
+ */
+export function safeRegexTest(pattern: string, input: string, flags: string = ''): boolean {
+  return compileSafeRegex(pattern, flags).test(input.slice(0, MAX_REGEX_INPUT_LENGTH));
+}
+
+/**
+ * Returns an error message if the pattern is invalid or unsafe, otherwise null
+ */
+export function getRegexValidationError(pattern: string): string | null {
+  try {
+    compileSafeRegex(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+// Characters probed to tell whether two atoms can match the same text
+const SAMPLE_CHARS = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  '\u00a0', '\u00e9', '\u03a9', '\u2028', '\u4e2d',
+];
+
+interface GroupState {
+  hasRepeat: boolean; // Contains a quantifier that can match more than once
+  hasOverlappingAlternatives: boolean; // Contains a | whose branches can start with the same character
+  chars: Set<number>; // Sample characters any atom inside can match
+  branchStarts: (Set<number> | null)[]; // First-atom characters of each branch; null when unknown
+  atBranchStart: boolean;
+  // Consecutive repeats in the current branch whose characters overlap
+  lastRepeat: Set<number> | null;
+  gapAbsorbed: boolean; // Every atom since lastRepeat can also be matched by it
+  chain: number;
+}
+
+interface Atom {
+  chars: Set<number>;
+  group?: GroupState;
+}
+
+/**
+ * Static check for the constructs behind most ReDoS reports: a repeated group
+ * that contains a repeat, e.g. (a+)+, or alternatives that can match the same
+ * text, e.g. (a|a)*; consecutive repeats that can match the same text, e.g.
+ * .*a.*b; and backreferences.
+ */
+function findBacktrackingRisk(pattern: string, flags: string = ''): string | null {
+  const stack: GroupState[] = [newGroup()];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    let current = stack[stack.length - 1];
+    let atom: Atom;
+
+    if (char === '(') {
+      stack.push(newGroup());
+      // Skip group modifiers such as ?: ?= ?! ?<name>
+      if (pattern[i + 1] === '?') {
+        i++;
+        if (pattern[i + 1] === '<' && !/[=!]/.test(pattern[i + 2] || '')) {
+          while (i < pattern.length && pattern[i] !== '>') i++;
+        } else {
+          i++;
+        }
+      }
+      continue;
+    }
+
+    if (char === '|') {
+      endBranch(current);
+      continue;
+    }
+
+    if (char === ')') {
+      const closed = stack.length > 1 ? stack.pop()! : current;
+      endBranch(closed);
+      closed.hasOverlappingAlternatives = closed.hasOverlappingAlternatives || alternativesOverlap(closed.branchStarts);
+      current = stack[stack.length - 1];
+      atom = { chars: closed.chars, group: closed };
+    } else {
+      let end = i;
+      if (char === '\\') {
+        if (/[1-9k]/.test(pattern[i + 1] || '')) {
+          return 'backreferences are not supported';
+        }
+        end = readEscapeEnd(pattern, i);
+      } else if (char === '[') {
+        end = i + 1;
+        while (end < pattern.length && pattern[end] !== ']') {
+          if (pattern[end] === '\\') end++;
+          end++;
+        }
+      }
+      atom = { chars: charsMatching(pattern.slice(i, end + 1), flags) };
+      i = end;
+    }
+
+    const quantifier = readQuantifier(pattern, i + 1);
+    if (quantifier) {
+      i = quantifier.end;
+      // Lazy suffix, e.g. +?
+      if (pattern[i + 1] === '?') i++;
+    }
+
+    const problem = addAtom(current, atom, quantifier);
+    if (problem) return problem;
+
+    // Two chained repeats are only cheap when nothing has to match after them
+    const trailing = stack.length === 1 && (i + 1 === pattern.length || pattern[i + 1] === '|');
+    if (current.chain >= 2 && !trailing) {
+      return 'consecutive repeats that can match the same text, such as .*a.*b, can take polynomial time';
+    }
+  }
+
+  return null;
+}
+
+function newGroup(): GroupState {
+  return {
+    hasRepeat: false,
+    hasOverlappingAlternatives: false,
+    chars: new Set(),
+    branchStarts: [],
+    atBranchStart: true,
+    lastRepeat: null,
+    gapAbsorbed: true,
+    chain: 0,
+  };
+}
+
+function endBranch(group: GroupState): void {
+  // An empty branch makes the group optional, which overlaps with any other branch
+  if (group.atBranchStart) group.branchStarts.push(null);
+  group.atBranchStart = true;
+  group.lastRepeat = null;
+  group.chain = 0;
+}
+
+function addAtom(
+  group: GroupState,
+  atom: Atom,
+  quantifier: { repeats: boolean; optional: boolean } | null
+): string | null {
+  atom.chars.forEach(char => group.chars.add(char));
+
+  if (group.atBranchStart) {
+    // What an optional or group atom lets the branch start with is not tracked
+    group.branchStarts.push(atom.group || quantifier?.optional ? null : atom.chars);
+    group.atBranchStart = false;
+  }
+
+  if (quantifier?.repeats) {
+    if (atom.group?.hasRepeat) {
+      return 'nested repetition such as (a+)+ can take exponential time';
+    }
+    if (atom.group?.hasOverlappingAlternatives) {
+      return 'repeated alternatives that can match the same text, such as (a|a)*, can take exponential time';
+    }
+  }
+
+  if (atom.group) {
+    group.hasOverlappingAlternatives = group.hasOverlappingAlternatives || atom.group.hasOverlappingAlternatives;
+  }
+
+  // A group with a repeat inside, such as (.*), chains like a repeat itself
+  if (quantifier?.repeats || atom.group?.hasRepeat) {
+    group.hasRepeat = true;
+    const chained = group.lastRepeat !== null && group.gapAbsorbed && intersects(group.lastRepeat, atom.chars);
+    group.chain = chained ? group.chain + 1 : 1;
+    group.lastRepeat = atom.chars;
+    group.gapAbsorbed = true;
+  } else if (group.lastRepeat && !isSubset(atom.chars, group.lastRepeat)) {
+    group.gapAbsorbed = false;
+  }
+
+  return null;
+}
+
+function alternativesOverlap(starts: (Set<number> | null)[]): boolean {
+  if (starts.length < 2) return false;
+  if (starts.some(start => start === null)) return true;
+
+  for (let a = 0; a < starts.length; a++) {
+    for (let b = a + 1; b < starts.length; b++) {
+      if (intersects(starts[a]!, starts[b]!)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Indices of the sample characters a single atom (literal, escape, class or .) matches
+ */
+function charsMatching(atom: string, flags: string): Set<number> {
+  const regex = new RegExp(`^(?:${atom})$`, flags.replace(/[gmy]/g, ''));
+  const chars = new Set<number>();
+  SAMPLE_CHARS.forEach((char, index) => {
+    if (regex.test(char)) chars.add(index);
+  });
+  return chars;
+}
+
+function intersects(a: Set<number>, b: Set<number>): boolean {
+  for (const value of a) {
+    if (b.has(value)) return true;
+  }
+  return false;
+}
+
+function isSubset(a: Set<number>, b: Set<number>): boolean {
+  for (const value of a) {
+    if (!b.has(value)) return false;
+  }
+  return true;
+}
+
+/**
+ * Index of the last character of the escape sequence starting at index
+ */
+function readEscapeEnd(pattern: string, index: number): number {
+  const rest = pattern.slice(index + 1);
+  const match = rest.match(/^(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[A-Za-z]|[pP]\{[^}]*\})/);
+  return index + (match ? match[0].length : 1);
+}
+
+function readQuantifier(
+  pattern: string,
+  index: number
+): { repeats: boolean; optional: boolean; end: number } | null {
+  const char = pattern[index];
+  if (char === '*') return { repeats: true, optional: true, end: index };
+  if (char === '+') return { repeats: true, optional: false, end: index };
+  if (char === '?') return { repeats: false, optional: true, end: index };
+
+  if (char === '{') {
+    const match = pattern.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+    if (!match) return null;
+    const [, min, comma, max] = match;
+    // Even small counts multiply backtracking when nested or chained, so
+    // anything that can match more than once counts as a repeat
+    const repeats = comma ? max === '' || Number(max) > 1 : Number(min) > 1;
+    return { repeats, optional: Number(min) === 0, end: index + match[0].length - 1 };
+  }
+
+  return null;
+}
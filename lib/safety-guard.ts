@@ -0,0 +1,355 @@
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EmailData } from '@/lib/gmail/service';
+import { DEFAULT_PREFERENCES, UserPreferences, UserPreferencesService } from '@/lib/user-preferences';
+import { decryptSecret, encryptSecret } from '@/lib/token-crypto';
+
+export type GuardedOperation =
+  | 'archive'
+  | 'delete'
+  | 'label'
+  | 'mark_read'
+  | 'mark_unread'
+  | 'star'
+  | 'unstar'
+  | 'forward';
+
+// Operations that take mail out of view; only these skip protected messages
+const DESTRUCTIVE_OPERATIONS: GuardedOperation[] = ['archive', 'delete'];
+
+export function isDestructiveOperation(operation: GuardedOperation): boolean {
+  return DESTRUCTIVE_OPERATIONS.includes(operation);
+}
+
+const CONFIRMATION_TTL_MS = 15 * 60 * 1000;
+// Queued operations can wait through retries before the worker runs them
+const QUEUED_CONFIRMATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface SafetyPolicy {
+  protectedLabels: string[];
+  preserveRecentDays: number; // 0 disables the recent-mail protection
+  bulkOperationLimit: number;
+  confirmationThreshold: number;
+  safeMode: boolean; // Every delete needs confirmation
+  backupBeforeDeletion: boolean; // Deletes first store raw copies (see MailBackupService)
+}
+
+export type SafetyDecisionReason =
+  | 'protected_label' // Dropped: carries one of keep_important_labels (or STARRED)
+  | 'recent' // Dropped: newer than preserve_recent_days
+  | 'over_limit' // Dropped: beyond bulk_operation_limit
+  | 'needs_confirmation' // Held: above confirmation_threshold or a safe-mode delete
+  | 'deferred' // Unattended run: beyond the confirmation threshold, left for the next run
+  | 'safe_mode'; // Unattended run: deletes are never made without a person confirming
+
+export interface SafetyDecision {
+  reason: SafetyDecisionReason;
+  emailIds: string[];
+  detail: string;
+}
+
+export interface SafetyConfirmation {
+  token: string; // Send back as confirmationToken to go ahead
+  operations: GuardedOperation[];
+  count: number;
+  expiresAt: string;
+  message: string;
+}
+
+export interface SafetyReport {
+  requestedCount: number;
+  allowedCount: number;
+  decisions: SafetyDecision[];
+  confirmation?: SafetyConfirmation; // Set when the operation needs (or, on a dry run, would need) confirming
+  blocked: boolean; // Nothing was done because confirmation is missing
+}
+
+export interface SafetyContext {
+  confirmationToken?: string;
+  confirmed?: boolean; // Confirmation was already checked for the whole request (verified queued bulk operations)
+  unattended?: boolean; // Scheduled jobs and workers: nobody is there to confirm
+  dryRun?: boolean; // Report what would need confirming without holding the operation
+}
+
+interface ConfirmationClaims {
+  u: string; // User
+  o: GuardedOperation[];
+  h: string; // Hash of the requested ids
+  e: number; // Expiry, ms since epoch
+  q?: true; // Sealed for a queued task; only the worker accepts it
+}
+
+/**
+ * Build the enforced policy from the user's cleanup strategy and automation settings
+ */
+export function policyFromPreferences(
+  preferences: Pick<UserPreferences, 'cleanup_strategy' | 'automation_settings'>
+): SafetyPolicy {
+  const strategy = { ...DEFAULT_PREFERENCES.cleanup_strategy, ...preferences.cleanup_strategy };
+  const automation = { ...DEFAULT_PREFERENCES.automation_settings, ...preferences.automation_settings };
+
+  const protectedLabels = new Set(strategy.keep_important_labels || []);
+  if (strategy.preserve_starred) protectedLabels.add('STARRED');
+
+  return {
+    protectedLabels: Array.from(protectedLabels),
+    preserveRecentDays: Math.max(0, strategy.preserve_recent_days || 0),
+    bulkOperationLimit: Math.max(1, strategy.bulk_operation_limit || DEFAULT_PREFERENCES.cleanup_strategy.bulk_operation_limit!),
+    confirmationThreshold: Math.max(0, strategy.confirmation_threshold ?? DEFAULT_PREFERENCES.cleanup_strategy.confirmation_threshold!),
+    safeMode: automation.safe_mode !== false,
+    backupBeforeDeletion: automation.backup_before_deletion !== false,
+  };
+}
+
+/**
+ * Enforces the user's safety policy on bulk operations. Request-level checks
+ * (batch cap, confirmation) work on ids alone; protected-message checks need
+ * the messages' labels and dates.
+ */
+export class SafetyGuard {
+  constructor(
+    private userId: string,
+    private policy: SafetyPolicy,
+    private context: SafetyContext = {}
+  ) {}
+
+  /**
+   * Load the policy from the user's preferences. Falls back to the defaults
+   * (the strictest stored values) when preferences cannot be read.
+   */
+  static async forUser(userId: string, context: SafetyContext = {}, supabase?: SupabaseClient): Promise<SafetyGuard> {
+    try {
+      const preferences = await new UserPreferencesService(supabase).getUserPreferences(userId);
+      return new SafetyGuard(userId, policyFromPreferences(preferences), context);
+    } catch (error) {
+      console.error('Error loading safety policy, using defaults:', error);
+      return new SafetyGuard(userId, policyFromPreferences(DEFAULT_PREFERENCES), context);
+    }
+  }
+
+  /**
+   * Seal the confirmation settled when a bulk operation is queued. The worker
+   * checks it, so a task row alone can never skip confirmation.
+   */
+  static sealQueuedConfirmation(userId: string, operation: GuardedOperation, emailIds: string[]): string {
+    const claims: ConfirmationClaims = {
+      u: userId,
+      o: [operation],
+      h: hashIds(emailIds),
+      e: Date.now() + QUEUED_CONFIRMATION_TTL_MS,
+      q: true,
+    };
+    return encryptSecret(JSON.stringify(claims));
+  }
+
+  /**
+   * Whether a sealed queued confirmation covers exactly this operation on these ids
+   */
+  static verifyQueuedConfirmation(
+    token: string | undefined,
+    userId: string,
+    operation: GuardedOperation,
+    emailIds: string[]
+  ): boolean {
+    if (!token) return false;
+
+    try {
+      const claims = JSON.parse(decryptSecret(token)) as ConfirmationClaims;
+      return (
+        claims.q === true &&
+        claims.u === userId &&
+        claims.o.includes(operation) &&
+        claims.h === hashIds(emailIds) &&
+        claims.e > Date.now()
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  getPolicy(): SafetyPolicy {
+    return this.policy;
+  }
+
+  /**
+   * Cap the batch and check confirmation. A blocked report comes back with
+   * no ids and a fresh confirmation token.
+   */
+  checkRequest(operation: GuardedOperation, emailIds: string[]): { emailIds: string[]; report: SafetyReport } {
+    const report: SafetyReport = {
+      requestedCount: emailIds.length,
+      allowedCount: 0,
+      decisions: [],
+      blocked: false,
+    };
+
+    let allowed = emailIds;
+    if (allowed.length > this.policy.bulkOperationLimit) {
+      report.decisions.push({
+        reason: 'over_limit',
+        emailIds: allowed.slice(this.policy.bulkOperationLimit),
+        detail: `Only ${this.policy.bulkOperationLimit} emails can be changed in one operation`,
+      });
+      allowed = allowed.slice(0, this.policy.bulkOperationLimit);
+    }
+
+    const safeModeDelete = this.needsSafeModeConfirmation(operation);
+
+    if (this.needsConfirmation(operation, allowed.length) && !this.isConfirmed(operation, emailIds)) {
+      if (this.context.unattended) {
+        if (safeModeDelete) {
+          report.decisions.push({
+            reason: 'safe_mode',
+            emailIds: allowed,
+            detail: 'Safe mode is on, so automated deletes are skipped',
+          });
+          allowed = [];
+        } else {
+          report.decisions.push({
+            reason: 'deferred',
+            emailIds: allowed.slice(this.policy.confirmationThreshold),
+            detail: `Automated runs change at most ${this.policy.confirmationThreshold} emails at a time`,
+          });
+          allowed = allowed.slice(0, this.policy.confirmationThreshold);
+        }
+      } else {
+        report.confirmation = this.issueConfirmation([operation], emailIds, allowed.length);
+        if (!this.context.dryRun) {
+          report.decisions.push({
+            reason: 'needs_confirmation',
+            emailIds: allowed,
+            detail: report.confirmation.message,
+          });
+          report.blocked = true;
+          allowed = [];
+        }
+      }
+    }
+
+    report.allowedCount = allowed.length;
+    return { emailIds: allowed, report };
+  }
+
+  /**
+   * Check several operations on the same messages up front, so a rule either
+   * runs all of its actions or none. Returns a blocked report with one token
+   * covering every operation that needs confirming, or null to go ahead.
+   * Unattended runs are left to the per-operation checks.
+   */
+  preflight(operations: GuardedOperation[], emailIds: string[]): SafetyReport | null {
+    if (this.context.unattended || this.context.dryRun) return null;
+
+    const count = Math.min(emailIds.length, this.policy.bulkOperationLimit);
+    const pending = Array.from(new Set(operations)).filter(
+      operation => this.needsConfirmation(operation, count) && !this.isConfirmed(operation, emailIds)
+    );
+    if (pending.length === 0) return null;
+
+    const confirmation = this.issueConfirmation(pending, emailIds, count);
+    return {
+      requestedCount: emailIds.length,
+      allowedCount: 0,
+      decisions: [{ reason: 'needs_confirmation', emailIds, detail: confirmation.message }],
+      confirmation,
+      blocked: true,
+    };
+  }
+
+  /**
+   * Drop protected and recent messages from destructive operations
+   */
+  filterProtected(operation: GuardedOperation, emails: EmailData[], report: SafetyReport): EmailData[] {
+    if (!isDestructiveOperation(operation)) return emails;
+
+    const protectedIds: string[] = [];
+    const recentIds: string[] = [];
+    const cutoff = Date.now() - this.policy.preserveRecentDays * 24 * 60 * 60 * 1000;
+
+    const allowed = emails.filter(email => {
+      if (email.labels.some(label => this.policy.protectedLabels.includes(label))) {
+        protectedIds.push(email.id);
+        return false;
+      }
+      if (this.policy.preserveRecentDays > 0 && getReceivedAt(email) > cutoff) {
+        recentIds.push(email.id);
+        return false;
+      }
+      return true;
+    });
+
+    if (protectedIds.length > 0) {
+      report.decisions.push({
+        reason: 'protected_label',
+        emailIds: protectedIds,
+        detail: `Kept ${protectedIds.length} email${protectedIds.length !== 1 ? 's' : ''} labelled ${this.policy.protectedLabels.join(', ')}`,
+      });
+    }
+    if (recentIds.length > 0) {
+      report.decisions.push({
+        reason: 'recent',
+        emailIds: recentIds,
+        detail: `Kept ${recentIds.length} email${recentIds.length !== 1 ? 's' : ''} from the last ${this.policy.preserveRecentDays} days`,
+      });
+    }
+
+    report.allowedCount = allowed.length;
+    return allowed;
+  }
+
+  private needsSafeModeConfirmation(operation: GuardedOperation): boolean {
+    return this.policy.safeMode && operation === 'delete';
+  }
+
+  private needsConfirmation(operation: GuardedOperation, count: number): boolean {
+    return count > 0 && (this.needsSafeModeConfirmation(operation) || count > this.policy.confirmationThreshold);
+  }
+
+  private isConfirmed(operation: GuardedOperation, emailIds: string[]): boolean {
+    if (this.context.confirmed) return true;
+    if (!this.context.confirmationToken) return false;
+
+    try {
+      const claims = JSON.parse(decryptSecret(this.context.confirmationToken)) as ConfirmationClaims;
+      return (
+        !claims.q &&
+        claims.u === this.userId &&
+        claims.o.includes(operation) &&
+        claims.h === hashIds(emailIds) &&
+        claims.e > Date.now()
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private issueConfirmation(operations: GuardedOperation[], emailIds: string[], count: number): SafetyConfirmation {
+    const expiresAt = Date.now() + CONFIRMATION_TTL_MS;
+    const claims: ConfirmationClaims = { u: this.userId, o: operations, h: hashIds(emailIds), e: expiresAt };
+    const emails = `${count} email${count !== 1 ? 's' : ''}`;
+    const described = operations.map(operation => operation.replace('_', ' ')).join(', ');
+
+    return {
+      token: encryptSecret(JSON.stringify(claims)),
+      operations,
+      count,
+      expiresAt: new Date(expiresAt).toISOString(),
+      message: count > this.policy.confirmationThreshold
+        ? `Confirm ${described} on ${emails} (more than ${this.policy.confirmationThreshold})`
+        : `Safe mode is on: confirm ${described} on ${emails}`,
+    };
+  }
+}
+
+/**
+ * Confirmation tokens are bound to the exact set of requested ids
+ */
+function hashIds(emailIds: string[]): string {
+  return createHash('sha256').update([...emailIds].sort().join(',')).digest('base64url');
+}
+
+function getReceivedAt(email: EmailData): number {
+  if (email.timestamp) return email.timestamp;
+  const parsed = Date.parse(email.date);
+  // Undated mail counts as recent so it is never removed by mistake
+  return Number.isNaN(parsed) ? Date.now() : parsed;
+}
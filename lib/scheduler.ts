@@ -1,21 +1,41 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
-import { RulesEngine } from '@/lib/rules-engine';
+import { RulesEngine, UserRule } from '@/lib/rules-engine';
 import { AnalyticsService } from '@/lib/analytics';
 import { UnsubscribeDetector } from '@/lib/unsubscribe-detector';
 import { GmailEnhancedService } from '@/lib/gmail/enhanced-service';
 import { UserPreferencesService } from '@/lib/user-preferences';
+import {
+  CronParseError,
+  describeCronExpression,
+  getCronValidationError,
+  getNextRunTime,
+  isValidTimeZone,
+} from '@/lib/cron';
+import { TaskQueueService } from '@/lib/task-queue';
+import { TokenBroker, ReauthRequiredError } from '@/lib/token-broker';
+import { GmailWatchService } from '@/lib/gmail/push';
+import { DryRunPlanBuilder } from '@/lib/dry-run';
+import { UNSUBSCRIBE_FOLLOWUP_SCHEDULE, UnsubscribeFollowUpService } from '@/lib/unsubscribe-followup';
+import { SenderAnalyticsService } from '@/lib/sender-analytics';
 
 export interface ScheduledJob {
   id: string;
   user_id: string;
-  job_type: 'cleanup' | 'rule_execution' | 'analytics_collection' | 'unsubscribe_scan';
+  job_type:
+    | 'cleanup'
+    | 'rule_execution'
+    | 'analytics_collection'
+    | 'unsubscribe_scan'
+    | 'watch_renewal'
+    | 'unsubscribe_followup';
   job_name: string;
   schedule_expression: string; // Cron expression
   job_config: Record<string, any>;
   is_active: boolean;
   next_run_at?: string;
   last_run_at?: string;
-  last_run_status?: 'success' | 'failed' | 'running';
+  last_run_status?: 'success' | 'failed' | 'running' | 'needs_reauth';
   last_run_message?: string;
   created_at: string;
   updated_at: string;
@@ -39,14 +59,24 @@ export interface JobResult {
   details?: Record<string, any>;
   processedCount?: number;
   errors?: string[];
+  needsReauth?: boolean; // The user's Gmail grant is gone; retrying will not help
+  ran?: boolean; // The job ran and its outcome is recorded; retrying would repeat what it did
 }
 
 export class SchedulerService {
-  private supabase = createClient();
-  private rulesEngine = new RulesEngine();
-  private analyticsService = new AnalyticsService();
+  private supabase: Promise<SupabaseClient>;
+  private analyticsService: AnalyticsService;
   private unsubscribeDetector = new UnsubscribeDetector();
-  private preferencesService = new UserPreferencesService();
+  private preferencesService: UserPreferencesService;
+  private tokenBroker?: TokenBroker;
+
+  constructor(supabase?: SupabaseClient, tokenBroker?: TokenBroker) {
+    // Background workers pass a service-role client; requests use the cookie-bound one
+    this.supabase = supabase ? Promise.resolve(supabase) : createClient();
+    this.preferencesService = new UserPreferencesService(supabase);
+    this.analyticsService = new AnalyticsService(supabase);
+    this.tokenBroker = tokenBroker;
+  }
 
   /**
    * Create a new scheduled job
@@ -59,9 +89,11 @@ export class SchedulerService {
     jobConfig: Record<string, any>
   ): Promise<ScheduledJob> {
     try {
-      const nextRunAt = this.calculateNextRun(scheduleExpression);
+      const supabase = await this.supabase;
+      const timeZone = await this.getUserTimeZone(userId);
+      const nextRunAt = this.calculateNextRun(scheduleExpression, timeZone);
       
-      const { data, error } = await this.supabase
+      const { data, error } = await supabase
         .from('scheduled_jobs')
         .insert({
           user_id: userId,
@@ -88,7 +120,8 @@ export class SchedulerService {
    */
   async getUserJobs(userId: string): Promise<ScheduledJob[]> {
     try {
-      const { data, error } = await this.supabase
+      const supabase = await this.supabase;
+      const { data, error } = await supabase
         .from('scheduled_jobs')
         .select('*')
         .eq('user_id', userId)
@@ -110,15 +143,25 @@ export class SchedulerService {
     updates: Partial<Pick<ScheduledJob, 'job_name' | 'schedule_expression' | 'job_config' | 'is_active'>>
   ): Promise<ScheduledJob> {
     try {
+      const supabase = await this.supabase;
       const updateData: any = { ...updates };
       
       if (updates.schedule_expression) {
-        updateData.next_run_at = this.calculateNextRun(updates.schedule_expression);
+        const { data: existingJob, error: fetchError } = await supabase
+          .from('scheduled_jobs')
+          .select('user_id')
+          .eq('id', jobId)
+          .single();
+
+        if (fetchError) throw fetchError;
+
+        const timeZone = await this.getUserTimeZone(existingJob.user_id);
+        updateData.next_run_at = this.calculateNextRun(updates.schedule_expression, timeZone);
       }
       
       updateData.updated_at = new Date().toISOString();
 
-      const { data, error } = await this.supabase
+      const { data, error } = await supabase
         .from('scheduled_jobs')
         .update(updateData)
         .eq('id', jobId)
@@ -138,7 +181,8 @@ export class SchedulerService {
    */
   async deleteScheduledJob(jobId: string): Promise<void> {
     try {
-      const { error } = await this.supabase
+      const supabase = await this.supabase;
+      const { error } = await supabase
         .from('scheduled_jobs')
         .delete()
         .eq('id', jobId);
@@ -151,11 +195,40 @@ export class SchedulerService {
   }
 
   /**
-   * Execute a job manually
+   * Every user with an accepted unsubscribe gets one follow-up job that
+   * verifies it. Failures are logged, not thrown: the unsubscribe itself
+   * went through and verification can be scheduled later.
    */
-  async executeJobManually(jobId: string, accessToken: string): Promise<JobResult> {
+  async ensureUnsubscribeFollowUpJob(userId: string): Promise<void> {
+    try {
+      const jobs = await this.getUserJobs(userId);
+      if (jobs.some(job => job.job_type === 'unsubscribe_followup')) return;
+
+      await this.createScheduledJob(
+        userId,
+        'unsubscribe_followup',
+        'Verify unsubscribes',
+        UNSUBSCRIBE_FOLLOWUP_SCHEDULE,
+        {}
+      );
+    } catch (error) {
+      console.error('Error scheduling unsubscribe follow-up:', error);
+    }
+  }
+
+  /**
+   * Execute a job manually. Without an access token, one is fetched from the
+   * token broker using the job owner's offline grant. With dryRun the result
+   * carries a plan in details.plan and the mailbox and job status are untouched.
+   */
+  async executeJobManually(
+    jobId: string,
+    accessToken?: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<JobResult> {
     try {
-      const { data: job, error } = await this.supabase
+      const supabase = await this.supabase;
+      const { data: job, error } = await supabase
         .from('scheduled_jobs')
         .select('*')
         .eq('id', jobId)
@@ -164,8 +237,19 @@ export class SchedulerService {
       if (error) throw error;
       if (!job) throw new Error('Job not found');
 
-      return await this.executeJob(job, accessToken);
+      const token = accessToken || await this.getTokenBroker().getAccessToken(job.user_id);
+      if (options.dryRun) {
+        return await this.planJob(job, token);
+      }
+      return await this.executeJob(job, token);
     } catch (error) {
+      if (error instanceof ReauthRequiredError) {
+        return {
+          success: false,
+          message: error.message,
+          needsReauth: true,
+        };
+      }
       console.error('Error executing job manually:', error);
       return {
         success: false,
@@ -179,14 +263,15 @@ export class SchedulerService {
    */
   async getJobsToRun(): Promise<ScheduledJob[]> {
     try {
+      const supabase = await this.supabase;
       const now = new Date().toISOString();
       
-      const { data, error } = await this.supabase
+      const { data, error } = await supabase
         .from('scheduled_jobs')
         .select('*')
         .eq('is_active', true)
         .lte('next_run_at', now)
-        .neq('last_run_status', 'running');
+        .or('last_run_status.is.null,last_run_status.not.in.(running,needs_reauth)');
 
       if (error) throw error;
       return data || [];
@@ -197,30 +282,34 @@ export class SchedulerService {
   }
 
   /**
-   * Process scheduled jobs (to be called by a background worker)
+   * Queue due jobs for the background worker (to be called on each worker tick)
    */
-  async processScheduledJobs(): Promise<void> {
+  async processScheduledJobs(): Promise<number> {
     try {
+      const supabase = await this.supabase;
+      const taskQueue = new TaskQueueService(supabase);
       const jobs = await this.getJobsToRun();
+      let queued = 0;
       
       for (const job of jobs) {
         try {
-          // Get user's access token
-          const { data: session } = await this.supabase.auth.getSession();
-          const accessToken = session?.session?.provider_token;
-          
-          if (!accessToken) {
-            console.warn(`No access token for job ${job.id}, skipping`);
-            continue;
-          }
-
-          await this.executeJob(job, accessToken);
+          // The worker resolves the Gmail token through the broker when the job runs
+          await taskQueue.enqueue('scheduled_job', job.user_id, {
+            job_id: job.id,
+          }, {
+            dedupeKey: `scheduled_job:${job.id}`,
+            priority: 1,
+          });
+          queued++;
         } catch (error) {
-          console.error(`Error executing job ${job.id}:`, error);
+          console.error(`Error queueing job ${job.id}:`, error);
         }
       }
+
+      return queued;
     } catch (error) {
       console.error('Error processing scheduled jobs:', error);
+      return 0;
     }
   }
 
@@ -229,7 +318,8 @@ export class SchedulerService {
    */
   async getJobExecutions(jobId: string, limit: number = 50): Promise<JobExecution[]> {
     try {
-      const { data, error } = await this.supabase
+      const supabase = await this.supabase;
+      const { data, error } = await supabase
         .from('job_executions')
         .select('*')
         .eq('job_id', jobId)
@@ -289,9 +379,11 @@ export class SchedulerService {
    */
   private async executeJob(job: ScheduledJob, accessToken: string): Promise<JobResult> {
     const startTime = Date.now();
+    const supabase = await this.supabase;
+    const timeZone = await this.getUserTimeZone(job.user_id);
     
     // Record job execution start
-    const { data: execution, error: executionError } = await this.supabase
+    const { data: execution, error: executionError } = await supabase
       .from('job_executions')
       .insert({
         job_id: job.id,
@@ -308,7 +400,7 @@ export class SchedulerService {
 
     try {
       // Mark job as running
-      await this.supabase
+      await supabase
         .from('scheduled_jobs')
         .update({ last_run_status: 'running' })
         .eq('id', job.id);
@@ -328,15 +420,21 @@ export class SchedulerService {
         case 'unsubscribe_scan':
           result = await this.executeUnsubscribeJob(job, accessToken);
           break;
+        case 'watch_renewal':
+          result = await this.executeWatchRenewalJob(job, accessToken);
+          break;
+        case 'unsubscribe_followup':
+          result = await this.executeUnsubscribeFollowUpJob(job, accessToken);
+          break;
         default:
           throw new Error(`Unknown job type: ${job.job_type}`);
       }
 
       const executionTime = Date.now() - startTime;
-      const nextRunAt = this.calculateNextRun(job.schedule_expression);
+      const nextRunAt = this.calculateNextRun(job.schedule_expression, timeZone);
 
       // Update job status
-      await this.supabase
+      await supabase
         .from('scheduled_jobs')
         .update({
           last_run_at: new Date().toISOString(),
@@ -348,7 +446,7 @@ export class SchedulerService {
 
       // Update execution record
       if (execution) {
-        await this.supabase
+        await supabase
           .from('job_executions')
           .update({
             completed_at: new Date().toISOString(),
@@ -359,25 +457,25 @@ export class SchedulerService {
           .eq('id', execution.id);
       }
 
-      return result;
+      return { ...result, ran: true };
     } catch (error) {
       const executionTime = Date.now() - startTime;
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
       // Update job status
-      await this.supabase
+      await supabase
         .from('scheduled_jobs')
         .update({
           last_run_at: new Date().toISOString(),
           last_run_status: 'failed',
           last_run_message: errorMessage,
-          next_run_at: this.calculateNextRun(job.schedule_expression),
+          next_run_at: this.calculateNextRun(job.schedule_expression, timeZone),
         })
         .eq('id', job.id);
 
       // Update execution record
       if (execution) {
-        await this.supabase
+        await supabase
           .from('job_executions')
           .update({
             completed_at: new Date().toISOString(),
@@ -391,16 +489,44 @@ export class SchedulerService {
       return {
         success: false,
         message: errorMessage,
+        ran: true,
       };
     }
   }
 
+  /**
+   * Run a job's handler against a dry-run Gmail service. Nothing is recorded
+   * in job_executions and the job's schedule and status are left alone.
+   */
+  private async planJob(job: ScheduledJob, accessToken: string): Promise<JobResult> {
+    let result: JobResult;
+
+    switch (job.job_type) {
+      case 'cleanup':
+        result = await this.executeCleanupJob(job, accessToken, true);
+        break;
+      case 'rule_execution':
+        result = await this.executeRuleJob(job, accessToken, true);
+        break;
+      default:
+        // Analytics, unsubscribe scans and follow-ups, and watch renewal never modify messages
+        return {
+          success: true,
+          message: 'This job does not change any messages.',
+          details: { plan: new DryRunPlanBuilder().build() },
+          processedCount: 0,
+        };
+    }
+
+    return { ...result, message: `Dry run: ${result.message}` };
+  }
+
   /**
    * Execute cleanup job
    */
-  private async executeCleanupJob(job: ScheduledJob, accessToken: string): Promise<JobResult> {
+  private async executeCleanupJob(job: ScheduledJob, accessToken: string, dryRun: boolean = false): Promise<JobResult> {
     const config = job.job_config;
-    const gmailService = new GmailEnhancedService(accessToken);
+    const gmailService = await this.createGmailService(job, accessToken, dryRun);
     const preferences = await this.preferencesService.getUserPreferences(job.user_id);
     
     let processedCount = 0;
@@ -445,7 +571,7 @@ export class SchedulerService {
       return {
         success: errors.length === 0,
         message: `Cleanup completed. Processed ${processedCount} emails.`,
-        details: { processedCount, errors },
+        details: { processedCount, errors, plan: gmailService.getDryRunPlan() ?? undefined },
         processedCount,
         errors,
       };
@@ -460,39 +586,49 @@ export class SchedulerService {
   /**
    * Execute rule job
    */
-  private async executeRuleJob(job: ScheduledJob, accessToken: string): Promise<JobResult> {
+  private async executeRuleJob(job: ScheduledJob, accessToken: string, dryRun: boolean = false): Promise<JobResult> {
     const config = job.job_config;
-    const gmailService = new GmailEnhancedService(accessToken);
+    const gmailService = await this.createGmailService(job, accessToken, dryRun);
+    const rulesEngine = new RulesEngine(gmailService, await this.supabase);
     
     try {
       let processedCount = 0;
       const errors: string[] = [];
 
       if (config.rule_ids && Array.isArray(config.rule_ids)) {
+        const rules: UserRule[] = [];
         for (const ruleId of config.rule_ids) {
           try {
-            // Get emails for rule execution
-            const emails = await gmailService.listEmails({ 
-              query: config.email_query || 'in:inbox', 
-              maxResults: config.max_emails || 100 
-            });
-
-            const result = await this.rulesEngine.executeRuleById(ruleId, emails);
-            processedCount += result.affectedEmails.length;
-            
-            if (!result.success) {
-              errors.push(`Rule ${ruleId} failed: ${result.error}`);
-            }
+            rules.push(await rulesEngine.getRuleById(ruleId, job.user_id));
           } catch (error) {
             errors.push(`Rule ${ruleId} error: ${error instanceof Error ? error.message : 'Unknown error'}`);
           }
         }
+
+        // Run in priority order so stop_processing rules shield later ones
+        // Each rule's conditions become a Gmail query within the job's scope,
+        // limited to mail that arrived since the rule last ran successfully
+        const results = await rulesEngine.executeRulesIncrementally(rules, {
+          scope: config.email_query || 'in:inbox',
+          maxResults: config.max_emails,
+        });
+
+        for (const { rule, execution, error } of results) {
+          if (!execution) {
+            errors.push(`Rule ${rule.id} error: ${error}`);
+            continue;
+          }
+          processedCount += execution.emails_matched;
+          if (!execution.success) {
+            errors.push(`Rule ${rule.id} failed: ${execution.error_message}`);
+          }
+        }
       }
 
       return {
         success: errors.length === 0,
         message: `Rule execution completed. Processed ${processedCount} emails.`,
-        details: { processedCount, errors },
+        details: { processedCount, errors, plan: gmailService.getDryRunPlan() ?? undefined },
         processedCount,
         errors,
       };
@@ -509,12 +645,22 @@ export class SchedulerService {
    */
   private async executeAnalyticsJob(job: ScheduledJob, accessToken: string): Promise<JobResult> {
     try {
-      const stats = await this.analyticsService.collectEmailStats(job.user_id, accessToken);
+      // A full scan reads every message's metadata, which is only affordable here in the worker
+      const stats = await this.analyticsService.collectEmailStats(job.user_id, accessToken, {
+        method: job.job_config.stats_method,
+        sampleSize: job.job_config.stats_sample_size,
+      });
+
+      // Per-sender totals behind the sender explorer
+      const gmailService = await this.createGmailService(job, accessToken);
+      const senders = await new SenderAnalyticsService(await this.supabase).collect(job.user_id, gmailService, {
+        maxMessages: job.job_config.max_sender_messages,
+      });
       
       return {
         success: true,
-        message: `Analytics collection completed. Collected stats for ${stats.total_emails} emails.`,
-        details: { emailStats: stats },
+        message: `Analytics collection completed. Collected stats for ${stats.total_emails} emails and ${senders.senders} senders.`,
+        details: { emailStats: stats, senders },
         processedCount: 1,
       };
     } catch (error) {
@@ -530,7 +676,7 @@ export class SchedulerService {
    */
   private async executeUnsubscribeJob(job: ScheduledJob, accessToken: string): Promise<JobResult> {
     const config = job.job_config;
-    const gmailService = new GmailEnhancedService(accessToken);
+    const gmailService = await this.createGmailService(job, accessToken);
     
     try {
       let foundOpportunities = 0;
@@ -583,26 +729,106 @@ export class SchedulerService {
   }
 
   /**
-   * Calculate next run time based on cron expression
-   * Simplified implementation - in production, use a proper cron parser
+   * Execute Gmail watch renewal job
    */
-  private calculateNextRun(cronExpression: string): string {
-    const now = new Date();
-    
-    // Simple schedule parsing (extend with proper cron parser in production)
-    switch (cronExpression) {
-      case '@daily':
-      case '0 0 * * *':
-        return new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString();
-      case '@weekly':
-      case '0 0 * * 0':
-        return new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString();
-      case '@hourly':
-      case '0 * * * *':
-        return new Date(now.getTime() + 60 * 60 * 1000).toISOString();
-      default:
-        // Default to daily
-        return new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString();
+  private async executeWatchRenewalJob(job: ScheduledJob, accessToken: string): Promise<JobResult> {
+    const gmailService = await this.createGmailService(job, accessToken);
+
+    try {
+      const result = await new GmailWatchService().renewWatch(job.user_id, gmailService, {
+        force: Boolean(job.job_config.force),
+      });
+
+      return {
+        success: true,
+        message: result.renewed
+          ? `Gmail watch renewed until ${result.expiration}.`
+          : `Gmail watch not renewed: ${result.reason}.`,
+        details: { ...result },
+        processedCount: result.renewed ? 1 : 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Watch renewal job failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Execute unsubscribe follow-up job: settle pending unsubscribes as
+   * verified or failed depending on whether the sender kept mailing
+   */
+  private async executeUnsubscribeFollowUpJob(job: ScheduledJob, accessToken: string): Promise<JobResult> {
+    const config = job.job_config;
+    const gmailService = await this.createGmailService(job, accessToken);
+
+    try {
+      const summary = await new UnsubscribeFollowUpService(gmailService, await this.supabase).verifyPending(job.user_id, {
+        settleDays: config.settle_days,
+        watchDays: config.watch_days,
+      });
+
+      return {
+        success: summary.errors.length === 0,
+        message: `Unsubscribe follow-up completed. ${summary.verified} verified, ${summary.failed} failed, ${summary.stillWatching} still watched.`,
+        details: { ...summary },
+        processedCount: summary.checked,
+        errors: summary.errors,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Unsubscribe follow-up job failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Calculate next run time based on cron expression, in the user's time zone
+   */
+  private calculateNextRun(cronExpression: string, timeZone: string = 'UTC', from: Date = new Date()): string {
+    return getNextRunTime(cronExpression, from, timeZone).toISOString();
+  }
+
+  /**
+   * Gmail service that records operation history for the job owner, or only
+   * plans its changes when dryRun is set. Jobs run unattended, so the safety
+   * policy defers or skips what would otherwise need confirming.
+   */
+  private async createGmailService(
+    job: ScheduledJob,
+    accessToken: string,
+    dryRun: boolean = false
+  ): Promise<GmailEnhancedService> {
+    const gmailService = new GmailEnhancedService(accessToken, {
+      supabase: await this.supabase,
+      userId: job.user_id,
+      dryRun,
+      safety: { unattended: true },
+    });
+    gmailService.setDryRunSource(job.job_name);
+    return gmailService;
+  }
+
+  private getTokenBroker(): TokenBroker {
+    if (!this.tokenBroker) {
+      this.tokenBroker = new TokenBroker();
+    }
+    return this.tokenBroker;
+  }
+
+  /**
+   * Resolve the IANA time zone configured in the user's preferences
+   */
+  private async getUserTimeZone(userId: string): Promise<string> {
+    try {
+      const preferences = await this.preferencesService.getUserPreferences(userId);
+      const timeZone = preferences.ui_preferences?.timezone;
+      return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+    } catch (error) {
+      console.error('Error resolving user time zone, falling back to UTC:', error);
+      return 'UTC';
     }
   }
 
@@ -610,33 +836,24 @@ export class SchedulerService {
    * Validate cron expression
    */
   validateCronExpression(expression: string): boolean {
-    const validExpressions = [
-      '@daily', '@weekly', '@hourly', '@monthly',
-      '0 0 * * *', '0 0 * * 0', '0 * * * *', '0 0 1 * *'
-    ];
-    
-    return validExpressions.includes(expression);
+    return getCronValidationError(expression) === null;
+  }
+
+  /**
+   * Get the parse error for an invalid cron expression, or null if it is valid
+   */
+  getCronValidationError(expression: string): CronParseError | null {
+    return getCronValidationError(expression);
   }
 
   /**
    * Get human-readable schedule description
    */
   getScheduleDescription(cronExpression: string): string {
-    switch (cronExpression) {
-      case '@daily':
-      case '0 0 * * *':
-        return 'Daily at midnight';
-      case '@weekly':
-      case '0 0 * * 0':
-        return 'Weekly on Sunday at midnight';
-      case '@hourly':
-      case '0 * * * *':
-        return 'Every hour';
-      case '@monthly':
-      case '0 0 1 * *':
-        return 'Monthly on the 1st at midnight';
-      default:
-        return 'Custom schedule';
+    try {
+      return describeCronExpression(cronExpression);
+    } catch (error) {
+      return 'Invalid schedule';
     }
   }
-}
\ No newline at end of file
+}
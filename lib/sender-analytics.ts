@@ -0,0 +1,392 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import type { EmailData, GmailService } from '@/lib/gmail/service';
+import type { SenderAnalytics } from '@/lib/analytics';
+
+// Mail the user received, wherever it is filed (spam and trash are never listed)
+export const SENDER_SCAN_QUERY = '-in:sent -in:drafts';
+export const DEFAULT_SENDER_SCAN_LIMIT = 5000;
+export const MAX_SENDER_SCAN_LIMIT = 50000;
+// Most messages a single per-sender action touches; run it again for the rest
+export const MAX_SENDER_ACTION_MESSAGES = 5000;
+
+const SCAN_PAGE_SIZE = 500;
+const WRITE_CHUNK_SIZE = 500;
+const READ_PAGE_SIZE = 1000;
+
+export const SENDER_SORT_FIELDS = [
+  'total_emails',
+  'unread_emails',
+  'unread_ratio',
+  'total_size',
+  'first_email_date',
+  'last_email_date',
+] as const;
+
+export type SenderGroupBy = 'sender' | 'domain';
+export type SenderSortField = typeof SENDER_SORT_FIELDS[number];
+export type SenderActionCounter = 'emails_archived' | 'emails_deleted' | 'unsubscribe_attempts';
+
+export interface SenderTarget {
+  type: SenderGroupBy;
+  value: string; // Sender address or domain, lowercase
+}
+
+export interface SenderRow extends SenderAnalytics {
+  sender_name?: string | null;
+  updated_at?: string;
+}
+
+export interface SenderSummary {
+  key: string; // Sender address, or domain when grouped by domain
+  domain: string;
+  sender_email?: string;
+  sender_name?: string | null;
+  sender_count: number; // Addresses behind this row; 1 when grouped by sender
+  total_emails: number;
+  unread_emails: number;
+  unread_ratio: number; // 0-1
+  total_size: number;
+  average_size: number;
+  emails_archived: number;
+  emails_deleted: number;
+  unsubscribe_attempts: number;
+  first_email_date?: string;
+  last_email_date?: string;
+}
+
+export interface SenderQueryOptions {
+  groupBy?: SenderGroupBy;
+  sort?: SenderSortField;
+  order?: 'asc' | 'desc';
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SenderCollectionResult {
+  scannedMessages: number;
+  senders: number;
+  domains: number;
+  truncated: boolean; // The scan stopped at maxMessages; older mail was not counted
+  collectedAt: string;
+}
+
+interface SenderAggregate {
+  email: string;
+  name: string | null;
+  newest: number;
+  oldest: number;
+  total: number;
+  unread: number;
+  size: number;
+}
+
+/**
+ * Parse a From header into a lowercase address, domain and display name
+ */
+export function parseSender(from: string): { email: string; domain: string; name: string | null } {
+  const angle = from.match(/<([^>]+)>/);
+  const email = (angle ? angle[1] : from).trim().toLowerCase();
+  const name = angle ? from.slice(0, angle.index).trim().replace(/^"|"$/g, '') || null : null;
+  const domain = email.includes('@') ? email.slice(email.lastIndexOf('@') + 1) : 'unknown';
+  return { email, domain, name };
+}
+
+/**
+ * Whether an email came from the target sender or domain. Gmail's from:
+ * search also matches display names and subdomains, so results are checked.
+ */
+export function matchesSender(email: Pick<EmailData, 'from'>, target: SenderTarget): boolean {
+  const sender = parseSender(email.from);
+  return target.type === 'sender' ? sender.email === target.value : sender.domain === target.value;
+}
+
+/**
+ * Messages from a sender or domain, newest first. Scope 'inbox' limits the
+ * search to the inbox (what archiving can act on); 'all' skips only the trash.
+ */
+export async function findSenderMessages(
+  gmailService: GmailService,
+  target: SenderTarget,
+  scope: 'inbox' | 'all',
+  maxMessages: number = MAX_SENDER_ACTION_MESSAGES
+): Promise<{ emails: EmailData[]; truncated: boolean }> {
+  const query = `${scope === 'inbox' ? 'in:inbox' : '-in:trash'} from:${target.value}`;
+  const emails: EmailData[] = [];
+
+  let scanned = 0;
+  let pageToken: string | undefined;
+  do {
+    const page = await gmailService.listMessageIdsPage(
+      query,
+      Math.min(SCAN_PAGE_SIZE, maxMessages - scanned),
+      pageToken
+    );
+    const batch = await gmailService.getEmailsByIds(page.ids);
+    emails.push(...batch.filter(email => matchesSender(email, target)));
+    scanned += page.ids.length;
+    pageToken = page.nextPageToken || undefined;
+  } while (pageToken && scanned < maxMessages);
+
+  return { emails, truncated: Boolean(pageToken) };
+}
+
+/**
+ * Builds sender_analytics from the mailbox and answers the sender explorer's queries
+ */
+export class SenderAnalyticsService {
+  private supabase: Promise<SupabaseClient>;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase ? Promise.resolve(supabase) : createClient();
+  }
+
+  /**
+   * Aggregate every sender in the newest maxMessages received messages.
+   * Action counters are kept; after a complete scan, senders that no
+   * longer have any mail are zeroed.
+   */
+  async collect(
+    userId: string,
+    gmailService: GmailService,
+    options: { maxMessages?: number; query?: string } = {}
+  ): Promise<SenderCollectionResult> {
+    const maxMessages = Math.min(options.maxMessages ?? DEFAULT_SENDER_SCAN_LIMIT, MAX_SENDER_SCAN_LIMIT);
+    const query = options.query ?? SENDER_SCAN_QUERY;
+    const collectedAt = new Date().toISOString();
+    const senders = new Map<string, SenderAggregate>();
+
+    let scannedMessages = 0;
+    let pageToken: string | undefined;
+    do {
+      const page = await gmailService.listMessageIdsPage(
+        query,
+        Math.min(SCAN_PAGE_SIZE, maxMessages - scannedMessages),
+        pageToken
+      );
+      for (const email of await gmailService.getEmailsByIds(page.ids)) {
+        addToAggregate(senders, email);
+      }
+      scannedMessages += page.ids.length;
+      pageToken = page.nextPageToken || undefined;
+    } while (pageToken && scannedMessages < maxMessages);
+
+    const truncated = Boolean(pageToken);
+    const supabase = await this.supabase;
+    const rows = Array.from(senders.values()).map(sender => ({
+      user_id: userId,
+      sender_email: sender.email,
+      domain: parseSender(sender.email).domain,
+      sender_name: sender.name,
+      total_emails: sender.total,
+      unread_emails: sender.unread,
+      total_size: sender.size,
+      average_size: Math.round(sender.size / sender.total),
+      first_email_date: sender.oldest ? new Date(sender.oldest).toISOString() : null,
+      last_email_date: sender.newest ? new Date(sender.newest).toISOString() : null,
+      updated_at: collectedAt,
+    }));
+
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('sender_analytics')
+        .upsert(rows.slice(i, i + WRITE_CHUNK_SIZE), { onConflict: 'user_id,sender_email' });
+      if (error) throw error;
+    }
+
+    if (!truncated) {
+      const { error } = await supabase
+        .from('sender_analytics')
+        .update({ total_emails: 0, unread_emails: 0, total_size: 0, average_size: 0, updated_at: collectedAt })
+        .eq('user_id', userId)
+        .lt('updated_at', collectedAt);
+      if (error) throw error;
+    }
+
+    return {
+      scannedMessages,
+      senders: senders.size,
+      domains: new Set(rows.map(row => row.domain)).size,
+      truncated,
+      collectedAt,
+    };
+  }
+
+  /**
+   * Senders (or domains) with mail, filtered, sorted and paged
+   */
+  async getSenders(
+    userId: string,
+    options: SenderQueryOptions = {}
+  ): Promise<{ senders: SenderSummary[]; total: number; collectedAt: string | null }> {
+    const { groupBy = 'sender', sort = 'total_emails', order = 'desc', limit = 50, offset = 0 } = options;
+    const search = options.search?.trim().toLowerCase();
+
+    const rows = await this.getRows(userId);
+    let summaries = groupBy === 'domain' ? groupByDomain(rows) : rows.map(toSummary);
+
+    if (search) {
+      summaries = summaries.filter(summary =>
+        summary.key.includes(search) ||
+        summary.domain.includes(search) ||
+        Boolean(summary.sender_name?.toLowerCase().includes(search))
+      );
+    }
+
+    const direction = order === 'asc' ? 1 : -1;
+    summaries.sort((a, b) => direction * compareBy(a, b, sort) || a.key.localeCompare(b.key));
+
+    const collectedAt = rows.reduce<string | null>(
+      (latest, row) => (row.updated_at && (!latest || row.updated_at > latest) ? row.updated_at : latest),
+      null
+    );
+
+    return {
+      senders: summaries.slice(offset, offset + limit),
+      total: summaries.length,
+      collectedAt,
+    };
+  }
+
+  /**
+   * Count an action taken on emails against each of their senders
+   */
+  async recordAction(userId: string, counter: SenderActionCounter, emails: Pick<EmailData, 'from'>[]): Promise<void> {
+    const counts = new Map<string, number>();
+    for (const email of emails) {
+      const sender = parseSender(email.from).email;
+      counts.set(sender, (counts.get(sender) || 0) + 1);
+    }
+    if (counts.size === 0) return;
+
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
+      .from('sender_analytics')
+      .select(`sender_email, ${counter}`)
+      .eq('user_id', userId)
+      .in('sender_email', Array.from(counts.keys()));
+    if (error) throw error;
+
+    for (const row of (data || []) as unknown as Array<Record<string, any>>) {
+      const { error: updateError } = await supabase
+        .from('sender_analytics')
+        .update({ [counter]: (row[counter] || 0) + (counts.get(row.sender_email) || 0) })
+        .eq('user_id', userId)
+        .eq('sender_email', row.sender_email);
+      if (updateError) throw updateError;
+    }
+  }
+
+  private async getRows(userId: string): Promise<SenderRow[]> {
+    const supabase = await this.supabase;
+    const rows: SenderRow[] = [];
+
+    for (let from = 0; ; from += READ_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('sender_analytics')
+        .select('*')
+        .eq('user_id', userId)
+        .gt('total_emails', 0)
+        .order('sender_email', { ascending: true })
+        .range(from, from + READ_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < READ_PAGE_SIZE) return rows;
+    }
+  }
+}
+
+function addToAggregate(senders: Map<string, SenderAggregate>, email: EmailData): void {
+  const { email: address, name } = parseSender(email.from);
+  if (!address) return;
+
+  const timestamp = email.timestamp ?? 0;
+  const sender = senders.get(address) || {
+    email: address,
+    name: null,
+    newest: 0,
+    oldest: 0,
+    total: 0,
+    unread: 0,
+    size: 0,
+  };
+
+  sender.total++;
+  sender.size += email.sizeEstimate || 0;
+  if (email.labels?.includes('UNREAD')) sender.unread++;
+  if (timestamp && (!sender.oldest || timestamp < sender.oldest)) sender.oldest = timestamp;
+  if (timestamp >= sender.newest) {
+    sender.newest = timestamp;
+    sender.name = name || sender.name;
+  }
+
+  senders.set(address, sender);
+}
+
+function toSummary(row: SenderRow): SenderSummary {
+  return {
+    key: row.sender_email,
+    domain: row.domain,
+    sender_email: row.sender_email,
+    sender_name: row.sender_name,
+    sender_count: 1,
+    total_emails: row.total_emails,
+    unread_emails: row.unread_emails,
+    unread_ratio: row.total_emails > 0 ? row.unread_emails / row.total_emails : 0,
+    total_size: Number(row.total_size),
+    average_size: Number(row.average_size),
+    emails_archived: row.emails_archived,
+    emails_deleted: row.emails_deleted,
+    unsubscribe_attempts: row.unsubscribe_attempts,
+    first_email_date: row.first_email_date,
+    last_email_date: row.last_email_date,
+  };
+}
+
+function groupByDomain(rows: SenderRow[]): SenderSummary[] {
+  const domains = new Map<string, SenderSummary>();
+
+  for (const row of rows) {
+    const sender = toSummary(row);
+    const domain = domains.get(row.domain);
+    if (!domain) {
+      domains.set(row.domain, { ...sender, key: row.domain, sender_email: undefined, sender_name: undefined });
+      continue;
+    }
+
+    domain.sender_count++;
+    domain.total_emails += sender.total_emails;
+    domain.unread_emails += sender.unread_emails;
+    domain.total_size += sender.total_size;
+    domain.emails_archived += sender.emails_archived;
+    domain.emails_deleted += sender.emails_deleted;
+    domain.unsubscribe_attempts += sender.unsubscribe_attempts;
+    domain.first_email_date = earliest(domain.first_email_date, sender.first_email_date);
+    domain.last_email_date = latest(domain.last_email_date, sender.last_email_date);
+  }
+
+  return Array.from(domains.values()).map(domain => ({
+    ...domain,
+    unread_ratio: domain.total_emails > 0 ? domain.unread_emails / domain.total_emails : 0,
+    average_size: domain.total_emails > 0 ? Math.round(domain.total_size / domain.total_emails) : 0,
+  }));
+}
+
+function compareBy(a: SenderSummary, b: SenderSummary, sort: SenderSortField): number {
+  if (sort === 'first_email_date' || sort === 'last_email_date') {
+    return (a[sort] || '').localeCompare(b[sort] || '');
+  }
+  return a[sort] - b[sort];
+}
+
+function earliest(a?: string, b?: string): string | undefined {
+  if (!a || !b) return a || b;
+  return a < b ? a : b;
+}
+
+function latest(a?: string, b?: string): string | undefined {
+  if (!a || !b) return a || b;
+  return a > b ? a : b;
+}
@@ -0,0 +1,676 @@
+// Sieve (RFC 5228) export and import for the subset of Sieve that maps onto
+// rule conditions and actions. Extensions used: fileinto, imap4flags (RFC 5232),
+// body (RFC 5173) and regex. Gmail archive has no Sieve equivalent, so it is
+// written as fileinto "Archive".
+
+import type { RuleAction } from './rules-engine';
+import { RuleCondition, RuleConditionNode, isConditionGroup, normalizeConditions, parseListValue } from './rule-conditions';
+import { PortableRule, TransferIssue, validatePortableRule } from './rule-transfer';
+
+const ARCHIVE_FOLDERS = ['archive', '[gmail]/all mail'];
+
+const FLAG_ACTIONS: Record<string, { add: RuleAction['type']; remove: RuleAction['type'] }> = {
+  '\\seen': { add: 'mark_read', remove: 'mark_unread' },
+  '\\flagged': { add: 'star', remove: 'unstar' },
+};
+
+const HEADER_FIELDS: Record<string, RuleCondition['field']> = {
+  subject: 'subject',
+  'list-id': 'list_id',
+};
+
+const ADDRESS_FIELDS: RuleCondition['field'][] = ['from', 'to', 'cc'];
+
+class SieveError extends Error {
+  constructor(public line: number, message: string) {
+    super(message);
+    this.name = 'SieveError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+/**
+ * Write rules (already in priority order) as one Sieve script. Rules that
+ * cannot be expressed are listed as comments at the top and in `issues`.
+ */
+export function rulesToSieve(rules: PortableRule[]): { script: string; issues: TransferIssue[] } {
+  const issues: TransferIssue[] = [];
+  const extensions = new Set<string>();
+  const blocks: string[] = [];
+
+  for (const rule of rules) {
+    if (rule.is_active === false) {
+      issues.push({ rule: rule.name, message: 'Inactive rules are not exported' });
+      continue;
+    }
+
+    try {
+      const used = new Set<string>();
+      const test = compileTest(normalizeConditions(rule.conditions), used);
+      const actions = rule.actions.map(action => compileAction(action, used));
+      if (rule.stop_processing) actions.push('stop;');
+
+      used.forEach(extension => extensions.add(extension));
+      blocks.push([
+        `# rule: ${rule.name.replace(/[\r\n]+/g, ' ')}`,
+        `# priority: ${rule.priority ?? 0}`,
+        `if ${test} {`,
+        ...actions.map(action => `    ${action}`),
+        '}',
+      ].join('\n'));
+    } catch (error) {
+      issues.push({ rule: rule.name, message: error instanceof Error ? error.message : 'Cannot be expressed in Sieve' });
+    }
+  }
+
+  const header = [`# InboxGremlin rules, exported ${new Date().toISOString()}`];
+  for (const issue of issues) {
+    header.push(`# not exported: "${issue.rule}": ${issue.message}`);
+  }
+  if (extensions.size > 0) {
+    header.push(`require [${Array.from(extensions).sort().map(quote).join(', ')}];`);
+  }
+
+  return { script: `${[header.join('\n'), ...blocks].join('\n\n')}\n`, issues };
+}
+
+function compileTest(node: RuleConditionNode, used: Set<string>): string {
+  if (!isConditionGroup(node)) return compileCondition(node, used);
+
+  const tests = node.conditions.map(child => compileTest(child, used));
+  switch (node.combinator) {
+    case 'all':
+      return tests.length === 1 ? tests[0] : `allof (${tests.join(', ')})`;
+    case 'any':
+      return tests.length === 1 ? tests[0] : `anyof (${tests.join(', ')})`;
+    case 'none':
+      return tests.length === 1 ? `not ${tests[0]}` : `not anyof (${tests.join(', ')})`;
+  }
+}
+
+function compileCondition(condition: RuleCondition, used: Set<string>): string {
+  const { field, operator, value } = condition;
+
+  if (field === 'size') {
+    if (operator === 'greater_than') return `size :over ${Number(value)}`;
+    if (operator === 'less_than') return `size :under ${Number(value)}`;
+    throw new Error('Size can only be compared with greater than or less than');
+  }
+
+  let subject: string;
+  if (ADDRESS_FIELDS.includes(field)) {
+    subject = `address ${matchArguments(condition, used)} ${quote(field)}`;
+  } else if (field === 'sender_domain') {
+    subject = `address :domain ${matchArguments(condition, used)} "from"`;
+  } else if (field === 'subject' || field === 'list_id' || field === 'header') {
+    const name = field === 'header' ? condition.header! : field === 'list_id' ? 'List-Id' : 'Subject';
+    subject = `header ${matchArguments(condition, used)} ${quote(name)}`;
+  } else if (field === 'body') {
+    used.add('body');
+    subject = `body :text ${matchArguments(condition, used)}`;
+  } else {
+    throw new Error(`The ${field.replace('_', ' ')} condition has no Sieve equivalent`);
+  }
+
+  const keys = operator === 'in_list'
+    ? `[${parseListValue(value).map(quote).join(', ')}]`
+    : quote(matchKey(operator, String(value)));
+  const test = `${subject} ${keys}`;
+  return operator === 'not_contains' ? `not ${test}` : test;
+}
+
+function matchArguments(condition: RuleCondition, used: Set<string>): string {
+  const comparator = condition.case_sensitive ? ':comparator "i;octet" ' : '';
+  switch (condition.operator) {
+    case 'contains':
+    case 'not_contains':
+      return `${comparator}:contains`;
+    case 'equals':
+    case 'in_list':
+      return `${comparator}:is`;
+    case 'starts_with':
+    case 'ends_with':
+      return `${comparator}:matches`;
+    case 'matches_regex':
+      used.add('regex');
+      return `${comparator}:regex`;
+    default:
+      throw new Error(`The "${condition.operator.replace(/_/g, ' ')}" operator has no Sieve equivalent`);
+  }
+}
+
+function matchKey(operator: RuleCondition['operator'], value: string): string {
+  const literal = value.replace(/[\\*?]/g, '\\$&');
+  if (operator === 'starts_with') return `${literal}*`;
+  if (operator === 'ends_with') return `*${literal}`;
+  return value;
+}
+
+function compileAction(action: RuleAction, used: Set<string>): string {
+  switch (action.type) {
+    case 'archive':
+      used.add('fileinto');
+      return 'fileinto "Archive";';
+    case 'label':
+      used.add('fileinto');
+      return `fileinto ${quote(action.value || '')};`;
+    case 'delete':
+      return 'discard;';
+    case 'forward':
+      return `redirect ${quote(action.value || '')};`;
+    case 'mark_read':
+    case 'mark_unread':
+    case 'star':
+    case 'unstar': {
+      used.add('imap4flags');
+      const flag = action.type.includes('read') ? '\\Seen' : '\\Flagged';
+      const command = action.type === 'mark_read' || action.type === 'star' ? 'addflag' : 'removeflag';
+      return `${command} ${quote(flag)};`;
+    }
+    default:
+      throw new Error(`The ${action.type} action has no Sieve equivalent`);
+  }
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+
+type Token =
+  | { type: 'string' | 'identifier' | 'tag' | 'punct'; value: string; line: number }
+  | { type: 'number'; value: number; line: number };
+
+type Argument =
+  | { type: 'strings'; values: string[]; line: number }
+  | { type: 'number'; value: number; line: number }
+  | { type: 'tag'; value: string; line: number };
+
+interface SieveTest {
+  name: string;
+  line: number;
+  args: Argument[];
+  tests: SieveTest[];
+}
+
+interface SieveCommand extends SieveTest {
+  block?: SieveCommand[];
+}
+
+/**
+ * Read a Sieve script into rules, one per top-level `if`. A rule using
+ * anything outside the supported subset is left out, and every such
+ * construct is reported with its line.
+ */
+export function parseSieve(script: string): { rules: PortableRule[]; issues: TransferIssue[] } {
+  const issues: TransferIssue[] = [];
+  let commands: SieveCommand[];
+  let comments: Map<number, string>;
+
+  try {
+    const tokenized = tokenize(script);
+    comments = tokenized.comments;
+    commands = new Parser(tokenized.tokens).parseCommands(false);
+  } catch (error) {
+    const line = error instanceof SieveError ? error.line : undefined;
+    return { rules: [], issues: [{ line, message: error instanceof Error ? error.message : 'Invalid Sieve script' }] };
+  }
+
+  const rules: { rule: PortableRule; line: number; explicitPriority: boolean }[] = [];
+
+  for (let i = 0; i < commands.length; i++) {
+    const command = commands[i];
+    const name = command.name.toLowerCase();
+
+    if (name === 'require') continue;
+    if (name === 'elsif' || name === 'else') {
+      issues.push({ line: command.line, message: `"${name}" branches are not supported; write each branch as its own if` });
+      continue;
+    }
+    if (name !== 'if') {
+      issues.push({ line: command.line, message: `"${command.name}" outside an if block is not supported` });
+      continue;
+    }
+
+    const ruleIssues: TransferIssue[] = [];
+    const conditions = convertTest(command.tests[0], ruleIssues);
+    const actions: RuleAction[] = [];
+    let stopProcessing = false;
+
+    for (const child of command.block || []) {
+      if (child.name.toLowerCase() === 'stop') {
+        stopProcessing = true;
+      } else {
+        actions.push(...convertAction(child, ruleIssues));
+      }
+    }
+
+    const annotations = readAnnotations(comments, command.line);
+    const ruleName = annotations.name || `Sieve rule (line ${command.line})`;
+
+    if (ruleIssues.length > 0 || !conditions) {
+      issues.push(...ruleIssues.map(issue => ({ ...issue, rule: ruleName })));
+      continue;
+    }
+
+    const rule: PortableRule = {
+      name: ruleName,
+      conditions: isConditionGroup(conditions) && conditions.combinator === 'all'
+        ? conditions
+        : { combinator: 'all', conditions: [conditions] },
+      actions,
+      priority: annotations.priority ?? 0,
+      stop_processing: stopProcessing,
+    };
+
+    const error = validatePortableRule(rule);
+    if (error) {
+      issues.push({ line: command.line, rule: ruleName, message: error });
+      continue;
+    }
+
+    rules.push({ rule, line: command.line, explicitPriority: annotations.priority !== undefined });
+  }
+
+  // Sieve runs top to bottom; keep that order when the script has no priorities
+  if (rules.length > 0 && rules.every(entry => !entry.explicitPriority)) {
+    rules.forEach((entry, index) => {
+      entry.rule.priority = rules.length - 1 - index;
+    });
+  }
+
+  return { rules: rules.map(entry => entry.rule), issues };
+}
+
+/**
+ * "# rule: Name" and "# priority: N" comments directly above a command
+ */
+function readAnnotations(comments: Map<number, string>, line: number): { name?: string; priority?: number } {
+  const annotations: { name?: string; priority?: number } = {};
+  for (let current = line - 1; comments.has(current); current--) {
+    const text = comments.get(current)!;
+    const name = text.match(/^rule:\s*(.+)$/i)?.[1];
+    const priority = text.match(/^priority:\s*(-?\d+)$/i)?.[1];
+    if (name && annotations.name === undefined) annotations.name = name.trim();
+    if (priority && annotations.priority === undefined) annotations.priority = Number(priority);
+  }
+  return annotations;
+}
+
+function convertTest(test: SieveTest | undefined, issues: TransferIssue[]): RuleConditionNode | null {
+  if (!test) {
+    issues.push({ message: 'if needs a test' });
+    return null;
+  }
+
+  const name = test.name.toLowerCase();
+  const unsupported = (message: string) => {
+    issues.push({ line: test.line, message });
+    return null;
+  };
+
+  switch (name) {
+    case 'allof':
+    case 'anyof': {
+      const children = test.tests.map(child => convertTest(child, issues));
+      if (children.some(child => !child)) return null;
+      return { combinator: name === 'allof' ? 'all' : 'any', conditions: children as RuleConditionNode[] };
+    }
+    case 'not': {
+      const inner = test.tests[0];
+      if (inner?.name.toLowerCase() === 'anyof') {
+        const children = inner.tests.map(child => convertTest(child, issues));
+        if (children.some(child => !child)) return null;
+        return { combinator: 'none', conditions: children as RuleConditionNode[] };
+      }
+      const child = convertTest(inner, issues);
+      return child ? { combinator: 'none', conditions: [child] } : null;
+    }
+    case 'size': {
+      const tag = test.args.find(arg => arg.type === 'tag')?.value as string | undefined;
+      const limit = test.args.find(arg => arg.type === 'number');
+      if (!limit || (tag !== ':over' && tag !== ':under')) return unsupported('size needs :over or :under and a number');
+      return { field: 'size', operator: tag === ':over' ? 'greater_than' : 'less_than', value: limit.value as number };
+    }
+    case 'header':
+    case 'address':
+    case 'body':
+      return convertMatchTest(test, issues);
+    default:
+      return unsupported(`The "${test.name}" test is not supported`);
+  }
+}
+
+function convertMatchTest(test: SieveTest, issues: TransferIssue[]): RuleConditionNode | null {
+  const name = test.name.toLowerCase();
+  const unsupported = (message: string) => {
+    issues.push({ line: test.line, message });
+    return null;
+  };
+
+  let matchType = ':is';
+  let addressPart = ':all';
+  let caseSensitive = false;
+  const strings: string[][] = [];
+
+  for (let i = 0; i < test.args.length; i++) {
+    const arg = test.args[i];
+    if (arg.type === 'strings') {
+      strings.push(arg.values);
+      continue;
+    }
+    if (arg.type === 'number') return unsupported(`Unexpected number in ${name}`);
+
+    const tag = arg.value.toLowerCase();
+    if ([':is', ':contains', ':matches', ':regex'].includes(tag)) {
+      matchType = tag;
+    } else if (tag === ':comparator') {
+      const comparator = test.args[++i];
+      const value = comparator?.type === 'strings' ? comparator.values[0].toLowerCase() : '';
+      if (value === 'i;octet') caseSensitive = true;
+      else if (value !== 'i;ascii-casemap') return unsupported(`Comparator "${value}" is not supported`);
+    } else if (name === 'address' && [':all', ':domain'].includes(tag)) {
+      addressPart = tag;
+    } else if (name === 'body' && (tag === ':text' || tag === ':raw')) {
+      continue;
+    } else {
+      return unsupported(`The ${arg.value} argument of ${name} is not supported`);
+    }
+  }
+
+  const [headerNames, keys] = name === 'body' ? [['body'], strings[0]] : [strings[0], strings[1]];
+  if (!headerNames || !keys || keys.length === 0) return unsupported(`${name} needs header names and keys`);
+
+  const leaves: RuleConditionNode[] = [];
+  for (const headerName of headerNames) {
+    const lower = headerName.toLowerCase();
+    let base: Pick<RuleCondition, 'field' | 'header'>;
+
+    if (name === 'body') {
+      base = { field: 'body' };
+    } else if (name === 'address') {
+      if (addressPart === ':domain') {
+        if (lower !== 'from') return unsupported('Only the sender domain (address :domain "from") is supported');
+        base = { field: 'sender_domain' };
+      } else if ((ADDRESS_FIELDS as string[]).includes(lower)) {
+        base = { field: lower as RuleCondition['field'] };
+      } else {
+        return unsupported(`address tests on "${headerName}" are not supported`);
+      }
+    } else if (HEADER_FIELDS[lower] || (ADDRESS_FIELDS as string[]).includes(lower)) {
+      base = { field: HEADER_FIELDS[lower] || (lower as RuleCondition['field']) };
+    } else {
+      base = { field: 'header', header: headerName };
+    }
+
+    const condition = (operator: RuleCondition['operator'], value: RuleCondition['value']): RuleCondition => ({
+      ...base,
+      operator,
+      value,
+      ...(caseSensitive ? { case_sensitive: true } : {}),
+    });
+
+    if (matchType === ':is' && keys.length > 1) {
+      leaves.push(condition('in_list', keys));
+      continue;
+    }
+
+    for (const key of keys) {
+      if (matchType === ':contains') {
+        leaves.push(condition('contains', key));
+      } else if (matchType === ':is') {
+        leaves.push(condition('equals', key));
+      } else if (matchType === ':regex') {
+        leaves.push(condition('matches_regex', key));
+      } else {
+        const pattern = convertWildcard(key);
+        if (!pattern) return unsupported(`The :matches pattern "${key}" is not supported; use *text, text* or *text*`);
+        leaves.push(condition(pattern.operator, pattern.value));
+      }
+    }
+  }
+
+  return leaves.length === 1 ? leaves[0] : { combinator: 'any', conditions: leaves };
+}
+
+/**
+ * Map simple :matches patterns onto text operators
+ */
+function convertWildcard(pattern: string): { operator: RuleCondition['operator']; value: string } | null {
+  const leading = pattern.startsWith('*');
+  const trailing = pattern.endsWith('*') && !pattern.endsWith('\\*');
+  const inner = pattern.slice(leading ? 1 : 0, trailing ? -1 : undefined);
+  if (/(^|[^\\])[*?]/.test(inner)) return null;
+
+  const value = inner.replace(/\\([\\*?])/g, '$1');
+  if (leading && trailing) return { operator: 'contains', value };
+  if (leading) return { operator: 'ends_with', value };
+  if (trailing) return { operator: 'starts_with', value };
+  return { operator: 'equals', value };
+}
+
+function convertAction(command: SieveCommand, issues: TransferIssue[]): RuleAction[] {
+  const name = command.name.toLowerCase();
+  const strings = command.args.filter(arg => arg.type === 'strings').flatMap(arg => (arg as { values: string[] }).values);
+  const tags = command.args.filter(arg => arg.type === 'tag').map(arg => String(arg.value).toLowerCase());
+  const unsupported = (message: string): RuleAction[] => {
+    issues.push({ line: command.line, message });
+    return [];
+  };
+
+  switch (name) {
+    case 'keep':
+      return [];
+    case 'discard':
+      return [{ type: 'delete' }];
+    case 'fileinto': {
+      if (tags.some(tag => tag !== ':copy' && tag !== ':create')) return unsupported('fileinto only supports :copy and :create');
+      const folder = strings[0];
+      if (!folder) return unsupported('fileinto needs a folder');
+      return [ARCHIVE_FOLDERS.includes(folder.toLowerCase()) ? { type: 'archive' } : { type: 'label', value: folder }];
+    }
+    case 'redirect':
+      if (tags.some(tag => tag !== ':copy')) return unsupported('redirect only supports :copy');
+      return strings[0] ? [{ type: 'forward', value: strings[0] }] : unsupported('redirect needs an address');
+    case 'addflag':
+    case 'setflag':
+    case 'removeflag': {
+      const actions: RuleAction[] = [];
+      for (const flag of strings.flatMap(value => value.split(/\s+/)).filter(Boolean)) {
+        const mapped = FLAG_ACTIONS[flag.toLowerCase()];
+        if (!mapped) return unsupported(`The ${flag} flag is not supported; only \\Seen and \\Flagged are`);
+        actions.push({ type: name === 'removeflag' ? mapped.remove : mapped.add });
+      }
+      return actions;
+    }
+    case 'if':
+      return unsupported('Nested if blocks are not supported');
+    default:
+      return unsupported(`The "${command.name}" action is not supported`);
+  }
+}
+
+function tokenize(script: string): { tokens: Token[]; comments: Map<number, string> } {
+  const tokens: Token[] = [];
+  const comments = new Map<number, string>();
+  let line = 1;
+  let i = 0;
+
+  while (i < script.length) {
+    const char = script[i];
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '#') {
+      const end = script.indexOf('\n', i);
+      const text = script.slice(i + 1, end === -1 ? undefined : end).trim();
+      comments.set(line, text);
+      i = end === -1 ? script.length : end;
+    } else if (script.startsWith('/*', i)) {
+      const end = script.indexOf('*/', i + 2);
+      if (end === -1) throw new SieveError(line, 'Unterminated comment');
+      line += (script.slice(i, end).match(/\n/g) || []).length;
+      i = end + 2;
+    } else if (char === '"') {
+      const start = line;
+      let value = '';
+      i++;
+      while (i < script.length && script[i] !== '"') {
+        if (script[i] === '\\' && i + 1 < script.length) i++;
+        if (script[i] === '\n') line++;
+        value += script[i++];
+      }
+      if (i >= script.length) throw new SieveError(start, 'Unterminated string');
+      i++;
+      tokens.push({ type: 'string', value, line: start });
+    } else if (/\d/.test(char)) {
+      const match = script.slice(i).match(/^(\d+)([KMG])?/i)!;
+      const multiplier = { k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[(match[2] || '').toLowerCase() as 'k'] || 1;
+      tokens.push({ type: 'number', value: Number(match[1]) * multiplier, line });
+      i += match[0].length;
+    } else if (char === ':' || /[A-Za-z_]/.test(char)) {
+      const match = script.slice(i).match(/^:?[A-Za-z_][A-Za-z0-9_]*/);
+      if (!match) throw new SieveError(line, `Unexpected "${char}"`);
+      if (match[0].toLowerCase() === 'text' && script[i + match[0].length] === ':') {
+        throw new SieveError(line, 'Multi-line text: strings are not supported');
+      }
+      tokens.push({ type: match[0].startsWith(':') ? 'tag' : 'identifier', value: match[0], line });
+      i += match[0].length;
+    } else if ('[](){},;'.includes(char)) {
+      tokens.push({ type: 'punct', value: char, line });
+      i++;
+    } else {
+      throw new SieveError(line, `Unexpected "${char}"`);
+    }
+  }
+
+  return { tokens, comments };
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseCommands(nested: boolean): SieveCommand[] {
+    const commands: SieveCommand[] = [];
+    while (this.position < this.tokens.length) {
+      if (nested && this.isPunct('}')) return commands;
+      commands.push(this.parseCommand());
+    }
+    if (nested) throw new SieveError(this.lastLine(), 'Missing "}"');
+    return commands;
+  }
+
+  private parseCommand(): SieveCommand {
+    const token = this.next();
+    if (token.type !== 'identifier') throw new SieveError(token.line, `Expected a command, found "${token.value}"`);
+
+    const command: SieveCommand = { name: token.value, line: token.line, args: this.parseArguments(), tests: [] };
+
+    if (this.isPunct('(')) {
+      command.tests = this.parseTestList();
+    } else if (this.peek()?.type === 'identifier') {
+      command.tests = [this.parseTest()];
+    }
+
+    if (this.isPunct('{')) {
+      this.position++;
+      command.block = this.parseCommands(true);
+      this.expect('}');
+    } else {
+      this.expect(';');
+    }
+
+    return command;
+  }
+
+  private parseTest(): SieveTest {
+    const token = this.next();
+    if (token.type !== 'identifier') throw new SieveError(token.line, `Expected a test, found "${token.value}"`);
+
+    const test: SieveTest = { name: token.value, line: token.line, args: this.parseArguments(), tests: [] };
+    if (this.isPunct('(')) {
+      test.tests = this.parseTestList();
+    } else if (this.peek()?.type === 'identifier') {
+      test.tests = [this.parseTest()];
+    }
+    return test;
+  }
+
+  private parseTestList(): SieveTest[] {
+    this.expect('(');
+    const tests = [this.parseTest()];
+    while (this.isPunct(',')) {
+      this.position++;
+      tests.push(this.parseTest());
+    }
+    this.expect(')');
+    return tests;
+  }
+
+  private parseArguments(): Argument[] {
+    const args: Argument[] = [];
+
+    while (true) {
+      const token = this.peek();
+      if (!token) return args;
+
+      if (token.type === 'string') {
+        this.position++;
+        args.push({ type: 'strings', values: [token.value], line: token.line });
+      } else if (token.type === 'number') {
+        this.position++;
+        args.push({ type: 'number', value: token.value, line: token.line });
+      } else if (token.type === 'tag') {
+        this.position++;
+        args.push({ type: 'tag', value: token.value, line: token.line });
+      } else if (this.isPunct('[')) {
+        this.position++;
+        const values: string[] = [];
+        do {
+          const item = this.next();
+          if (item.type !== 'string') throw new SieveError(item.line, 'String lists may only contain strings');
+          values.push(item.value);
+        } while (this.isPunct(',') && ++this.position);
+        this.expect(']');
+        args.push({ type: 'strings', values, line: token.line });
+      } else {
+        return args;
+      }
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) throw new SieveError(this.lastLine(), 'Unexpected end of script');
+    return token;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new SieveError(token.line, `Expected "${value}", found "${token.value}"`);
+    }
+  }
+
+  private lastLine(): number {
+    return this.tokens[this.tokens.length - 1]?.line ?? 1;
+  }
+}
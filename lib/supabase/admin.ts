@@ -0,0 +1,18 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client for background workers that run without a user session.
+ * Bypasses RLS, so callers must scope every query by user_id themselves.
+ */
+export function createAdminClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
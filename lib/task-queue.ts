@@ -0,0 +1,354 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+
+export type TaskType = 'bulk_email_operation' | 'scheduled_job';
+
+export type TaskStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'dead_letter' | 'cancelled';
+
+export interface TaskProgress {
+  processed?: number;
+  total?: number;
+  percent?: number;
+  message?: string;
+  checkpoint?: Record<string, any>; // Handler-defined resume state
+}
+
+export interface QueuedTask<T extends Record<string, any> = Record<string, any>> {
+  id: string;
+  task_type: TaskType;
+  task_data: T & { user_id: string };
+  priority: number;
+  status: TaskStatus;
+  attempts: number;
+  max_attempts: number;
+  scheduled_for: string;
+  started_at?: string;
+  completed_at?: string;
+  locked_by?: string;
+  locked_until?: string;
+  progress: TaskProgress;
+  dedupe_key?: string;
+  result?: Record<string, any>;
+  error_message?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnqueueOptions {
+  priority?: number;
+  maxAttempts?: number;
+  scheduledFor?: Date;
+  dedupeKey?: string;
+}
+
+export interface RetryPolicy {
+  baseDelay: number; // milliseconds
+  maxDelay: number; // milliseconds
+  backoffFactor: number;
+}
+
+// Task data keys that must never leave the server
+const PRIVATE_TASK_FIELDS = ['access_token', 'confirmation'];
+
+export class TaskQueueService {
+  private supabase: Promise<SupabaseClient>;
+
+  private retryPolicy: RetryPolicy = {
+    baseDelay: 30000,
+    maxDelay: 60 * 60 * 1000,
+    backoffFactor: 2,
+  };
+
+  constructor(supabase?: SupabaseClient, retryPolicy?: Partial<RetryPolicy>) {
+    this.supabase = supabase ? Promise.resolve(supabase) : createClient();
+    if (retryPolicy) {
+      this.retryPolicy = { ...this.retryPolicy, ...retryPolicy };
+    }
+  }
+
+  /**
+   * Add a task to the queue. Returns the existing task when an active task
+   * with the same dedupe key is already queued.
+   */
+  async enqueue<T extends Record<string, any>>(
+    taskType: TaskType,
+    userId: string,
+    taskData: T,
+    options: EnqueueOptions = {}
+  ): Promise<QueuedTask<T>> {
+    const supabase = await this.supabase;
+
+    if (options.dedupeKey) {
+      const existing = await this.findActiveTask(options.dedupeKey);
+      if (existing) return existing as QueuedTask<T>;
+    }
+
+    const { data, error } = await supabase
+      .from('task_queue')
+      .insert({
+        task_type: taskType,
+        task_data: { ...taskData, user_id: userId },
+        priority: options.priority ?? 0,
+        max_attempts: options.maxAttempts ?? 3,
+        scheduled_for: (options.scheduledFor || new Date()).toISOString(),
+        dedupe_key: options.dedupeKey || null,
+        status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to enqueue ${taskType} task: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Claim due tasks for a worker using row-level locking
+   */
+  async claimTasks(
+    workerId: string,
+    limit: number = 5,
+    lockSeconds: number = 300,
+    taskTypes?: TaskType[]
+  ): Promise<QueuedTask[]> {
+    const supabase = await this.supabase;
+
+    const { data, error } = await supabase.rpc('claim_tasks', {
+      p_worker_id: workerId,
+      p_limit: limit,
+      p_lock_seconds: lockSeconds,
+      p_task_types: taskTypes || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim tasks: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Record handler progress; also extends the worker's lease on the task
+   */
+  async updateProgress(
+    taskId: string,
+    workerId: string,
+    progress: TaskProgress,
+    lockSeconds: number = 300
+  ): Promise<void> {
+    const supabase = await this.supabase;
+
+    const percent = progress.total
+      ? Math.min(100, Math.round(((progress.processed || 0) / progress.total) * 100))
+      : progress.percent;
+
+    const { error } = await supabase
+      .from('task_queue')
+      .update({
+        progress: { ...progress, percent },
+        locked_until: new Date(Date.now() + lockSeconds * 1000).toISOString(),
+      })
+      .eq('id', taskId)
+      .eq('locked_by', workerId);
+
+    if (error) {
+      console.error(`Error updating progress for task ${taskId}:`, error);
+    }
+  }
+
+  /**
+   * Mark a claimed task as completed
+   */
+  async completeTask(taskId: string, workerId: string, result: Record<string, any>): Promise<void> {
+    const supabase = await this.supabase;
+
+    const { error } = await supabase
+      .from('task_queue')
+      .update({
+        status: 'completed',
+        result,
+        error_message: null,
+        completed_at: new Date().toISOString(),
+        locked_by: null,
+        locked_until: null,
+      })
+      .eq('id', taskId)
+      .eq('locked_by', workerId);
+
+    if (error) {
+      throw new Error(`Failed to complete task ${taskId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Record a failed attempt. Reschedules with exponential backoff, or moves the
+   * task to the dead-letter state once max_attempts is reached.
+   */
+  async failTask(
+    task: QueuedTask,
+    workerId: string,
+    errorMessage: string,
+    retryable: boolean = true
+  ): Promise<TaskStatus> {
+    const supabase = await this.supabase;
+    const exhausted = !retryable || task.attempts >= task.max_attempts;
+
+    const update: Record<string, any> = exhausted
+      ? {
+          status: 'dead_letter',
+          error_message: errorMessage,
+          completed_at: new Date().toISOString(),
+          locked_by: null,
+          locked_until: null,
+        }
+      : {
+          status: 'pending',
+          error_message: errorMessage,
+          scheduled_for: new Date(Date.now() + this.calculateBackoff(task.attempts)).toISOString(),
+          locked_by: null,
+          locked_until: null,
+        };
+
+    const { error } = await supabase
+      .from('task_queue')
+      .update(update)
+      .eq('id', task.id)
+      .eq('locked_by', workerId);
+
+    if (error) {
+      console.error(`Error recording failure for task ${task.id}:`, error);
+    }
+
+    return update.status;
+  }
+
+  /**
+   * Get a single task owned by the user
+   */
+  async getTask(taskId: string, userId: string): Promise<QueuedTask | null> {
+    const supabase = await this.supabase;
+
+    const { data, error } = await supabase
+      .from('task_queue')
+      .select('*')
+      .eq('id', taskId)
+      .eq('task_data->>user_id', userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to fetch task: ${error.message}`);
+    }
+
+    return data ? this.sanitizeTask(data) : null;
+  }
+
+  /**
+   * List a user's tasks, newest first
+   */
+  async getUserTasks(
+    userId: string,
+    options: { status?: TaskStatus[]; limit?: number } = {}
+  ): Promise<QueuedTask[]> {
+    const supabase = await this.supabase;
+    const { status, limit = 50 } = options;
+
+    let query = supabase
+      .from('task_queue')
+      .select('*')
+      .eq('task_data->>user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (status && status.length > 0) {
+      query = query.in('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch tasks: ${error.message}`);
+    }
+
+    return (data || []).map(task => this.sanitizeTask(task));
+  }
+
+  /**
+   * Cancel a task that has not started yet
+   */
+  async cancelTask(taskId: string, userId: string): Promise<boolean> {
+    const supabase = await this.supabase;
+
+    const { data, error } = await supabase
+      .from('task_queue')
+      .update({
+        status: 'cancelled',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', taskId)
+      .eq('task_data->>user_id', userId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to cancel task: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Requeue a dead-lettered task with a fresh attempt budget
+   */
+  async retryTask(taskId: string, userId: string): Promise<boolean> {
+    const supabase = await this.supabase;
+
+    const { data, error } = await supabase
+      .from('task_queue')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        error_message: null,
+        completed_at: null,
+        scheduled_for: new Date().toISOString(),
+      })
+      .eq('id', taskId)
+      .eq('task_data->>user_id', userId)
+      .in('status', ['dead_letter', 'failed'])
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to retry task: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  private async findActiveTask(dedupeKey: string): Promise<QueuedTask | null> {
+    const supabase = await this.supabase;
+
+    const { data } = await supabase
+      .from('task_queue')
+      .select('*')
+      .eq('dedupe_key', dedupeKey)
+      .in('status', ['pending', 'processing'])
+      .limit(1);
+
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  private calculateBackoff(attempt: number): number {
+    const delay = this.retryPolicy.baseDelay * Math.pow(this.retryPolicy.backoffFactor, Math.max(0, attempt - 1));
+    const jitteredDelay = delay * (0.5 + Math.random() * 0.5);
+    return Math.min(jitteredDelay, this.retryPolicy.maxDelay);
+  }
+
+  private sanitizeTask(task: QueuedTask): QueuedTask {
+    const taskData = { ...task.task_data };
+    for (const field of PRIVATE_TASK_FIELDS) {
+      delete (taskData as Record<string, any>)[field];
+    }
+    return { ...task, task_data: taskData };
+  }
+}
@@ -0,0 +1,293 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { TaskQueueService, QueuedTask, TaskProgress, TaskType } from '@/lib/task-queue';
+import type { BulkOperationResult } from '@/lib/gmail/service';
+import { GuardedOperation, SafetyDecision, SafetyGuard } from '@/lib/safety-guard';
+import { GmailEnhancedService } from '@/lib/gmail/enhanced-service';
+import { gmailErrorHandler, GmailErrorType } from '@/lib/gmail/error-handler';
+import { SchedulerService } from '@/lib/scheduler';
+import { TokenBroker, ReauthRequiredError } from '@/lib/token-broker';
+
+export interface TaskContext {
+  supabase: SupabaseClient;
+  reportProgress: (progress: TaskProgress) => Promise<void>;
+}
+
+export type TaskHandler = (task: QueuedTask, context: TaskContext) => Promise<Record<string, any>>;
+
+export interface TaskWorkerOptions {
+  batchSize?: number;
+  lockSeconds?: number;
+  taskTypes?: TaskType[];
+}
+
+export interface DrainResult {
+  claimed: number;
+  completed: number;
+  retried: number;
+  deadLettered: number;
+}
+
+export type BulkEmailAction = 'archive' | 'delete' | 'label' | 'markAsRead';
+
+export interface BulkEmailTaskData {
+  action: BulkEmailAction;
+  emailIds: string[];
+  labelIds?: string[];
+  confirmation?: string; // Sealed by SafetyGuard when the request passed its confirmation check
+  access_token?: string; // Fallback for users without an offline grant
+}
+
+export interface ScheduledJobTaskData {
+  job_id: string;
+}
+
+// Errors that will fail the same way on every attempt
+const NON_RETRYABLE_ERRORS = [
+  GmailErrorType.INVALID_TOKEN,
+  GmailErrorType.INSUFFICIENT_PERMISSIONS,
+  GmailErrorType.NOT_FOUND,
+];
+
+const BULK_CHUNK_SIZE = 100;
+
+const BULK_ACTION_OPERATIONS: Record<BulkEmailAction, GuardedOperation> = {
+  archive: 'archive',
+  delete: 'delete',
+  label: 'label',
+  markAsRead: 'mark_read',
+};
+
+/**
+ * The task refers to something its user does not own; retrying cannot help
+ */
+export class TaskOwnershipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskOwnershipError';
+  }
+}
+
+export class TaskWorker {
+  readonly workerId: string;
+  private queue: TaskQueueService;
+  private handlers = new Map<TaskType, TaskHandler>();
+  private options: Required<Omit<TaskWorkerOptions, 'taskTypes'>> & { taskTypes?: TaskType[] };
+
+  constructor(private supabase: SupabaseClient = createAdminClient(), options: TaskWorkerOptions = {}) {
+    this.workerId = `worker-${process.pid}-${Math.random().toString(36).slice(2, 10)}`;
+    this.queue = new TaskQueueService(supabase);
+    this.options = {
+      batchSize: options.batchSize ?? 5,
+      lockSeconds: options.lockSeconds ?? 300,
+      taskTypes: options.taskTypes,
+    };
+
+    this.registerHandler('bulk_email_operation', runBulkEmailOperation);
+    this.registerHandler('scheduled_job', runScheduledJob);
+  }
+
+  registerHandler(taskType: TaskType, handler: TaskHandler): void {
+    this.handlers.set(taskType, handler);
+  }
+
+  /**
+   * Claim one batch of due tasks and run them sequentially
+   */
+  async runOnce(): Promise<DrainResult> {
+    const summary: DrainResult = { claimed: 0, completed: 0, retried: 0, deadLettered: 0 };
+
+    const tasks = await this.queue.claimTasks(
+      this.workerId,
+      this.options.batchSize,
+      this.options.lockSeconds,
+      this.options.taskTypes
+    );
+    summary.claimed = tasks.length;
+
+    for (const task of tasks) {
+      const outcome = await this.runTask(task);
+      if (outcome === 'completed') summary.completed++;
+      else if (outcome === 'pending') summary.retried++;
+      else summary.deadLettered++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Keep claiming batches until the queue is empty or the time budget runs out
+   */
+  async drain(maxDurationMs: number = 50000): Promise<DrainResult> {
+    const deadline = Date.now() + maxDurationMs;
+    const total: DrainResult = { claimed: 0, completed: 0, retried: 0, deadLettered: 0 };
+
+    while (Date.now() < deadline) {
+      const batch = await this.runOnce();
+      total.claimed += batch.claimed;
+      total.completed += batch.completed;
+      total.retried += batch.retried;
+      total.deadLettered += batch.deadLettered;
+
+      if (batch.claimed === 0) break;
+    }
+
+    return total;
+  }
+
+  private async runTask(task: QueuedTask): Promise<string> {
+    const handler = this.handlers.get(task.task_type);
+    if (!handler) {
+      return this.queue.failTask(task, this.workerId, `No handler registered for ${task.task_type}`, false);
+    }
+
+    // A reclaimed task whose previous worker crashed may already be over budget
+    if (task.attempts > task.max_attempts) {
+      return this.queue.failTask(task, this.workerId, task.error_message || 'Maximum attempts exceeded', false);
+    }
+
+    const context: TaskContext = {
+      supabase: this.supabase,
+      reportProgress: async (progress) => {
+        task.progress = { ...task.progress, ...progress };
+        await this.queue.updateProgress(task.id, this.workerId, task.progress, this.options.lockSeconds);
+      },
+    };
+
+    try {
+      const result = await handler(task, context);
+      await this.queue.completeTask(task.id, this.workerId, result);
+      return 'completed';
+    } catch (error) {
+      console.error(`Task ${task.id} (${task.task_type}) failed on attempt ${task.attempts}:`, error);
+
+      if (error instanceof ReauthRequiredError || error instanceof TaskOwnershipError) {
+        return this.queue.failTask(task, this.workerId, error.message, false);
+      }
+
+      const gmailError = gmailErrorHandler.parseError(error);
+      const retryable = !NON_RETRYABLE_ERRORS.includes(gmailError.type);
+      return this.queue.failTask(task, this.workerId, gmailError.message, retryable);
+    }
+  }
+}
+
+/**
+ * Run a bulk Gmail operation in chunks, checkpointing after each chunk so a
+ * retried task resumes where the previous attempt stopped.
+ */
+const runBulkEmailOperation: TaskHandler = async (task, { supabase, reportProgress }) => {
+  const data = task.task_data as unknown as BulkEmailTaskData & { user_id: string };
+  const checkpoint = task.progress?.checkpoint || {};
+  const total = data.emailIds.length;
+
+  let nextIndex: number = checkpoint.nextIndex || 0;
+  let processedCount: number = checkpoint.processedCount || 0;
+  const errors: string[] = checkpoint.errors || [];
+  const operationIds: string[] = checkpoint.operationIds || [];
+  const safetyDecisions: SafetyDecision[] = checkpoint.safetyDecisions || [];
+
+  const brokerToken = await new TokenBroker(supabase).tryGetAccessToken(data.user_id);
+  const accessToken = brokerToken || data.access_token;
+  if (!accessToken) {
+    throw new ReauthRequiredError(data.user_id);
+  }
+
+  // Every chunk goes through the safety policy. Confirmation was settled at enqueue
+  // time; without a valid seal the task is treated like an unattended run.
+  const confirmed = SafetyGuard.verifyQueuedConfirmation(
+    data.confirmation,
+    data.user_id,
+    BULK_ACTION_OPERATIONS[data.action],
+    data.emailIds
+  );
+  const enhancedService = new GmailEnhancedService(accessToken, {
+    supabase,
+    userId: data.user_id,
+    safety: confirmed ? { confirmed: true } : { unattended: true },
+  });
+
+  while (nextIndex < total) {
+    const chunk = data.emailIds.slice(nextIndex, nextIndex + BULK_CHUNK_SIZE);
+    let result: Pick<BulkOperationResult, 'success' | 'processedCount' | 'errors'> & {
+      operationId?: string | null;
+      safety?: { decisions: SafetyDecision[] };
+    };
+
+    switch (data.action) {
+      case 'archive':
+        result = await enhancedService.archiveEmailsWithHistory(chunk);
+        break;
+      case 'delete':
+        result = await enhancedService.deleteEmailsWithHistory(chunk);
+        break;
+      case 'label':
+        result = await enhancedService.labelEmailsWithHistory(chunk, data.labelIds || []);
+        break;
+      case 'markAsRead':
+        result = await enhancedService.markAsReadWithHistory(chunk);
+        break;
+      default:
+        throw new Error(`Unknown bulk action: ${data.action}`);
+    }
+
+    // Nothing in the chunk went through: let the queue retry this chunk later
+    if (!result.success && result.processedCount === 0) {
+      await reportProgress({
+        processed: nextIndex,
+        total,
+        checkpoint: { nextIndex, processedCount, errors, operationIds, safetyDecisions },
+      });
+      throw new Error(result.errors[0] || `Bulk ${data.action} failed`);
+    }
+
+    processedCount += result.processedCount;
+    errors.push(...result.errors);
+    if (result.operationId) operationIds.push(result.operationId);
+    if (result.safety) safetyDecisions.push(...result.safety.decisions);
+    nextIndex += chunk.length;
+
+    await reportProgress({
+      processed: nextIndex,
+      total,
+      message: `${data.action}: ${nextIndex} of ${total}`,
+      checkpoint: { nextIndex, processedCount, errors, operationIds, safetyDecisions },
+    });
+  }
+
+  return {
+    success: errors.length === 0,
+    processedCount,
+    errors,
+    operationIds,
+    safetyDecisions,
+  };
+};
+
+const runScheduledJob: TaskHandler = async (task, { supabase }) => {
+  const data = task.task_data as unknown as ScheduledJobTaskData;
+
+  const { data: job, error } = await supabase
+    .from('scheduled_jobs')
+    .select('user_id')
+    .eq('id', data.job_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!job || job.user_id !== task.task_data.user_id) {
+    throw new TaskOwnershipError(`Scheduled job ${data.job_id} does not belong to the task's user`);
+  }
+
+  const scheduler = new SchedulerService(supabase, new TokenBroker(supabase));
+
+  const result = await scheduler.executeJobManually(data.job_id);
+  if (result.needsReauth) {
+    throw new ReauthRequiredError(task.task_data.user_id, result.message);
+  }
+  // Once the job has run, its failure is recorded and retrying would repeat
+  // whatever it already did; only failures before that are retried
+  if (!result.success && !result.ran) {
+    throw new Error(result.errors?.[0] || result.message);
+  }
+
+  return { ...result };
+};
@@ -0,0 +1,249 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { decryptSecret, encryptSecret } from '@/lib/token-crypto';
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+// Refresh a little before Google's expiry so in-flight calls don't race it
+const EXPIRY_SKEW_MS = 60 * 1000;
+
+export type OAuthGrantStatus = 'active' | 'revoked' | 'missing';
+
+export interface StoredOAuthTokens {
+  user_id: string;
+  provider: string;
+  encrypted_refresh_token: string;
+  encrypted_access_token?: string | null;
+  access_token_expires_at?: string | null;
+  scopes: string[];
+  status: 'active' | 'revoked';
+  last_error?: string | null;
+  last_refreshed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OAuthGrantInfo {
+  status: OAuthGrantStatus;
+  scopes: string[];
+  lastError?: string | null;
+  lastRefreshedAt?: string | null;
+  jobsNeedingReauth: number;
+}
+
+export class ReauthRequiredError extends Error {
+  constructor(public userId: string, message: string = 'Gmail access has expired or was revoked. Please sign in with Google again.') {
+    super(message);
+    this.name = 'ReauthRequiredError';
+  }
+}
+
+/**
+ * Hands out Gmail access tokens for a user without a browser session, using the
+ * offline refresh token captured at sign-in.
+ */
+export class TokenBroker {
+  private inflightRefreshes = new Map<string, Promise<string>>();
+
+  constructor(private supabase: SupabaseClient = createAdminClient()) {}
+
+  /**
+   * Persist the grant returned by Google at sign-in and clear any re-auth flags
+   */
+  async storeTokens(
+    userId: string,
+    tokens: { refreshToken: string; accessToken?: string | null; expiresAt?: Date; scopes?: string[] }
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('user_oauth_tokens')
+      .upsert({
+        user_id: userId,
+        provider: 'google',
+        encrypted_refresh_token: encryptSecret(tokens.refreshToken),
+        encrypted_access_token: tokens.accessToken ? encryptSecret(tokens.accessToken) : null,
+        access_token_expires_at: tokens.accessToken && tokens.expiresAt ? tokens.expiresAt.toISOString() : null,
+        scopes: tokens.scopes || [],
+        status: 'active',
+        last_error: null,
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(`Failed to store OAuth tokens: ${error.message}`);
+    }
+
+    await this.clearNeedsReauth(userId);
+  }
+
+  /**
+   * Return a valid access token for the user, refreshing it if it has expired.
+   * Throws ReauthRequiredError when there is no usable grant.
+   */
+  async getAccessToken(userId: string): Promise<string> {
+    const row = await this.getStoredTokens(userId);
+    if (!row || row.status === 'revoked') {
+      throw new ReauthRequiredError(userId);
+    }
+
+    const expiresAt = row.access_token_expires_at ? new Date(row.access_token_expires_at).getTime() : 0;
+    if (row.encrypted_access_token && expiresAt - EXPIRY_SKEW_MS > Date.now()) {
+      return decryptSecret(row.encrypted_access_token);
+    }
+
+    // Concurrent callers for the same user share one refresh request
+    const inflight = this.inflightRefreshes.get(userId);
+    if (inflight) return inflight;
+
+    const refresh = this.refreshAccessToken(row).finally(() => {
+      this.inflightRefreshes.delete(userId);
+    });
+    this.inflightRefreshes.set(userId, refresh);
+    return refresh;
+  }
+
+  /**
+   * Like getAccessToken, but returns null instead of throwing when the user must re-authenticate
+   */
+  async tryGetAccessToken(userId: string): Promise<string | null> {
+    try {
+      return await this.getAccessToken(userId);
+    } catch (error) {
+      if (error instanceof ReauthRequiredError) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Grant status for the settings UI. Never exposes token material.
+   */
+  async getGrantInfo(userId: string): Promise<OAuthGrantInfo> {
+    const row = await this.getStoredTokens(userId);
+
+    const { count } = await this.supabase
+      .from('scheduled_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('last_run_status', 'needs_reauth');
+
+    return {
+      status: row ? row.status : 'missing',
+      scopes: row?.scopes || [],
+      lastError: row?.last_error,
+      lastRefreshedAt: row?.last_refreshed_at,
+      jobsNeedingReauth: count || 0,
+    };
+  }
+
+  /**
+   * Mark the grant unusable and flag the user's active jobs so the UI can prompt for sign-in
+   */
+  async markNeedsReauth(userId: string, reason: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('user_oauth_tokens')
+      .update({
+        status: 'revoked',
+        last_error: reason,
+        encrypted_access_token: null,
+        access_token_expires_at: null,
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error(`Error marking OAuth grant revoked for user ${userId}:`, error);
+    }
+
+    const { error: jobsError } = await this.supabase
+      .from('scheduled_jobs')
+      .update({
+        last_run_status: 'needs_reauth',
+        last_run_message: `Gmail authorization required: ${reason}`,
+      })
+      .eq('user_id', userId)
+      .eq('is_active', true);
+
+    if (jobsError) {
+      console.error(`Error flagging jobs for re-auth for user ${userId}:`, jobsError);
+    }
+  }
+
+  private async clearNeedsReauth(userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('scheduled_jobs')
+      .update({
+        last_run_status: null,
+        last_run_message: null,
+      })
+      .eq('user_id', userId)
+      .eq('last_run_status', 'needs_reauth');
+
+    if (error) {
+      console.error(`Error clearing re-auth flags for user ${userId}:`, error);
+    }
+  }
+
+  private async getStoredTokens(userId: string): Promise<StoredOAuthTokens | null> {
+    const { data, error } = await this.supabase
+      .from('user_oauth_tokens')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load OAuth tokens: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  private async refreshAccessToken(row: StoredOAuthTokens): Promise<string> {
+    const clientId = process.env.GOOGLE_CLIENT_ID;
+    const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+    if (!clientId || !clientSecret) {
+      throw new Error('GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET must be configured to refresh tokens');
+    }
+
+    const response = await fetch(GOOGLE_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        refresh_token: decryptSecret(row.encrypted_refresh_token),
+        grant_type: 'refresh_token',
+      }),
+    });
+
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      // invalid_grant: refresh token revoked, expired, or issued to another client
+      if (body.error === 'invalid_grant' || body.error === 'unauthorized_client') {
+        const reason = body.error_description || body.error;
+        await this.markNeedsReauth(row.user_id, reason);
+        throw new ReauthRequiredError(row.user_id);
+      }
+      throw new Error(`Token refresh failed (${response.status}): ${body.error_description || body.error || 'unknown error'}`);
+    }
+
+    const accessToken: string = body.access_token;
+    const expiresAt = new Date(Date.now() + (body.expires_in || 3600) * 1000);
+
+    const { error } = await this.supabase
+      .from('user_oauth_tokens')
+      .update({
+        encrypted_access_token: encryptSecret(accessToken),
+        access_token_expires_at: expiresAt.toISOString(),
+        last_refreshed_at: new Date().toISOString(),
+        last_error: null,
+        // Google may rotate the refresh token
+        ...(body.refresh_token ? { encrypted_refresh_token: encryptSecret(body.refresh_token) } : {}),
+        ...(body.scope ? { scopes: String(body.scope).split(' ') } : {}),
+      })
+      .eq('user_id', row.user_id);
+
+    if (error) {
+      console.error(`Error caching refreshed access token for user ${row.user_id}:`, error);
+    }
+
+    return accessToken;
+  }
+}
@@ -1,11 +1,24 @@
 import { createClient } from '@/lib/supabase/server';
+import type { EmailData, GmailService } from '@/lib/gmail/service';
+import type { GmailCacheService } from '@/lib/gmail/cache-service';
+import { parseListUnsubscribe } from '@/lib/list-unsubscribe';
 
 export interface UnsubscribeLink {
   type: 'link' | 'mailto' | 'list_unsubscribe';
   url: string;
   text?: string;
   method?: 'GET' | 'POST';
-  isListUnsubscribe?: boolean;
+  isListUnsubscribe?: boolean; // From the List-Unsubscribe header
+  oneClick?: boolean; // The sender accepts an RFC 8058 one-click POST to this URL
+}
+
+/**
+ * Unsubscribe-related message headers, keyed by lowercase name
+ */
+export interface UnsubscribeHeaders {
+  'list-unsubscribe'?: string;
+  'list-unsubscribe-post'?: string;
+  'list-id'?: string;
 }
 
 export interface UnsubscribeCandidate {
@@ -18,22 +31,75 @@ export interface UnsubscribeCandidate {
   confidence: 'high' | 'medium' | 'low';
   category: 'newsletter' | 'promotional' | 'transactional' | 'social' | 'other';
   domain: string;
+  listId?: string;
 }
 
+/**
+ * What a sender domain's mail offers for unsubscribing. Cached per domain so
+ * repeated scans don't download message bodies again.
+ */
+export interface SenderUnsubscribeDetection {
+  unsubscribeLinks: UnsubscribeLink[]; // Empty when the sender offers no way to unsubscribe
+  confidence: UnsubscribeCandidate['confidence'];
+  category: UnsubscribeCandidate['category'];
+  listId?: string;
+  detectedAt: string;
+}
+
+// Bodies beyond this are cut before scanning for links
+const MAX_SCANNED_CONTENT = 256 * 1024;
+
 export interface UnsubscribeHistory {
   id: string;
   user_id: string;
   email_id: string;
   sender_domain: string;
   sender_email: string;
-  unsubscribe_method: string;
-  success: boolean;
+  unsubscribe_url: string;
+  method: string; // 'one_click', 'mailto' or 'link'
+  success: boolean | null; // Null while a link still needs the user to finish it
+  response_status?: number | null;
+  response_details?: Record<string, unknown> | null;
   attempted_at: string;
-  confirmed_at?: string;
-  error_message?: string;
+  confirmed_at?: string | null;
+  error_message?: string | null;
+  verification_status?: 'pending' | 'verified' | 'failed' | null; // Set by the follow-up job; null when there is nothing to verify
+  verified_at?: string | null;
+  messages_after_unsubscribe?: number;
+  last_message_at?: string | null;
+  escalation?: 'trash_filter' | 'spam' | null;
+  escalated_at?: string | null;
+  gmail_filter_id?: string | null;
+}
+
+export interface SenderUnsubscribeStats {
+  domain: string;
+  count: number;
+  successRate: number; // Attempts the sender accepted, in percent
+  verified: number;
+  failed: number;
+  pending: number;
+  verifiedSuccessRate: number | null; // Verified share of settled attempts, in percent; null until one settles
+}
+
+export interface UnsubscribeAttempt {
+  userId: string;
+  emailId: string;
+  senderEmail: string;
+  method: string;
+  url: string;
+  success: boolean | null;
+  responseStatus?: number;
+  errorMessage?: string;
+  details?: Record<string, unknown>;
 }
 
 export class UnsubscribeDetector {
+  // Detections made during this detector's lifetime, so a scan never downloads a domain twice
+  private detections = new Map<string, SenderUnsubscribeDetection>();
+
+  constructor(private cache?: GmailCacheService) {}
+
   private commonUnsubscribePatterns = [
     // English patterns
     /unsubscribe/i,
@@ -144,18 +210,16 @@ export class UnsubscribeDetector {
     
     // Arabic patterns (romanized)
     /ilgha[- ]?al[- ]?ishtirak/i, // إلغاء الاشتراك (cancel subscription)
-    
-    // Common URL patterns regardless of language
+  ];
+
+  // Common URL patterns regardless of language. Words like "out" or "stop"
+  // are left out: they match ordinary links once whole HTML bodies are scanned.
+  private unsubscribeUrlPatterns = [
     /unsub/i,
-    /optout/i,
-    /remove/i,
-    /leave/i,
-    /stop/i,
-    /cancel/i,
-    /delete/i,
-    /quit/i,
-    /off/i,
-    /out/i,
+    /opt[-_]?out/i,
+    /remove[-_]?me/i,
+    /manage[-_]?subscriptions?/i,
+    /(email|mail|subscription|notification)[-_]?(preferences|settings)/i,
   ];
 
   private promotionalKeywords = [
@@ -174,7 +238,8 @@ export class UnsubscribeDetector {
   ];
 
   /**
-   * Detect unsubscribe opportunities in email content
+   * Detect unsubscribe opportunities in email content. fullContent is the
+   * decoded text and HTML body; headers carry List-Unsubscribe and List-Id.
    */
   async detectUnsubscribeOpportunities(
     emailId: string,
@@ -182,18 +247,29 @@ export class UnsubscribeDetector {
     from: string,
     date: string,
     snippet: string,
-    fullContent?: string
+    fullContent?: string,
+    headers: UnsubscribeHeaders = {}
   ): Promise<UnsubscribeCandidate | null> {
-    const content = fullContent || snippet;
-    const unsubscribeLinks = this.extractUnsubscribeLinks(content);
+    const content = (fullContent || snippet).slice(0, MAX_SCANNED_CONTENT);
+    const unsubscribeLinks = this.extractHeaderLinks(headers);
+    for (const link of this.extractUnsubscribeLinks(content)) {
+      if (!unsubscribeLinks.some(existing => existing.url === link.url)) {
+        unsubscribeLinks.push(link);
+      }
+    }
     
     if (unsubscribeLinks.length === 0) {
       return null;
     }
 
     const domain = this.extractDomain(from);
-    const category = this.categorizeEmail(subject, from, content);
-    const confidence = this.calculateConfidence(unsubscribeLinks, category, from);
+    const listId = headers['list-id']?.trim() || undefined;
+    let category = this.categorizeEmail(subject, from, content);
+    // Mail that identifies itself as a list (RFC 2919) is bulk mail
+    if (category === 'other' && listId) {
+      category = 'newsletter';
+    }
+    const confidence = this.calculateConfidence(unsubscribeLinks, category, from, headers);
 
     return {
       emailId,
@@ -203,8 +279,64 @@ export class UnsubscribeDetector {
       snippet,
       unsubscribeLinks,
       confidence,
-      category,
+      category: category as UnsubscribeCandidate['category'],
       domain,
+      listId,
+    };
+  }
+
+  /**
+   * Detect unsubscribe options for a listed email. The first email from a
+   * sender domain is downloaded and scanned; later emails from the domain
+   * reuse the cached result.
+   */
+  async detectForEmail(email: EmailData, gmailService: GmailService): Promise<UnsubscribeCandidate | null> {
+    const domain = this.extractDomain(email.from);
+    let detection = this.detections.get(domain) ||
+      (domain && this.cache ? await this.cache.getCachedUnsubscribeDetection(domain) : null);
+
+    if (!detection) {
+      const content = await gmailService.getMessageContent(email.id, { attachments: false });
+      const candidate = await this.detectUnsubscribeOpportunities(
+        email.id,
+        email.subject,
+        email.from,
+        email.date,
+        email.snippet,
+        [content.html, content.text].filter(Boolean).join('\n'),
+        content.headers
+      );
+
+      detection = {
+        unsubscribeLinks: candidate?.unsubscribeLinks || [],
+        confidence: candidate?.confidence || 'low',
+        category: candidate?.category || 'other',
+        listId: candidate?.listId,
+        detectedAt: new Date().toISOString(),
+      };
+      if (domain) {
+        await this.cache?.setCachedUnsubscribeDetection(domain, detection);
+      }
+    }
+    if (domain) {
+      this.detections.set(domain, detection);
+    }
+
+    if (detection.unsubscribeLinks.length === 0) {
+      return null;
+    }
+
+    return {
+      emailId: email.id,
+      subject: email.subject,
+      from: email.from,
+      date: email.date,
+      snippet: email.snippet,
+      unsubscribeLinks: detection.unsubscribeLinks,
+      confidence: detection.confidence,
+      category: detection.category,
+      domain,
+      listId: detection.listId,
     };
   }
 
@@ -271,52 +403,80 @@ export class UnsubscribeDetector {
   ];
 
   /**
-   * Extract unsubscribe links from email content
+   * Links from the List-Unsubscribe header, in the sender's order of preference
+   */
+  private extractHeaderLinks(headers: UnsubscribeHeaders): UnsubscribeLink[] {
+    const targets = parseListUnsubscribe(headers['list-unsubscribe'], headers['list-unsubscribe-post']);
+
+    return [
+      ...targets.https.map((url, index): UnsubscribeLink => ({
+        type: 'list_unsubscribe',
+        url,
+        method: targets.oneClick && index === 0 ? 'POST' : 'GET',
+        isListUnsubscribe: true,
+        oneClick: targets.oneClick && index === 0,
+      })),
+      ...targets.mailto.map((url): UnsubscribeLink => ({ type: 'mailto', url, isListUnsubscribe: true })),
+      ...targets.http.map((url): UnsubscribeLink => ({
+        type: 'list_unsubscribe',
+        url,
+        method: 'GET',
+        isListUnsubscribe: true,
+      })),
+    ];
+  }
+
+  /**
+   * Extract unsubscribe links from email content (text or HTML)
    */
   private extractUnsubscribeLinks(content: string): UnsubscribeLink[] {
     const links: UnsubscribeLink[] = [];
-    
-    // Extract HTTP/HTTPS links that contain unsubscribe patterns
-    const httpLinkRegex = /https?:\/\/[^\s<>"]+/gi;
-    const httpMatches = content.match(httpLinkRegex) || [];
-    
-    for (const url of httpMatches) {
-      if (this.commonUnsubscribePatterns.some(pattern => pattern.test(url))) {
-        links.push({
-          type: 'link',
-          url: url,
-          method: 'GET'
-        });
+    const addLink = (link: UnsubscribeLink) => {
+      if (!links.some(existing => existing.url === link.url)) {
+        links.push(link);
+      }
+    };
+    const mentionsUnsubscribe = (text: string) =>
+      this.commonUnsubscribePatterns.some(pattern => pattern.test(text)) ||
+      this.unicodeUnsubscribePatterns.some(pattern => text.search(pattern) !== -1);
+
+    // Anchors whose text says unsubscribe, in any supported language
+    const anchorRegex = /<a\b[^>]*?\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]{0,2000}?)<\/a>/gi;
+    let anchorMatch;
+    while ((anchorMatch = anchorRegex.exec(content)) !== null) {
+      const url = decodeHtmlEntities(anchorMatch[1]).trim();
+      const text = decodeHtmlEntities(anchorMatch[2].replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+      if (!/^(https?:|mailto:)/i.test(url)) continue;
+
+      if (mentionsUnsubscribe(text) || this.unsubscribeUrlPatterns.some(pattern => pattern.test(url))) {
+        addLink(/^mailto:/i.test(url)
+          ? { type: 'mailto', url, text }
+          : { type: 'link', url, text, method: 'GET' });
+      }
+    }
+
+    // Bare HTTP/HTTPS links that look like unsubscribe endpoints
+    const httpLinkRegex = /https?:\/\/[^\s<>"']+/gi;
+    for (const rawUrl of content.match(httpLinkRegex) || []) {
+      const url = decodeHtmlEntities(rawUrl);
+      if (this.unsubscribeUrlPatterns.some(pattern => pattern.test(url))) {
+        addLink({ type: 'link', url, method: 'GET' });
       }
     }
 
-    // Also check for links near Unicode unsubscribe text
+    // Links within 100 characters of Unicode unsubscribe text
     for (const pattern of this.unicodeUnsubscribePatterns) {
-      const matches = content.match(pattern);
-      if (matches) {
-        // Look for links within 200 characters of Unicode unsubscribe text
-        const patternIndex = content.search(pattern);
-        if (patternIndex !== -1) {
-          const contextStart = Math.max(0, patternIndex - 100);
-          const contextEnd = Math.min(content.length, patternIndex + 100);
-          const context = content.substring(contextStart, contextEnd);
-          
-          const contextLinks = context.match(httpLinkRegex) || [];
-          for (const contextUrl of contextLinks) {
-            if (!links.some(link => link.url === contextUrl)) {
-              links.push({
-                type: 'link',
-                url: contextUrl,
-                method: 'GET'
-              });
-            }
-          }
-        }
+      const patternIndex = content.search(pattern);
+      if (patternIndex === -1) continue;
+
+      const context = content.substring(Math.max(0, patternIndex - 100), patternIndex + 100);
+      for (const contextUrl of context.match(httpLinkRegex) || []) {
+        addLink({ type: 'link', url: decodeHtmlEntities(contextUrl), method: 'GET' });
       }
     }
 
-    // Extract mailto links
-    const mailtoRegex = /mailto:([^\s<>"?]+)(?:\?([^"]*?))?/gi;
+    // Plain-text mailto links
+    const mailtoRegex = /mailto:([^\s<>"'?]+)(?:\?([^\s<>"']*))?/gi;
     let mailtoMatch;
     while ((mailtoMatch = mailtoRegex.exec(content)) !== null) {
       const email = mailtoMatch[1];
@@ -324,68 +484,8 @@ export class UnsubscribeDetector {
       
       if (this.commonUnsubscribePatterns.some(pattern => 
         pattern.test(email) || (params && pattern.test(params))
-      )) {
-        links.push({
-          type: 'mailto',
-          url: mailtoMatch[0]
-        });
-      }
-    }
-
-    // Look for List-Unsubscribe header references
-    const listUnsubscribeRegex = /list-unsubscribe[:\s]+<?([^>]+)>?/gi;
-    let listMatch;
-    while ((listMatch = listUnsubscribeRegex.exec(content)) !== null) {
-      links.push({
-        type: 'list_unsubscribe',
-        url: listMatch[1].trim(),
-        isListUnsubscribe: true
-      });
-    }
-
-    // Look for unsubscribe text with surrounding context (Latin script)
-    const textLinkRegex = /<a[^>]*href=["']([^"']*?)["'][^>]*>([^<]*unsubscribe[^<]*)<\/a>/gi;
-    let textMatch;
-    while ((textMatch = textLinkRegex.exec(content)) !== null) {
-      if (!links.some(link => link.url === textMatch[1])) {
-        links.push({
-          type: 'link',
-          url: textMatch[1],
-          text: textMatch[2].trim(),
-          method: 'GET'
-        });
-      }
-    }
-
-    // Look for Unicode unsubscribe text in links
-    for (const pattern of this.unicodeUnsubscribePatterns) {
-      const unicodeTextRegex = new RegExp(`<a[^>]*href=["']([^"']*?)["'][^>]*>([^<]*${pattern.source}[^<]*)<\/a>`, 'gi');
-      let unicodeMatch;
-      while ((unicodeMatch = unicodeTextRegex.exec(content)) !== null) {
-        if (!links.some(link => link.url === unicodeMatch[1])) {
-          links.push({
-            type: 'link',
-            url: unicodeMatch[1],
-            text: unicodeMatch[2].trim(),
-            method: 'GET'
-          });
-        }
-      }
-    }
-
-    // Also check for common unsubscribe patterns in other languages
-    for (const pattern of this.commonUnsubscribePatterns) {
-      const langTextRegex = new RegExp(`<a[^>]*href=["']([^"']*?)["'][^>]*>([^<]*${pattern.source}[^<]*)<\/a>`, 'gi');
-      let langMatch;
-      while ((langMatch = langTextRegex.exec(content)) !== null) {
-        if (!links.some(link => link.url === langMatch[1])) {
-          links.push({
-            type: 'link',
-            url: langMatch[1],
-            text: langMatch[2].trim(),
-            method: 'GET'
-          });
-        }
+      ) || /unsub/i.test(email) || (params && /unsub/i.test(params))) {
+        addLink({ type: 'mailto', url: decodeHtmlEntities(mailtoMatch[0]) });
       }
     }
 
@@ -418,29 +518,41 @@ export class UnsubscribeDetector {
   }
 
   /**
-   * Calculate confidence level for unsubscribe success
+   * Calculate confidence level for unsubscribe success. Headers the sender
+   * publishes for unsubscribing outweigh anything found in the body.
    */
   private calculateConfidence(
     links: UnsubscribeLink[],
     category: string,
-    from: string
+    from: string,
+    headers: UnsubscribeHeaders = {}
   ): 'high' | 'medium' | 'low' {
     let score = 0;
-
-    // List-Unsubscribe header presence (RFC compliant)
-    if (links.some(link => link.isListUnsubscribe)) {
+    const headerLinks = links.filter(link => link.isListUnsubscribe);
+
+    if (headerLinks.some(link => link.oneClick)) {
+      // RFC 8058: a single POST unsubscribes, no page to get through
+      score += 5;
+    } else if (headerLinks.some(link => link.type === 'mailto')) {
+      // RFC 2369 mailto: handled without visiting the sender's site
+      score += 4;
+    } else if (headerLinks.length > 0) {
+      // RFC 2369 link: the sender still publishes an unsubscribe endpoint
       score += 3;
     }
 
+    // A mailing list identifies itself (RFC 2919)
+    if (headers['list-id']) {
+      score += 1;
+    }
+
     // Multiple unsubscribe methods
     if (links.length > 1) {
-      score += 2;
+      score += 1;
     }
 
-    // Category-based scoring
-    if (category === 'newsletter' || category === 'promotional') {
-      score += 2;
-    } else if (category === 'social') {
+    // Bulk mail categories
+    if (category === 'newsletter' || category === 'promotional' || category === 'social') {
       score += 1;
     }
 
@@ -453,7 +565,7 @@ export class UnsubscribeDetector {
     ];
 
     if (reputableDomains.some(repDomain => domain.includes(repDomain))) {
-      score += 2;
+      score += 1;
     }
 
     // HTTPS links (more secure)
@@ -478,7 +590,7 @@ export class UnsubscribeDetector {
    * Get unsubscribe history for analysis
    */
   async getUnsubscribeHistory(userId: string, domain?: string): Promise<UnsubscribeHistory[]> {
-    const supabase = createClient();
+    const supabase = await createClient();
     
     let query = supabase
       .from('unsubscribe_history')
@@ -503,28 +615,26 @@ export class UnsubscribeDetector {
   /**
    * Record unsubscribe attempt
    */
-  async recordUnsubscribeAttempt(
-    userId: string,
-    emailId: string,
-    senderEmail: string,
-    method: string,
-    success: boolean,
-    errorMessage?: string
-  ): Promise<string | null> {
-    const supabase = createClient();
+  async recordUnsubscribeAttempt(attempt: UnsubscribeAttempt): Promise<string | null> {
+    const supabase = await createClient();
     
-    const domain = this.extractDomain(senderEmail);
+    const domain = this.extractDomain(attempt.senderEmail);
     
     const { data, error } = await supabase
       .from('unsubscribe_history')
       .insert({
-        user_id: userId,
-        email_id: emailId,
+        user_id: attempt.userId,
+        email_id: attempt.emailId,
         sender_domain: domain,
-        sender_email: senderEmail,
-        unsubscribe_method: method,
-        success,
-        error_message: errorMessage,
+        sender_email: attempt.senderEmail,
+        method: attempt.method,
+        unsubscribe_url: attempt.url,
+        success: attempt.success,
+        // Accepted attempts are watched by the follow-up job to see if the sender stops
+        verification_status: attempt.success ? 'pending' : null,
+        response_status: attempt.responseStatus ?? null,
+        error_message: attempt.errorMessage ?? null,
+        response_details: attempt.details ?? null,
         attempted_at: new Date().toISOString(),
       })
       .select()
@@ -542,13 +652,14 @@ export class UnsubscribeDetector {
    * Update unsubscribe confirmation
    */
   async confirmUnsubscribe(historyId: string): Promise<boolean> {
-    const supabase = createClient();
+    const supabase = await createClient();
     
     const { error } = await supabase
       .from('unsubscribe_history')
       .update({
         success: true,
         confirmed_at: new Date().toISOString(),
+        verification_status: 'pending',
       })
       .eq('id', historyId);
 
@@ -561,35 +672,48 @@ export class UnsubscribeDetector {
   }
 
   /**
-   * Get unsubscribe statistics
+   * Get unsubscribe statistics. Success rates count attempts the sender
+   * accepted; verified rates count senders that actually stopped mailing.
    */
   async getUnsubscribeStats(userId: string): Promise<{
     totalAttempts: number;
     successfulUnsubscribes: number;
-    topDomains: Array<{ domain: string; count: number; successRate: number }>;
+    verifiedUnsubscribes: number;
+    failedVerifications: number;
+    pendingVerifications: number;
+    topDomains: SenderUnsubscribeStats[];
     recentActivity: UnsubscribeHistory[];
   }> {
     const history = await this.getUnsubscribeHistory(userId);
     
     const totalAttempts = history.length;
     const successfulUnsubscribes = history.filter(h => h.success).length;
+    const countStatus = (records: UnsubscribeHistory[], status: UnsubscribeHistory['verification_status']) =>
+      records.filter(h => h.verification_status === status).length;
 
     // Calculate domain statistics
-    const domainStats = new Map<string, { total: number; successful: number }>();
+    const domainHistory = new Map<string, UnsubscribeHistory[]>();
     
     for (const record of history) {
-      const current = domainStats.get(record.sender_domain) || { total: 0, successful: 0 };
-      current.total++;
-      if (record.success) current.successful++;
-      domainStats.set(record.sender_domain, current);
+      const records = domainHistory.get(record.sender_domain) || [];
+      records.push(record);
+      domainHistory.set(record.sender_domain, records);
     }
 
-    const topDomains = Array.from(domainStats.entries())
-      .map(([domain, stats]) => ({
-        domain,
-        count: stats.total,
-        successRate: stats.total > 0 ? (stats.successful / stats.total) * 100 : 0,
-      }))
+    const topDomains = Array.from(domainHistory.entries())
+      .map(([domain, records]): SenderUnsubscribeStats => {
+        const verified = countStatus(records, 'verified');
+        const failed = countStatus(records, 'failed');
+        return {
+          domain,
+          count: records.length,
+          successRate: (records.filter(h => h.success).length / records.length) * 100,
+          verified,
+          failed,
+          pending: countStatus(records, 'pending'),
+          verifiedSuccessRate: verified + failed > 0 ? (verified / (verified + failed)) * 100 : null,
+        };
+      })
       .sort((a, b) => b.count - a.count)
       .slice(0, 10);
 
@@ -598,8 +722,27 @@ export class UnsubscribeDetector {
     return {
       totalAttempts,
       successfulUnsubscribes,
+      verifiedUnsubscribes: countStatus(history, 'verified'),
+      failedVerifications: countStatus(history, 'failed'),
+      pendingVerifications: countStatus(history, 'pending'),
       topDomains,
       recentActivity,
     };
   }
-}
\ No newline at end of file
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]{1,6});/gi, (entity, hex) => fromCodePoint(parseInt(hex, 16), entity))
+    .replace(/&#(\d{1,7});/g, (entity, dec) => fromCodePoint(parseInt(dec, 10), entity))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+function fromCodePoint(codePoint: number, fallback: string): string {
+  return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : fallback;
+}
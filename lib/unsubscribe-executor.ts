@@ -0,0 +1,135 @@
+import type { EmailData, GmailService } from '@/lib/gmail/service';
+import { buildMimeMessage, toBase64Url } from '@/lib/gmail/mime';
+import { ListUnsubscribeTargets, parseListUnsubscribe, parseMailto } from '@/lib/list-unsubscribe';
+import { SafeHttpError, safeRequest } from '@/lib/safe-http';
+
+export type UnsubscribeMethod = 'one_click' | 'mailto' | 'link';
+
+export interface UnsubscribeOutcome {
+  method: UnsubscribeMethod;
+  url: string;
+  success: boolean | null; // Null when the user still has to finish in a browser
+  responseStatus?: number; // HTTP status of the one-click POST
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Carries out unsubscribes on the user's behalf: RFC 8058 one-click POSTs
+ * through the SSRF-safe client, and mailto requests sent from the user's
+ * Gmail account. Plain links are never fetched, since a GET may only show a
+ * confirmation page (or unsubscribe when a mail scanner follows it).
+ */
+export class UnsubscribeExecutor {
+  constructor(private gmailService: GmailService) {}
+
+  /**
+   * Pick the strongest method the message offers: one-click, then a header
+   * mailto, then the link the user chose (left for the browser)
+   */
+  async unsubscribe(targets: ListUnsubscribeTargets, fallbackUrl?: string): Promise<UnsubscribeOutcome> {
+    if (targets.oneClick) {
+      return this.oneClick(targets.https[0]);
+    }
+    if (fallbackUrl && /^mailto:/i.test(fallbackUrl)) {
+      return this.sendMailto(fallbackUrl);
+    }
+    if (targets.mailto.length > 0) {
+      return this.sendMailto(targets.mailto[0]);
+    }
+
+    const url = fallbackUrl || targets.https[0] || targets.http[0];
+    if (!url) {
+      return { method: 'link', url: '', success: false, error: 'No unsubscribe link found' };
+    }
+    return {
+      method: 'link',
+      url,
+      success: null,
+      error: 'The sender does not support one-click unsubscribe; open the link to finish',
+    };
+  }
+
+  /**
+   * Unsubscribe using an email fetched with LIST_UNSUBSCRIBE_HEADERS. A
+   * mailto the user picked is sent as is; otherwise the headers decide.
+   */
+  async unsubscribeFromEmail(
+    email: Pick<EmailData, 'headers'>,
+    chosenUrl?: string,
+    method?: string
+  ): Promise<UnsubscribeOutcome> {
+    if (method === 'mailto' && chosenUrl) {
+      return this.sendMailto(chosenUrl);
+    }
+
+    const targets = parseListUnsubscribe(
+      email.headers?.['list-unsubscribe'],
+      email.headers?.['list-unsubscribe-post']
+    );
+    return this.unsubscribe(targets, chosenUrl);
+  }
+
+  /**
+   * POST "List-Unsubscribe=One-Click" to the sender's HTTPS endpoint (RFC 8058 section 3.1)
+   */
+  async oneClick(url: string): Promise<UnsubscribeOutcome> {
+    try {
+      const response = await safeRequest(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'List-Unsubscribe=One-Click',
+      });
+      const success = response.status >= 200 && response.status < 300;
+
+      return {
+        method: 'one_click',
+        url,
+        success,
+        responseStatus: response.status,
+        error: success ? undefined : `The unsubscribe endpoint answered HTTP ${response.status}`,
+        details: { finalUrl: response.url, redirects: response.redirects },
+      };
+    } catch (error) {
+      return {
+        method: 'one_click',
+        url,
+        success: false,
+        error: error instanceof Error ? error.message : 'One-click unsubscribe failed',
+        details: error instanceof SafeHttpError ? { code: error.code } : undefined,
+      };
+    }
+  }
+
+  /**
+   * Send the unsubscribe message a mailto: URI asks for. Requires gmail.send.
+   */
+  async sendMailto(uri: string): Promise<UnsubscribeOutcome> {
+    const target = parseMailto(uri);
+    if (!target) {
+      return { method: 'mailto', url: uri, success: false, error: 'Invalid mailto unsubscribe address' };
+    }
+
+    try {
+      const raw = buildMimeMessage({
+        from: await this.gmailService.getProfileEmail(),
+        to: target.to,
+        subject: target.subject,
+        text: target.body,
+      });
+      const messageId = await this.gmailService.sendRawMessage(toBase64Url(raw));
+
+      return { method: 'mailto', url: uri, success: true, details: { to: target.to, messageId } };
+    } catch (error: any) {
+      const scopeMissing = error?.message?.includes('insufficient authentication scopes');
+      return {
+        method: 'mailto',
+        url: uri,
+        success: false,
+        error: scopeMissing
+          ? 'Sending unsubscribe emails requires the Gmail send permission. Please re-authenticate with Google.'
+          : `Failed to send unsubscribe email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import type { GmailEnhancedService } from '@/lib/gmail/enhanced-service';
+import type { UnsubscribeHistory } from '@/lib/unsubscribe-detector';
+
+// Senders get this long to process the unsubscribe before new mail counts against them
+export const DEFAULT_SETTLE_DAYS = 2;
+// An attempt is verified once the sender has been quiet this long after unsubscribing
+export const DEFAULT_WATCH_DAYS = 14;
+export const UNSUBSCRIBE_FOLLOWUP_SCHEDULE = '0 6 * * *';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CHECKED_MESSAGES = 50;
+
+// Shared mailbox providers: watching the whole domain would catch unrelated senders
+const SHARED_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'yahoo.com',
+  'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com', 'mail.com',
+]);
+
+export type UnsubscribeEscalation = 'trash_filter' | 'spam';
+
+export type UnsubscribeFollowUpErrorCode = 'NOT_FOUND' | 'NOT_FAILED' | 'ALREADY_ESCALATED';
+
+export class UnsubscribeFollowUpError extends Error {
+  constructor(public code: UnsubscribeFollowUpErrorCode, message: string) {
+    super(message);
+    this.name = 'UnsubscribeFollowUpError';
+  }
+}
+
+export interface FollowUpOptions {
+  settleDays?: number;
+  watchDays?: number;
+  now?: Date;
+}
+
+export interface FollowUpSummary {
+  checked: number;
+  verified: number;
+  failed: number;
+  stillWatching: number;
+  errors: string[];
+}
+
+export interface EscalationResult {
+  escalation: UnsubscribeEscalation;
+  filterId?: string;
+  reportedCount?: number;
+}
+
+/**
+ * Checks whether senders actually stopped after an unsubscribe, and lets the
+ * user escalate against the ones that didn't.
+ */
+export class UnsubscribeFollowUpService {
+  private supabase: Promise<SupabaseClient>;
+
+  constructor(private gmailService: GmailEnhancedService, supabase?: SupabaseClient) {
+    this.supabase = supabase ? Promise.resolve(supabase) : createClient();
+  }
+
+  /**
+   * Settle every pending attempt whose settle period is over: failed when
+   * the sender mailed after it, verified once the watch period passed quietly
+   */
+  async verifyPending(userId: string, options: FollowUpOptions = {}): Promise<FollowUpSummary> {
+    const settleDays = options.settleDays ?? DEFAULT_SETTLE_DAYS;
+    const watchDays = Math.max(options.watchDays ?? DEFAULT_WATCH_DAYS, settleDays);
+    const now = options.now || new Date();
+    const summary: FollowUpSummary = { checked: 0, verified: 0, failed: 0, stillWatching: 0, errors: [] };
+
+    const supabase = await this.supabase;
+    const { data, error } = await supabase
+      .from('unsubscribe_history')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('verification_status', 'pending')
+      .order('attempted_at', { ascending: true });
+
+    if (error) throw error;
+
+    for (const record of (data || []) as UnsubscribeHistory[]) {
+      const start = new Date(record.confirmed_at || record.attempted_at).getTime();
+      const watchFrom = new Date(start + settleDays * DAY_MS);
+      const watchUntil = new Date(start + watchDays * DAY_MS);
+
+      if (now < watchFrom) {
+        summary.stillWatching++;
+        continue;
+      }
+
+      try {
+        summary.checked++;
+        const mail = await this.findMailSince(record, watchFrom);
+
+        if (mail.count > 0) {
+          await this.settle(record.id, 'failed', now, {
+            messages_after_unsubscribe: mail.count,
+            last_message_at: mail.lastMessageAt,
+          });
+          summary.failed++;
+        } else if (now >= watchUntil) {
+          await this.settle(record.id, 'verified', now);
+          summary.verified++;
+        } else {
+          summary.stillWatching++;
+        }
+      } catch (error) {
+        summary.errors.push(
+          `${record.sender_domain}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Act on a sender that kept mailing after a failed unsubscribe: trash its
+   * future mail with a Gmail filter (needs gmail.settings.basic), or report
+   * what it sent since unsubscribing as spam
+   */
+  async escalate(
+    userId: string,
+    historyId: string,
+    escalation: UnsubscribeEscalation,
+    options: Pick<FollowUpOptions, 'settleDays'> = {}
+  ): Promise<EscalationResult> {
+    const supabase = await this.supabase;
+    const { data: record, error } = await supabase
+      .from('unsubscribe_history')
+      .select('*')
+      .eq('id', historyId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!record) {
+      throw new UnsubscribeFollowUpError('NOT_FOUND', 'Unsubscribe attempt not found');
+    }
+    if (record.verification_status !== 'failed') {
+      throw new UnsubscribeFollowUpError('NOT_FAILED', 'Only unsubscribes that failed verification can be escalated');
+    }
+    if (record.escalation) {
+      throw new UnsubscribeFollowUpError('ALREADY_ESCALATED', `Already escalated (${record.escalation})`);
+    }
+
+    const result: EscalationResult = { escalation };
+    const updates: Record<string, unknown> = { escalation, escalated_at: new Date().toISOString() };
+
+    if (escalation === 'trash_filter') {
+      const filter = await this.gmailService.createFilter({
+        criteria: { from: watchTarget(record) },
+        action: { addLabelIds: ['TRASH'] },
+      });
+      result.filterId = filter.id || undefined;
+      updates.gmail_filter_id = filter.id || null;
+    } else {
+      const start = new Date(record.confirmed_at || record.attempted_at).getTime();
+      const watchFrom = new Date(start + (options.settleDays ?? DEFAULT_SETTLE_DAYS) * DAY_MS);
+      const { ids } = await this.findMailSince(record, watchFrom, '-in:spam');
+
+      // Recorded in the operation history, so the report can be undone
+      const report = ids.length > 0
+        ? await this.gmailService.labelEmailsWithHistory(ids, ['SPAM'])
+        : { success: true, processedCount: 0, errors: [] as string[] };
+      if (!report.success) {
+        throw new Error(`Failed to report as spam: ${report.errors?.join(', ')}`);
+      }
+      result.reportedCount = report.processedCount;
+    }
+
+    const { error: updateError } = await supabase
+      .from('unsubscribe_history')
+      .update(updates)
+      .eq('id', historyId);
+
+    if (updateError) throw updateError;
+    return result;
+  }
+
+  /**
+   * Messages from the unsubscribed sender received after a point in time,
+   * wherever they were filed
+   */
+  private async findMailSince(
+    record: Pick<UnsubscribeHistory, 'sender_domain' | 'sender_email'>,
+    since: Date,
+    extraQuery: string = ''
+  ): Promise<{ ids: string[]; count: number; lastMessageAt: string | null }> {
+    // after: is exclusive and in whole seconds, so start a second early and filter exactly below
+    const afterSeconds = Math.floor(since.getTime() / 1000) - 1;
+    const query = ['in:anywhere', `from:${watchTarget(record)}`, '-from:me', `after:${afterSeconds}`, extraQuery]
+      .filter(Boolean)
+      .join(' ');
+
+    const page = await this.gmailService.listMessageIdsPage(query, MAX_CHECKED_MESSAGES);
+    const emails = (await this.gmailService.getEmailsByIds(page.ids))
+      .filter(email => (email.timestamp ?? 0) > since.getTime());
+    const newest = Math.max(0, ...emails.map(email => email.timestamp ?? 0));
+
+    return {
+      ids: emails.map(email => email.id),
+      count: emails.length,
+      lastMessageAt: newest > 0 ? new Date(newest).toISOString() : null,
+    };
+  }
+
+  private async settle(
+    historyId: string,
+    status: 'verified' | 'failed',
+    at: Date,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    const supabase = await this.supabase;
+    const { error } = await supabase
+      .from('unsubscribe_history')
+      .update({ verification_status: status, verified_at: at.toISOString(), ...extra })
+      .eq('id', historyId);
+
+    if (error) throw error;
+  }
+}
+
+/**
+ * The sender's domain, or its exact address when the domain is a shared
+ * mailbox provider
+ */
+function watchTarget(record: Pick<UnsubscribeHistory, 'sender_domain' | 'sender_email'>): string {
+  if (!record.sender_domain || SHARED_MAIL_DOMAINS.has(record.sender_domain.toLowerCase())) {
+    const address = record.sender_email.match(/<([^>]+)>/)?.[1] || record.sender_email;
+    return address.trim();
+  }
+  return record.sender_domain;
+}
@@ -1,4 +1,6 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
+import { isValidTimeZone } from '@/lib/cron';
 
 export interface CleanupStrategy {
   auto_archive_days?: number;
@@ -64,6 +66,7 @@ export interface UserPreferences {
     show_previews?: boolean;
     default_view?: 'inbox' | 'analytics' | 'rules';
     items_per_page?: number;
+    timezone?: string; // IANA time zone, used for scheduled jobs
   };
   created_at?: string;
   updated_at?: string;
@@ -108,18 +111,25 @@ export const DEFAULT_PREFERENCES: Omit<UserPreferences, 'user_id'> = {
     show_previews: true,
     default_view: 'inbox',
     items_per_page: 50,
+    timezone: 'UTC',
   },
 };
 
 export class UserPreferencesService {
-  private supabase = createClient();
+  private supabase: Promise<SupabaseClient>;
+
+  constructor(supabase?: SupabaseClient) {
+    // Background workers pass a service-role client; requests use the cookie-bound one
+    this.supabase = supabase ? Promise.resolve(supabase) : createClient();
+  }
 
   /**
    * Get user preferences, creating defaults if none exist
    */
   async getUserPreferences(userId: string): Promise<UserPreferences> {
     try {
-      const { data, error } = await this.supabase
+      const supabase = await this.supabase;
+      const { data, error } = await supabase
         .from('user_preferences')
         .select('*')
         .eq('user_id', userId)
@@ -158,7 +168,8 @@ export class UserPreferencesService {
     preferences: Partial<Omit<UserPreferences, 'user_id' | 'created_at' | 'updated_at'>>
   ): Promise<UserPreferences> {
     try {
-      const { data, error } = await this.supabase
+      const supabase = await this.supabase;
+      const { data, error } = await supabase
         .from('user_preferences')
         .upsert({
           user_id: userId,
@@ -363,7 +374,8 @@ export class UserPreferencesService {
    */
   private async createDefaultPreferences(userId: string): Promise<UserPreferences> {
     try {
-      const { data, error } = await this.supabase
+      const supabase = await this.supabase;
+      const { data, error } = await supabase
         .from('user_preferences')
         .insert({
           user_id: userId,
@@ -478,6 +490,9 @@ export class UserPreferencesService {
       if (typeof data.ui_preferences.items_per_page === 'number') {
         validated.ui_preferences.items_per_page = Math.max(10, Math.min(200, data.ui_preferences.items_per_page));
       }
+      if (typeof data.ui_preferences.timezone === 'string' && isValidTimeZone(data.ui_preferences.timezone)) {
+        validated.ui_preferences.timezone = data.ui_preferences.timezone;
+      }
     }
 
     return validated;
@@ -42,6 +42,12 @@ export async function middleware(request: NextRequest) {
     !request.nextUrl.pathname.startsWith("/login") &&
     !request.nextUrl.pathname.startsWith("/signup") &&
     !request.nextUrl.pathname.startsWith("/auth") &&
+    // Worker tick authenticates with TASK_WORKER_SECRET instead of a session
+    !request.nextUrl.pathname.startsWith("/api/tasks/process") &&
+    // Opened by the forwarding recipient, who may not have an account; the token is the credential
+    !request.nextUrl.pathname.startsWith("/api/forwarding/verify") &&
+    // Pub/Sub push; verified by its OIDC token in the route
+    !request.nextUrl.pathname.startsWith("/api/gmail/push") &&
     request.nextUrl.pathname !== "/";
 
   if (isProtectedRoute && !user) {
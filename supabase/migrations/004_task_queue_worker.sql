@@ -0,0 +1,75 @@
+-- Background worker support for task_queue
+
+-- Worker lease, progress reporting and de-duplication
+ALTER TABLE task_queue ADD COLUMN IF NOT EXISTS locked_by VARCHAR;
+ALTER TABLE task_queue ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE task_queue ADD COLUMN IF NOT EXISTS progress JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE task_queue ADD COLUMN IF NOT EXISTS dedupe_key VARCHAR;
+
+-- Tasks that exhausted max_attempts are kept as dead letters for inspection and manual retry
+ALTER TABLE task_queue DROP CONSTRAINT IF EXISTS task_queue_status_check;
+ALTER TABLE task_queue ADD CONSTRAINT task_queue_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'dead_letter', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_task_queue_claim ON task_queue(priority DESC, scheduled_for ASC) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_task_queue_locked_until ON task_queue(locked_until) WHERE status = 'processing';
+CREATE INDEX IF NOT EXISTS idx_task_queue_user_id ON task_queue((task_data->>'user_id'));
+
+-- Only one active task per dedupe key (e.g. one queued run per scheduled job)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_queue_active_dedupe ON task_queue(dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'processing');
+
+-- Atomically claim due tasks. Uses row locks with SKIP LOCKED so concurrent workers never
+-- receive the same task; tasks whose lease expired (crashed worker) are reclaimed.
+CREATE OR REPLACE FUNCTION claim_tasks(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 5,
+  p_lock_seconds INTEGER DEFAULT 300,
+  p_task_types TEXT[] DEFAULT NULL
+)
+RETURNS SETOF task_queue AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE task_queue t
+  SET status = 'processing',
+      attempts = t.attempts + 1,
+      started_at = NOW(),
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lock_seconds)
+  WHERE t.id IN (
+    SELECT q.id FROM task_queue q
+    WHERE (
+        (q.status = 'pending' AND q.scheduled_for <= NOW())
+        OR (q.status = 'processing' AND q.locked_until < NOW())
+      )
+      AND (p_task_types IS NULL OR q.task_type = ANY(p_task_types))
+    ORDER BY q.priority DESC, q.scheduled_for ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING t.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Workers run with the service role; end users must not be able to claim tasks
+REVOKE EXECUTE ON FUNCTION claim_tasks(TEXT, INTEGER, INTEGER, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- Tasks run with the service role, so only the server may write them. Users can
+-- read their own tasks; enqueueing, cancelling and retrying go through the API.
+DROP POLICY IF EXISTS "Users can access own tasks" ON task_queue;
+CREATE POLICY "Users can view own tasks" ON task_queue
+  FOR SELECT USING (task_data->>'user_id' = auth.uid()::text);
+
+-- Keep dead letters around longer than completed tasks
+CREATE OR REPLACE FUNCTION cleanup_old_tasks()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM task_queue
+  WHERE status IN ('completed', 'cancelled')
+    AND completed_at < NOW() - INTERVAL '7 days';
+
+  DELETE FROM task_queue
+  WHERE status IN ('failed', 'dead_letter')
+    AND completed_at < NOW() - INTERVAL '30 days';
+END;
+$$ LANGUAGE plpgsql;
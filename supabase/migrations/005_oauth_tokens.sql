@@ -0,0 +1,33 @@
+-- Offline Google OAuth grants for background work
+
+CREATE TABLE user_oauth_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider VARCHAR NOT NULL DEFAULT 'google',
+
+  -- AES-256-GCM encrypted by the app (TOKEN_ENCRYPTION_KEY); never stored in plaintext
+  encrypted_refresh_token TEXT NOT NULL,
+  encrypted_access_token TEXT,
+  access_token_expires_at TIMESTAMP WITH TIME ZONE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+
+  -- 'revoked' means the grant no longer works and the user must sign in again
+  status VARCHAR NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked')),
+  last_error TEXT,
+  last_refreshed_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_user_oauth_tokens_updated_at
+  BEFORE UPDATE ON user_oauth_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the service role (token broker) may touch tokens; no user-facing policies
+ALTER TABLE user_oauth_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Jobs that cannot run until the user re-authorizes Gmail access
+ALTER TABLE scheduled_jobs DROP CONSTRAINT IF EXISTS scheduled_jobs_last_run_status_check;
+ALTER TABLE scheduled_jobs ADD CONSTRAINT scheduled_jobs_last_run_status_check
+  CHECK (last_run_status IN ('success', 'failed', 'running', 'needs_reauth'));
@@ -0,0 +1,19 @@
+-- Last processed Gmail historyId per user, for incremental sync via users.history.list
+
+CREATE TABLE gmail_sync_state (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  history_id VARCHAR NOT NULL,
+  last_synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_gmail_sync_state_updated_at
+  BEFORE UPDATE ON gmail_sync_state
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE gmail_sync_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access own sync state" ON gmail_sync_state
+  FOR ALL USING (auth.uid() = user_id);
@@ -0,0 +1,13 @@
+-- Rule conditions become a tree of all/any/none groups.
+-- Flat arrays (implicitly "all") are wrapped in a root group; the app still
+-- reads flat arrays, so rows written by older clients keep working.
+
+UPDATE user_rules
+SET conditions = jsonb_build_object('combinator', 'all', 'conditions', conditions)
+WHERE jsonb_typeof(conditions) = 'array';
+
+ALTER TABLE user_rules ADD CONSTRAINT user_rules_conditions_shape_check
+  CHECK (
+    jsonb_typeof(conditions) = 'array'
+    OR (jsonb_typeof(conditions) = 'object' AND conditions ? 'combinator' AND jsonb_typeof(conditions -> 'conditions') = 'array')
+  );
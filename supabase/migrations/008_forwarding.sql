@@ -0,0 +1,49 @@
+-- Forward rule action: verified destinations and a send log for rate limits
+
+CREATE TABLE forwarding_destinations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email VARCHAR(320) NOT NULL, -- Stored lowercase
+  status VARCHAR NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified')),
+  verification_token_hash VARCHAR, -- SHA-256 of the emailed token; cleared once verified
+  verification_sent_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, email)
+);
+
+CREATE INDEX idx_forwarding_destinations_token ON forwarding_destinations(verification_token_hash)
+  WHERE verification_token_hash IS NOT NULL;
+
+CREATE TRIGGER update_forwarding_destinations_updated_at
+  BEFORE UPDATE ON forwarding_destinations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per forwarded message. Kept separately from operation_history,
+-- which is trimmed to the latest entries, so rate limits stay accurate.
+CREATE TABLE forward_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_id VARCHAR NOT NULL, -- user_rules.id, or "notification:<id>" for realtime notification rules
+  message_id VARCHAR NOT NULL,
+  destination VARCHAR(320) NOT NULL,
+  sent_message_id VARCHAR,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Re-running a rule never forwards the same message to the same place twice
+  UNIQUE (user_id, message_id, destination)
+);
+
+CREATE INDEX idx_forward_events_rule_window ON forward_events(user_id, rule_id, created_at);
+CREATE INDEX idx_forward_events_user_window ON forward_events(user_id, created_at);
+
+-- Users may read their own rows; only the service role can verify destinations or log sends
+ALTER TABLE forwarding_destinations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forward_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own forwarding destinations" ON forwarding_destinations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own forward events" ON forward_events
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,33 @@
+-- Gmail push notifications: one users.watch registration per user, renewed by a scheduled job
+
+CREATE TABLE gmail_watches (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_address VARCHAR(320) NOT NULL, -- Stored lowercase; push payloads identify the mailbox by address
+  topic_name VARCHAR NOT NULL,
+  label_ids TEXT[],
+  expiration TIMESTAMP WITH TIME ZONE NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'stopped')),
+  last_notification_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_gmail_watches_email ON gmail_watches(email_address) WHERE status = 'active';
+CREATE INDEX idx_gmail_watches_expiration ON gmail_watches(expiration) WHERE status = 'active';
+
+CREATE TRIGGER update_gmail_watches_updated_at
+  BEFORE UPDATE ON gmail_watches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Written only by the service role (webhook and worker)
+ALTER TABLE gmail_watches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own Gmail watch" ON gmail_watches
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Built-in job type that renews the watch before its 7-day expiry
+ALTER TABLE scheduled_jobs DROP CONSTRAINT IF EXISTS scheduled_jobs_job_type_check;
+ALTER TABLE scheduled_jobs ADD CONSTRAINT scheduled_jobs_job_type_check
+  CHECK (job_type IN ('cleanup', 'rule_execution', 'analytics_collection', 'unsubscribe_scan', 'watch_renewal'));
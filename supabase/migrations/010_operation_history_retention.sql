@@ -0,0 +1,16 @@
+-- Operation history is kept for a time window (OPERATION_HISTORY_RETENTION_DAYS,
+-- default 30) instead of the latest 50 entries, and every entry can be undone
+-- within that window.
+
+CREATE INDEX IF NOT EXISTS idx_operation_history_user_timestamp
+  ON operation_history(user_id, timestamp DESC);
+
+-- Retention cleanup runs with the user's session
+CREATE POLICY "Users can delete their own operation history" ON operation_history
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Star, unstar, mark unread, trash and undo entries are now undoable
+UPDATE operation_history
+SET can_undo = true
+WHERE operation_type IN ('delete', 'mark_unread', 'star', 'unstar')
+  AND undone_at IS NULL;
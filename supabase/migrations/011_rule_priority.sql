@@ -0,0 +1,10 @@
+-- Rules run in an explicit order: highest priority first, equal priorities
+-- oldest first. A rule with stop_processing keeps the messages it matched
+-- away from every rule after it.
+
+UPDATE user_rules SET priority = 0 WHERE priority IS NULL;
+
+ALTER TABLE user_rules ALTER COLUMN priority SET NOT NULL;
+ALTER TABLE user_rules ADD COLUMN IF NOT EXISTS stop_processing BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_user_rules_priority ON user_rules(user_id, priority DESC, created_at);
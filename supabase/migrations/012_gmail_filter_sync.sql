@@ -0,0 +1,11 @@
+-- Rules can be pushed to (or imported from) native Gmail filters.
+-- Gmail filters are immutable, so a change means a new filter id. The two
+-- fingerprints record both sides at the last sync to tell which one changed.
+
+ALTER TABLE user_rules ADD COLUMN IF NOT EXISTS gmail_filter_id TEXT NULL;
+ALTER TABLE user_rules ADD COLUMN IF NOT EXISTS gmail_filter_hash TEXT NULL; -- Gmail's copy of the filter
+ALTER TABLE user_rules ADD COLUMN IF NOT EXISTS gmail_rule_hash TEXT NULL; -- The rule compiled to a filter
+ALTER TABLE user_rules ADD COLUMN IF NOT EXISTS gmail_synced_at TIMESTAMP WITH TIME ZONE NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_rules_gmail_filter
+  ON user_rules(user_id, gmail_filter_id) WHERE gmail_filter_id IS NOT NULL;
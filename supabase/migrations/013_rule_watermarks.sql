@@ -0,0 +1,5 @@
+-- Scheduled rule runs are incremental: each rule only evaluates mail that
+-- arrived (by Gmail internalDate) after its last successful run. NULL means
+-- the next run evaluates everything in scope.
+
+ALTER TABLE user_rules ADD COLUMN IF NOT EXISTS watermark_at TIMESTAMP WITH TIME ZONE NULL;
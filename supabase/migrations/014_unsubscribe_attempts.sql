@@ -0,0 +1,8 @@
+-- Unsubscribes are now executed server-side (RFC 8058 one-click POSTs and
+-- mailto messages sent through Gmail). Each attempt records the endpoint's
+-- HTTP status and any error; confirmed_at is set when the user confirms a
+-- link they had to finish in the browser.
+
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS response_status INTEGER NULL;
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS error_message TEXT NULL;
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE NULL;
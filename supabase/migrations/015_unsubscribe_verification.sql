@@ -0,0 +1,27 @@
+-- Follow-up verification of unsubscribes. A successful attempt starts out
+-- 'pending'; the unsubscribe_followup job watches the sender for mail that
+-- arrives after a settle period and marks the attempt 'verified' once the
+-- watch period passes quietly, or 'failed' as soon as mail shows up.
+
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS verification_status VARCHAR(20) NULL
+  CHECK (verification_status IN ('pending', 'verified', 'failed'));
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE NULL; -- When the status was settled
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS messages_after_unsubscribe INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS last_message_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- What the user chose to do about a sender that kept mailing
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS escalation VARCHAR(20) NULL
+  CHECK (escalation IN ('trash_filter', 'spam'));
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE NULL;
+ALTER TABLE unsubscribe_history ADD COLUMN IF NOT EXISTS gmail_filter_id VARCHAR(255) NULL;
+
+CREATE INDEX IF NOT EXISTS idx_unsubscribe_history_verification
+  ON unsubscribe_history(user_id, verification_status);
+
+-- Attempts that already succeeded get verified from now on
+UPDATE unsubscribe_history SET verification_status = 'pending'
+WHERE success = true AND verification_status IS NULL;
+
+ALTER TABLE scheduled_jobs DROP CONSTRAINT IF EXISTS scheduled_jobs_job_type_check;
+ALTER TABLE scheduled_jobs ADD CONSTRAINT scheduled_jobs_job_type_check
+  CHECK (job_type IN ('cleanup', 'rule_execution', 'analytics_collection', 'unsubscribe_scan', 'watch_renewal', 'unsubscribe_followup'));
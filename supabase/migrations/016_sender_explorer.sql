@@ -0,0 +1,7 @@
+-- sender_analytics is now filled from the mailbox by the sender collector
+-- (scheduled analytics runs and the sender explorer's refresh). The display
+-- name shown in the explorer is the one on the sender's newest message.
+
+ALTER TABLE sender_analytics ADD COLUMN IF NOT EXISTS sender_name VARCHAR NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sender_analytics_user_last_email ON sender_analytics(user_id, last_email_date DESC);
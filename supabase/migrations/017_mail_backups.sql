@@ -0,0 +1,31 @@
+-- Raw copies of messages taken before they are deleted, one mbox archive per
+-- operation. The archive itself lives on the configured storage backend
+-- (local filesystem or Supabase Storage); this table holds where it is and an
+-- index of its messages for browsing and re-import.
+
+CREATE TABLE mail_backups (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  operation_id UUID NULL REFERENCES operation_history(id) ON DELETE SET NULL,
+  operation_type VARCHAR(50) NOT NULL,
+  storage_backend VARCHAR NOT NULL CHECK (storage_backend IN ('local', 'supabase')),
+  storage_key VARCHAR NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  -- [{ id, threadId, subject, from, date, labels, offset, length, restoredMessageId? }]
+  messages JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_mail_backups_user_created ON mail_backups(user_id, created_at DESC);
+CREATE INDEX idx_mail_backups_operation ON mail_backups(operation_id) WHERE operation_id IS NOT NULL;
+
+ALTER TABLE mail_backups ENABLE ROW LEVEL SECURITY;
+
+-- Rows say where archives live, so only the server writes them (with the
+-- service role). Users can list and delete their own backups.
+CREATE POLICY "Users can view their own mail backups" ON mail_backups
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own mail backups" ON mail_backups
+  FOR DELETE USING (auth.uid() = user_id);
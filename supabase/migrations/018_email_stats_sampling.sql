@@ -0,0 +1,12 @@
+-- Size and attachment figures in email_stats are either exact (a full scan
+-- of every message's metadata) or estimated from a simple random sample of
+-- messages. Sampled rows carry the 95% margin of error of each estimate.
+-- sample_size is the number of messages whose metadata was read. Rows
+-- recorded before this migration have no method.
+
+ALTER TABLE email_stats
+  ADD COLUMN IF NOT EXISTS stats_method VARCHAR(10) NULL CHECK (stats_method IN ('sample', 'full')),
+  ADD COLUMN IF NOT EXISTS sample_size INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_size_margin BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS average_email_size_margin BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_attachment_size_margin BIGINT NOT NULL DEFAULT 0;